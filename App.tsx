@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { MapContainer, Marker } from 'react-leaflet';
+import L from 'leaflet';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
     Plus,
@@ -7,28 +8,125 @@ import {
     Users,
     X,
     Trash2,
+    Pencil,
+    Move,
+    Upload,
+    Loader2,
+    AlertTriangle,
     Menu,
     Filter,
     ArrowUpDown,
     Check,
     CheckSquare,
-    Square
+    Square,
+    Undo2,
+    Redo2,
+    Copy,
+    Vote,
+    RotateCcw,
+    Hexagon,
+    HeartHandshake,
+    Printer,
+    BarChart3,
+    MapPinned,
+    LocateFixed,
+    CloudDownload,
+    WifiOff
 } from 'lucide-react';
 import { BaseMapLayer, LocationMarker, MapClickHandler, MapSearch, MapInvalidator } from './components/MapComponents';
 import { VoterManagerModal } from './components/VoterManagerModal';
-import { LocationPoint, Voter } from './types';
+import { AnalysisPanel } from './components/AnalysisPanel';
+import { ImportModal } from './components/ImportModal';
+import { ExportMenu } from './components/ExportMenu';
+import { BackupMenu, RestoreMode } from './components/BackupMenu';
+import { SyncMenu } from './components/SyncMenu';
+import { ConfirmDialog } from './components/ConfirmDialog';
+import { UndoToast } from './components/UndoToast';
+import { CoverageBar } from './components/CoverageBar';
+import { CountModePicker } from './components/CountModePicker';
+import { DuplicatesModal } from './components/DuplicatesModal';
+import { ContactStatsSummary } from './components/ContactStatsSummary';
+import { CheckInModal } from './components/CheckInModal';
+import { ClusteredMarkers } from './components/ClusteredMarkers';
+import { DistrictsModal } from './components/DistrictsModal';
+import { TurnoutBar } from './components/TurnoutBar';
+import { AreaDrawingTools, SavedAreasLayer } from './components/DrawnAreas';
+import { VolunteersModal } from './components/VolunteersModal';
+import { SearchSettingsModal } from './components/SearchSettingsModal';
+import { RegionModal } from './components/RegionModal';
+import { RegionBoxDrawer } from './components/RegionBoxDrawer';
+import { GeocodeQueuePanel } from './components/GeocodeQueue';
+import { OfflineMapsModal } from './components/OfflineMapsModal';
+import { VolunteerRouteLayer } from './components/VolunteerRoute';
+import { ReportModal } from './components/ReportModal';
+import { StatsDashboard } from './components/StatsDashboard';
+import { DeviceSettings, mergePoints } from './services/backupService';
+import { createDefaultStorage, diffPoints, toStorageError, SyncStatus } from './services/storageService';
+import {
+    EMPTY_BOUNDARIES,
+    findBoundaryAt,
+    getDistrictStats,
+    loadDistrictBoundaries,
+    matchDistrictName,
+    saveDistrictBoundaries
+} from './services/districtService';
+import { DEFAULT_COUNT_MODE, getCountMode, getCoverage, getEnteredCount, getTotalCoverage, getVoterTotal } from './services/coverageService';
+import { createSyncStorage, loadSyncConfig, saveSyncConfig, SyncConfig } from './services/syncService';
+import {
+    HistoryCommand,
+    HISTORY_LIMIT,
+    addPointCommand,
+    addPointsCommand,
+    addVotersCommand,
+    batchCommand,
+    deletePointCommand,
+    deleteVoterCommand,
+    replacePointsCommand,
+    updatePointCommand,
+    updateVoterCommand
+} from './services/historyService';
+import { VoterDraft, loadVoterFields, saveVoterFields } from './services/voterService';
+import { createArea, isInArea, loadAreas, saveAreas } from './services/areaService';
+import { StatsFilter, describeStatsFilter, matchesStatsFilter } from './services/statsService';
+import { GeocoderConfig, loadGeocoderConfig, saveGazetteer, saveGeocoderConfig } from './services/geocoderService';
+import { loadRegion, regionFromBBox, saveRegion } from './services/regionService';
+import { GeocodeJobItem, createJobItems, loadGeocodeQueue, placePoint, saveGeocodeQueue } from './services/batchGeocodeService';
+import { getPointVolunteers, getVolunteerPoints, loadVolunteers, saveVolunteers, toggleVolunteer } from './services/volunteerService';
+import { DuplicateGroup, VoterEntry, findDuplicateGroups, findVoterMatches, mergeVoterRecords } from './services/duplicateService';
+import { STATUS_INFO, getContactStats, getPointsContactStats, logContact } from './services/contactService';
+import {
+    TURNOUT_LEVELS,
+    addTurnoutReport,
+    clearLegacyTurnout,
+    getPointTurnout,
+    getSchoolTurnout,
+    getTotalTurnout,
+    getTurnoutReset,
+    isCheckedIn,
+    loadElectionMode,
+    migrateLegacyTurnout,
+    removeTurnoutReport,
+    saveElectionMode,
+    toggleCheckIn
+} from './services/turnoutService';
+import { AreaShape, BBox, CountMode, CustomFieldDefinition, DistrictBoundaries, LocationPoint, MapRegion, ProjectSettings, SavedArea, UnplacedPoint, Volunteer, Voter, VoterStatus } from './types';
 
 const App: React.FC = () => {
-    // Initialize state from LocalStorage
-    const [points, setPoints] = useState<LocationPoint[]>(() => {
-        try {
-            const savedPoints = localStorage.getItem('populationMapPoints');
-            return savedPoints ? JSON.parse(savedPoints) : [];
-        } catch (error) {
-            console.error('Error loading points from localStorage:', error);
-            return [];
-        }
-    });
+    // Points are loaded asynchronously from the storage adapter (IndexedDB by default,
+    // wrapped with the team sync server when sync is enabled)
+    const [syncConfig, setSyncConfig] = useState<SyncConfig>(loadSyncConfig);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+    const storage = useMemo(() => {
+        const local = createDefaultStorage();
+        return syncConfig.enabled ? createSyncStorage(local, syncConfig.serverUrl, syncConfig.token) : local;
+    }, [syncConfig.enabled, syncConfig.serverUrl, syncConfig.token]);
+    const [points, setPoints] = useState<LocationPoint[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [storageError, setStorageError] = useState<string | null>(null);
+    // Last snapshot known to be written; null while loading or after a failed load
+    const persistedPointsRef = useRef<LocationPoint[] | null>(null);
+    // Set after a failed write so the next save rewrites everything instead of a diff
+    const needsFullWriteRef = useRef(false);
 
     const [tempPoint, setTempPoint] = useState<{ lat: number; lng: number } | null>(null);
     const [isSidebarOpen, setIsSidebarOpen] = useState(true);
@@ -37,24 +135,267 @@ const App: React.FC = () => {
     const [name, setName] = useState('');
     const [district, setDistrict] = useState('');
     const [count, setCount] = useState<number | ''>('');
+    const [countMode, setCountMode] = useState<CountMode>(DEFAULT_COUNT_MODE);
+
+    // Edit State (staged changes for an existing point until saved)
+    const [editDraft, setEditDraft] = useState<{
+        id: string;
+        name: string;
+        district: string;
+        count: number | '';
+        countMode: CountMode;
+        lat: number;
+        lng: number;
+    } | null>(null);
 
     // Filter State
     const [showFilters, setShowFilters] = useState(false);
     const [hiddenPointIds, setHiddenPointIds] = useState<string[]>([]);
     const [selectedDistrict, setSelectedDistrict] = useState<string>('');
+    const [selectedAreaId, setSelectedAreaId] = useState<string>('');
+    // Set by clicking a chart segment on the dashboard
+    const [statsFilter, setStatsFilter] = useState<StatsFilter | null>(null);
+    const [isDashboardOpen, setIsDashboardOpen] = useState(false);
     const filterRef = useRef<HTMLDivElement>(null);
 
+    // Import State
+    const [isImportOpen, setIsImportOpen] = useState(false);
+
     // Voter Management State
     const [selectedSchoolId, setSelectedSchoolId] = useState<string | null>(null);
+    // Voter picked from the map search, marked in the open school's list
+    const [highlightVoterId, setHighlightVoterId] = useState<string | null>(null);
+    const [voterFields, setVoterFields] = useState<CustomFieldDefinition[]>(loadVoterFields);
+    const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+
+    // Election Day State (check-ins and station reports live on the points, so they sync and are backed up)
+    const [electionMode, setElectionMode] = useState(loadElectionMode);
+    const [checkInSchoolId, setCheckInSchoolId] = useState<string | null>(null);
+    const [isResetTurnoutOpen, setIsResetTurnoutOpen] = useState(false);
+
+    // District Boundaries State (device-local, loaded from IndexedDB)
+    const [districtData, setDistrictData] = useState<DistrictBoundaries>(EMPTY_BOUNDARIES);
+    const [isDistrictsOpen, setIsDistrictsOpen] = useState(false);
+
+    // Drawn Areas State
+    const [areas, setAreas] = useState<SavedArea[]>(loadAreas);
+    const [isDrawingArea, setIsDrawingArea] = useState(false);
+    const [pendingDeleteArea, setPendingDeleteArea] = useState<SavedArea | null>(null);
+
+    // Volunteers State (assignments live on the points as `volunteerIds`)
+    const [volunteers, setVolunteers] = useState<Volunteer[]>(loadVolunteers);
+    const [isVolunteersOpen, setIsVolunteersOpen] = useState(false);
+    const [routeVolunteerId, setRouteVolunteerId] = useState<string | null>(null);
+    const [pendingDeleteVolunteer, setPendingDeleteVolunteer] = useState<Volunteer | null>(null);
+
+    // Printable Report State (the map instance is needed for its snapshot)
+    const [map, setMap] = useState<L.Map | null>(null);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+
+    // Map Search Providers State
+    const [geocoderConfig, setGeocoderConfig] = useState<GeocoderConfig>(loadGeocoderConfig);
+    const [isSearchSettingsOpen, setIsSearchSettingsOpen] = useState(false);
+
+    // Project Region State (initial map view and search area)
+    const [region, setRegion] = useState<MapRegion>(loadRegion);
+    const [isRegionOpen, setIsRegionOpen] = useState(false);
+    const [isDrawingRegion, setIsDrawingRegion] = useState(false);
+
+    // Batch Geocoding State (schools imported without coordinates; kept on this device)
+    const [geocodeQueue, setGeocodeQueue] = useState<GeocodeJobItem[]>([]);
+    const [isGeocodeQueueOpen, setIsGeocodeQueueOpen] = useState(false);
+    const [isPlacingQueued, setIsPlacingQueued] = useState(false);
+    const geocodeQueueLoadedRef = useRef(false);
+
+    // Offline Maps State (downloaded tile areas; the service worker serves them)
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [isOfflineMapsOpen, setIsOfflineMapsOpen] = useState(false);
+
+    // Undo/Redo State (every edit to `points` goes through a command)
+    const [history, setHistory] = useState<{ undo: HistoryCommand[]; redo: HistoryCommand[] }>({ undo: [], redo: [] });
+    const [undoToast, setUndoToast] = useState<{ label: string; command: HistoryCommand } | null>(null);
+    const [pendingDeletePoint, setPendingDeletePoint] = useState<LocationPoint | null>(null);
 
     const selectedSchool = useMemo(() =>
         points.find(p => p.id === selectedSchoolId),
         [points, selectedSchoolId]);
 
-    // Persist points to LocalStorage whenever they change
+    const reportStorageError = (error: unknown) => {
+        const storageErr = toStorageError(error);
+        console.error(`Storage error (${storage.name}):`, storageErr.cause ?? storageErr);
+        setStorageError(storageErr.message);
+    };
+
     useEffect(() => {
-        localStorage.setItem('populationMapPoints', JSON.stringify(points));
-    }, [points]);
+        loadGeocodeQueue()
+            .then(items => setGeocodeQueue(prev => {
+                // Schools queued before the saved queue finished loading are kept
+                const queuedIds = new Set(prev.map(item => item.point.id));
+                return [...items.filter(item => !queuedIds.has(item.point.id)), ...prev];
+            }))
+            .then(() => {
+                geocodeQueueLoadedRef.current = true;
+            })
+            // Shown like other storage failures; the saved queue is left alone rather than overwritten
+            .catch(reportStorageError);
+    }, []);
+
+    // Saved after every step so the job picks up where it left off after a reload
+    useEffect(() => {
+        if (geocodeQueueLoadedRef.current) saveGeocodeQueue(geocodeQueue).catch(reportStorageError);
+    }, [geocodeQueue]);
+
+    useEffect(() => {
+        loadDistrictBoundaries()
+            .then(setDistrictData)
+            .catch(error => console.error('Error loading district boundaries:', error));
+    }, []);
+
+    // Load points on startup and whenever the adapter changes (also migrates the legacy localStorage data)
+    useEffect(() => {
+        let cancelled = false;
+        persistedPointsRef.current = null;
+        setIsLoading(true);
+        setHistory({ undo: [], redo: [] });
+        storage.loadPoints()
+            .then(loaded => {
+                if (cancelled) return;
+                persistedPointsRef.current = loaded;
+                // Turnout kept in this browser by earlier versions is saved with the points from now on
+                const migrated = migrateLegacyTurnout(loaded);
+                if (migrated) clearLegacyTurnout();
+                setPoints(migrated ?? loaded);
+            })
+            .catch(error => {
+                if (!cancelled) reportStorageError(error);
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+            storage.dispose?.();
+        };
+    }, [storage]);
+
+    // Sync status and teammates' changes pushed by the adapter
+    useEffect(() => {
+        setSyncStatus(null);
+        return storage.subscribe?.(event => {
+            if (event.type === 'status') {
+                setSyncStatus(event.status);
+            } else if (event.type === 'warning') {
+                setStorageError(event.message);
+            } else {
+                persistedPointsRef.current = event.points;
+                setPoints(event.points);
+            }
+        });
+    }, [storage]);
+
+    const handleSyncConfigChange = (config: SyncConfig) => {
+        saveSyncConfig(config);
+        setSyncConfig(config);
+    };
+
+    const handleGeocoderConfigChange = (config: GeocoderConfig) => {
+        saveGeocoderConfig(config);
+        setGeocoderConfig(config);
+    };
+
+    const handleRegionChange = (next: MapRegion) => {
+        saveRegion(next);
+        setRegion(next);
+        // MapContainer reads center and zoom only on mount
+        const moved = next.zoom !== region.zoom || next.center.some((value, i) => value !== region.center[i]);
+        if (moved) map?.flyTo(next.center, next.zoom, { duration: 1.5 });
+    };
+
+    const handleRegionBoxDrawn = (bbox: BBox, zoom: number) => {
+        setIsDrawingRegion(false);
+        handleRegionChange(regionFromBBox(bbox, zoom, region));
+        setIsRegionOpen(true);
+    };
+
+    const handleCancelRegionBox = () => {
+        setIsDrawingRegion(false);
+        setIsRegionOpen(true);
+    };
+
+    // Persist only what changed since the last write
+    useEffect(() => {
+        const persisted = persistedPointsRef.current;
+        if (!persisted || persisted === points) return;
+        persistedPointsRef.current = points;
+
+        const write = needsFullWriteRef.current
+            ? storage.replaceAll(points)
+            : storage.applyChanges(diffPoints(persisted, points));
+        needsFullWriteRef.current = false;
+
+        write
+            .then(() => setStorageError(null))
+            .catch(error => {
+                needsFullWriteRef.current = true;
+                reportStorageError(error);
+            });
+    }, [points, storage]);
+
+    // --- Undo/Redo ---
+
+    const executeCommand = (command: HistoryCommand) => {
+        setPoints(prev => command.apply(prev));
+        command.onApply?.();
+        setHistory(prev => ({ undo: [...prev.undo, command].slice(-HISTORY_LIMIT), redo: [] }));
+    };
+
+    const undo = () => {
+        const command = history.undo[history.undo.length - 1];
+        if (!command) return;
+        setPoints(prev => command.revert(prev));
+        command.onRevert?.();
+        setHistory(prev => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, command] }));
+        setUndoToast(null);
+    };
+
+    const redo = () => {
+        const command = history.redo[history.redo.length - 1];
+        if (!command) return;
+        setPoints(prev => command.apply(prev));
+        command.onApply?.();
+        setHistory(prev => ({ undo: [...prev.undo, command], redo: prev.redo.slice(0, -1) }));
+    };
+
+    // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y); text fields keep their own undo.
+    // Matched on `code` so the shortcuts also work with the Arabic keyboard layout.
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            const target = e.target as HTMLElement;
+            if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+            if (e.code === 'KeyZ' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((e.code === 'KeyZ' && e.shiftKey) || e.code === 'KeyY') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [history]);
+
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
 
     // Click outside to close filter dropdown
     useEffect(() => {
@@ -68,7 +409,13 @@ const App: React.FC = () => {
     }, []);
 
     const handleMapClick = (lat: number, lng: number) => {
+        if (isDrawingArea || isDrawingRegion || isPlacingQueued) return;
         setTempPoint({ lat, lng });
+        // Fill the district from the boundaries unless the user typed their own
+        const boundary = findBoundaryAt(lat, lng, districtData.boundaries);
+        if (boundary) {
+            setDistrict(prev => !prev.trim() || districtData.boundaries.some(b => b.name === prev) ? boundary.name : prev);
+        }
         if (window.innerWidth < 768) {
             setIsSidebarOpen(true);
         }
@@ -76,7 +423,7 @@ const App: React.FC = () => {
 
     const handleAddPoint = (e: React.FormEvent) => {
         e.preventDefault();
-        if (!tempPoint || !name || !district || count === '') return;
+        if (!tempPoint || !name || !district || (count === '' && countMode !== 'derived')) return;
 
         const newPoint: LocationPoint = {
             id: crypto.randomUUID(),
@@ -85,20 +432,73 @@ const App: React.FC = () => {
             name,
             district,
             count: Number(count),
+            countMode,
             createdAt: Date.now(),
         };
 
-        setPoints(prev => [...prev, newPoint]);
+        executeCommand(addPointCommand(newPoint));
 
         // Reset form
         setName('');
         setDistrict('');
         setCount('');
+        setCountMode(DEFAULT_COUNT_MODE);
         setTempPoint(null);
     };
 
+    const deletePoint = (point: LocationPoint) => {
+        const command = deletePointCommand(point, points.findIndex(p => p.id === point.id));
+        executeCommand(command);
+        setUndoToast({ label: command.label, command });
+        if (editDraft?.id === point.id) setEditDraft(null);
+    };
+
+    // Schools with a voter roll ask first: that's the data that takes hours to re-enter
     const handleDeletePoint = (id: string) => {
-        setPoints(prev => prev.filter(p => p.id !== id));
+        const point = points.find(p => p.id === id);
+        if (!point) return;
+        if (point.voters?.length) {
+            setPendingDeletePoint(point);
+        } else {
+            deletePoint(point);
+        }
+    };
+
+    const startEditing = (point: LocationPoint) => {
+        setEditDraft({
+            id: point.id,
+            name: point.name,
+            district: point.district,
+            count: point.count,
+            countMode: getCountMode(point),
+            lat: point.lat,
+            lng: point.lng
+        });
+    };
+
+    const cancelEditing = () => {
+        setEditDraft(null);
+    };
+
+    const handleUpdatePoint = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editDraft || !editDraft.name || !editDraft.district || (editDraft.count === '' && editDraft.countMode !== 'derived')) return;
+
+        const before = points.find(p => p.id === editDraft.id);
+        if (!before) return;
+
+        // Keep id, createdAt and voters intact; only the editable fields change
+        executeCommand(updatePointCommand(before, {
+            ...before,
+            name: editDraft.name,
+            district: editDraft.district,
+            count: Number(editDraft.count),
+            countMode: editDraft.countMode,
+            lat: editDraft.lat,
+            lng: editDraft.lng,
+            updatedAt: Date.now()
+        }));
+        setEditDraft(null);
     };
 
     const cancelSelection = () => {
@@ -106,53 +506,268 @@ const App: React.FC = () => {
         setName('');
         setDistrict('');
         setCount('');
+        setCountMode(DEFAULT_COUNT_MODE);
     };
 
     // --- Voter Management Handlers ---
 
-    const handleAddVoter = (fullName: string, phoneNumber: string) => {
+    const handleAddVoter = (draft: VoterDraft) => {
         if (!selectedSchoolId) return;
 
         const newVoter: Voter = {
+            ...draft,
             id: crypto.randomUUID(),
-            fullName,
-            phoneNumber,
             createdAt: Date.now()
         };
 
-        setPoints(prev => prev.map(p => {
-            if (p.id === selectedSchoolId) {
-                const updatedVoters = p.voters ? [...p.voters, newVoter] : [newVoter];
-                // Update the count to reflect actual voters if we want, or keep manual count?
-                // The user request said "add unlimited number of person names", implies managing a list.
-                // Let's NOT auto-update the main "count" field yet as that might be "expected capacity" or similar.
-                // Or maybe it should sync? The prompt said "add names of voters in this center ONLY".
-                // Usually "count" in these maps is "Total Voters". 
-                // Let's auto-increment the count when adding a voter if it was manual before?
-                // Actually, let's just add the voter to the list for now. 
-                // Wait, if I add a voter, the count should probably reflect the list size if the list is the source of truth.
-                // But initially the user adds a number manually. 
-                // Let's just track the list side-by-side for now to be safe, or maybe the count IS the list length?
-                // Users might want to just set a number without adding names.
-                // Let's keep `count` independent for now unless user asks to sync.
-                return { ...p, voters: updatedVoters };
-            }
-            return p;
-        }));
+        // `count` is left alone: how it relates to the roll is the school's `countMode`
+        executeCommand(addVotersCommand(selectedSchoolId, [newVoter]));
+    };
+
+    const handleUpdateVoter = (voterId: string, draft: VoterDraft) => {
+        const before = selectedSchool?.voters?.find(v => v.id === voterId);
+        if (!selectedSchoolId || !before) return;
+        executeCommand(updateVoterCommand(selectedSchoolId, before, { ...before, ...draft, updatedAt: Date.now() }));
+    };
+
+    const handleLogContact = (voterId: string, status: VoterStatus, note: string) => {
+        const before = selectedSchool?.voters?.find(v => v.id === voterId);
+        if (!selectedSchoolId || !before) return;
+        const command = updateVoterCommand(selectedSchoolId, before, logContact(before, status, note));
+        executeCommand({ ...command, label: `تسجيل "${STATUS_INFO[status].label}" لـ ${before.fullName}` });
+    };
+
+    // --- District Boundary Handlers ---
+
+    const handleDistrictDataChange = (next: DistrictBoundaries) => {
+        setDistrictData(next);
+        saveDistrictBoundaries(next).catch(reportStorageError);
+    };
+
+    // Only the schools whose name changes are updated, so sync re-sends just those
+    const handleUnifyDistrictNames = () => {
+        const commands = points.flatMap(p => {
+            const boundary = matchDistrictName(p.district, districtData);
+            return boundary && boundary.name !== p.district ? [updatePointCommand(p, { ...p, district: boundary.name })] : [];
+        });
+        if (commands.length > 0) executeCommand(batchCommand('توحيد أسماء المناطق', commands));
+    };
+
+    // --- Drawn Area Handlers ---
+
+    const handleAreasChange = (next: SavedArea[]) => {
+        saveAreas(next);
+        setAreas(next);
+    };
+
+    const handleCreateArea = (areaName: string, shape: AreaShape) => {
+        handleAreasChange([...areas, createArea(areaName, shape, areas)]);
+    };
+
+    const handleRenameArea = (areaId: string, areaName: string) => {
+        handleAreasChange(areas.map(a => a.id === areaId ? { ...a, name: areaName } : a));
+    };
+
+    const handleDeleteArea = (area: SavedArea) => {
+        handleAreasChange(areas.filter(a => a.id !== area.id));
+        if (selectedAreaId === area.id) setSelectedAreaId('');
+    };
+
+    // --- Volunteer Handlers ---
+
+    const handleVolunteersChange = (next: Volunteer[]) => {
+        saveVolunteers(next);
+        setVolunteers(next);
+    };
+
+    const handleToggleAssignment = (pointId: string, volunteerId: string) => {
+        const point = points.find(p => p.id === pointId);
+        if (point) executeCommand(updatePointCommand(point, toggleVolunteer(point, volunteerId)));
+    };
+
+    // Functional, since undo and redo may run from a handler holding an older list
+    const updateVolunteers = (update: (prev: Volunteer[]) => Volunteer[]) => {
+        setVolunteers(prev => {
+            const next = update(prev);
+            saveVolunteers(next);
+            return next;
+        });
+    };
+
+    // One command for the volunteer and their assignments, so undo never brings
+    // back assignments to a volunteer who is no longer on the list
+    const handleDeleteVolunteer = (volunteer: Volunteer) => {
+        if (routeVolunteerId === volunteer.id) setRouteVolunteerId(null);
+        const index = volunteers.findIndex(v => v.id === volunteer.id);
+        const commands = getVolunteerPoints(points, volunteer.id).map(p => updatePointCommand(p, toggleVolunteer(p, volunteer.id)));
+        executeCommand({
+            ...batchCommand(`حذف المتطوع ${volunteer.name}`, commands),
+            onApply: () => updateVolunteers(prev => prev.filter(v => v.id !== volunteer.id)),
+            onRevert: () => updateVolunteers(prev => {
+                if (prev.some(v => v.id === volunteer.id)) return prev;
+                const next = [...prev];
+                next.splice(index < 0 ? next.length : index, 0, volunteer);
+                return next;
+            }),
+        });
+    };
+
+    // --- Election Day Handlers ---
+
+    const handleElectionModeChange = (enabled: boolean) => {
+        setElectionMode(enabled);
+        saveElectionMode(enabled);
+    };
+
+    const handleToggleCheckIn = (schoolId: string, voterId: string) => {
+        const point = points.find(p => p.id === schoolId);
+        const voter = point?.voters?.find(v => v.id === voterId);
+        if (!point || !voter) return;
+        const command = updatePointCommand(point, toggleCheckIn(point, voterId));
+        executeCommand({ ...command, label: isCheckedIn(point, voterId) ? `إلغاء تسجيل تصويت ${voter.fullName}` : `تسجيل تصويت ${voter.fullName}` });
+    };
+
+    const handleAddTurnoutReport = (schoolId: string, at: number, count: number) => {
+        const point = points.find(p => p.id === schoolId);
+        if (point) executeCommand(updatePointCommand(point, addTurnoutReport(point, at, count)));
+    };
+
+    const handleRemoveTurnoutReport = (schoolId: string, reportId: string) => {
+        const point = points.find(p => p.id === schoolId);
+        if (point) executeCommand(updatePointCommand(point, removeTurnoutReport(point, reportId)));
+    };
+
+    // Only schools with check-ins or reports change
+    const handleResetTurnout = () => {
+        const commands = getTurnoutReset(points).map(({ before, after }) => updatePointCommand(before, after));
+        if (commands.length > 0) executeCommand(batchCommand('تصفير بيانات الاقتراع', commands));
+        setIsResetTurnoutOpen(false);
+    };
+
+    const voterIndex = (schoolId: string, voterId: string) =>
+        points.find(p => p.id === schoolId)?.voters?.findIndex(v => v.id === voterId) ?? -1;
+
+    const handleRemoveDuplicate = ({ voter, schoolId }: VoterEntry) => {
+        const command = deleteVoterCommand(schoolId, voter, voterIndex(schoolId, voter.id));
+        executeCommand(command);
+        setUndoToast({ label: command.label, command });
+    };
+
+    // Keeps one record (filled in from the others) and deletes the rest as a single undo step
+    const handleMergeDuplicates = (group: DuplicateGroup, keepVoterId: string) => {
+        const keep = group.entries.find(e => e.voter.id === keepVoterId);
+        if (!keep) return;
+        const others = group.entries.filter(e => e !== keep);
+        const merged = { ...mergeVoterRecords(keep.voter, others.map(e => e.voter)), updatedAt: Date.now() };
+
+        // Highest index first, so each deletion's recorded index is still right when undone
+        const deletions = others
+            .map(e => ({ ...e, index: voterIndex(e.schoolId, e.voter.id) }))
+            .sort((a, b) => b.index - a.index)
+            .map(e => deleteVoterCommand(e.schoolId, e.voter, e.index));
+
+        const command = batchCommand(`دمج ${others.length + 1} سجلات لـ ${keep.voter.fullName}`, [
+            updateVoterCommand(keep.schoolId, keep.voter, merged),
+            ...deletions,
+        ]);
+        executeCommand(command);
+        setUndoToast({ label: command.label, command });
+    };
+
+    const handleVoterFieldsChange = (fields: CustomFieldDefinition[]) => {
+        saveVoterFields(fields);
+        setVoterFields(fields);
     };
 
     const handleDeleteVoter = (voterId: string) => {
-        if (!selectedSchoolId) return;
+        const voters = selectedSchool?.voters || [];
+        const index = voters.findIndex(v => v.id === voterId);
+        if (!selectedSchoolId || index === -1) return;
+
+        const command = deleteVoterCommand(selectedSchoolId, voters[index], index);
+        executeCommand(command);
+        setUndoToast({ label: command.label, command });
+    };
+
+    // --- Import Handlers ---
+
+    // Schools without a typed district take the one of the boundary they fall in
+    const withBoundaryDistrict = (p: LocationPoint) => p.district.trim()
+        ? p
+        : { ...p, district: findBoundaryAt(p.lat, p.lng, districtData.boundaries)?.name ?? '' };
+
+    const handleImportPoints = (newPoints: LocationPoint[]) => {
+        executeCommand(addPointsCommand(newPoints.map(withBoundaryDistrict), `استيراد ${newPoints.length} موقع`));
+    };
+
+    // --- Batch Geocoding Handlers ---
+
+    const handleQueueUnplaced = (unplaced: UnplacedPoint[]) => {
+        setGeocodeQueue(prev => [...prev, ...createJobItems(unplaced)]);
+        setIsGeocodeQueueOpen(true);
+    };
+
+    const handleUpdateQueued = (pointId: string, update: Pick<GeocodeJobItem, 'status' | 'candidates'>) => {
+        setGeocodeQueue(prev => prev.map(item => item.point.id === pointId ? { ...item, ...update } : item));
+    };
 
-        setPoints(prev => prev.map(p => {
-            if (p.id === selectedSchoolId) {
-                return {
-                    ...p,
-                    voters: p.voters?.filter(v => v.id !== voterId) || []
-                };
+    const handlePlaceQueued = (item: GeocodeJobItem, lat: number, lng: number) => {
+        executeCommand(addPointCommand(withBoundaryDistrict(placePoint(item.point, lat, lng))));
+        handleRemoveQueued(item.point.id);
+    };
+
+    const handleRemoveQueued = (pointId: string) => {
+        setGeocodeQueue(prev => prev.filter(item => item.point.id !== pointId));
+    };
+
+    const handleImportVoters = (schoolId: string, newVoters: Voter[]) => {
+        executeCommand(addVotersCommand(schoolId, newVoters));
+    };
+
+    // --- Backup Handlers ---
+
+    const handleRestore = (restoredPoints: LocationPoint[], settings: ProjectSettings, device: DeviceSettings | null, mode: RestoreMode) => {
+        setEditDraft(null);
+        setTempPoint(null);
+        const nextPoints = mode === 'replace' ? restoredPoints : mergePoints(points, restoredPoints);
+        if (!persistedPointsRef.current) {
+            // Persistence was disabled by a failed load; start over from the restored data
+            persistedPointsRef.current = nextPoints;
+            storage.replaceAll(nextPoints)
+                .then(() => setStorageError(null))
+                .catch(reportStorageError);
+        }
+        executeCommand(replacePointsCommand(points, nextPoints, 'استعادة نسخة احتياطية'));
+        if (mode === 'replace') {
+            setSelectedDistrict(settings.selectedDistrict);
+            setSelectedAreaId('');
+            setStatsFilter(null);
+            setHiddenPointIds(settings.hiddenPointIds);
+            handleVoterFieldsChange(settings.voterFields);
+            handleAreasChange(settings.areas);
+            handleVolunteersChange(settings.volunteers);
+            setRouteVolunteerId(null);
+            handleRegionChange(settings.region);
+            if (device) {
+                handleDistrictDataChange(device.districts);
+                handleGeocoderConfigChange(device.geocoder);
+                saveGazetteer(device.gazetteer).catch(reportStorageError);
             }
-            return p;
-        }));
+        } else {
+            const knownIds = new Set(voterFields.map(f => f.id));
+            handleVoterFieldsChange([...voterFields, ...settings.voterFields.filter(f => !knownIds.has(f.id))]);
+            const knownAreaIds = new Set(areas.map(a => a.id));
+            handleAreasChange([...areas, ...settings.areas.filter(a => !knownAreaIds.has(a.id))]);
+            const knownVolunteerIds = new Set(volunteers.map(v => v.id));
+            handleVolunteersChange([...volunteers, ...settings.volunteers.filter(v => !knownVolunteerIds.has(v.id))]);
+            if (device) {
+                const knownBoundaryIds = new Set(districtData.boundaries.map(b => b.id));
+                handleDistrictDataChange({
+                    boundaries: [...districtData.boundaries, ...device.districts.boundaries.filter(b => !knownBoundaryIds.has(b.id))],
+                    aliases: { ...device.districts.aliases, ...districtData.aliases },
+                });
+            }
+        }
     };
 
     // --- Filter Logic (Merged List) ---
@@ -163,11 +778,17 @@ const App: React.FC = () => {
         return Array.from(new Set<string>(districts)).sort((a, b) => a.localeCompare(b));
     }, [points]);
 
-    // Filter points by selected district first
+    const selectedArea = areas.find(a => a.id === selectedAreaId);
+    const routeVolunteer = volunteers.find(v => v.id === routeVolunteerId);
+
+    // Filter points by selected district, drawn area and chart segment first
     const districtFilteredPoints = useMemo(() => {
-        if (!selectedDistrict) return points;
-        return points.filter(p => p.district === selectedDistrict);
-    }, [points, selectedDistrict]);
+        return points.filter(p =>
+            (!selectedDistrict || p.district === selectedDistrict) &&
+            (!selectedArea || isInArea(p.lat, p.lng, selectedArea)) &&
+            (!statsFilter || matchesStatsFilter(p, statsFilter))
+        );
+    }, [points, selectedDistrict, selectedArea, statsFilter]);
 
     // Sort points alphabetically for the filter list (based on district filter)
     const sortedPointsForFilter = useMemo(() => {
@@ -190,11 +811,30 @@ const App: React.FC = () => {
         }
     };
 
+    const duplicateGroupCount = useMemo(() => findDuplicateGroups(points).length, [points]);
+
     // Apply filters (district + hidden)
-    const filteredPoints = districtFilteredPoints.filter(p => !hiddenPointIds.includes(p.id));
+    const filteredPoints = useMemo(
+        () => districtFilteredPoints.filter(p => !hiddenPointIds.includes(p.id)),
+        [districtFilteredPoints, hiddenPointIds]
+    );
 
-    // Default Center - Baghdad, Iraq
-    const defaultCenter: [number, number] = [33.3152, 44.3661];
+    // Which filters the printed report reflects
+    const reportScopeLabel = [
+        selectedDistrict && `المنطقة: ${selectedDistrict}`,
+        selectedArea && `المنطقة المرسومة: ${selectedArea.name}`,
+        statsFilter && describeStatsFilter(statsFilter),
+        filteredPoints.length < districtFilteredPoints.length && `${districtFilteredPoints.length - filteredPoints.length} مدرسة مخفية`,
+    ].filter(Boolean).join(' • ') || 'جميع المدارس';
+    const districtStats = useMemo(
+        () => [...getDistrictStats(filteredPoints, districtData).values()],
+        [filteredPoints, districtData]
+    );
+    const totalCoverage = getTotalCoverage(filteredPoints);
+    const totalContactStats = getPointsContactStats(filteredPoints);
+    const totalTurnout = getTotalTurnout(filteredPoints);
+    const checkInSchool = points.find(p => p.id === checkInSchoolId) ?? null;
+    const editingPoint = editDraft && points.find(p => p.id === editDraft.id);
 
     return (
         <div className="flex flex-col h-screen w-screen overflow-hidden bg-slate-100 font-sans text-slate-900 selection:bg-emerald-100 selection:text-emerald-900">
@@ -218,8 +858,164 @@ const App: React.FC = () => {
                         <p className="text-xs text-slate-400 font-semibold mt-1 tracking-wide">نظام التوزيع السكاني التفاعلي</p>
                     </div>
                 </div>
+
+                {/* Data Toolbar */}
+                <div className="mr-auto flex items-center gap-2">
+                    <div className="flex items-center">
+                        <motion.button
+                            whileTap={{ scale: 0.9 }}
+                            onClick={undo}
+                            disabled={history.undo.length === 0}
+                            className="p-3 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50/80 rounded-2xl transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                            title={history.undo.length ? `تراجع: ${history.undo[history.undo.length - 1].label} (Ctrl+Z)` : 'تراجع'}
+                        >
+                            <Undo2 className="w-5 h-5" />
+                        </motion.button>
+                        <motion.button
+                            whileTap={{ scale: 0.9 }}
+                            onClick={redo}
+                            disabled={history.redo.length === 0}
+                            className="p-3 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50/80 rounded-2xl transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                            title={history.redo.length ? `إعادة: ${history.redo[history.redo.length - 1].label} (Ctrl+Shift+Z)` : 'إعادة'}
+                        >
+                            <Redo2 className="w-5 h-5" />
+                        </motion.button>
+                    </div>
+                    <motion.button
+                        whileTap={{ scale: 0.9 }}
+                        whileHover={{ scale: 1.05 }}
+                        onClick={() => handleElectionModeChange(!electionMode)}
+                        className={`p-3 rounded-2xl transition-colors shadow-sm hover:shadow flex items-center gap-2 text-sm font-bold ${electionMode ? 'bg-violet-600 text-white' : 'text-slate-500 hover:text-violet-600 hover:bg-violet-50/80'}`}
+                        title="وضع يوم الاقتراع"
+                    >
+                        <Vote className="w-5 h-5" />
+                        <span className="hidden sm:inline">يوم الاقتراع</span>
+                    </motion.button>
+                    <motion.button
+                        whileTap={{ scale: 0.9 }}
+                        whileHover={{ scale: 1.05 }}
+                        onClick={() => setIsImportOpen(true)}
+                        className="p-3 text-slate-500 hover:text-sky-600 hover:bg-sky-50/80 rounded-2xl transition-colors shadow-sm hover:shadow flex items-center gap-2 text-sm font-bold"
+                        title="استيراد"
+                    >
+                        <Upload className="w-5 h-5" />
+                        <span className="hidden sm:inline">استيراد</span>
+                    </motion.button>
+                    {geocodeQueue.length > 0 && (
+                        <motion.button
+                            whileTap={{ scale: 0.9 }}
+                            whileHover={{ scale: 1.05 }}
+                            onClick={() => setIsGeocodeQueueOpen(!isGeocodeQueueOpen)}
+                            className={`relative p-3 rounded-2xl transition-colors shadow-sm hover:shadow ${isGeocodeQueueOpen ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-emerald-600 hover:bg-emerald-50/80'}`}
+                            title="تحديد مواقع المدارس المستوردة بدون إحداثيات"
+                        >
+                            <LocateFixed className="w-5 h-5" />
+                            <span className="absolute -top-1 -left-1 min-w-[18px] h-[18px] px-1 rounded-full bg-emerald-500 text-white text-[10px] font-bold flex items-center justify-center">
+                                {geocodeQueue.length}
+                            </span>
+                        </motion.button>
+                    )}
+                    <motion.button
+                        whileTap={{ scale: 0.9 }}
+                        whileHover={{ scale: 1.05 }}
+                        onClick={() => setIsDuplicatesOpen(true)}
+                        className="relative p-3 text-slate-500 hover:text-amber-600 hover:bg-amber-50/80 rounded-2xl transition-colors shadow-sm hover:shadow"
+                        title="الناخبين المكررين"
+                    >
+                        <Copy className="w-5 h-5" />
+                        {duplicateGroupCount > 0 && (
+                            <span className="absolute -top-1 -left-1 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-white text-[10px] font-bold flex items-center justify-center">
+                                {duplicateGroupCount}
+                            </span>
+                        )}
+                    </motion.button>
+                    <motion.button
+                        whileTap={{ scale: 0.9 }}
+                        whileHover={{ scale: 1.05 }}
+                        onClick={() => setIsVolunteersOpen(true)}
+                        className="p-3 text-slate-500 hover:text-rose-600 hover:bg-rose-50/80 rounded-2xl transition-colors shadow-sm hover:shadow"
+                        title="المتطوعون"
+                    >
+                        <HeartHandshake className="w-5 h-5" />
+                    </motion.button>
+                    <motion.button
+                        whileTap={{ scale: 0.9 }}
+                        whileHover={{ scale: 1.05 }}
+                        onClick={() => setIsDistrictsOpen(true)}
+                        className="p-3 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50/80 rounded-2xl transition-colors shadow-sm hover:shadow"
+                        title="حدود المناطق"
+                    >
+                        <Hexagon className="w-5 h-5" />
+                    </motion.button>
+                    <motion.button
+                        whileTap={{ scale: 0.9 }}
+                        whileHover={{ scale: 1.05 }}
+                        onClick={() => setIsReportOpen(true)}
+                        disabled={points.length === 0}
+                        className="p-3 text-slate-500 hover:text-slate-800 hover:bg-slate-100/80 rounded-2xl transition-colors shadow-sm hover:shadow disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="تقرير للطباعة"
+                    >
+                        <Printer className="w-5 h-5" />
+                    </motion.button>
+                    <motion.button
+                        whileTap={{ scale: 0.9 }}
+                        whileHover={{ scale: 1.05 }}
+                        onClick={() => setIsRegionOpen(true)}
+                        className="p-3 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50/80 rounded-2xl transition-colors shadow-sm hover:shadow flex items-center gap-2 text-sm font-bold"
+                        title="منطقة المشروع"
+                    >
+                        <MapPinned className="w-5 h-5" />
+                        <span className="hidden lg:inline">{region.name}</span>
+                    </motion.button>
+                    <motion.button
+                        whileTap={{ scale: 0.9 }}
+                        whileHover={{ scale: 1.05 }}
+                        onClick={() => setIsOfflineMapsOpen(true)}
+                        className={`p-3 rounded-2xl transition-colors shadow-sm hover:shadow flex items-center gap-2 text-sm font-bold ${isOnline ? 'text-slate-500 hover:text-sky-600 hover:bg-sky-50/80' : 'bg-amber-100 text-amber-700'}`}
+                        title={isOnline ? 'الخرائط دون اتصال' : 'غير متصل: تعمل الخريطة في المناطق المنزّلة فقط'}
+                    >
+                        {isOnline ? <CloudDownload className="w-5 h-5" /> : <WifiOff className="w-5 h-5" />}
+                        {!isOnline && <span className="hidden sm:inline">غير متصل</span>}
+                    </motion.button>
+                    <ExportMenu points={points} filteredPoints={filteredPoints} voterFields={voterFields} />
+                    <BackupMenu
+                        points={points}
+                        settings={{ selectedDistrict, hiddenPointIds, voterFields, areas, volunteers, region }}
+                        device={{ districts: districtData, geocoder: geocoderConfig }}
+                        onRestore={handleRestore}
+                    />
+                    <SyncMenu
+                        config={syncConfig}
+                        status={syncStatus}
+                        onConfigChange={handleSyncConfigChange}
+                        onSyncNow={() => storage.syncNow?.()}
+                    />
+                </div>
             </header>
 
+            {/* Storage Error Banner */}
+            <AnimatePresence>
+                {storageError && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        className="bg-rose-50 border-b border-rose-100 text-rose-700 z-20 overflow-hidden"
+                    >
+                        <div className="px-6 py-3 flex items-center gap-3 text-sm font-medium">
+                            <AlertTriangle className="w-5 h-5 shrink-0" />
+                            <span className="flex-1">{storageError}</span>
+                            <button
+                                onClick={() => setStorageError(null)}
+                                className="p-1.5 text-rose-400 hover:text-rose-600 hover:bg-rose-100 rounded-full transition-colors"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
             {/* Main Content */}
             <div className="flex flex-1 relative overflow-hidden">
 
@@ -292,17 +1088,22 @@ const App: React.FC = () => {
                                             <label className="text-xs font-bold text-slate-500 mr-1 uppercase tracking-wider">عدد الناخبين</label>
                                             <input
                                                 type="number"
-                                                required
+                                                required={countMode !== 'derived'}
+                                                disabled={countMode === 'derived'}
                                                 min="0"
-                                                value={count}
+                                                value={countMode === 'derived' ? '' : count}
                                                 onChange={(e) => {
                                                     const val = e.target.value;
                                                     setCount(val === '' ? '' : Number(val));
                                                 }}
-                                                placeholder="0"
-                                                className="w-full px-5 py-3.5 bg-slate-50 border-0 rounded-2xl focus:ring-2 focus:ring-emerald-500/20 focus:bg-white text-slate-700 font-medium transition-all placeholder:text-slate-300 text-sm shadow-inner"
+                                                placeholder={countMode === 'derived' ? 'يحسب من قائمة الأسماء' : '0'}
+                                                className="w-full px-5 py-3.5 bg-slate-50 border-0 rounded-2xl focus:ring-2 focus:ring-emerald-500/20 focus:bg-white text-slate-700 font-medium transition-all placeholder:text-slate-300 text-sm shadow-inner disabled:opacity-60"
                                             />
                                         </div>
+                                        <div className="space-y-1.5">
+                                            <label className="text-xs font-bold text-slate-500 mr-1 uppercase tracking-wider">طريقة العد</label>
+                                            <CountModePicker value={countMode} onChange={setCountMode} />
+                                        </div>
                                         <motion.button
                                             whileHover={{ scale: 1.02 }}
                                             whileTap={{ scale: 0.98 }}
@@ -335,6 +1136,9 @@ const App: React.FC = () => {
                             </motion.button>
                         )}
 
+                        {/* AI Analysis (runs on the currently filtered points) */}
+                        <AnalysisPanel points={filteredPoints} selectedDistrict={[selectedDistrict, selectedArea?.name].filter(Boolean).join(' / ')} />
+
                         {/* Filters & List Header */}
                         <div className="flex items-end justify-between px-1">
                             <div>
@@ -343,11 +1147,50 @@ const App: React.FC = () => {
                                     إجمالي المواقع: <span className="text-emerald-600">{filteredPoints.length}</span>
                                 </p>
                                 <p className="text-xs font-semibold text-slate-400 mt-0.5">
-                                    إجمالي الناخبين: <span className="text-emerald-600">{filteredPoints.reduce((sum, p) => sum + p.count, 0).toLocaleString()}</span>
+                                    إجمالي الناخبين: <span className="text-emerald-600">{filteredPoints.reduce((sum, p) => sum + getVoterTotal(p), 0).toLocaleString()}</span>
                                 </p>
+                                {totalCoverage && (
+                                    <div className="mt-2 w-44" title="الأسماء المدخلة مقابل العدد المتوقع">
+                                        <CoverageBar coverage={totalCoverage} />
+                                    </div>
+                                )}
+                                {totalContactStats.total > 0 && (
+                                    <ContactStatsSummary stats={totalContactStats} className="mt-2" />
+                                )}
+                                {statsFilter && (
+                                    <span className="mt-2 inline-flex items-center gap-1.5 max-w-[220px] px-2.5 py-1 rounded-lg bg-sky-50 text-[11px] font-bold text-sky-700">
+                                        <BarChart3 className="w-3.5 h-3.5 shrink-0" />
+                                        <span className="truncate">{describeStatsFilter(statsFilter)}</span>
+                                        <button onClick={() => setStatsFilter(null)} className="p-0.5 hover:text-rose-500 transition-colors" title="إلغاء التصفية">
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                )}
+                                {electionMode && (
+                                    <div className="mt-2 w-44 flex items-center gap-2">
+                                        <TurnoutBar turnout={totalTurnout} />
+                                        <button
+                                            onClick={() => setIsResetTurnoutOpen(true)}
+                                            className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                                            title="تصفير بيانات الاقتراع"
+                                        >
+                                            <RotateCcw className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                )}
                             </div>
 
-                            <div className="relative" ref={filterRef}>
+                            <div className="relative flex gap-2" ref={filterRef}>
+                                <motion.button
+                                    whileHover={{ scale: 1.05 }}
+                                    whileTap={{ scale: 0.95 }}
+                                    onClick={() => setIsDashboardOpen(true)}
+                                    disabled={points.length === 0}
+                                    className="p-2.5 rounded-xl transition-colors bg-white text-slate-400 border border-slate-200 hover:border-sky-400 hover:text-sky-600 shadow-sm disabled:opacity-40"
+                                    title="لوحة الإحصائيات"
+                                >
+                                    <BarChart3 className="w-5 h-5" />
+                                </motion.button>
                                 <motion.button
                                     whileHover={{ scale: 1.05 }}
                                     whileTap={{ scale: 0.95 }}
@@ -392,6 +1235,22 @@ const App: React.FC = () => {
                                                         ))}
                                                     </select>
                                                 </div>
+                                                {/* Drawn Area Filter Dropdown */}
+                                                {areas.length > 0 && (
+                                                    <div className="space-y-1.5 mt-3">
+                                                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">المنطقة المرسومة</label>
+                                                        <select
+                                                            value={selectedAreaId}
+                                                            onChange={(e) => setSelectedAreaId(e.target.value)}
+                                                            className="w-full px-4 py-2.5 bg-slate-50 border-0 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:bg-white text-slate-700 font-medium transition-all text-sm shadow-inner cursor-pointer"
+                                                        >
+                                                            <option value="">بدون تحديد</option>
+                                                            {areas.map(a => (
+                                                                <option key={a.id} value={a.id}>{a.name}</option>
+                                                            ))}
+                                                        </select>
+                                                    </div>
+                                                )}
                                             </div>
                                             <div className="overflow-y-auto p-3 space-y-1 custom-scrollbar">
                                                 {sortedPointsForFilter.length === 0 ? (
@@ -412,7 +1271,7 @@ const App: React.FC = () => {
                                                                     <div className="flex justify-between items-center gap-2">
                                                                         <span className="font-bold text-slate-700 text-sm truncate">{point.name}</span>
                                                                         <span className="font-bold text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-lg text-[10px] whitespace-nowrap">
-                                                                            {point.count.toLocaleString()}
+                                                                            {getVoterTotal(point).toLocaleString()}
                                                                         </span>
                                                                     </div>
                                                                     <div className="text-slate-400 text-[11px] mt-0.5 flex items-center gap-1.5">
@@ -434,7 +1293,17 @@ const App: React.FC = () => {
                         {/* List Items - Premium Cards */}
                         <motion.div layout className="space-y-4 pb-12">
                             <AnimatePresence mode='popLayout'>
-                                {points.length === 0 ? (
+                                {isLoading ? (
+                                    <motion.div
+                                        initial={{ opacity: 0 }}
+                                        animate={{ opacity: 1 }}
+                                        exit={{ opacity: 0 }}
+                                        className="flex items-center justify-center gap-2 py-16 text-slate-400 text-sm font-medium"
+                                    >
+                                        <Loader2 className="w-5 h-5 animate-spin text-emerald-500" />
+                                        جاري تحميل البيانات...
+                                    </motion.div>
+                                ) : points.length === 0 ? (
                                     <motion.div
                                         initial={{ opacity: 0, scale: 0.9 }}
                                         animate={{ opacity: 1, scale: 1 }}
@@ -457,14 +1326,108 @@ const App: React.FC = () => {
                                         تم إخفاء جميع النقاط من العرض
                                     </motion.div>
                                 ) : (
-                                    filteredPoints.map((point) => (
+                                    filteredPoints.map((point) => editDraft?.id === point.id ? (
+                                        <motion.div
+                                            layout
+                                            initial={{ opacity: 0, y: 20 }}
+                                            animate={{ opacity: 1, y: 0 }}
+                                            exit={{ opacity: 0, x: -100, transition: { duration: 0.2 } }}
+                                            key={point.id}
+                                            className="relative bg-white rounded-3xl p-5 shadow-xl shadow-amber-900/5 border border-amber-200 overflow-hidden"
+                                        >
+                                            <div className="absolute top-0 right-0 w-1.5 h-full bg-gradient-to-b from-amber-400 to-orange-500"></div>
+                                            <div className="flex justify-between items-center mb-4">
+                                                <h2 className="font-extrabold text-slate-800 flex items-center gap-2 text-base">
+                                                    <div className="bg-amber-100/60 p-1.5 rounded-lg text-amber-600">
+                                                        <Pencil className="w-4 h-4" />
+                                                    </div>
+                                                    تعديل الموقع
+                                                </h2>
+                                                <button
+                                                    onClick={cancelEditing}
+                                                    className="text-slate-300 hover:text-rose-500 hover:bg-rose-50 p-1.5 rounded-full transition-colors"
+                                                >
+                                                    <X className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                            <form onSubmit={handleUpdatePoint} className="space-y-3">
+                                                <div className="space-y-1">
+                                                    <label className="text-xs font-bold text-slate-500 mr-1 uppercase tracking-wider">اسم المدرسة</label>
+                                                    <input
+                                                        type="text"
+                                                        required
+                                                        value={editDraft.name}
+                                                        onChange={(e) => setEditDraft({ ...editDraft, name: e.target.value })}
+                                                        className="w-full px-4 py-2.5 bg-slate-50 border-0 rounded-xl focus:ring-2 focus:ring-amber-500/20 focus:bg-white text-slate-700 font-medium transition-all text-sm shadow-inner"
+                                                    />
+                                                </div>
+                                                <div className="grid grid-cols-2 gap-3">
+                                                    <div className="space-y-1">
+                                                        <label className="text-xs font-bold text-slate-500 mr-1 uppercase tracking-wider">المنطقة</label>
+                                                        <input
+                                                            type="text"
+                                                            required
+                                                            value={editDraft.district}
+                                                            onChange={(e) => setEditDraft({ ...editDraft, district: e.target.value })}
+                                                            className="w-full px-4 py-2.5 bg-slate-50 border-0 rounded-xl focus:ring-2 focus:ring-amber-500/20 focus:bg-white text-slate-700 font-medium transition-all text-sm shadow-inner"
+                                                        />
+                                                    </div>
+                                                    <div className="space-y-1">
+                                                        <label className="text-xs font-bold text-slate-500 mr-1 uppercase tracking-wider">عدد الناخبين</label>
+                                                        <input
+                                                            type="number"
+                                                            required={editDraft.countMode !== 'derived'}
+                                                            disabled={editDraft.countMode === 'derived'}
+                                                            min="0"
+                                                            value={editDraft.countMode === 'derived' ? getEnteredCount(point) : editDraft.count}
+                                                            onChange={(e) => {
+                                                                const val = e.target.value;
+                                                                setEditDraft({ ...editDraft, count: val === '' ? '' : Number(val) });
+                                                            }}
+                                                            className="w-full px-4 py-2.5 bg-slate-50 border-0 rounded-xl focus:ring-2 focus:ring-amber-500/20 focus:bg-white text-slate-700 font-medium transition-all text-sm shadow-inner disabled:opacity-60"
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <div className="space-y-1">
+                                                    <label className="text-xs font-bold text-slate-500 mr-1 uppercase tracking-wider">طريقة العد</label>
+                                                    <CountModePicker
+                                                        value={editDraft.countMode}
+                                                        onChange={(mode) => setEditDraft({ ...editDraft, countMode: mode })}
+                                                    />
+                                                </div>
+                                                <div className="flex items-center gap-2 text-[11px] text-slate-400 bg-slate-50 rounded-xl px-3 py-2">
+                                                    <Move className="w-3.5 h-3.5 text-amber-500 shrink-0" />
+                                                    <span>اسحب العلامة على الخريطة لتغيير الموقع</span>
+                                                    <span className="mr-auto font-mono" dir="ltr">{editDraft.lat.toFixed(5)}, {editDraft.lng.toFixed(5)}</span>
+                                                </div>
+                                                <div className="flex gap-2">
+                                                    <motion.button
+                                                        whileHover={{ scale: 1.02 }}
+                                                        whileTap={{ scale: 0.98 }}
+                                                        type="submit"
+                                                        className="flex-1 bg-gradient-to-r from-amber-500 to-orange-500 text-white font-bold py-2.5 px-4 rounded-xl shadow-lg shadow-amber-500/20 flex justify-center items-center gap-2 text-sm"
+                                                    >
+                                                        <Check className="w-4 h-4" />
+                                                        حفظ التعديلات
+                                                    </motion.button>
+                                                    <button
+                                                        type="button"
+                                                        onClick={cancelEditing}
+                                                        className="px-4 py-2.5 rounded-xl text-sm font-bold text-slate-500 bg-slate-100 hover:bg-slate-200 transition-colors"
+                                                    >
+                                                        إلغاء
+                                                    </button>
+                                                </div>
+                                            </form>
+                                        </motion.div>
+                                    ) : (
                                         <motion.div
                                             layout
                                             initial={{ opacity: 0, y: 20 }}
                                             animate={{ opacity: 1, y: 0 }}
                                             exit={{ opacity: 0, x: -100, transition: { duration: 0.2 } }}
                                             key={point.id}
-                                            onClick={() => setSelectedSchoolId(point.id)}
+                                            onClick={() => electionMode ? setCheckInSchoolId(point.id) : setSelectedSchoolId(point.id)}
                                             className="group relative bg-white rounded-3xl p-5 shadow-sm hover:shadow-xl hover:shadow-emerald-900/5 border border-slate-100/80 hover:border-emerald-500/30 transition-all cursor-pointer hover:scale-[1.02]"
                                         >
                                             <div className="flex justify-between items-start">
@@ -475,28 +1438,71 @@ const App: React.FC = () => {
                                                             <MapPin className="w-3.5 h-3.5 text-slate-400" />
                                                             {point.district || '—'}
                                                         </span>
+                                                        {getPointVolunteers(point, volunteers).length > 0 && (
+                                                            <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-rose-50 text-[11px] font-bold text-rose-600 min-w-0">
+                                                                <HeartHandshake className="w-3.5 h-3.5 shrink-0" />
+                                                                <span className="truncate">{getPointVolunteers(point, volunteers).map(v => v.name).join('، ')}</span>
+                                                            </span>
+                                                        )}
                                                     </div>
                                                     <div className="flex items-center gap-2">
                                                         <div className="h-2 w-2 rounded-full bg-emerald-500 ring-4 ring-emerald-100"></div>
                                                         <span className="text-2xl font-black text-slate-900 tracking-tight">
-                                                            {point.count.toLocaleString()}
+                                                            {getVoterTotal(point).toLocaleString()}
+                                                        </span>
+                                                        <span className="font-medium text-slate-400 text-xs self-end mb-1.5">
+                                                            {getCountMode(point) === 'derived' ? 'اسم في السجل' : 'ناخب'}
                                                         </span>
-                                                        <span className="font-medium text-slate-400 text-xs self-end mb-1.5">ناخب</span>
                                                     </div>
+                                                    <CoverageBar coverage={getCoverage(point)} className="mt-3" />
+                                                    {point.voters?.length ? (
+                                                        <ContactStatsSummary stats={getContactStats(point.voters)} className="mt-2" />
+                                                    ) : null}
+                                                    {electionMode && (
+                                                        <TurnoutBar turnout={getPointTurnout(point, getSchoolTurnout(point))} className="mt-3" />
+                                                    )}
                                                 </div>
 
-                                                <motion.button
-                                                    whileHover={{ scale: 1.1, backgroundColor: "#f43f5e", color: "white" }}
-                                                    whileTap={{ scale: 0.9 }}
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleDeletePoint(point.id);
-                                                    }}
-                                                    className="text-slate-300 p-3 rounded-2xl opacity-0 group-hover:opacity-100 scale-90 transition-all shadow-sm"
-                                                    title="حذف"
-                                                >
-                                                    <Trash2 className="w-5 h-5" />
-                                                </motion.button>
+                                                <div className="flex flex-col gap-1">
+                                                    <motion.button
+                                                        whileHover={{ scale: 1.1, backgroundColor: "#f43f5e", color: "white" }}
+                                                        whileTap={{ scale: 0.9 }}
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleDeletePoint(point.id);
+                                                        }}
+                                                        className="text-slate-300 p-3 rounded-2xl opacity-0 group-hover:opacity-100 scale-90 transition-all shadow-sm"
+                                                        title="حذف"
+                                                    >
+                                                        <Trash2 className="w-5 h-5" />
+                                                    </motion.button>
+                                                    <motion.button
+                                                        whileHover={{ scale: 1.1, backgroundColor: "#f59e0b", color: "white" }}
+                                                        whileTap={{ scale: 0.9 }}
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            startEditing(point);
+                                                        }}
+                                                        className="text-slate-300 p-3 rounded-2xl opacity-0 group-hover:opacity-100 scale-90 transition-all shadow-sm"
+                                                        title="تعديل"
+                                                    >
+                                                        <Pencil className="w-5 h-5" />
+                                                    </motion.button>
+                                                    {electionMode && (
+                                                        <motion.button
+                                                            whileHover={{ scale: 1.1, backgroundColor: "#10b981", color: "white" }}
+                                                            whileTap={{ scale: 0.9 }}
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                setSelectedSchoolId(point.id);
+                                                            }}
+                                                            className="text-slate-300 p-3 rounded-2xl opacity-0 group-hover:opacity-100 scale-90 transition-all shadow-sm"
+                                                            title="سجل الناخبين"
+                                                        >
+                                                            <Users className="w-5 h-5" />
+                                                        </motion.button>
+                                                    )}
+                                                </div>
                                             </div>
                                         </motion.div>
                                     ))
@@ -509,25 +1515,99 @@ const App: React.FC = () => {
                 {/* Map Area */}
                 <main className="flex-1 relative z-0 bg-slate-200/50">
                     <MapContainer
-                        center={defaultCenter}
-                        zoom={11}
+                        ref={setMap}
+                        center={region.center}
+                        zoom={region.zoom}
                         scrollWheelZoom={true}
                         className="w-full h-full outline-none z-0"
                     >
-                        <BaseMapLayer />
+                        <BaseMapLayer points={filteredPoints} districtStats={districtStats} />
                         <MapInvalidator trigger={isSidebarOpen} />
                         <MapClickHandler onMapClick={handleMapClick} />
-                        <MapSearch />
+                        <MapSearch
+                            config={geocoderConfig}
+                            region={region}
+                            points={points}
+                            onSelectVoter={(schoolId, voterId) => {
+                                setSelectedSchoolId(schoolId);
+                                setHighlightVoterId(voterId);
+                            }}
+                            onOpenSettings={() => setIsSearchSettingsOpen(true)}
+                        />
+                        <SavedAreasLayer
+                            areas={areas}
+                            points={points}
+                            selectedAreaId={selectedAreaId}
+                            interactive={!isDrawingArea && !isDrawingRegion && !isPlacingQueued}
+                            onSelect={setSelectedAreaId}
+                            onRename={handleRenameArea}
+                            onDelete={setPendingDeleteArea}
+                        />
+                        {routeVolunteer && (
+                            <VolunteerRouteLayer
+                                volunteer={routeVolunteer}
+                                points={getVolunteerPoints(points, routeVolunteer.id)}
+                                onClose={() => setRouteVolunteerId(null)}
+                            />
+                        )}
+                        {isGeocodeQueueOpen && geocodeQueue.length > 0 && (
+                            <GeocodeQueuePanel
+                                items={geocodeQueue}
+                                config={geocoderConfig}
+                                region={region}
+                                onUpdate={handleUpdateQueued}
+                                onPlace={handlePlaceQueued}
+                                onRemove={handleRemoveQueued}
+                                onPlacingChange={setIsPlacingQueued}
+                                onClose={() => setIsGeocodeQueueOpen(false)}
+                            />
+                        )}
+                        {isDrawingRegion && (
+                            <RegionBoxDrawer onDone={handleRegionBoxDrawn} onCancel={handleCancelRegionBox} />
+                        )}
+                        <AreaDrawingTools
+                            areaCount={areas.length}
+                            onDrawingChange={setIsDrawingArea}
+                            onCreate={handleCreateArea}
+                        />
+
+                        {editDraft && editingPoint && (
+                            <LocationMarker
+                                point={{ ...editingPoint, lat: editDraft.lat, lng: editDraft.lng }}
+                                onDragEnd={(lat, lng) => setEditDraft(prev => prev && { ...prev, lat, lng })}
+                            />
+                        )}
 
-                        {filteredPoints.map(point => (
-                            <LocationMarker key={point.id} point={point} />
-                        ))}
+                        {/* The school being moved stays out of clusters so it can be dragged */}
+                        <ClusteredMarkers
+                            points={filteredPoints.filter(p => p.id !== editDraft?.id)}
+                            renderMarker={(point, showLabel) => (
+                                <LocationMarker
+                                    point={point}
+                                    showLabel={showLabel}
+                                    turnout={electionMode ? getPointTurnout(point, getSchoolTurnout(point)) : undefined}
+                                />
+                            )}
+                        />
 
                         {tempPoint && (
                             <Marker position={[tempPoint.lat, tempPoint.lng]} opacity={0.6}></Marker>
                         )}
                     </MapContainer>
 
+                    {/* Turnout Legend */}
+                    {electionMode && (
+                        <div className="absolute bottom-6 left-6 z-[900] bg-white/90 backdrop-blur-md rounded-2xl shadow-xl ring-1 ring-slate-900/5 px-4 py-3 space-y-1.5" dir="rtl">
+                            <div className="text-xs font-black text-slate-700 mb-1">نسبة المشاركة</div>
+                            {TURNOUT_LEVELS.map(level => (
+                                <div key={level.label} className="flex items-center gap-2 text-[11px] text-slate-500">
+                                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: level.color }} />
+                                    {level.label}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Mobile Sidebar Toggle */}
                     {!isSidebarOpen && (
                         <motion.button
@@ -547,11 +1627,196 @@ const App: React.FC = () => {
             {/* Voter Manager Modal */}
             <VoterManagerModal
                 isOpen={!!selectedSchoolId}
-                onClose={() => setSelectedSchoolId(null)}
+                onClose={() => {
+                    setSelectedSchoolId(null);
+                    setHighlightVoterId(null);
+                }}
                 schoolName={selectedSchool?.name || ''}
                 voters={selectedSchool?.voters || []}
+                voterFields={voterFields}
                 onAddVoter={handleAddVoter}
+                onUpdateVoter={handleUpdateVoter}
                 onDeleteVoter={handleDeleteVoter}
+                onVoterFieldsChange={handleVoterFieldsChange}
+                onLogContact={handleLogContact}
+                findDuplicates={(draft, excludeVoterId) => findVoterMatches(draft, points, excludeVoterId)}
+                highlightVoterId={highlightVoterId}
+            />
+
+            {/* Project-wide Duplicates Report */}
+            <DuplicatesModal
+                isOpen={isDuplicatesOpen}
+                onClose={() => setIsDuplicatesOpen(false)}
+                points={points}
+                onMerge={handleMergeDuplicates}
+                onRemove={handleRemoveDuplicate}
+            />
+
+            {/* Import Modal */}
+            <ImportModal
+                isOpen={isImportOpen}
+                onClose={() => setIsImportOpen(false)}
+                points={points}
+                onImportPoints={handleImportPoints}
+                onQueueUnplaced={handleQueueUnplaced}
+                onImportVoters={handleImportVoters}
+            />
+
+            {/* District Boundaries & Name Mapping */}
+            <DistrictsModal
+                isOpen={isDistrictsOpen}
+                onClose={() => setIsDistrictsOpen(false)}
+                points={points}
+                data={districtData}
+                onChange={handleDistrictDataChange}
+                onUnifyNames={handleUnifyDistrictNames}
+            />
+
+            {/* Statistics Dashboard */}
+            <StatsDashboard
+                isOpen={isDashboardOpen}
+                onClose={() => setIsDashboardOpen(false)}
+                points={filteredPoints}
+                onSelectDistrict={setSelectedDistrict}
+                onFilter={setStatsFilter}
+            />
+
+            {/* Project Region */}
+            <RegionModal
+                isOpen={isRegionOpen}
+                onClose={() => setIsRegionOpen(false)}
+                region={region}
+                onChange={handleRegionChange}
+                onDrawBox={() => {
+                    setIsRegionOpen(false);
+                    setIsDrawingRegion(true);
+                }}
+                map={map}
+            />
+
+            {/* Offline Maps */}
+            <OfflineMapsModal
+                isOpen={isOfflineMapsOpen}
+                onClose={() => setIsOfflineMapsOpen(false)}
+                map={map}
+                isOnline={isOnline}
+                defaultName={region.name}
+            />
+
+            {/* Map Search Settings */}
+            <SearchSettingsModal
+                isOpen={isSearchSettingsOpen}
+                onClose={() => setIsSearchSettingsOpen(false)}
+                config={geocoderConfig}
+                onChange={handleGeocoderConfigChange}
+            />
+
+            {/* Printable Report */}
+            <ReportModal
+                isOpen={isReportOpen}
+                onClose={() => setIsReportOpen(false)}
+                points={filteredPoints}
+                scopeLabel={reportScopeLabel}
+                map={map}
+            />
+
+            {/* Volunteers & Visiting Routes */}
+            <VolunteersModal
+                isOpen={isVolunteersOpen}
+                onClose={() => setIsVolunteersOpen(false)}
+                volunteers={volunteers}
+                points={points}
+                onVolunteersChange={handleVolunteersChange}
+                onDeleteVolunteer={setPendingDeleteVolunteer}
+                onToggleAssignment={handleToggleAssignment}
+                onShowRoute={setRouteVolunteerId}
+                onOpenVoters={(pointId) => {
+                    setIsVolunteersOpen(false);
+                    setSelectedSchoolId(pointId);
+                }}
+            />
+
+            {/* Election Day Check-in */}
+            <CheckInModal
+                isOpen={!!checkInSchool}
+                onClose={() => setCheckInSchoolId(null)}
+                point={checkInSchool}
+                turnout={checkInSchool ? getSchoolTurnout(checkInSchool) : { checkIns: {}, reports: [] }}
+                onToggleCheckIn={(voterId) => checkInSchoolId && handleToggleCheckIn(checkInSchoolId, voterId)}
+                onAddReport={(at, count) => checkInSchoolId && handleAddTurnoutReport(checkInSchoolId, at, count)}
+                onRemoveReport={(reportId) => checkInSchoolId && handleRemoveTurnoutReport(checkInSchoolId, reportId)}
+            />
+
+            <ConfirmDialog
+                isOpen={isResetTurnoutOpen}
+                title="تصفير بيانات الاقتراع؟"
+                message="سيتم حذف جميع تسجيلات الحضور والأعداد المدخلة لكل المدارس استعداداً لانتخابات جديدة. لا تتأثر سجلات الناخبين وحالات التواصل. يمكن التراجع عن التصفير."
+                confirmLabel="تصفير"
+                onConfirm={handleResetTurnout}
+                onCancel={() => setIsResetTurnoutOpen(false)}
+            />
+
+            {/* Delete Confirmation (schools with a voter roll) */}
+            <ConfirmDialog
+                isOpen={!!pendingDeletePoint}
+                title="حذف المدرسة؟"
+                message={pendingDeletePoint && (
+                    <>
+                        سيتم حذف <span className="font-bold text-slate-700">{pendingDeletePoint.name}</span> مع{' '}
+                        <span className="font-bold text-rose-600">{pendingDeletePoint.voters?.length.toLocaleString()}</span> ناخب مسجل فيها.
+                        يمكنك التراجع عن الحذف لاحقاً.
+                    </>
+                )}
+                confirmLabel="حذف"
+                onConfirm={() => {
+                    if (pendingDeletePoint) deletePoint(pendingDeletePoint);
+                    setPendingDeletePoint(null);
+                }}
+                onCancel={() => setPendingDeletePoint(null)}
+            />
+
+            <ConfirmDialog
+                isOpen={!!pendingDeleteArea}
+                title="حذف المنطقة المرسومة؟"
+                message={pendingDeleteArea && (
+                    <>
+                        سيتم حذف حدود <span className="font-bold text-slate-700">{pendingDeleteArea.name}</span> فقط، ولن تتأثر المدارس الواقعة داخلها.
+                    </>
+                )}
+                confirmLabel="حذف"
+                onConfirm={() => {
+                    if (pendingDeleteArea) handleDeleteArea(pendingDeleteArea);
+                    setPendingDeleteArea(null);
+                }}
+                onCancel={() => setPendingDeleteArea(null)}
+            />
+
+            <ConfirmDialog
+                isOpen={!!pendingDeleteVolunteer}
+                title="حذف المتطوع؟"
+                message={pendingDeleteVolunteer && (
+                    <>
+                        سيتم حذف <span className="font-bold text-slate-700">{pendingDeleteVolunteer.name}</span> من قائمة المتطوعين وإلغاء تكليفه بـ{' '}
+                        <span className="font-bold text-rose-600">{getVolunteerPoints(points, pendingDeleteVolunteer.id).length}</span> مدرسة.
+                    </>
+                )}
+                confirmLabel="حذف"
+                onConfirm={() => {
+                    if (pendingDeleteVolunteer) handleDeleteVolunteer(pendingDeleteVolunteer);
+                    setPendingDeleteVolunteer(null);
+                }}
+                onCancel={() => setPendingDeleteVolunteer(null)}
+            />
+
+            {/* Undo Toast (after deletions) */}
+            <UndoToast
+                toast={undoToast}
+                onUndo={() => {
+                    // Only meaningful while the deletion is still the latest edit
+                    if (undoToast && history.undo[history.undo.length - 1] === undoToast.command) undo();
+                    setUndoToast(null);
+                }}
+                onDismiss={() => setUndoToast(null)}
             />
         </div>
     );
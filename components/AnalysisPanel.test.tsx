@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { makePoint } from '../test/fixtures';
+import { AnalysisClient } from '../services/geminiService';
+import { downloadFile } from '../services/exportService';
+import { AnalysisPanel } from './AnalysisPanel';
+
+vi.mock('../services/exportService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../services/exportService')>(),
+  downloadFile: vi.fn(),
+}));
+
+const points = [makePoint('a', { count: 120 }), makePoint('b', { count: 30 })];
+
+// A client whose replies the test hands out one at a time
+const deferredClient = () => {
+  const pending: { resolve: (text: string) => void; reject: (error: Error) => void }[] = [];
+  const client: AnalysisClient = {
+    generateContent: () => new Promise((resolve, reject) => {
+      pending.push({ resolve: text => resolve({ text }), reject });
+    }),
+  };
+  return { client, pending };
+};
+
+const analyze = () => fireEvent.click(screen.getByRole('button', { name: /تحليل التوزيع/ }));
+
+describe('AnalysisPanel', () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('shows the loading state and then the report', async () => {
+    const { client, pending } = deferredClient();
+    render(<AnalysisPanel points={points} client={client} />);
+
+    analyze();
+    const button = screen.getByRole('button', { name: /جاري التحليل/ });
+    expect(button).toHaveProperty('disabled', true);
+
+    await act(async () => pending[0].resolve('أكبر كثافة في الكرادة'));
+    expect(screen.getByText('أكبر كثافة في الكرادة')).toBeTruthy();
+    expect(screen.getByRole('button', { name: /تحليل التوزيع/ })).toHaveProperty('disabled', false);
+  });
+
+  it('shows the error when the analysis fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client, pending } = deferredClient();
+    render(<AnalysisPanel points={points} client={client} />);
+
+    analyze();
+    await act(async () => pending[0].reject(new Error('offline')));
+    expect(screen.getByText(/حدث خطأ أثناء محاولة تحليل البيانات/)).toBeTruthy();
+  });
+
+  it('can not analyze without points', () => {
+    render(<AnalysisPanel points={[]} client={deferredClient().client} />);
+    expect(screen.getByRole('button', { name: /تحليل التوزيع/ })).toHaveProperty('disabled', true);
+  });
+
+  it('keeps every report in a saved history that survives a reload', async () => {
+    const { client, pending } = deferredClient();
+    render(<AnalysisPanel points={points} selectedDistrict="الكرادة" client={client} />);
+
+    analyze();
+    await act(async () => pending[0].resolve('التقرير الأول'));
+    analyze();
+    await act(async () => pending[1].resolve('التقرير الثاني'));
+
+    const saved = JSON.parse(localStorage.getItem('populationMapAnalysisHistory')!);
+    expect(saved.map((r: { content: string }) => r.content)).toEqual(['التقرير الثاني', 'التقرير الأول']);
+    expect(saved[0]).toMatchObject({ pointCount: 2, totalVoters: 150, district: 'الكرادة' });
+
+    cleanup();
+    render(<AnalysisPanel points={points} client={client} />);
+    fireEvent.click(screen.getByTitle('السجل'));
+    expect(screen.getAllByTitle('حذف')).toHaveLength(2);
+
+    fireEvent.click(screen.getAllByTitle('حذف')[0]);
+    await waitFor(() => expect(screen.getAllByTitle('حذف')).toHaveLength(1));
+    expect(JSON.parse(localStorage.getItem('populationMapAnalysisHistory')!)).toHaveLength(1);
+  });
+
+  it('copies and saves the active report', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    const { client, pending } = deferredClient();
+    render(<AnalysisPanel points={points} client={client} />);
+
+    analyze();
+    await act(async () => pending[0].resolve('نص التقرير'));
+
+    await act(async () => fireEvent.click(screen.getByTitle('نسخ')));
+    expect(writeText).toHaveBeenCalledWith('نص التقرير');
+
+    fireEvent.click(screen.getByTitle('حفظ'));
+    expect(downloadFile).toHaveBeenCalledTimes(1);
+    const [content, fileName, mimeType] = vi.mocked(downloadFile).mock.calls[0];
+    expect(content).toContain('جميع المناطق • المواقع: 2 • الناخبين: 150');
+    expect(content).toContain('نص التقرير');
+    expect(fileName).toMatch(/^analysis-.*\.txt$/);
+    expect(mimeType).toBe('text/plain;charset=utf-8');
+  });
+});
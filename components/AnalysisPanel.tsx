@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Sparkles, Loader2, Copy, Download, Trash2, History, ChevronDown, AlertTriangle, Check } from 'lucide-react';
+import { AnalysisClient, analyzePopulationDistribution } from '../services/geminiService';
+import { downloadFile } from '../services/exportService';
+import { getVoterTotal } from '../services/coverageService';
+import { AnalysisReport, LocationPoint } from '../types';
+
+const HISTORY_STORAGE_KEY = 'populationMapAnalysisHistory';
+
+interface AnalysisPanelProps {
+    points: LocationPoint[];
+    selectedDistrict?: string;
+    // Optional client override (e.g. a local mock); defaults to the live Gemini API
+    client?: AnalysisClient;
+}
+
+const formatTimestamp = (timestamp: number) =>
+    new Date(timestamp).toLocaleString('ar-IQ', { dateStyle: 'medium', timeStyle: 'short' });
+
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ points, selectedDistrict, client }) => {
+    const [history, setHistory] = useState<AnalysisReport[]>(() => {
+        try {
+            const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
+            return saved ? JSON.parse(saved) : [];
+        } catch (error) {
+            console.error('Error loading analysis history from localStorage:', error);
+            return [];
+        }
+    });
+    const [activeReportId, setActiveReportId] = useState<string | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [showHistory, setShowHistory] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+    }, [history]);
+
+    const activeReport = history.find(r => r.id === activeReportId) || null;
+
+    const handleAnalyze = async () => {
+        setIsAnalyzing(true);
+        setError(null);
+        try {
+            const content = await analyzePopulationDistribution(points, client);
+            const report: AnalysisReport = {
+                id: crypto.randomUUID(),
+                content,
+                createdAt: Date.now(),
+                pointCount: points.length,
+                totalVoters: points.reduce((sum, p) => sum + getVoterTotal(p), 0),
+                district: selectedDistrict || undefined
+            };
+            setHistory(prev => [report, ...prev]);
+            setActiveReportId(report.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsAnalyzing(false);
+        }
+    };
+
+    const handleCopy = async (report: AnalysisReport) => {
+        try {
+            await navigator.clipboard.writeText(report.content);
+            setCopiedId(report.id);
+            setTimeout(() => setCopiedId(null), 2000);
+        } catch (err) {
+            console.error('Clipboard error:', err);
+        }
+    };
+
+    const handleSave = (report: AnalysisReport) => {
+        const header = `تحليل توزيع الناخبين - ${formatTimestamp(report.createdAt)}\n` +
+            `المنطقة: ${report.district || 'جميع المناطق'} • المواقع: ${report.pointCount} • الناخبين: ${report.totalVoters}\n\n`;
+        downloadFile(
+            header + report.content,
+            `analysis-${new Date(report.createdAt).toISOString().slice(0, 16).replace(/[:T]/g, '-')}.txt`,
+            'text/plain;charset=utf-8'
+        );
+    };
+
+    const handleDeleteReport = (id: string) => {
+        setHistory(prev => prev.filter(r => r.id !== id));
+        if (activeReportId === id) setActiveReportId(null);
+    };
+
+    return (
+        <div className="bg-white border border-violet-100 rounded-3xl p-5 shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="font-extrabold text-slate-800 flex items-center gap-3 text-base">
+                    <div className="bg-violet-100/60 p-2 rounded-xl text-violet-600">
+                        <Sparkles className="w-5 h-5" />
+                    </div>
+                    التحليل الذكي
+                </h3>
+                {history.length > 0 && (
+                    <button
+                        onClick={() => setShowHistory(!showHistory)}
+                        className={`p-2 rounded-xl transition-colors flex items-center gap-1 text-xs font-bold ${showHistory ? 'bg-violet-600 text-white' : 'text-slate-400 hover:text-violet-600 hover:bg-violet-50'}`}
+                        title="السجل"
+                    >
+                        <History className="w-4 h-4" />
+                        {history.length}
+                    </button>
+                )}
+            </div>
+
+            <p className="text-xs text-slate-400 font-medium">
+                تحليل {points.length} موقع{selectedDistrict ? ` في ${selectedDistrict}` : ''} حسب التصفية الحالية
+            </p>
+
+            <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={handleAnalyze}
+                disabled={isAnalyzing || points.length === 0}
+                className="w-full bg-gradient-to-r from-violet-500 to-indigo-600 text-white font-bold py-3 px-5 rounded-2xl shadow-lg shadow-violet-500/20 flex justify-center items-center gap-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {isAnalyzing ? (
+                    <>
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        جاري التحليل...
+                    </>
+                ) : (
+                    <>
+                        <Sparkles className="w-4 h-4" />
+                        تحليل التوزيع
+                    </>
+                )}
+            </motion.button>
+
+            {error && (
+                <div className="flex items-start gap-2 bg-rose-50 text-rose-600 text-xs font-medium p-3 rounded-xl">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {/* Active Report */}
+            <AnimatePresence>
+                {activeReport && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                        className="bg-slate-50 rounded-2xl p-4 space-y-3"
+                    >
+                        <div className="flex items-center justify-between">
+                            <span className="text-[11px] font-bold text-slate-400">{formatTimestamp(activeReport.createdAt)}</span>
+                            <div className="flex gap-1">
+                                <button onClick={() => handleCopy(activeReport)} className="p-1.5 text-slate-400 hover:text-violet-600 hover:bg-white rounded-lg transition-colors" title="نسخ">
+                                    {copiedId === activeReport.id ? <Check className="w-4 h-4 text-emerald-500" /> : <Copy className="w-4 h-4" />}
+                                </button>
+                                <button onClick={() => handleSave(activeReport)} className="p-1.5 text-slate-400 hover:text-violet-600 hover:bg-white rounded-lg transition-colors" title="حفظ">
+                                    <Download className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                        <div className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap max-h-80 overflow-y-auto custom-scrollbar">
+                            {activeReport.content}
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* Report History */}
+            <AnimatePresence>
+                {showHistory && history.length > 0 && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        className="space-y-1 overflow-hidden"
+                    >
+                        {history.map(report => (
+                            <div
+                                key={report.id}
+                                onClick={() => setActiveReportId(report.id === activeReportId ? null : report.id)}
+                                className={`group flex items-center gap-3 p-2.5 rounded-xl cursor-pointer transition-colors ${report.id === activeReportId ? 'bg-violet-50' : 'hover:bg-slate-50'}`}
+                            >
+                                <ChevronDown className={`w-4 h-4 text-slate-300 transition-transform ${report.id === activeReportId ? 'rotate-180 text-violet-500' : ''}`} />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-xs font-bold text-slate-700">{formatTimestamp(report.createdAt)}</div>
+                                    <div className="text-[10px] text-slate-400 truncate">
+                                        {report.district || 'جميع المناطق'} • {report.pointCount} موقع • {report.totalVoters.toLocaleString()} ناخب
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleDeleteReport(report.id);
+                                    }}
+                                    className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
+                                    title="حذف"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        ))}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
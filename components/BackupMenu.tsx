@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Archive, Download, Upload, AlertCircle, AlertTriangle, Replace, Merge, X } from 'lucide-react';
+import { DeviceSettings, downloadBackup, parseBackup, RestoreResult } from '../services/backupService';
+import { LocationPoint, ProjectSettings } from '../types';
+
+export type RestoreMode = 'replace' | 'merge';
+
+interface BackupMenuProps {
+    points: LocationPoint[];
+    settings: ProjectSettings;
+    // The gazetteer is read from storage when the backup is made
+    device: Omit<DeviceSettings, 'gazetteer'>;
+    onRestore: (points: LocationPoint[], settings: ProjectSettings, device: DeviceSettings | null, mode: RestoreMode) => void;
+}
+
+export const BackupMenu: React.FC<BackupMenuProps> = ({ points, settings, device, onRestore }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [pending, setPending] = useState<RestoreResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Click outside to close
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const close = () => {
+        setIsOpen(false);
+        setPending(null);
+        setError(null);
+    };
+
+    const handleBackup = () => {
+        downloadBackup(points, settings, device)
+            .then(close)
+            .catch(err => {
+                console.error('Backup error:', err);
+                setError('تعذر إنشاء النسخة الاحتياطية.');
+            });
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setError(null);
+        try {
+            setPending(parseBackup(await file.text()));
+        } catch (err) {
+            console.error('Backup restore error:', err);
+            setPending(null);
+            setError(err instanceof Error ? err.message : 'تعذر قراءة النسخة الاحتياطية.');
+        }
+    };
+
+    const handleRestore = (mode: RestoreMode) => {
+        if (!pending) return;
+        onRestore(pending.backup.points, pending.backup.settings, pending.backup.device, mode);
+        close();
+    };
+
+    const pendingVoters = pending?.backup.points.reduce((sum, p) => sum + (p.voters?.length || 0), 0) || 0;
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <motion.button
+                whileTap={{ scale: 0.9 }}
+                whileHover={{ scale: 1.05 }}
+                onClick={() => (isOpen ? close() : setIsOpen(true))}
+                className={`p-3 rounded-2xl transition-colors shadow-sm hover:shadow flex items-center gap-2 text-sm font-bold ${isOpen ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-indigo-600 hover:bg-indigo-50/80'}`}
+                title="النسخ الاحتياطي"
+            >
+                <Archive className="w-5 h-5" />
+                <span className="hidden sm:inline">نسخ احتياطي</span>
+            </motion.button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.9, y: 10 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.9, y: 10 }}
+                        className="absolute top-full left-0 z-50 mt-3 w-80 bg-white/95 backdrop-blur-2xl border border-white/20 rounded-3xl shadow-[0_30px_60px_rgba(0,0,0,0.12)] ring-1 ring-black/5 p-5 space-y-3"
+                    >
+                        {!pending ? (
+                            <>
+                                <button
+                                    onClick={handleBackup}
+                                    className="w-full flex items-center gap-3 p-3 rounded-xl bg-slate-50 hover:bg-indigo-50 hover:text-indigo-700 text-slate-600 transition-colors text-right"
+                                >
+                                    <Download className="w-4 h-4 shrink-0" />
+                                    <div>
+                                        <div className="text-sm font-bold">تنزيل نسخة احتياطية</div>
+                                        <div className="text-[10px] text-slate-400">ملف JSON يحتوي على جميع المواقع والناخبين والإعدادات</div>
+                                    </div>
+                                </button>
+                                <label className="w-full flex items-center gap-3 p-3 rounded-xl bg-slate-50 hover:bg-indigo-50 hover:text-indigo-700 text-slate-600 transition-colors text-right cursor-pointer">
+                                    <Upload className="w-4 h-4 shrink-0" />
+                                    <div>
+                                        <div className="text-sm font-bold">استعادة من ملف</div>
+                                        <div className="text-[10px] text-slate-400">استبدال البيانات الحالية أو الدمج معها</div>
+                                    </div>
+                                    <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+                                </label>
+                                {error && (
+                                    <div className="flex items-start gap-2 bg-rose-50 text-rose-600 text-xs font-medium p-3 rounded-xl">
+                                        <AlertCircle className="w-4 h-4 shrink-0" />
+                                        <span>{error}</span>
+                                    </div>
+                                )}
+                            </>
+                        ) : (
+                            <>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-sm font-bold text-slate-800">استعادة النسخة الاحتياطية</span>
+                                    <button onClick={() => setPending(null)} className="p-1 text-slate-300 hover:text-rose-500 rounded-full transition-colors">
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+                                <div className="bg-slate-50 rounded-xl p-3 text-xs text-slate-500 space-y-1">
+                                    {pending.backup.exportedAt && (
+                                        <div>تاريخ النسخة: <span className="font-bold text-slate-700">{new Date(pending.backup.exportedAt).toLocaleString('ar-IQ')}</span></div>
+                                    )}
+                                    <div>المواقع: <span className="font-bold text-slate-700">{pending.backup.points.length}</span> • الناخبين: <span className="font-bold text-slate-700">{pendingVoters}</span></div>
+                                    {pending.backup.device && (
+                                        <div>
+                                            حدود المناطق: <span className="font-bold text-slate-700">{pending.backup.device.districts.boundaries.length}</span> • ملف الأماكن: <span className="font-bold text-slate-700">{pending.backup.device.gazetteer.length}</span>
+                                        </div>
+                                    )}
+                                    {pending.sourceVersion !== pending.backup.schemaVersion && (
+                                        <div>تم ترقية الملف من الإصدار {pending.sourceVersion} إلى {pending.backup.schemaVersion}</div>
+                                    )}
+                                </div>
+                                {pending.warnings.map(warning => (
+                                    <div key={warning} className="flex items-start gap-2 bg-amber-50 text-amber-700 text-xs font-medium p-3 rounded-xl">
+                                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                                        <span>{warning}</span>
+                                    </div>
+                                ))}
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button
+                                        onClick={() => handleRestore('merge')}
+                                        className="flex flex-col items-center gap-1 p-3 rounded-xl bg-indigo-50 hover:bg-indigo-100 text-indigo-700 transition-colors"
+                                    >
+                                        <Merge className="w-4 h-4" />
+                                        <span className="text-sm font-bold">دمج</span>
+                                    </button>
+                                    <button
+                                        onClick={() => handleRestore('replace')}
+                                        className="flex flex-col items-center gap-1 p-3 rounded-xl bg-rose-50 hover:bg-rose-100 text-rose-600 transition-colors"
+                                    >
+                                        <Replace className="w-4 h-4" />
+                                        <span className="text-sm font-bold">استبدال الكل</span>
+                                    </button>
+                                </div>
+                                <p className="text-[10px] text-slate-400">
+                                    الدمج يحتفظ بالبيانات الحالية ويضيف الجديد؛ عند التعارض تُعتمد النسخة الأحدث تعديلاً. إعدادات البحث وملف الأماكن تُستعاد مع الاستبدال فقط.
+                                </p>
+                            </>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
@@ -0,0 +1,266 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Search, CheckCircle2, Circle, Vote, Trash2, Plus } from 'lucide-react';
+import { LocationPoint, SchoolTurnout } from '../types';
+import { getVoterTotal } from '../services/coverageService';
+import { getPointTurnout, getTurnoutSeries } from '../services/turnoutService';
+import { normalizeArabic } from '../services/textService';
+import { toWesternDigits } from '../services/voterService';
+import { TurnoutBar } from './TurnoutBar';
+import { TurnoutChart } from './TurnoutChart';
+
+interface CheckInModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    point: LocationPoint | null;
+    turnout: SchoolTurnout;
+    onToggleCheckIn: (voterId: string) => void;
+    onAddReport: (at: number, count: number) => void;
+    onRemoveReport: (reportId: string) => void;
+}
+
+type Tab = 'check-in' | 'reports';
+
+// Rendering thousands of rows slows typing down; the search narrows it anyway
+const MAX_RESULTS = 100;
+
+const digitsOf = (text: string) => toWesternDigits(text).replace(/\D/g, '');
+
+const currentHour = () => `${String(new Date().getHours()).padStart(2, '0')}:00`;
+
+// Today's date at the given "HH:MM"
+const timeToday = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const date = new Date();
+    date.setHours(hours, minutes, 0, 0);
+    return date.getTime();
+};
+
+/**
+ * Election day screen for one school: find a voter by name or phone and tap
+ * to mark them as voted, or enter the totals the polling station reports.
+ */
+export const CheckInModal: React.FC<CheckInModalProps> = ({
+    isOpen,
+    onClose,
+    point,
+    turnout,
+    onToggleCheckIn,
+    onAddReport,
+    onRemoveReport
+}) => {
+    const [tab, setTab] = useState<Tab>('check-in');
+    const [searchQuery, setSearchQuery] = useState('');
+    const [reportTime, setReportTime] = useState(currentHour);
+    const [reportCount, setReportCount] = useState<number | ''>('');
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        setTab('check-in');
+        setSearchQuery('');
+        setReportTime(currentHour());
+        setReportCount('');
+        if (isOpen) {
+            setTimeout(() => inputRef.current?.focus(), 100);
+        }
+    }, [isOpen, point?.id]);
+
+    const voters = point?.voters || [];
+    const nameQuery = normalizeArabic(searchQuery);
+    const phoneQuery = digitsOf(searchQuery);
+    const matches = voters.filter(v => !searchQuery.trim() ||
+        normalizeArabic(v.fullName).includes(nameQuery) ||
+        (phoneQuery.length >= 3 && digitsOf(v.phoneNumber).includes(phoneQuery))
+    );
+    const checkedInCount = voters.filter(v => turnout.checkIns[v.id]).length;
+
+    const handleToggle = (voterId: string) => {
+        onToggleCheckIn(voterId);
+        // Ready for the next voter in the queue
+        if (!turnout.checkIns[voterId]) {
+            setSearchQuery('');
+            inputRef.current?.focus();
+        }
+    };
+
+    const handleAddReport = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (reportCount === '' || !reportTime) return;
+        onAddReport(timeToday(reportTime), Number(reportCount));
+        setReportCount('');
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && point && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1100] transition-opacity"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="fixed inset-0 z-[1110] flex items-center justify-center p-4 sm:p-6 pointer-events-none"
+                    >
+                        <div
+                            className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col pointer-events-auto overflow-hidden ring-1 ring-slate-900/5"
+                            dir="rtl"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-slate-100 space-y-3">
+                                <div className="flex justify-between items-center">
+                                    <h2 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                                        <div className="bg-violet-100 p-2 rounded-xl text-violet-600">
+                                            <Vote className="w-5 h-5" />
+                                        </div>
+                                        {point.name}
+                                    </h2>
+                                    <button
+                                        onClick={onClose}
+                                        className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                    >
+                                        <X className="w-6 h-6" />
+                                    </button>
+                                </div>
+                                <TurnoutBar turnout={getPointTurnout(point, turnout)} />
+                                <div className="flex gap-1 bg-slate-100 p-1 rounded-xl">
+                                    {([['check-in', 'تسجيل المصوتين'], ['reports', 'الأعداد والمنحنى']] as [Tab, string][]).map(([value, label]) => (
+                                        <button
+                                            key={value}
+                                            onClick={() => setTab(value)}
+                                            className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-colors ${tab === value ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {tab === 'check-in' ? (
+                                <div className="flex-1 overflow-hidden flex flex-col bg-slate-50/50">
+                                    <div className="px-6 pt-4 pb-2">
+                                        <div className="relative">
+                                            <Search className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+                                            <input
+                                                ref={inputRef}
+                                                type="text"
+                                                placeholder="ابحث بالاسم أو رقم الهاتف..."
+                                                value={searchQuery}
+                                                onChange={(e) => setSearchQuery(e.target.value)}
+                                                className="w-full pl-4 pr-11 py-3.5 rounded-xl border-none ring-1 ring-slate-200 focus:ring-2 focus:ring-violet-500/30 bg-white text-base"
+                                            />
+                                        </div>
+                                        <p className="text-[11px] text-slate-400 mt-2 pr-1">
+                                            {checkedInCount.toLocaleString()} من {voters.length.toLocaleString()} في السجل تم تسجيلهم
+                                        </p>
+                                    </div>
+
+                                    <div className="flex-1 overflow-y-auto px-6 pb-6 pt-2 custom-scrollbar space-y-2">
+                                        {voters.length === 0 ? (
+                                            <p className="text-sm text-slate-400 text-center py-8">
+                                                لا يوجد ناخبين في سجل هذه المدرسة. يمكن إدخال الأعداد من تبويب الأعداد.
+                                            </p>
+                                        ) : matches.length === 0 ? (
+                                            <p className="text-sm text-slate-400 text-center py-8">لا توجد نتائج للبحث</p>
+                                        ) : (
+                                            matches.slice(0, MAX_RESULTS).map(voter => {
+                                                const checkedInAt = turnout.checkIns[voter.id];
+                                                return (
+                                                    <button
+                                                        key={voter.id}
+                                                        onClick={() => handleToggle(voter.id)}
+                                                        className={`w-full flex items-center gap-3 p-3.5 rounded-xl border text-right transition-colors ${checkedInAt ? 'bg-violet-50 border-violet-200' : 'bg-white border-slate-100 hover:border-violet-200'}`}
+                                                    >
+                                                        {checkedInAt
+                                                            ? <CheckCircle2 className="w-6 h-6 shrink-0 text-violet-600" />
+                                                            : <Circle className="w-6 h-6 shrink-0 text-slate-300" />}
+                                                        <div className="flex-1 min-w-0">
+                                                            <div className="font-bold text-slate-700">{voter.fullName}</div>
+                                                            {voter.phoneNumber && <div className="text-xs text-slate-400 font-mono" dir="ltr">{voter.phoneNumber}</div>}
+                                                        </div>
+                                                        {checkedInAt && (
+                                                            <span className="text-xs font-bold text-violet-600">
+                                                                {new Date(checkedInAt).toLocaleTimeString('ar-IQ', { hour: 'numeric', minute: '2-digit' })}
+                                                            </span>
+                                                        )}
+                                                    </button>
+                                                );
+                                            })
+                                        )}
+                                        {matches.length > MAX_RESULTS && (
+                                            <p className="text-xs text-slate-400 text-center pt-2">
+                                                يظهر أول {MAX_RESULTS} من {matches.length.toLocaleString()} — اكتب للتضييق
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-4 bg-slate-50/50">
+                                    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4">
+                                        <TurnoutChart series={getTurnoutSeries(point, turnout)} expected={getVoterTotal(point)} />
+                                    </div>
+
+                                    <form onSubmit={handleAddReport} className="flex gap-2">
+                                        <input
+                                            type="time"
+                                            value={reportTime}
+                                            onChange={(e) => setReportTime(e.target.value)}
+                                            className="px-3 py-2.5 bg-white border-0 ring-1 ring-slate-200 rounded-xl text-sm"
+                                        />
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={reportCount}
+                                            onChange={(e) => setReportCount(e.target.value === '' ? '' : Math.max(0, Number(e.target.value)))}
+                                            placeholder="عدد المصوتين حتى هذا الوقت"
+                                            className="flex-1 px-4 py-2.5 bg-white border-0 ring-1 ring-slate-200 rounded-xl focus:ring-2 focus:ring-violet-500/20 text-sm"
+                                        />
+                                        <button
+                                            type="submit"
+                                            disabled={reportCount === ''}
+                                            className="px-4 rounded-xl bg-violet-500 hover:bg-violet-600 disabled:opacity-50 text-white text-sm font-bold flex items-center gap-1.5"
+                                        >
+                                            <Plus className="w-4 h-4" />
+                                            إضافة
+                                        </button>
+                                    </form>
+
+                                    {turnout.reports.length > 0 && (
+                                        <ul className="space-y-1.5">
+                                            {turnout.reports.map(report => (
+                                                <li key={report.id} className="flex items-center justify-between bg-white px-3 py-2 rounded-xl border border-slate-100 text-sm">
+                                                    <span className="text-slate-500">
+                                                        {new Date(report.at).toLocaleTimeString('ar-IQ', { hour: 'numeric', minute: '2-digit' })}
+                                                    </span>
+                                                    <span className="font-bold text-slate-700">{report.count.toLocaleString()}</span>
+                                                    <button
+                                                        onClick={() => onRemoveReport(report.id)}
+                                                        className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                                                        title="حذف"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    <p className="text-[11px] text-slate-400">
+                                        الأعداد تراكمية كما تعلنها المحطة. نسبة المشاركة تأخذ الأعلى بين آخر عدد مُدخل والمسجلين بالاسم.
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { Marker, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { LocationPoint } from '../types';
+import { getVoterTotal } from '../services/coverageService';
+import { PointCluster, clusterPoints, findClearLabels } from '../services/clusterService';
+
+// Grid cell in screen pixels; points closer than this at the current zoom are grouped
+const CLUSTER_CELL_SIZE = 80;
+// From this zoom on every school is shown on its own
+const DISABLE_CLUSTERING_AT_ZOOM = 16;
+// Roughly the size of a LocationMarker's permanent tooltip
+const LABEL_SIZE = { width: 130, height: 44 };
+
+const createClusterIcon = (cluster: PointCluster) => {
+  const size = Math.min(64, 36 + Math.log10(Math.max(cluster.total, 1)) * 6);
+  return L.divIcon({
+    className: '',
+    html: `<div style="width:${size}px;height:${size}px" class="rounded-full bg-emerald-500/90 ring-4 ring-emerald-200/70 shadow-lg flex flex-col items-center justify-center text-white leading-none cursor-pointer">
+      <span class="text-[11px] font-black">${cluster.total.toLocaleString()}</span>
+      <span class="text-[9px] opacity-80 mt-0.5">${cluster.points.length} مدارس</span>
+    </div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+interface ClusteredMarkersProps {
+  points: LocationPoint[];
+  // Renders a single school; `showLabel` is false where its permanent tooltip would overlap another
+  renderMarker: (point: LocationPoint, showLabel: boolean) => React.ReactNode;
+}
+
+/**
+ * Groups nearby schools into one marker showing their summed voter count.
+ * Clicking a cluster zooms to fit its schools.
+ */
+export const ClusteredMarkers: React.FC<ClusteredMarkersProps> = ({ points, renderMarker }) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+
+  useMapEvents({
+    zoomend: () => setZoom(map.getZoom()),
+  });
+
+  // Positions in world pixels depend only on zoom, so panning doesn't recluster
+  const { clusters, clearLabels } = useMemo(() => {
+    const project = (p: LocationPoint) => map.project([p.lat, p.lng], zoom);
+    const clusters = zoom >= DISABLE_CLUSTERING_AT_ZOOM
+      ? points.map(p => ({ id: p.id, points: [p], lat: p.lat, lng: p.lng, total: getVoterTotal(p) }))
+      : clusterPoints(points, project, CLUSTER_CELL_SIZE);
+    const singles = clusters.filter(c => c.points.length === 1).map(c => c.points[0]);
+    return { clusters, clearLabels: findClearLabels(singles, project, LABEL_SIZE) };
+  }, [map, points, zoom]);
+  const icons = useMemo(
+    () => new Map(clusters.filter(c => c.points.length > 1).map(c => [c.id, createClusterIcon(c)])),
+    [clusters]
+  );
+
+  return (
+    <>
+      {clusters.map(cluster => cluster.points.length === 1 ? (
+        <React.Fragment key={cluster.id}>
+          {renderMarker(cluster.points[0], clearLabels.has(cluster.points[0].id))}
+        </React.Fragment>
+      ) : (
+        <Marker
+          key={cluster.id}
+          position={[cluster.lat, cluster.lng]}
+          icon={icons.get(cluster.id)}
+          eventHandlers={{
+            click: () => map.fitBounds(
+              L.latLngBounds(cluster.points.map(p => [p.lat, p.lng] as [number, number])),
+              { padding: [60, 60], maxZoom: DISABLE_CLUSTERING_AT_ZOOM }
+            ),
+          }}
+        >
+          <Tooltip direction="top" offset={[0, -12]}>
+            <div dir="rtl" className="text-xs">
+              {cluster.points.slice(0, 5).map(p => p.name).join('، ')}
+              {cluster.points.length > 5 && ` و${cluster.points.length - 5} أخرى`}
+            </div>
+          </Tooltip>
+        </Marker>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle } from 'lucide-react';
+
+interface ConfirmDialogProps {
+    isOpen: boolean;
+    title: string;
+    message: React.ReactNode;
+    confirmLabel: string;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ isOpen, title, message, confirmLabel, onConfirm, onCancel }) => (
+    <AnimatePresence>
+        {isOpen && (
+            <>
+                {/* Backdrop */}
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onCancel}
+                    className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1200]"
+                />
+
+                <motion.div
+                    initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                    animate={{ opacity: 1, scale: 1, y: 0 }}
+                    exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                    className="fixed inset-0 z-[1210] flex items-center justify-center p-4 pointer-events-none"
+                >
+                    <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm p-6 pointer-events-auto ring-1 ring-slate-900/5" dir="rtl">
+                        <div className="flex items-center gap-3 mb-3">
+                            <div className="bg-rose-100 p-2 rounded-xl text-rose-600">
+                                <AlertTriangle className="w-5 h-5" />
+                            </div>
+                            <h2 className="text-lg font-black text-slate-800">{title}</h2>
+                        </div>
+                        <div className="text-sm text-slate-500 leading-relaxed mb-6">{message}</div>
+                        <div className="flex gap-2">
+                            <motion.button
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                                onClick={onConfirm}
+                                autoFocus
+                                className="flex-1 bg-gradient-to-r from-rose-500 to-red-500 text-white font-bold py-2.5 px-4 rounded-xl shadow-lg shadow-rose-500/20 text-sm"
+                            >
+                                {confirmLabel}
+                            </motion.button>
+                            <button
+                                onClick={onCancel}
+                                className="px-4 py-2.5 rounded-xl text-sm font-bold text-slate-500 bg-slate-100 hover:bg-slate-200 transition-colors"
+                            >
+                                إلغاء
+                            </button>
+                        </div>
+                    </div>
+                </motion.div>
+            </>
+        )}
+    </AnimatePresence>
+);
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { PhoneCall } from 'lucide-react';
+import { Voter, VoterStatus } from '../types';
+import { STATUS_INFO, VOTER_STATUSES, getVoterStatus } from '../services/contactService';
+
+interface ContactPanelProps {
+    voter: Voter;
+    onLogContact: (status: VoterStatus, note: string) => void;
+}
+
+// Status picker, note and contact history for one voter
+export const ContactPanel: React.FC<ContactPanelProps> = ({ voter, onLogContact }) => {
+    const [status, setStatus] = useState<VoterStatus>(() => {
+        const current = getVoterStatus(voter);
+        return current === 'not_contacted' ? 'contacted' : current;
+    });
+    const [note, setNote] = useState('');
+    const log = [...(voter.contactLog || [])].reverse();
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onLogContact(status, note);
+        setNote('');
+    };
+
+    return (
+        <div className="mt-3 pt-3 border-t border-slate-100 space-y-3" onClick={(e) => e.stopPropagation()}>
+            <form onSubmit={handleSubmit} className="space-y-2">
+                <div className="flex flex-wrap gap-1.5">
+                    {VOTER_STATUSES.filter(s => s.status !== 'not_contacted').map(s => (
+                        <button
+                            key={s.status}
+                            type="button"
+                            onClick={() => setStatus(s.status)}
+                            className={`px-2.5 py-1 rounded-lg text-xs font-bold transition-all ${status === s.status ? `${s.badge} ring-2 ring-current` : 'bg-slate-50 text-slate-400 hover:text-slate-600'}`}
+                        >
+                            {s.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="ملاحظة عن الاتصال (اختياري)..."
+                        className="flex-1 px-3 py-2 bg-slate-50 border-0 ring-1 ring-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500/20 text-sm"
+                    />
+                    <button
+                        type="submit"
+                        className="px-3 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white text-xs font-bold flex items-center gap-1.5"
+                    >
+                        <PhoneCall className="w-3.5 h-3.5" />
+                        تسجيل
+                    </button>
+                </div>
+            </form>
+
+            {log.length > 0 && (
+                <ul className="space-y-1.5 max-h-36 overflow-y-auto custom-scrollbar">
+                    {log.map(entry => (
+                        <li key={entry.id} className="flex items-start gap-2 text-xs">
+                            <span className={`mt-1 w-2 h-2 rounded-full shrink-0 ${STATUS_INFO[entry.status].dot}`} />
+                            <div className="flex-1">
+                                <span className="font-bold text-slate-600">{STATUS_INFO[entry.status].label}</span>
+                                <span className="text-slate-400"> • {new Date(entry.at).toLocaleString('ar-IQ')}</span>
+                                {entry.note && <p className="text-slate-500 mt-0.5">{entry.note}</p>}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { ContactStats } from '../services/contactService';
+
+interface ContactStatsSummaryProps {
+    stats: ContactStats;
+    // Dark variant for the map tooltip
+    variant?: 'light' | 'dark';
+    className?: string;
+}
+
+// Contacted / confirmed / voted counts for a school or the whole selection
+export const ContactStatsSummary: React.FC<ContactStatsSummaryProps> = ({ stats, variant = 'light', className = '' }) => {
+    const items = [
+        { label: 'اتصال', value: stats.contacted, tone: variant === 'dark' ? 'text-sky-300' : 'text-sky-600' },
+        { label: 'مؤيد', value: stats.confirmed, tone: variant === 'dark' ? 'text-emerald-300' : 'text-emerald-600' },
+        { label: 'صوّت', value: stats.voted, tone: variant === 'dark' ? 'text-violet-300' : 'text-violet-600' },
+    ];
+
+    return (
+        <div className={`flex items-center gap-2 text-[10px] font-bold ${variant === 'dark' ? 'text-slate-300' : 'text-slate-400'} ${className}`}>
+            {items.map(item => (
+                <span key={item.label} className="whitespace-nowrap">
+                    <span className={item.tone}>{item.value.toLocaleString()}</span> {item.label}
+                </span>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { CountMode } from '../types';
+import { COUNT_MODES } from '../services/coverageService';
+
+interface CountModePickerProps {
+    value: CountMode;
+    onChange: (mode: CountMode) => void;
+}
+
+export const CountModePicker: React.FC<CountModePickerProps> = ({ value, onChange }) => (
+    <div className="grid grid-cols-3 gap-1 p-1 bg-slate-50 rounded-xl shadow-inner">
+        {COUNT_MODES.map(({ mode, label, hint }) => (
+            <button
+                key={mode}
+                type="button"
+                onClick={() => onChange(mode)}
+                title={hint}
+                className={`py-1.5 rounded-lg text-xs font-bold transition-colors ${value === mode ? 'bg-white text-slate-800 shadow-sm ring-1 ring-slate-200' : 'text-slate-400 hover:text-slate-600'}`}
+            >
+                {label}
+            </button>
+        ))}
+    </div>
+);
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Coverage } from '../services/coverageService';
+
+interface CoverageBarProps {
+    // Renders nothing for schools that don't track coverage
+    coverage: Coverage | null;
+    // Dark variant for the map tooltip
+    variant?: 'light' | 'dark';
+    showLabel?: boolean;
+    className?: string;
+}
+
+// "entered / expected" with a progress bar; amber once the roll exceeds the expected count
+export const CoverageBar: React.FC<CoverageBarProps> = ({ coverage, variant = 'light', showLabel = true, className = '' }) => {
+    if (!coverage) return null;
+    const fill = coverage.isOver ? 'bg-amber-400' : 'bg-emerald-500';
+    const track = variant === 'dark' ? 'bg-white/15' : 'bg-slate-100';
+    const text = variant === 'dark' ? 'text-slate-300' : 'text-slate-400';
+
+    return (
+        <div className={`w-full ${className}`}>
+            {showLabel && (
+                <div className={`flex justify-between items-center text-[10px] font-bold mb-1 ${text}`}>
+                    <span dir="ltr">
+                        {coverage.entered.toLocaleString()} / {coverage.expected.toLocaleString()}
+                    </span>
+                    <span>{Math.round((coverage.expected > 0 ? coverage.entered / coverage.expected : coverage.ratio) * 100)}%</span>
+                </div>
+            )}
+            <div className={`h-1.5 w-full rounded-full overflow-hidden ${track}`}>
+                <div className={`h-full rounded-full transition-all ${fill}`} style={{ width: `${coverage.ratio * 100}%` }} />
+            </div>
+        </div>
+    );
+};
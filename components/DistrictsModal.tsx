@@ -0,0 +1,229 @@
+import React, { useState, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Hexagon, Upload, Trash2, Wand2, Link2 } from 'lucide-react';
+import { DistrictBoundaries, LocationPoint } from '../types';
+import { ParsedBoundaryFile, buildBoundaries, getTypedDistricts, matchDistrictName, parseBoundaryGeoJson } from '../services/districtService';
+import { nameKey } from '../services/textService';
+
+interface DistrictsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    points: LocationPoint[];
+    data: DistrictBoundaries;
+    onChange: (data: DistrictBoundaries) => void;
+    // Rewrites each school's typed district to the name of the boundary it is matched to
+    onUnifyNames: () => void;
+}
+
+/**
+ * Uploads district boundaries and links the free-text districts typed on
+ * schools to them.
+ */
+export const DistrictsModal: React.FC<DistrictsModalProps> = ({ isOpen, onClose, points, data, onChange, onUnifyNames }) => {
+    const [pending, setPending] = useState<{ parsed: ParsedBoundaryFile; nameProperty: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const typedDistricts = getTypedDistricts(points);
+    const sortedBoundaries = [...data.boundaries].sort((a, b) => a.name.localeCompare(b.name, 'ar'));
+    const renameCount = points.filter(p => {
+        const boundary = matchDistrictName(p.district, data);
+        return boundary && boundary.name !== p.district;
+    }).length;
+
+    const handleFile = async (file: File) => {
+        setError(null);
+        try {
+            const parsed = parseBoundaryGeoJson(await file.text());
+            setPending({ parsed, nameProperty: parsed.suggestedNameProperty });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'تعذر قراءة الملف.');
+        }
+    };
+
+    const handleSaveBoundaries = () => {
+        if (!pending) return;
+        // Links made against the previous boundaries point at ids that no longer exist
+        onChange({ boundaries: buildBoundaries(pending.parsed, pending.nameProperty), aliases: {} });
+        setPending(null);
+    };
+
+    const handleLink = (district: string, boundaryId: string) => {
+        const aliases = { ...data.aliases };
+        if (boundaryId) aliases[nameKey(district)] = boundaryId;
+        else delete aliases[nameKey(district)];
+        onChange({ ...data, aliases });
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1100] transition-opacity"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="fixed inset-0 z-[1110] flex items-center justify-center p-4 sm:p-6 pointer-events-none"
+                    >
+                        <div
+                            className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col pointer-events-auto overflow-hidden ring-1 ring-slate-900/5"
+                            dir="rtl"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                                <div>
+                                    <h2 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                                        <div className="bg-indigo-100 p-2 rounded-xl text-indigo-600">
+                                            <Hexagon className="w-5 h-5" />
+                                        </div>
+                                        حدود المناطق
+                                    </h2>
+                                    <p className="text-sm text-slate-500 mt-1 font-medium pr-1">
+                                        <span className="text-indigo-600 font-bold">{data.boundaries.length}</span> حدود محملة •{' '}
+                                        <span className="text-indigo-600 font-bold">{typedDistricts.length}</span> اسم منطقة مكتوب
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                >
+                                    <X className="w-6 h-6" />
+                                </button>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-6 bg-slate-50/50">
+                                {/* Boundary file */}
+                                <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 space-y-3">
+                                    <input
+                                        ref={fileInputRef}
+                                        type="file"
+                                        accept=".geojson,.json,application/geo+json,application/json"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            if (file) handleFile(file);
+                                            e.target.value = '';
+                                        }}
+                                    />
+                                    {pending ? (
+                                        <>
+                                            <div className="text-sm font-bold text-slate-700">
+                                                {pending.parsed.features.length} مضلع في الملف. أي خاصية تحتوي اسم المنطقة؟
+                                            </div>
+                                            <select
+                                                value={pending.nameProperty}
+                                                onChange={(e) => setPending({ ...pending, nameProperty: e.target.value })}
+                                                className="w-full px-3 py-2 bg-slate-50 ring-1 ring-slate-200 rounded-lg text-sm text-slate-600 cursor-pointer"
+                                            >
+                                                {pending.parsed.propertyKeys.map(key => (
+                                                    <option key={key} value={key}>{key}</option>
+                                                ))}
+                                            </select>
+                                            <p className="text-xs text-slate-400">
+                                                مثال: {pending.parsed.features.slice(0, 4).map(f => String(f.properties[pending.nameProperty] ?? '—')).join('، ')}
+                                            </p>
+                                            <div className="flex gap-2">
+                                                <button
+                                                    onClick={handleSaveBoundaries}
+                                                    className="flex-1 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold"
+                                                >
+                                                    حفظ الحدود
+                                                </button>
+                                                <button
+                                                    onClick={() => setPending(null)}
+                                                    className="px-4 py-2 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-600 text-sm font-bold"
+                                                >
+                                                    إلغاء
+                                                </button>
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <div className="flex items-center gap-2">
+                                            <button
+                                                onClick={() => fileInputRef.current?.click()}
+                                                className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl bg-indigo-50 hover:bg-indigo-100 text-indigo-700 text-sm font-bold"
+                                            >
+                                                <Upload className="w-4 h-4" />
+                                                {data.boundaries.length ? 'استبدال ملف الحدود' : 'رفع ملف GeoJSON للحدود'}
+                                            </button>
+                                            {data.boundaries.length > 0 && (
+                                                <button
+                                                    onClick={() => onChange({ boundaries: [], aliases: {} })}
+                                                    className="p-2.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-xl transition-colors"
+                                                    title="حذف الحدود"
+                                                >
+                                                    <Trash2 className="w-5 h-5" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
+                                    {error && <p className="text-xs font-bold text-rose-600">{error}</p>}
+                                    <p className="text-[11px] text-slate-400">
+                                        تُحفظ الحدود على هذا الجهاز فقط. المواقع الجديدة تأخذ اسم المنطقة تلقائياً من الحدود التي تقع فيها.
+                                    </p>
+                                </section>
+
+                                {/* Typed district -> boundary */}
+                                {data.boundaries.length > 0 && typedDistricts.length > 0 && (
+                                    <section className="space-y-2">
+                                        <div className="flex items-center justify-between">
+                                            <h3 className="font-black text-slate-800 flex items-center gap-2">
+                                                <Link2 className="w-4 h-4 text-indigo-500" />
+                                                ربط أسماء المناطق بالحدود
+                                            </h3>
+                                            <button
+                                                onClick={onUnifyNames}
+                                                disabled={renameCount === 0}
+                                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-900 disabled:opacity-40 text-white text-xs font-bold"
+                                                title="استبدال الاسم المكتوب في كل مدرسة باسم الحدود المرتبطة به"
+                                            >
+                                                <Wand2 className="w-3.5 h-3.5" />
+                                                توحيد الأسماء ({renameCount})
+                                            </button>
+                                        </div>
+                                        {typedDistricts.map(({ name, count }) => {
+                                            const aliasId = data.aliases[nameKey(name)];
+                                            const matched = matchDistrictName(name, data);
+                                            return (
+                                                <div key={name} className="flex items-center gap-3 bg-white p-3 rounded-xl border border-slate-100 shadow-sm">
+                                                    <div className="flex-1 min-w-0">
+                                                        <div className="font-bold text-slate-700 text-sm truncate">{name}</div>
+                                                        <div className="text-[11px] text-slate-400">
+                                                            {count} مدرسة
+                                                            {matched && !aliasId && <span className="text-emerald-600 font-bold"> • مطابقة تلقائية</span>}
+                                                            {!matched && <span className="text-amber-600 font-bold"> • غير مرتبط</span>}
+                                                        </div>
+                                                    </div>
+                                                    <select
+                                                        value={matched?.id ?? ''}
+                                                        onChange={(e) => handleLink(name, e.target.value)}
+                                                        className="w-44 px-3 py-2 bg-slate-50 ring-1 ring-slate-200 rounded-lg text-sm text-slate-600 cursor-pointer"
+                                                    >
+                                                        <option value="">— حسب الموقع —</option>
+                                                        {sortedBoundaries.map(b => (
+                                                            <option key={b.id} value={b.id}>{b.name}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                            );
+                                        })}
+                                    </section>
+                                )}
+                            </div>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
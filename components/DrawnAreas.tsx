@@ -0,0 +1,343 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Circle, CircleMarker, LayerGroup, Polygon, Polyline, Popup, Rectangle, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { Check, Circle as CircleIcon, Filter, Pentagon, RectangleHorizontal, Trash2, X } from 'lucide-react';
+import { AreaShape, LatLngPair, LocationPoint, SavedArea } from '../types';
+import { AREA_COLORS, AREA_SHAPE_LABELS, getAreaStats } from '../services/areaService';
+import { getVoterTotal } from '../services/coverageService';
+import { ContactStatsSummary } from './ContactStatsSummary';
+
+type DrawMode = AreaShape['type'];
+
+// A click this close (in pixels) to the first vertex closes the polygon
+const CLOSE_POLYGON_DISTANCE = 10;
+const PREVIEW_STYLE: L.PathOptions = { color: '#0f172a', weight: 2, dashArray: '6 6', fillColor: '#0f172a', fillOpacity: 0.1 };
+
+const DRAW_MODES: { mode: DrawMode; icon: React.ElementType; hint: string }[] = [
+  { mode: 'polygon', icon: Pentagon, hint: 'انقر لإضافة الرؤوس، ثم انقر على الرأس الأول أو انقر مرتين للإنهاء' },
+  { mode: 'rectangle', icon: RectangleHorizontal, hint: 'انقر على الزاوية الأولى ثم على الزاوية المقابلة' },
+  { mode: 'circle', icon: CircleIcon, hint: 'انقر على المركز ثم على حافة الدائرة' },
+];
+
+interface ShapePathProps {
+  shape: AreaShape;
+  pathOptions: L.PathOptions;
+  interactive?: boolean;
+  children?: React.ReactNode;
+}
+
+const ShapePath: React.FC<ShapePathProps> = ({ shape, pathOptions, interactive = true, children }) => {
+  switch (shape.type) {
+    case 'polygon':
+      return <Polygon positions={shape.latlngs} pathOptions={pathOptions} interactive={interactive} bubblingMouseEvents={false}>{children}</Polygon>;
+    case 'rectangle':
+      return <Rectangle bounds={shape.bounds} pathOptions={pathOptions} interactive={interactive} bubblingMouseEvents={false}>{children}</Rectangle>;
+    case 'circle':
+      return <Circle center={shape.center} radius={shape.radius} pathOptions={pathOptions} interactive={interactive} bubblingMouseEvents={false}>{children}</Circle>;
+  }
+};
+
+interface AreaDrawingToolsProps {
+  // True from picking a tool until the area is saved or dropped; map clicks shouldn't add schools meanwhile
+  onDrawingChange: (isDrawing: boolean) => void;
+  onCreate: (name: string, shape: AreaShape) => void;
+  areaCount: number;
+}
+
+/**
+ * Toolbar for drawing a polygon, rectangle or circle on the map and naming it.
+ * Clicks are read from `preclick`, which reaches the map even over layers
+ * that stop their own clicks from bubbling.
+ */
+export const AreaDrawingTools: React.FC<AreaDrawingToolsProps> = ({ onDrawingChange, onCreate, areaCount }) => {
+  const map = useMap();
+  const [mode, setMode] = useState<DrawMode | null>(null);
+  const [vertices, setVertices] = useState<LatLngPair[]>([]);
+  const [cursor, setCursor] = useState<LatLngPair | null>(null);
+  // Finished shape waiting for a name
+  const [pending, setPending] = useState<AreaShape | null>(null);
+  const [name, setName] = useState('');
+  const toolbarRef = useRef<HTMLDivElement>(null);
+
+  const isActive = mode !== null || pending !== null;
+
+  useEffect(() => {
+    onDrawingChange(isActive);
+  }, [isActive, onDrawingChange]);
+
+  useEffect(() => {
+    if (toolbarRef.current) {
+      L.DomEvent.disableClickPropagation(toolbarRef.current);
+      L.DomEvent.disableScrollPropagation(toolbarRef.current);
+    }
+  });
+
+  // Double clicks finish polygons instead of zooming while a tool is picked
+  useEffect(() => {
+    if (!mode) return;
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+    return () => {
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+    };
+  }, [map, mode]);
+
+  const reset = () => {
+    setMode(null);
+    setVertices([]);
+    setCursor(null);
+    setPending(null);
+    setName('');
+  };
+
+  useEffect(() => {
+    if (!isActive) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') reset();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isActive]);
+
+  const finish = (shape: AreaShape) => {
+    setMode(null);
+    setVertices([]);
+    setCursor(null);
+    setPending(shape);
+    setName(`منطقة ${areaCount + 1}`);
+  };
+
+  const finishPolygon = (latlngs: LatLngPair[]) => {
+    // A double click also lands as two clicks on the same spot
+    const distinct = latlngs.filter((latlng, i) =>
+      i === 0 || map.latLngToContainerPoint(latlng).distanceTo(map.latLngToContainerPoint(latlngs[i - 1])) > 3
+    );
+    if (distinct.length >= 3) finish({ type: 'polygon', latlngs: distinct });
+  };
+
+  useMapEvents({
+    preclick(e) {
+      if (!mode) return;
+      const latlng: LatLngPair = [e.latlng.lat, e.latlng.lng];
+      if (mode === 'polygon') {
+        const closesPolygon = vertices.length >= 3
+          && map.latLngToContainerPoint(vertices[0]).distanceTo(e.containerPoint) <= CLOSE_POLYGON_DISTANCE;
+        if (closesPolygon) finishPolygon(vertices);
+        else setVertices([...vertices, latlng]);
+      } else if (vertices.length === 0) {
+        setVertices([latlng]);
+      } else if (mode === 'rectangle') {
+        finish({ type: 'rectangle', bounds: [vertices[0], latlng] });
+      } else {
+        finish({ type: 'circle', center: vertices[0], radius: map.distance(vertices[0], latlng) });
+      }
+    },
+    dblclick() {
+      if (mode === 'polygon') finishPolygon(vertices);
+    },
+    mousemove(e) {
+      if (mode) setCursor([e.latlng.lat, e.latlng.lng]);
+    },
+    // Layers under the cursor still open their popups on click
+    popupopen() {
+      if (isActive) map.closePopup();
+    },
+  });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pending || !name.trim()) return;
+    onCreate(name.trim(), pending);
+    reset();
+  };
+
+  const hint = DRAW_MODES.find(m => m.mode === mode)?.hint;
+  const previewColor = AREA_COLORS[areaCount % AREA_COLORS.length];
+
+  return (
+    <>
+      {mode === 'polygon' && vertices.length > 0 && (
+        <>
+          <Polyline positions={cursor ? [...vertices, cursor] : vertices} pathOptions={PREVIEW_STYLE} interactive={false} />
+          {vertices.map((vertex, i) => (
+            <CircleMarker
+              key={i}
+              center={vertex}
+              radius={i === 0 ? 6 : 4}
+              pathOptions={{ color: '#0f172a', weight: 2, fillColor: '#fff', fillOpacity: 1 }}
+              interactive={false}
+            />
+          ))}
+        </>
+      )}
+      {mode === 'rectangle' && vertices.length > 0 && cursor && (
+        <Rectangle bounds={[vertices[0], cursor]} pathOptions={PREVIEW_STYLE} interactive={false} />
+      )}
+      {mode === 'circle' && vertices.length > 0 && cursor && (
+        <Circle center={vertices[0]} radius={map.distance(vertices[0], cursor)} pathOptions={PREVIEW_STYLE} interactive={false} />
+      )}
+      {pending && (
+        <ShapePath shape={pending} pathOptions={{ color: previewColor, weight: 2, fillColor: previewColor, fillOpacity: 0.15 }} interactive={false} />
+      )}
+
+      <div ref={toolbarRef} dir="rtl" className="absolute top-24 left-3 z-[1000] flex items-start gap-2 font-sans">
+        <div className="flex flex-col bg-white/95 backdrop-blur-md rounded-2xl shadow-xl ring-1 ring-slate-900/5 p-1 gap-1">
+          {DRAW_MODES.map(({ mode: drawMode, icon: Icon }) => (
+            <button
+              key={drawMode}
+              onClick={() => {
+                reset();
+                if (mode !== drawMode) setMode(drawMode);
+              }}
+              className={`p-2 rounded-xl transition-colors ${mode === drawMode ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-indigo-50 hover:text-indigo-600'}`}
+              title={`رسم ${AREA_SHAPE_LABELS[drawMode]}`}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+
+        {mode && (
+          <div className="w-64 bg-white/95 backdrop-blur-md rounded-2xl shadow-xl ring-1 ring-slate-900/5 p-3 space-y-2">
+            <p className="text-xs text-slate-600 font-medium leading-relaxed">{hint}</p>
+            <div className="flex gap-2">
+              {mode === 'polygon' && (
+                <button
+                  onClick={() => finishPolygon(vertices)}
+                  disabled={vertices.length < 3}
+                  className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white text-xs font-bold"
+                >
+                  <Check className="w-3.5 h-3.5" />
+                  إنهاء
+                </button>
+              )}
+              <button
+                onClick={reset}
+                className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-bold"
+              >
+                <X className="w-3.5 h-3.5" />
+                إلغاء
+              </button>
+            </div>
+          </div>
+        )}
+
+        {pending && (
+          <form onSubmit={handleSave} className="w-64 bg-white/95 backdrop-blur-md rounded-2xl shadow-xl ring-1 ring-slate-900/5 p-3 space-y-2">
+            <label className="text-xs font-bold text-slate-500">اسم المنطقة</label>
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-50 ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-indigo-500/30 outline-none"
+            />
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="flex-1 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white text-xs font-bold"
+              >
+                حفظ المنطقة
+              </button>
+              <button
+                type="button"
+                onClick={reset}
+                className="px-3 py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-bold"
+              >
+                إلغاء
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </>
+  );
+};
+
+interface SavedAreasLayerProps {
+  areas: SavedArea[];
+  points: LocationPoint[];
+  selectedAreaId: string;
+  // Off while drawing, so the new shape can be drawn over existing areas
+  interactive: boolean;
+  onSelect: (areaId: string) => void;
+  onRename: (areaId: string, name: string) => void;
+  onDelete: (area: SavedArea) => void;
+}
+
+// Saved areas with the schools inside them and their totals in a popup
+export const SavedAreasLayer: React.FC<SavedAreasLayerProps> = ({ areas, points, selectedAreaId, interactive, onSelect, onRename, onDelete }) => {
+  const stats = useMemo(() => areas.map(area => getAreaStats(points, area)), [areas, points]);
+
+  return (
+    <LayerGroup>
+      {stats.map(({ area, points: inside, total, entered, contact }) => (
+        <ShapePath
+          // Leaflet reads `interactive` only when the path is created
+          key={`${area.id}-${interactive}`}
+          shape={area.shape}
+          interactive={interactive}
+          pathOptions={{
+            color: area.color,
+            weight: area.id === selectedAreaId ? 4 : 2,
+            fillColor: area.color,
+            fillOpacity: area.id === selectedAreaId ? 0.2 : 0.08,
+          }}
+        >
+          <Tooltip sticky>{area.name}</Tooltip>
+          <Popup>
+            <div dir="rtl" className="text-right w-60 space-y-2 font-sans">
+              <input
+                value={area.name}
+                onChange={(e) => onRename(area.id, e.target.value)}
+                onBlur={(e) => !e.target.value.trim() && onRename(area.id, AREA_SHAPE_LABELS[area.shape.type])}
+                className="w-full font-bold text-base text-slate-800 bg-transparent border-b border-dashed border-slate-200 focus:border-indigo-400 outline-none pb-1"
+                title="اسم المنطقة"
+              />
+              <div className="space-y-1">
+                {[
+                  ['المدارس', inside.length],
+                  ['عدد الناخبين', total],
+                  ['الأسماء المدخلة', entered],
+                ].map(([label, value]) => (
+                  <div key={label} className="flex justify-between text-xs">
+                    <span className="text-slate-500">{label}</span>
+                    <span className="font-bold text-slate-700">{value.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+              <ContactStatsSummary stats={contact} />
+              {inside.length > 0 && (
+                <ul className="max-h-32 overflow-y-auto custom-scrollbar border-t border-slate-100 pt-2 space-y-1">
+                  {[...inside].sort((a, b) => getVoterTotal(b) - getVoterTotal(a)).map(p => (
+                    <li key={p.id} className="flex justify-between gap-2 text-[11px]">
+                      <span className="text-slate-600 truncate">{p.name}</span>
+                      <span className="font-bold text-emerald-600">{getVoterTotal(p).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2 pt-1">
+                <button
+                  onClick={() => onSelect(area.id === selectedAreaId ? '' : area.id)}
+                  className={`flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg text-xs font-bold transition-colors ${area.id === selectedAreaId ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'}`}
+                >
+                  <Filter className="w-3.5 h-3.5" />
+                  {area.id === selectedAreaId ? 'إلغاء التصفية' : 'تصفية بهذه المنطقة'}
+                </button>
+                <button
+                  onClick={() => onDelete(area)}
+                  className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                  title="حذف المنطقة"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </Popup>
+        </ShapePath>
+      ))}
+    </LayerGroup>
+  );
+};
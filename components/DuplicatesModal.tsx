@@ -0,0 +1,141 @@
+import React, { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Copy, Merge, Trash2, CheckCircle2 } from 'lucide-react';
+import { LocationPoint } from '../types';
+import { DUPLICATE_REASON_LABELS, DuplicateGroup, VoterEntry, findDuplicateGroups } from '../services/duplicateService';
+
+interface DuplicatesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    points: LocationPoint[];
+    onMerge: (group: DuplicateGroup, keepVoterId: string) => void;
+    onRemove: (entry: VoterEntry) => void;
+}
+
+export const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ isOpen, onClose, points, onMerge, onRemove }) => {
+    // Voter to keep per group; defaults to the earliest entry
+    const [keepByGroup, setKeepByGroup] = useState<Record<string, string>>({});
+
+    const groups = useMemo(() => (isOpen ? findDuplicateGroups(points) : []), [isOpen, points]);
+    const duplicateCount = groups.reduce((sum, g) => sum + g.entries.length - 1, 0);
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1100] transition-opacity"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="fixed inset-0 z-[1110] flex items-center justify-center p-4 sm:p-6 pointer-events-none"
+                    >
+                        <div
+                            className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col pointer-events-auto overflow-hidden ring-1 ring-slate-900/5"
+                            dir="rtl"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                                <div>
+                                    <h2 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                                        <div className="bg-amber-100 p-2 rounded-xl text-amber-600">
+                                            <Copy className="w-5 h-5" />
+                                        </div>
+                                        الناخبين المكررين
+                                    </h2>
+                                    <p className="text-sm text-slate-500 mt-1 font-medium pr-1">
+                                        <span className="text-amber-600 font-bold">{groups.length}</span> مجموعة •{' '}
+                                        <span className="text-amber-600 font-bold">{duplicateCount}</span> سجل زائد في جميع المدارس
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                >
+                                    <X className="w-6 h-6" />
+                                </button>
+                            </div>
+
+                            {/* Groups */}
+                            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-4 bg-slate-50/50">
+                                {groups.length === 0 ? (
+                                    <div className="flex flex-col items-center justify-center text-slate-400 py-16">
+                                        <CheckCircle2 className="w-12 h-12 mb-3 stroke-1 text-emerald-400" />
+                                        <p className="font-medium">لا توجد سجلات مكررة</p>
+                                    </div>
+                                ) : (
+                                    groups.map(group => {
+                                        const keepId = keepByGroup[group.id] ?? group.entries[0].voter.id;
+                                        return (
+                                            <div key={group.id} className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 space-y-2">
+                                                <div className="flex flex-wrap gap-1.5">
+                                                    {group.reasons.map(reason => (
+                                                        <span key={reason} className="px-2 py-0.5 rounded-md bg-amber-50 text-amber-700 text-[11px] font-bold">
+                                                            {DUPLICATE_REASON_LABELS[reason]}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                                {group.entries.map(entry => (
+                                                    <label
+                                                        key={entry.voter.id}
+                                                        className={`flex items-center gap-3 p-2.5 rounded-xl cursor-pointer transition-colors ${keepId === entry.voter.id ? 'bg-emerald-50 ring-1 ring-emerald-200' : 'hover:bg-slate-50'}`}
+                                                    >
+                                                        <input
+                                                            type="radio"
+                                                            name={group.id}
+                                                            checked={keepId === entry.voter.id}
+                                                            onChange={() => setKeepByGroup(prev => ({ ...prev, [group.id]: entry.voter.id }))}
+                                                            className="w-4 h-4 text-emerald-600"
+                                                        />
+                                                        <div className="flex-1 min-w-0">
+                                                            <div className="font-bold text-slate-700 text-sm">{entry.voter.fullName}</div>
+                                                            <div className="flex flex-wrap gap-x-2 text-xs text-slate-400 mt-0.5">
+                                                                {entry.voter.phoneNumber && <span className="font-mono" dir="ltr">{entry.voter.phoneNumber}</span>}
+                                                                <span>{entry.schoolName}</span>
+                                                                <span>{new Date(entry.voter.createdAt).toLocaleDateString('ar-IQ')}</span>
+                                                            </div>
+                                                        </div>
+                                                        <button
+                                                            onClick={(e) => {
+                                                                e.preventDefault();
+                                                                onRemove(entry);
+                                                            }}
+                                                            className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                                                            title="حذف هذا السجل"
+                                                        >
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    </label>
+                                                ))}
+                                                <button
+                                                    onClick={() => onMerge(group, keepId)}
+                                                    className="w-full flex items-center justify-center gap-2 py-2 rounded-xl bg-slate-800 hover:bg-slate-900 text-white text-xs font-bold transition-colors"
+                                                >
+                                                    <Merge className="w-4 h-4" />
+                                                    دمج في السجل المحدد
+                                                </button>
+                                            </div>
+                                        );
+                                    })
+                                )}
+                            </div>
+
+                            <div className="px-6 py-3 border-t border-slate-100 text-[11px] text-slate-400">
+                                الدمج يحتفظ بالسجل المحدد ويكمل حقوله الفارغة من السجلات الأخرى ثم يحذفها. يمكن التراجع عن الدمج والحذف.
+                            </div>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
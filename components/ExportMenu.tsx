@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, FileSpreadsheet, FileText, Globe, Map as MapIcon, Users, Layers } from 'lucide-react';
+import { exportPoints, exportVoters, PointExportFormat, VoterExportLayout } from '../services/exportService';
+import { CustomFieldDefinition, LocationPoint } from '../types';
+
+interface ExportMenuProps {
+    points: LocationPoint[];
+    filteredPoints: LocationPoint[];
+    // Custom voter fields become extra columns in the voter rolls
+    voterFields: CustomFieldDefinition[];
+}
+
+const POINT_FORMATS: { format: PointExportFormat; label: string; hint: string; Icon: React.ElementType }[] = [
+    { format: 'csv', label: 'CSV', hint: 'جدول نصي', Icon: FileText },
+    { format: 'xlsx', label: 'Excel', hint: 'ملف XLSX', Icon: FileSpreadsheet },
+    { format: 'geojson', label: 'GeoJSON', hint: 'لبرامج GIS', Icon: Globe },
+    { format: 'kml', label: 'KML', hint: 'Google Earth', Icon: MapIcon },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ points, filteredPoints, voterFields }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [scope, setScope] = useState<'filtered' | 'all'>('filtered');
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Click outside to close
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const scopedPoints = scope === 'filtered' ? filteredPoints : points;
+    const voterTotal = scopedPoints.reduce((sum, p) => sum + (p.voters?.length || 0), 0);
+
+    const handleExportPoints = (format: PointExportFormat) => {
+        exportPoints(scopedPoints, format);
+        setIsOpen(false);
+    };
+
+    const handleExportVoters = (layout: VoterExportLayout) => {
+        exportVoters(scopedPoints, layout, voterFields);
+        setIsOpen(false);
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <motion.button
+                whileTap={{ scale: 0.9 }}
+                whileHover={{ scale: 1.05 }}
+                onClick={() => setIsOpen(!isOpen)}
+                disabled={points.length === 0}
+                className={`p-3 rounded-2xl transition-colors shadow-sm hover:shadow flex items-center gap-2 text-sm font-bold disabled:opacity-40 disabled:cursor-not-allowed ${isOpen ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-emerald-600 hover:bg-emerald-50/80'}`}
+                title="تصدير"
+            >
+                <Download className="w-5 h-5" />
+                <span className="hidden sm:inline">تصدير</span>
+            </motion.button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.9, y: 10 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.9, y: 10 }}
+                        className="absolute top-full left-0 z-50 mt-3 w-80 bg-white/95 backdrop-blur-2xl border border-white/20 rounded-3xl shadow-[0_30px_60px_rgba(0,0,0,0.12)] ring-1 ring-black/5 p-5 space-y-4"
+                    >
+                        {/* Scope */}
+                        <div className="grid grid-cols-2 gap-1 bg-slate-100 p-1 rounded-xl text-xs font-bold">
+                            <button
+                                onClick={() => setScope('filtered')}
+                                className={`py-2 rounded-lg transition-colors ${scope === 'filtered' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400'}`}
+                            >
+                                المعروض ({filteredPoints.length})
+                            </button>
+                            <button
+                                onClick={() => setScope('all')}
+                                className={`py-2 rounded-lg transition-colors ${scope === 'all' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400'}`}
+                            >
+                                الكل ({points.length})
+                            </button>
+                        </div>
+
+                        {/* Points */}
+                        <div className="space-y-2">
+                            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">المدارس</span>
+                            <div className="grid grid-cols-2 gap-2">
+                                {POINT_FORMATS.map(({ format, label, hint, Icon }) => (
+                                    <button
+                                        key={format}
+                                        onClick={() => handleExportPoints(format)}
+                                        disabled={scopedPoints.length === 0}
+                                        className="flex items-center gap-2 p-3 rounded-xl bg-slate-50 hover:bg-emerald-50 hover:text-emerald-700 text-slate-600 transition-colors text-right disabled:opacity-40"
+                                    >
+                                        <Icon className="w-4 h-4 shrink-0" />
+                                        <div>
+                                            <div className="text-sm font-bold">{label}</div>
+                                            <div className="text-[10px] text-slate-400">{hint}</div>
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Voter Rolls */}
+                        <div className="space-y-2 pt-3 border-t border-slate-100">
+                            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">سجلات الناخبين ({voterTotal})</span>
+                            <button
+                                onClick={() => handleExportVoters('flat')}
+                                disabled={voterTotal === 0}
+                                className="w-full flex items-center gap-3 p-3 rounded-xl bg-slate-50 hover:bg-emerald-50 hover:text-emerald-700 text-slate-600 transition-colors text-right disabled:opacity-40"
+                            >
+                                <Users className="w-4 h-4 shrink-0" />
+                                <div>
+                                    <div className="text-sm font-bold">ورقة واحدة</div>
+                                    <div className="text-[10px] text-slate-400">جميع الناخبين مع أعمدة المدرسة والمنطقة</div>
+                                </div>
+                            </button>
+                            <button
+                                onClick={() => handleExportVoters('per-school')}
+                                disabled={voterTotal === 0}
+                                className="w-full flex items-center gap-3 p-3 rounded-xl bg-slate-50 hover:bg-emerald-50 hover:text-emerald-700 text-slate-600 transition-colors text-right disabled:opacity-40"
+                            >
+                                <Layers className="w-4 h-4 shrink-0" />
+                                <div>
+                                    <div className="text-sm font-bold">ورقة لكل مدرسة</div>
+                                    <div className="text-[10px] text-slate-400">ملف Excel بورقة منفصلة لكل مدرسة</div>
+                                </div>
+                            </button>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
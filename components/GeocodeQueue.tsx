@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Marker, Popup, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { AlertCircle, Check, Crosshair, LocateFixed, Pause, Play, RotateCcw, Trash2, X } from 'lucide-react';
+import { MapRegion } from '../types';
+import { GEOCODER_LABELS, GeocoderConfig, isAbortError } from '../services/geocoderService';
+import { GEOCODE_STATUS_LABELS, GeocodeJobItem, GeocodeJobStatus, findCandidates } from '../services/batchGeocodeService';
+
+const STATUS_BADGES: Record<GeocodeJobStatus, string> = {
+  queued: 'bg-slate-100 text-slate-500',
+  review: 'bg-amber-100 text-amber-700',
+  notFound: 'bg-rose-100 text-rose-700',
+};
+
+const createCandidateIcon = (index: number) => L.divIcon({
+  className: '',
+  html: `<div class="w-7 h-7 rounded-full bg-amber-500 ring-2 ring-white shadow-md text-white text-xs font-black flex items-center justify-center">${index + 1}</div>`,
+  iconSize: [28, 28],
+  iconAnchor: [14, 14],
+});
+
+interface GeocodeQueuePanelProps {
+  items: GeocodeJobItem[];
+  config: GeocoderConfig;
+  region: MapRegion;
+  onUpdate: (pointId: string, update: Pick<GeocodeJobItem, 'status' | 'candidates'>) => void;
+  // Adds the school to the map at the given location and drops it from the queue
+  onPlace: (item: GeocodeJobItem, lat: number, lng: number) => void;
+  onRemove: (pointId: string) => void;
+  // True while the next map click places the selected school; map clicks shouldn't add schools meanwhile
+  onPlacingChange: (isPlacing: boolean) => void;
+  onClose: () => void;
+}
+
+/**
+ * Looks up schools imported without coordinates one at a time, at the pace
+ * the geocoders allow, and lets the user accept a candidate, pick another or
+ * place the school by hand. The queue is saved after every step, so closing
+ * the panel or reloading only pauses it.
+ */
+export const GeocodeQueuePanel: React.FC<GeocodeQueuePanelProps> = ({
+  items,
+  config,
+  region,
+  onUpdate,
+  onPlace,
+  onRemove,
+  onPlacingChange,
+  onClose
+}) => {
+  const map = useMap();
+  const [isRunning, setIsRunning] = useState(() => items.some(i => i.status === 'queued'));
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isPlacing, setIsPlacing] = useState(false);
+  // Why the queue stopped on its own; cleared when it's resumed
+  const [error, setError] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const nextQueued = items.find(i => i.status === 'queued');
+  const selected = items.find(i => i.point.id === selectedId) ?? items.find(i => i.status !== 'queued');
+  const counts = useMemo(() => {
+    const result: Record<GeocodeJobStatus, number> = { queued: 0, review: 0, notFound: 0 };
+    items.forEach(i => result[i.status]++);
+    return result;
+  }, [items]);
+  const icons = useMemo(() => (selected?.candidates || []).map((_, i) => createCandidateIcon(i)), [selected]);
+
+  useEffect(() => {
+    if (panelRef.current) {
+      L.DomEvent.disableClickPropagation(panelRef.current);
+      L.DomEvent.disableScrollPropagation(panelRef.current);
+    }
+  }, []);
+
+  // One school at a time; the geocoder service spaces the requests out
+  useEffect(() => {
+    if (!isRunning) return;
+    if (!nextQueued) {
+      setIsRunning(false);
+      return;
+    }
+    const controller = new AbortController();
+    findCandidates(nextQueued.point, config, region, controller.signal)
+      .then(candidates => onUpdate(nextQueued.point.id, { status: candidates.length ? 'review' : 'notFound', candidates }))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Batch geocoding error:', error);
+        setIsRunning(false);
+        setError(`توقف البحث عند "${nextQueued.point.name}". ${error instanceof Error ? error.message : ''}`);
+      });
+    return () => controller.abort();
+  }, [isRunning, nextQueued?.point.id, config, region]);
+
+  useEffect(() => {
+    onPlacingChange(isPlacing);
+    if (!isPlacing) return;
+    map.getContainer().style.cursor = 'crosshair';
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsPlacing(false);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      map.getContainer().style.cursor = '';
+      document.removeEventListener('keydown', handleKeyDown);
+      onPlacingChange(false);
+    };
+  }, [isPlacing, map, onPlacingChange]);
+
+  // Frame the candidates of the school under review
+  useEffect(() => {
+    if (!selected?.candidates.length) return;
+    map.fitBounds(L.latLngBounds(selected.candidates.map(c => [c.lat, c.lng] as [number, number])), { padding: [80, 80], maxZoom: 16 });
+  }, [map, selected?.point.id]);
+
+  useMapEvents({
+    preclick(e) {
+      if (!isPlacing || !selected) return;
+      setIsPlacing(false);
+      onPlace(selected, e.latlng.lat, e.latlng.lng);
+    },
+  });
+
+  const handlePlace = (item: GeocodeJobItem, lat: number, lng: number) => {
+    setIsPlacing(false);
+    setSelectedId(null);
+    onPlace(item, lat, lng);
+  };
+
+  const handleToggleRunning = () => {
+    setError(null);
+    setIsRunning(!isRunning);
+  };
+
+  const handleRetry = (item: GeocodeJobItem) => {
+    onUpdate(item.point.id, { status: 'queued', candidates: [] });
+    setError(null);
+    setIsRunning(true);
+  };
+
+  return (
+    <>
+      {selected?.candidates.map((candidate, i) => (
+        <Marker key={candidate.id} position={[candidate.lat, candidate.lng]} icon={icons[i]} zIndexOffset={1000}>
+          <Tooltip direction="top" offset={[0, -14]}>
+            <div dir="rtl" className="text-xs">{i + 1}. {candidate.name}</div>
+          </Tooltip>
+          <Popup className="modern-popup">
+            <div className="text-right min-w-[180px] p-1 font-sans space-y-2" dir="rtl">
+              <h3 className="font-bold text-slate-800 leading-tight">{candidate.name}</h3>
+              {candidate.description && <p className="text-xs text-slate-500">{candidate.description}</p>}
+              <p className="text-[10px] text-slate-400">{GEOCODER_LABELS[candidate.provider].label}</p>
+              <button
+                onClick={() => handlePlace(selected, candidate.lat, candidate.lng)}
+                className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold"
+              >
+                <Check className="w-3.5 h-3.5" />
+                اعتماد موقع {selected.point.name}
+              </button>
+            </div>
+          </Popup>
+        </Marker>
+      ))}
+
+      <div
+        ref={panelRef}
+        dir="rtl"
+        className="absolute bottom-6 right-6 z-[1000] w-80 max-h-[60vh] flex flex-col bg-white/95 backdrop-blur-md rounded-2xl shadow-xl ring-1 ring-slate-900/5 font-sans overflow-hidden"
+      >
+        {/* Header */}
+        <div className="p-3 border-b border-slate-100 flex items-center gap-2">
+          <div className="bg-emerald-100 p-1.5 rounded-lg text-emerald-600">
+            <LocateFixed className="w-4 h-4" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-black text-slate-800">تحديد مواقع المدارس</div>
+            <div className="text-[10px] text-slate-400">
+              {counts.queued} بانتظار البحث • {counts.review} للمراجعة • {counts.notFound} لم يُعثر عليها
+            </div>
+          </div>
+          <button
+            onClick={handleToggleRunning}
+            disabled={!isRunning && counts.queued === 0}
+            className={`p-2 rounded-xl transition-colors disabled:opacity-30 ${isRunning ? 'bg-amber-100 text-amber-700' : 'bg-emerald-600 text-white hover:bg-emerald-700'}`}
+            title={isRunning ? 'إيقاف مؤقت' : 'متابعة البحث'}
+          >
+            {isRunning ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+            title="إغلاق (يبقى التقدم محفوظاً)"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-3 py-2 bg-rose-50 text-[11px] text-rose-700 font-bold flex items-start gap-1.5">
+            <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+            <span>{error} تحقق من الاتصال أو إعدادات البحث ثم اضغط متابعة.</span>
+          </div>
+        )}
+
+        {isRunning && nextQueued && (
+          <div className="px-3 py-2 bg-emerald-50/60 text-[11px] text-emerald-700 font-bold truncate">
+            جاري البحث عن: {nextQueued.point.name}
+          </div>
+        )}
+
+        {/* Selected school */}
+        {selected && (
+          <div className="p-3 border-b border-slate-100 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-slate-700 truncate">{selected.point.name}</div>
+                <div className="text-[11px] text-slate-400">{selected.point.district || 'بدون منطقة'}</div>
+              </div>
+              <span className={`px-1.5 py-0.5 rounded-md text-[10px] font-bold shrink-0 ${STATUS_BADGES[selected.status]}`}>
+                {GEOCODE_STATUS_LABELS[selected.status]}
+              </span>
+            </div>
+            {selected.candidates.map((candidate, i) => (
+              <div key={candidate.id} className="flex items-center gap-2 text-xs">
+                <span className="w-5 h-5 rounded-full bg-amber-500 text-white text-[10px] font-black flex items-center justify-center shrink-0">{i + 1}</span>
+                <button
+                  onClick={() => map.flyTo([candidate.lat, candidate.lng], Math.max(map.getZoom(), 16))}
+                  className="flex-1 min-w-0 text-right truncate text-slate-600 hover:text-emerald-700"
+                  title={candidate.description}
+                >
+                  {candidate.name}
+                </button>
+                <button
+                  onClick={() => handlePlace(selected, candidate.lat, candidate.lng)}
+                  className="p-1 text-emerald-600 hover:bg-emerald-50 rounded-md"
+                  title="اعتماد هذا الموقع"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-1.5">
+              <button
+                onClick={() => setIsPlacing(!isPlacing)}
+                className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-xs font-bold transition-colors ${isPlacing ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                <Crosshair className="w-3.5 h-3.5" />
+                {isPlacing ? 'انقر على الخريطة...' : 'وضع يدوي'}
+              </button>
+              <button
+                onClick={() => handleRetry(selected)}
+                className="p-1.5 rounded-lg bg-slate-100 text-slate-500 hover:bg-slate-200"
+                title="إعادة البحث"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onRemove(selected.point.id)}
+                className="p-1.5 rounded-lg bg-slate-100 text-slate-400 hover:text-rose-500 hover:bg-rose-50"
+                title="إزالة من القائمة دون إضافتها"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Queue */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {items.map(item => (
+            <button
+              key={item.point.id}
+              onClick={() => {
+                setIsPlacing(false);
+                setSelectedId(item.point.id);
+              }}
+              className={`w-full px-3 py-2 flex items-center gap-2 text-right border-b border-slate-50 last:border-0 transition-colors ${item === selected ? 'bg-emerald-50/70' : 'hover:bg-slate-50'}`}
+            >
+              <span className="flex-1 min-w-0 text-xs font-bold text-slate-600 truncate">{item.point.name}</span>
+              <span className={`px-1.5 py-0.5 rounded-md text-[10px] font-bold shrink-0 ${STATUS_BADGES[item.status]}`}>
+                {item.status === 'review' ? `${item.candidates.length} مرشح` : GEOCODE_STATUS_LABELS[item.status]}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,362 @@
+import React, { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Upload, FileSpreadsheet, MapPin, Users, ArrowRight, AlertTriangle, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import {
+    ImportMode,
+    ColumnMapping,
+    ParsedSheet,
+    POINT_FIELDS,
+    VOTER_FIELDS,
+    parseSpreadsheetFile,
+    guessColumnMapping,
+    previewPointRows,
+    previewVoterRows,
+    isPlaced
+} from '../services/importService';
+import { LocationPoint, UnplacedPoint, Voter } from '../types';
+
+interface ImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    points: LocationPoint[];
+    onImportPoints: (points: LocationPoint[]) => void;
+    // Schools without coordinates, to be located through the geocoding queue
+    onQueueUnplaced: (points: UnplacedPoint[]) => void;
+    onImportVoters: (schoolId: string, voters: Voter[]) => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview';
+
+export const ImportModal: React.FC<ImportModalProps> = ({
+    isOpen,
+    onClose,
+    points,
+    onImportPoints,
+    onQueueUnplaced,
+    onImportVoters
+}) => {
+    const [step, setStep] = useState<ImportStep>('upload');
+    const [mode, setMode] = useState<ImportMode>('points');
+    const [targetSchoolId, setTargetSchoolId] = useState('');
+    const [fileName, setFileName] = useState('');
+    const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [skipWarnings, setSkipWarnings] = useState(false);
+    const [isParsing, setIsParsing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fields = mode === 'points' ? POINT_FIELDS : VOTER_FIELDS;
+    const targetSchool = points.find(p => p.id === targetSchoolId);
+
+    const preview = useMemo(() => {
+        if (!sheet || step !== 'preview') return [];
+        return mode === 'points'
+            ? previewPointRows(sheet, mapping, points)
+            : previewVoterRows(sheet, mapping, points, targetSchoolId);
+    }, [sheet, step, mode, mapping, points, targetSchoolId]);
+
+    const errorCount = preview.filter(r => !r.record).length;
+    const warningCount = preview.filter(r => r.record && r.issues.length > 0).length;
+    const importable = preview.filter(r => r.record && (!skipWarnings || r.issues.length === 0));
+
+    const reset = () => {
+        setStep('upload');
+        setFileName('');
+        setSheet(null);
+        setMapping({});
+        setSkipWarnings(false);
+        setError(null);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setIsParsing(true);
+        setError(null);
+        try {
+            const parsed = await parseSpreadsheetFile(file);
+            if (parsed.rows.length === 0) {
+                throw new Error('الملف لا يحتوي على أي صفوف بيانات.');
+            }
+            setFileName(file.name);
+            setSheet(parsed);
+            setMapping(guessColumnMapping(parsed.headers, mode));
+            setStep('mapping');
+        } catch (err) {
+            console.error('Import parse error:', err);
+            setError(err instanceof Error ? err.message : 'تعذر قراءة الملف.');
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    const missingRequired = fields.filter(f => f.required && !mapping[f.field]);
+
+    const handleImport = () => {
+        const records = importable.map(r => r.record!);
+        if (records.length === 0) return;
+        if (mode === 'points') {
+            const pointRecords = records as (LocationPoint | UnplacedPoint)[];
+            const placed = pointRecords.filter(isPlaced);
+            const unplaced = pointRecords.filter(p => !isPlaced(p));
+            if (placed.length) onImportPoints(placed);
+            if (unplaced.length) onQueueUnplaced(unplaced);
+        } else if (targetSchoolId) {
+            onImportVoters(targetSchoolId, records as Voter[]);
+        }
+        handleClose();
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={handleClose}
+                        className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1100] transition-opacity"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="fixed inset-0 z-[1110] flex items-center justify-center p-4 sm:p-6 pointer-events-none"
+                    >
+                        <div
+                            className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col pointer-events-auto overflow-hidden ring-1 ring-slate-900/5"
+                            dir="rtl"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-white relative z-10">
+                                <div>
+                                    <h2 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                                        <div className="bg-sky-100 p-2 rounded-xl text-sky-600">
+                                            <FileSpreadsheet className="w-5 h-5" />
+                                        </div>
+                                        استيراد البيانات
+                                    </h2>
+                                    <p className="text-sm text-slate-500 mt-1 font-medium pr-1">
+                                        {step === 'upload' && 'اختر نوع البيانات وملف CSV أو Excel'}
+                                        {step === 'mapping' && <>مطابقة الأعمدة • <span className="text-sky-600 font-bold">{fileName}</span></>}
+                                        {step === 'preview' && <>معاينة • <span className="text-sky-600 font-bold">{sheet?.rows.length}</span> صف</>}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={handleClose}
+                                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                >
+                                    <X className="w-6 h-6" />
+                                </button>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar bg-slate-50/50 space-y-5">
+                                {error && (
+                                    <div className="flex items-start gap-2 bg-rose-50 text-rose-600 text-sm font-medium p-3 rounded-xl">
+                                        <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                                        <span>{error}</span>
+                                    </div>
+                                )}
+
+                                {/* Step 1: Mode & File */}
+                                {step === 'upload' && (
+                                    <>
+                                        <div className="grid grid-cols-2 gap-3">
+                                            {([
+                                                { value: 'points', label: 'مراكز الاقتراع', hint: 'مدارس جديدة مع الإحداثيات', Icon: MapPin },
+                                                { value: 'voters', label: 'سجل الناخبين', hint: 'إضافة ناخبين إلى مدرسة موجودة', Icon: Users }
+                                            ] as const).map(({ value, label, hint, Icon }) => (
+                                                <button
+                                                    key={value}
+                                                    onClick={() => setMode(value)}
+                                                    disabled={value === 'voters' && points.length === 0}
+                                                    className={`p-4 rounded-2xl border-2 text-right transition-all disabled:opacity-40 disabled:cursor-not-allowed ${mode === value ? 'border-sky-500 bg-sky-50' : 'border-slate-100 bg-white hover:border-slate-200'}`}
+                                                >
+                                                    <Icon className={`w-5 h-5 mb-2 ${mode === value ? 'text-sky-600' : 'text-slate-400'}`} />
+                                                    <div className="font-bold text-slate-800 text-sm">{label}</div>
+                                                    <div className="text-xs text-slate-400 mt-0.5">{hint}</div>
+                                                </button>
+                                            ))}
+                                        </div>
+
+                                        {mode === 'voters' && (
+                                            <div className="space-y-1.5">
+                                                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">المدرسة</label>
+                                                <select
+                                                    value={targetSchoolId}
+                                                    onChange={(e) => setTargetSchoolId(e.target.value)}
+                                                    className="w-full px-4 py-2.5 bg-white border-0 ring-1 ring-slate-200 rounded-xl focus:ring-2 focus:ring-sky-500/20 text-slate-700 font-medium text-sm cursor-pointer"
+                                                >
+                                                    <option value="">اختر المدرسة...</option>
+                                                    {[...points].sort((a, b) => a.name.localeCompare(b.name)).map(p => (
+                                                        <option key={p.id} value={p.id}>{p.name} — {p.district || '—'}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        )}
+
+                                        <label
+                                            className={`flex flex-col items-center justify-center gap-3 py-12 border-2 border-dashed rounded-3xl transition-colors ${mode === 'voters' && !targetSchoolId ? 'opacity-40 pointer-events-none border-slate-200' : 'cursor-pointer border-slate-200 hover:border-sky-400 hover:bg-sky-50/40'}`}
+                                        >
+                                            {isParsing ? (
+                                                <Loader2 className="w-10 h-10 text-sky-500 animate-spin" />
+                                            ) : (
+                                                <Upload className="w-10 h-10 text-slate-300" />
+                                            )}
+                                            <span className="font-bold text-slate-600">اختر ملف CSV أو XLSX</span>
+                                            <span className="text-xs text-slate-400">يجب أن يحتوي الصف الأول على أسماء الأعمدة</span>
+                                            <input type="file" accept=".csv,.xlsx,.xls" onChange={handleFile} className="hidden" />
+                                        </label>
+                                    </>
+                                )}
+
+                                {/* Step 2: Column Mapping */}
+                                {step === 'mapping' && sheet && (
+                                    <div className="space-y-3">
+                                        {fields.map(({ field, label, required }) => (
+                                            <div key={field} className="flex items-center gap-4 bg-white p-3 rounded-xl ring-1 ring-slate-100">
+                                                <span className="w-40 text-sm font-bold text-slate-700">
+                                                    {label}
+                                                    {required && <span className="text-rose-500 mr-1">*</span>}
+                                                </span>
+                                                <ArrowRight className="w-4 h-4 text-slate-300 rotate-180" />
+                                                <select
+                                                    value={mapping[field] || ''}
+                                                    onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value || undefined }))}
+                                                    className="flex-1 px-3 py-2 bg-slate-50 border-0 rounded-lg focus:ring-2 focus:ring-sky-500/20 text-slate-700 text-sm cursor-pointer"
+                                                >
+                                                    <option value="">— غير مستخدم —</option>
+                                                    {sheet.headers.map(h => (
+                                                        <option key={h} value={h}>{h}</option>
+                                                    ))}
+                                                </select>
+                                                <span className="w-32 text-xs text-slate-400 truncate font-mono">
+                                                    {mapping[field] ? sheet.rows[0]?.[mapping[field]!] : ''}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {/* Step 3: Preview */}
+                                {step === 'preview' && (
+                                    <>
+                                        <div className="grid grid-cols-3 gap-3">
+                                            <div className="bg-emerald-50 text-emerald-700 p-3 rounded-xl">
+                                                <div className="text-2xl font-black">{preview.length - errorCount - warningCount}</div>
+                                                <div className="text-xs font-bold">صالح</div>
+                                            </div>
+                                            <div className="bg-amber-50 text-amber-700 p-3 rounded-xl">
+                                                <div className="text-2xl font-black">{warningCount}</div>
+                                                <div className="text-xs font-bold">تحذيرات</div>
+                                            </div>
+                                            <div className="bg-rose-50 text-rose-700 p-3 rounded-xl">
+                                                <div className="text-2xl font-black">{errorCount}</div>
+                                                <div className="text-xs font-bold">أخطاء (لن تُستورد)</div>
+                                            </div>
+                                        </div>
+
+                                        {warningCount > 0 && (
+                                            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={skipWarnings}
+                                                    onChange={(e) => setSkipWarnings(e.target.checked)}
+                                                    className="rounded text-sky-600"
+                                                />
+                                                تخطي الصفوف التي تحتوي على تحذيرات (مثل الأسماء المكررة)
+                                            </label>
+                                        )}
+
+                                        <div className="space-y-1.5">
+                                            {preview.map(row => {
+                                                const hasError = !row.record;
+                                                const hasWarning = !hasError && row.issues.length > 0;
+                                                const source = sheet!.rows[row.rowNumber - 2];
+                                                const title = mode === 'points'
+                                                    ? source[mapping.name || ''] || '—'
+                                                    : source[mapping.fullName || ''] || '—';
+                                                return (
+                                                    <div
+                                                        key={row.rowNumber}
+                                                        className={`flex items-start gap-3 p-2.5 rounded-xl text-sm bg-white ring-1 ${hasError ? 'ring-rose-100' : hasWarning ? 'ring-amber-100' : 'ring-slate-100'}`}
+                                                    >
+                                                        <span className="text-[10px] font-mono text-slate-300 w-8 pt-0.5">#{row.rowNumber}</span>
+                                                        {hasError ? (
+                                                            <AlertCircle className="w-4 h-4 text-rose-500 shrink-0 mt-0.5" />
+                                                        ) : hasWarning ? (
+                                                            <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                                                        ) : (
+                                                            <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0 mt-0.5" />
+                                                        )}
+                                                        <div className="flex-1 min-w-0">
+                                                            <div className="font-bold text-slate-700 truncate">{title}</div>
+                                                            {row.issues.length > 0 && (
+                                                                <div className="text-xs text-slate-400 mt-0.5">
+                                                                    {row.issues.map(i => i.message).join(' • ')}
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+
+                            {/* Footer */}
+                            {step !== 'upload' && (
+                                <div className="p-4 bg-white border-t border-slate-100 z-10 flex items-center gap-3">
+                                    <button
+                                        onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+                                        className="px-5 py-3 rounded-xl text-sm font-bold text-slate-500 bg-slate-100 hover:bg-slate-200 transition-colors"
+                                    >
+                                        رجوع
+                                    </button>
+                                    <div className="flex-1 text-xs text-slate-400">
+                                        {step === 'mapping' && missingRequired.length > 0 && (
+                                            <>الحقول المطلوبة غير المطابقة: {missingRequired.map(f => f.label).join('، ')}</>
+                                        )}
+                                        {step === 'preview' && mode === 'voters' && targetSchool && (
+                                            <>سيتم الإضافة إلى: <span className="font-bold text-slate-600">{targetSchool.name}</span></>
+                                        )}
+                                    </div>
+                                    {step === 'mapping' ? (
+                                        <button
+                                            onClick={() => setStep('preview')}
+                                            disabled={missingRequired.length > 0}
+                                            className="bg-sky-500 hover:bg-sky-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 py-3 rounded-xl font-bold text-sm transition-all shadow-lg shadow-sky-500/20"
+                                        >
+                                            معاينة
+                                        </button>
+                                    ) : (
+                                        <button
+                                            onClick={handleImport}
+                                            disabled={importable.length === 0}
+                                            className="bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 py-3 rounded-xl font-bold text-sm flex items-center gap-2 transition-all shadow-lg shadow-emerald-500/20"
+                                        >
+                                            <Upload className="w-4 h-4" />
+                                            استيراد {importable.length}
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
@@ -1,8 +1,30 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useMapEvents, useMap, Marker, Popup, TileLayer, Tooltip, LayersControl } from 'react-leaflet';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useMapEvents, useMap, Marker, Popup, TileLayer, Tooltip, LayersControl, CircleMarker } from 'react-leaflet';
 import L from 'leaflet';
-import { Search, Loader2, MapPin, Navigation, X } from 'lucide-react';
-import { LocationPoint } from '../types';
+import { Search, Loader2, MapPin, Navigation, X, Settings2, School, UserRound, AlertCircle } from 'lucide-react';
+import { LocationPoint, MapRegion } from '../types';
+import { getCountMode, getCoverage, getEnteredCount, getVoterTotal } from '../services/coverageService';
+import { getContactStats } from '../services/contactService';
+import { Turnout, getTurnoutColor } from '../services/turnoutService';
+import { ClassMethod, getClassBreaks } from '../services/classificationService';
+import { DistrictStats } from '../services/districtService';
+import { GEOCODER_LABELS, GeocodeResult, GeocoderConfig, geocode, isAbortError } from '../services/geocoderService';
+import { ProjectSearchResults, VoterMatch, searchProject } from '../services/projectSearchService';
+import { TILE_URL } from '../services/offlineMapService';
+import { CoverageBar } from './CoverageBar';
+import { ContactStatsSummary } from './ContactStatsSummary';
+import { TurnoutBar } from './TurnoutBar';
+import {
+  CIRCLES_OVERLAY,
+  CLASSES_OVERLAY,
+  ClassesLayer,
+  DISTRICTS_OVERLAY,
+  DistrictChoroplethLayer,
+  HEATMAP_OVERLAY,
+  HeatmapLayer,
+  ProportionalCirclesLayer,
+  ThematicLegend
+} from './ThematicLayers';
 
 // Fix for default Leaflet marker icons in some bundlers
 const DefaultIcon = L.icon({
@@ -29,16 +51,52 @@ const SearchIcon = L.icon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
+// Election day marker: a dot colored by turnout level with the percentage inside
+const createTurnoutIcon = (turnout: Turnout) => L.divIcon({
+  className: '',
+  html: `<div style="background:${getTurnoutColor(turnout.ratio)}" class="w-8 h-8 rounded-full ring-2 ring-white shadow-lg flex items-center justify-center text-[10px] font-black text-white">${turnout.ratio === null ? '—' : `${Math.round(turnout.ratio * 100)}%`}</div>`,
+  iconSize: [32, 32],
+  iconAnchor: [16, 16],
+  popupAnchor: [0, -16],
+  tooltipAnchor: [0, -8],
+});
+
 interface LocationMarkerProps {
   point: LocationPoint;
+  // When set, the marker can be dragged and reports its new position on drop
+  onDragEnd?: (lat: number, lng: number) => void;
+  // Election day mode: colors the marker by turnout instead of showing roll coverage
+  turnout?: Turnout;
+  // Keeps the tooltip open; off where it would overlap a neighbour's
+  showLabel?: boolean;
 }
 
-export const LocationMarker: React.FC<LocationMarkerProps> = ({ point }) => {
+export const LocationMarker: React.FC<LocationMarkerProps> = ({ point, onDragEnd, turnout, showLabel = true }) => {
+  const coverage = getCoverage(point);
+  const countMode = getCountMode(point);
+  const contactStats = point.voters?.length ? getContactStats(point.voters) : null;
+  const icon = useMemo(
+    () => (turnout ? createTurnoutIcon(turnout) : DefaultIcon),
+    [turnout?.ratio, turnout?.voted, turnout?.expected]
+  );
+
   return (
-    <Marker position={[point.lat, point.lng]}>
+    <Marker
+      position={[point.lat, point.lng]}
+      icon={icon}
+      draggable={!!onDragEnd}
+      opacity={onDragEnd ? 0.8 : 1}
+      eventHandlers={{
+        dragend: (e) => {
+          const { lat, lng } = (e.target as L.Marker).getLatLng();
+          onDragEnd?.(lat, lng);
+        }
+      }}
+    >
       {/* Modern Compact Tooltip - Positioned strictly above the marker */}
       <Tooltip
-        permanent
+        key={showLabel ? 'label' : 'hover'}
+        permanent={showLabel}
         direction="top"
         offset={[0, -12]} /* Increased negative offset to push it higher above the pin */
         opacity={1}
@@ -46,7 +104,21 @@ export const LocationMarker: React.FC<LocationMarkerProps> = ({ point }) => {
       >
         <div dir="rtl" className="flex flex-col items-center justify-center bg-slate-900/90 backdrop-blur-md px-2 py-1 rounded-lg shadow-xl border border-white/10 transform transition-all hover:scale-110 cursor-pointer group z-[1000]">
           <div className="font-bold text-[11px] text-white whitespace-nowrap max-w-[120px] truncate">{point.name}</div>
-          <div className="text-[10px] font-medium text-emerald-400 mt-0.5 bg-emerald-950/30 px-1.5 rounded-full">{point.count.toLocaleString()}</div>
+          {turnout ? (
+            <div className="mt-0.5 w-full min-w-[96px]">
+              <TurnoutBar turnout={turnout} variant="dark" />
+            </div>
+          ) : coverage ? (
+            <div className="mt-0.5 w-full min-w-[64px] flex flex-col items-center gap-0.5">
+              <div className="text-[10px] font-medium text-emerald-400 bg-emerald-950/30 px-1.5 rounded-full" dir="ltr">
+                {coverage.entered.toLocaleString()} / {coverage.expected.toLocaleString()}
+              </div>
+              <CoverageBar coverage={coverage} variant="dark" showLabel={false} />
+            </div>
+          ) : (
+            <div className="text-[10px] font-medium text-emerald-400 mt-0.5 bg-emerald-950/30 px-1.5 rounded-full">{getVoterTotal(point).toLocaleString()}</div>
+          )}
+          {contactStats && !turnout && <ContactStatsSummary stats={contactStats} variant="dark" className="mt-0.5" />}
           {/* Little arrow indicator using border trick */}
           <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-slate-900/90 rotate-45 border-r border-b border-white/10"></div>
         </div>
@@ -63,9 +135,28 @@ export const LocationMarker: React.FC<LocationMarkerProps> = ({ point }) => {
             </p>
           )}
           <div className="flex justify-between items-center bg-slate-50 p-2 rounded-lg">
-            <span className="text-xs text-slate-500">عدد الناخبين</span>
-            <span className="font-bold text-emerald-600 text-base">{point.count.toLocaleString()}</span>
+            <span className="text-xs text-slate-500">{countMode === 'derived' ? 'الأسماء المدخلة' : 'عدد الناخبين'}</span>
+            <span className="font-bold text-emerald-600 text-base">{getVoterTotal(point).toLocaleString()}</span>
           </div>
+          {coverage && (
+            <div className="bg-slate-50 p-2 rounded-lg mt-1.5">
+              <div className="text-xs text-slate-500 mb-1.5">الأسماء المدخلة</div>
+              <CoverageBar coverage={coverage} />
+            </div>
+          )}
+          {countMode === 'manual' && getEnteredCount(point) > 0 && (
+            <p className="text-[11px] text-slate-400 mt-1.5">{getEnteredCount(point).toLocaleString()} اسم في السجل</p>
+          )}
+          {turnout && (
+            <div className="bg-slate-50 p-2 rounded-lg mt-1.5">
+              <TurnoutBar turnout={turnout} />
+            </div>
+          )}
+          {contactStats && (
+            <div className="bg-slate-50 p-2 rounded-lg mt-1.5">
+              <ContactStatsSummary stats={contactStats} />
+            </div>
+          )}
         </div>
       </Popup>
     </Marker>
@@ -96,80 +187,173 @@ export const MapInvalidator: React.FC<{ trigger?: any }> = ({ trigger }) => {
   return null;
 };
 
-export const BaseMapLayer: React.FC = () => {
+interface BaseMapLayerProps {
+  // Points drawn by the thematic overlays
+  points: LocationPoint[];
+  // Per-boundary totals; the choropleth overlay only appears once boundaries are loaded
+  districtStats: DistrictStats[];
+}
+
+export const BaseMapLayer: React.FC<BaseMapLayerProps> = ({ points, districtStats }) => {
+  const [classMethod, setClassMethod] = useState<ClassMethod>('natural-breaks');
+  const breaks = useMemo(() => getClassBreaks(points.map(getVoterTotal), classMethod), [points, classMethod]);
+  const districtBreaks = useMemo(
+    () => getClassBreaks(districtStats.filter(d => d.points.length > 0).map(d => d.total), classMethod),
+    [districtStats, classMethod]
+  );
+
   return (
-    <LayersControl position="topright">
-      <LayersControl.BaseLayer checked name="OpenStreetMap">
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-          className="map-tiles"
-        />
-      </LayersControl.BaseLayer>
+    <>
+      <LayersControl position="topright">
+        <LayersControl.BaseLayer checked name="OpenStreetMap">
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url={TILE_URL}
+            className="map-tiles"
+          />
+        </LayersControl.BaseLayer>
 
-      <LayersControl.BaseLayer name="Google Streets">
-        <TileLayer
-          url="http://{s}.google.com/vt/lyrs=m&x={x}&y={y}&z={z}"
-          subdomains={['mt0', 'mt1', 'mt2', 'mt3']}
-          attribution='&copy; Google Maps'
-        />
-      </LayersControl.BaseLayer>
+        <LayersControl.BaseLayer name="Google Streets">
+          <TileLayer
+            url="http://{s}.google.com/vt/lyrs=m&x={x}&y={y}&z={z}"
+            subdomains={['mt0', 'mt1', 'mt2', 'mt3']}
+            attribution='&copy; Google Maps'
+          />
+        </LayersControl.BaseLayer>
 
-      <LayersControl.BaseLayer name="Google Satellite (Hybrid)">
-        <TileLayer
-          url="http://{s}.google.com/vt/lyrs=s,h&x={x}&y={y}&z={z}"
-          subdomains={['mt0', 'mt1', 'mt2', 'mt3']}
-          attribution='&copy; Google Maps'
-        />
-      </LayersControl.BaseLayer>
-    </LayersControl>
+        <LayersControl.BaseLayer name="Google Satellite (Hybrid)">
+          <TileLayer
+            url="http://{s}.google.com/vt/lyrs=s,h&x={x}&y={y}&z={z}"
+            subdomains={['mt0', 'mt1', 'mt2', 'mt3']}
+            attribution='&copy; Google Maps'
+          />
+        </LayersControl.BaseLayer>
+
+        <LayersControl.Overlay name={HEATMAP_OVERLAY}>
+          <HeatmapLayer points={points} />
+        </LayersControl.Overlay>
+
+        <LayersControl.Overlay name={CIRCLES_OVERLAY}>
+          <ProportionalCirclesLayer points={points} />
+        </LayersControl.Overlay>
+
+        <LayersControl.Overlay name={CLASSES_OVERLAY}>
+          <ClassesLayer points={points} breaks={breaks} />
+        </LayersControl.Overlay>
+
+        {districtStats.length > 0 && (
+          <LayersControl.Overlay name={DISTRICTS_OVERLAY}>
+            <DistrictChoroplethLayer stats={districtStats} breaks={districtBreaks} />
+          </LayersControl.Overlay>
+        )}
+      </LayersControl>
+
+      <ThematicLegend
+        points={points}
+        breaks={breaks}
+        districtStats={districtStats}
+        districtBreaks={districtBreaks}
+        classMethod={classMethod}
+        onClassMethodChange={setClassMethod}
+      />
+    </>
   );
 };
 
-interface NominatimResult {
-  place_id: number;
-  lat: string;
-  lon: string;
-  display_name: string;
-  type: string;
-  boundingbox: string[];
+interface MapSearchProps {
+  config: GeocoderConfig;
+  region: MapRegion;
+  // Our own schools and their voters, searched alongside the geocoders
+  points: LocationPoint[];
+  onSelectVoter: (schoolId: string, voterId: string) => void;
+  onOpenSettings: () => void;
 }
 
-interface SearchResultState {
-  lat: number;
-  lng: number;
-  bounds: L.LatLngBoundsExpression;
-  name: string;
-  place_id: number;
-  display_name: string;
+const EMPTY_PROJECT_RESULTS: ProjectSearchResults = { schools: [], voters: [] };
+
+// Zoom at which a school sits outside any cluster
+const SCHOOL_ZOOM = 17;
+
+const SuggestionGroup: React.FC<{ title: string; count?: number; children: React.ReactNode }> = ({ title, count, children }) => (
+  <li>
+    <div className="px-4 pt-2.5 pb-1 text-[10px] font-black text-slate-400 bg-slate-50/80 flex items-center gap-1.5">
+      {title}
+      {count !== undefined && <span className="text-slate-300">{count}</span>}
+    </div>
+    <ul>{children}</ul>
+  </li>
+);
+
+interface SuggestionItemProps {
+  icon: React.ElementType;
+  title: string;
+  subtitle: string;
+  badge?: string;
+  onClick: () => void;
 }
 
-export const MapSearch: React.FC = () => {
+const SuggestionItem: React.FC<SuggestionItemProps> = ({ icon: Icon, title, subtitle, badge, onClick }) => (
+  <li
+    onClick={onClick}
+    className="px-4 py-3 hover:bg-emerald-50/80 cursor-pointer border-b border-slate-50 last:border-0 transition-colors flex items-center gap-3 group"
+  >
+    <div className="bg-slate-100 p-2 rounded-full group-hover:bg-emerald-100/50 group-hover:text-emerald-600 transition-colors text-slate-400">
+      <Icon className="w-4 h-4" />
+    </div>
+    <div className="flex-1 text-right min-w-0">
+      <p className="text-sm font-semibold text-slate-700 group-hover:text-emerald-900 line-clamp-1">{title}</p>
+      <p className="text-[10px] text-slate-400 mt-0.5 line-clamp-1">{subtitle}</p>
+    </div>
+    {badge && (
+      <span className="text-[9px] font-bold text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded shrink-0">{badge}</span>
+    )}
+  </li>
+);
+
+export const MapSearch: React.FC<MapSearchProps> = ({ config, region, points, onSelectVoter, onOpenSettings }) => {
   const map = useMap();
   const [query, setQuery] = useState('');
-  const [suggestions, setSuggestions] = useState<NominatimResult[]>([]);
+  const [suggestions, setSuggestions] = useState<GeocodeResult[]>([]);
+  const [projectResults, setProjectResults] = useState<ProjectSearchResults>(EMPTY_PROJECT_RESULTS);
   const [isSearching, setIsSearching] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
-  const [searchResults, setSearchResults] = useState<SearchResultState[]>([]);
+  const [searchResults, setSearchResults] = useState<GeocodeResult[]>([]);
+  // Why the last map search failed (offline, every provider down), shown in place of its results
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // The school picked from the results, ringed on the map
+  const [focusedPointId, setFocusedPointId] = useState<string | null>(null);
   const searchRef = useRef<HTMLDivElement>(null);
+  // The in-flight search; aborted as soon as a newer one starts
+  const requestRef = useRef<AbortController | null>(null);
+  const debounceRef = useRef<ReturnType<typeof setTimeout>>(undefined);
 
   // Debounce search
   useEffect(() => {
-    const timeoutId = setTimeout(() => {
+    debounceRef.current = setTimeout(() => {
       if (query.trim().length >= 2) {
+        setProjectResults(searchProject(query, points));
         fetchSuggestions(query);
       } else {
+        requestRef.current?.abort();
+        setIsSearching(false);
+        setSearchError(null);
         setSuggestions([]);
+        setProjectResults(EMPTY_PROJECT_RESULTS);
         setShowSuggestions(false);
-        // We don't clear searchResults here to keep them on map even if user clears input, 
-        // until they explicitly start a new search or clear.
-        // But if they clear the input, maybe they want to clear? 
-        // Let's keep the results for now as it solves "showing multiple results".
+        // Results already on the map stay until the user clears them or picks another search
       }
     }, 500);
 
-    return () => clearTimeout(timeoutId);
-  }, [query]);
+    return () => clearTimeout(debounceRef.current);
+  }, [query, config, region]);
+
+  // Schools and voters found by the current query follow edits to them, without
+  // repeating the map search (which would also reopen a dropdown the user closed)
+  useEffect(() => {
+    if (query.trim().length >= 2) setProjectResults(searchProject(query, points));
+  }, [points]);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -191,176 +375,88 @@ export const MapSearch: React.FC = () => {
     }
   }, []);
 
-  const fetchSuggestions = async (searchQuery: string) => {
+  // Null when a newer search took over
+  const runSearch = async (searchQuery: string, quick: boolean) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     setIsSearching(true);
+    setSearchError(null);
+    let results: GeocodeResult[] = [];
     try {
-      const viewbox = "44.14,33.46,44.57,33.19";
-
-      const fetchWithParams = async (q: string, bounded: number) => {
-        const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(q)}&countrycodes=iq&accept-language=ar&limit=50&viewbox=${viewbox}&bounded=${bounded}`;
-        const res = await fetch(url);
-        return await res.json();
-      };
-
-      const searchOverpass = async (q: string) => {
-        try {
-          // Arabic Orthographic Normalization
-          // Converts specific characters to regex groups to match variations
-          // Alif variants: ا, أ, إ, آ -> [اأإآ]
-          // Teh Marbuta/Ha: ة, ه -> [ةه]
-          // Yeh/Alif Maqsura: ي, ى -> [يى]
-          const normalizeArabic = (text: string) => {
-            return text
-              .replace(/[اأإآ]/g, "[اأإآ]")
-              .replace(/[ةه]/g, "[ةه]")
-              .replace(/[يى]/g, "[يى]");
-          };
-
-          const normalizedQ = normalizeArabic(q);
-
-          // "Deep Search" Implementation
-          // 1. Expanded BBox for Greater Baghdad (Outskirts included)
-          //    South: 33.10, West: 44.00, North: 33.55, East: 44.70
-          const bbox = "33.10,44.00,33.55,44.70";
-
-          // 2. Multilingual Regex Query using Normalized Arabic
-          //    nwr[~"^name(:.*)?|alt_name$"~"${normalizedQ}",i](${bbox});
-          //    Matches any name key or alt_name with the flexible regex pattern
-          const query = `
-                    [out:json][timeout:25];
-                    (
-                      nwr[~"^name(:.*)?|alt_name$"~"${normalizedQ}",i](${bbox});
-                    );
-                    out center;
-                `;
-          const url = `https://overpass-api.de/api/interpreter?data=${encodeURIComponent(query)}`;
-          const res = await fetch(url);
-          const data = await res.json();
-
-          // Map Overpass results to Nominatim-like structure
-          return data.elements.map((el: any) => ({
-            place_id: el.id,
-            lat: el.lat || el.center?.lat,
-            lon: el.lon || el.center?.lon,
-            display_name: el.tags?.name || el.tags?.['name:ar'] || el.tags?.['name:en'] || 'Unknown Location',
-            boundingbox: [
-              (el.lat || el.center?.lat) - 0.001,
-              (el.lat || el.center?.lat) + 0.001,
-              (el.lon || el.center?.lon) - 0.001,
-              (el.lon || el.center?.lon) + 0.001
-            ]
-          })).filter((el: any) => el.lat && el.lon);
-        } catch (err) {
-          console.error("Overpass API Error:", err);
-          return [];
-        }
-      };
-
-      // Strategy 1: Strict Search (Nominatim)
-      let data = await fetchWithParams(searchQuery, 1);
-
-      // Strategy 2: Overpass API (Fuzzy Name Search in Baghdad)
-      // If strict Nominatim fails, try scanning OSM directly which is much more powerful for partial matches
-      if (data.length === 0) {
-        console.log("Strict search failed, trying Overpass API...");
-        data = await searchOverpass(searchQuery);
-      }
-
-      // Strategy 3: Relaxed Search (Nominatim Bounded=0)
-      // Only if Overpass also fails (e.g. timeout or no results)
-      if (data.length === 0) {
-        data = await fetchWithParams(searchQuery, 0);
-      }
-
-      // Strategy 4: Smart Tokenizer / Heuristics
-      // Strip common "noise" words to find the core name
-      if (data.length === 0) {
-        // List of words to ignore (School types, genders, distinct attributes)
-        const stopWords = [
-          "school", "high", "secondary", "prep", "preparatory", "primary", "elementary", "kindergarten",
-          "girls", "boys", "mixed", "vocational", "commercial", "industrial", "institute",
-          "مدرسة", "ثانوية", "اعدادية", "متوسطة", "ابتدائية", "روضة", "معهد",
-          "للبنات", "للبنين", "بنات", "بنين", "مختلطة",
-          "المهنية", "الصناعية", "التجارية", "الفنون", "للدراسات", "الأهلية", "الحكومية"
-        ];
-
-        // Create a regex to remove these words (case insensitive, global)
-        const regex = new RegExp(stopWords.join("|"), "gi");
-
-        // Remove stop words and clean up extra spaces
-        const coreName = searchQuery.replace(regex, "").replace(/\s+/g, " ").trim();
-
-        if (coreName && coreName.length >= 3 && coreName !== searchQuery) { // standard check to avoid tiny tokens
-          console.log(`Smart Tokenizer: Reduced '${searchQuery}' to '${coreName}'`);
-          data = await searchOverpass(coreName);
-          if (data.length === 0) data = await fetchWithParams(coreName, 0);
-        }
-      }
-
-      // Strategy 5: Add "مدرسة" prefix if missing (Last resort for simple names)
-      if (data.length === 0) {
-        if (!searchQuery.includes("مدرسة") && !searchQuery.includes("school")) {
-          const enriched = `مدرسة ${searchQuery}`;
-          data = await fetchWithParams(enriched, 1);
-        }
-      }
-
-      setSuggestions(data);
-      setShowSuggestions(true);
+      results = await geocode(searchQuery, config, region, controller.signal, { quick });
     } catch (error) {
+      if (isAbortError(error)) return null;
       console.error("Search error:", error);
-    } finally {
-      setIsSearching(false);
+      setSearchError(error instanceof Error ? error.message : 'تعذر البحث عن الأماكن');
+      setShowSuggestions(true);
     }
+    if (requestRef.current === controller) setIsSearching(false);
+    return results;
   };
 
-  const mapNominatimResult = (result: NominatimResult): SearchResultState => {
-    const lat = parseFloat(result.lat);
-    const lng = parseFloat(result.lon);
-    const bounds: L.LatLngBoundsExpression = [
-      [parseFloat(result.boundingbox[0]), parseFloat(result.boundingbox[2])],
-      [parseFloat(result.boundingbox[1]), parseFloat(result.boundingbox[3])]
-    ];
-    return {
-      lat,
-      lng,
-      bounds,
-      name: result.display_name.split(',')[0],
-      place_id: result.place_id,
-      display_name: result.display_name
-    };
+  // Only the quick pass while typing; the full search waits for Enter
+  const fetchSuggestions = async (searchQuery: string) => {
+    setShowSuggestions(true);
+    const results = await runSearch(searchQuery, true);
+    if (results) setSuggestions(results);
   };
 
-  const handleSelectLocation = (result: NominatimResult) => {
-    const mapped = mapNominatimResult(result);
-    setSearchResults([mapped]); // Only one result if picked specifically
+  const handleSelectLocation = (result: GeocodeResult) => {
+    setSearchResults([result]); // Only one result if picked specifically
+    setFocusedPointId(null);
 
-    map.flyToBounds(mapped.bounds, {
+    map.flyToBounds(result.bounds, {
       padding: [50, 50],
       duration: 1.5
     });
 
-    setQuery(mapped.name);
+    setQuery(result.name);
+    setShowSuggestions(false);
+  };
+
+  const flyToSchool = (point: LocationPoint) => {
+    setSearchResults([]);
+    setFocusedPointId(point.id);
     setShowSuggestions(false);
+    map.flyTo([point.lat, point.lng], Math.max(map.getZoom(), SCHOOL_ZOOM), { duration: 1.5 });
+  };
+
+  const handleSelectSchool = (point: LocationPoint) => {
+    flyToSchool(point);
+    setQuery(point.name);
+  };
+
+  const handleSelectVoter = ({ voter, schoolId }: VoterMatch) => {
+    const point = points.find(p => p.id === schoolId);
+    if (!point) return;
+    flyToSchool(point);
+    setQuery(voter.fullName);
+    onSelectVoter(schoolId, voter.id);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (suggestions.length > 0) {
-      // Show ALL suggestions on map
-      const allResults = suggestions.map(mapNominatimResult);
-      setSearchResults(allResults);
+    const searchQuery = query.trim();
+    if (searchQuery.length < 2) return;
+    // Enter pressed before the suggestions came in: this search replaces them
+    clearTimeout(debounceRef.current);
+    const matches = searchProject(searchQuery, points);
+    setProjectResults(matches);
+
+    // The full search, with the wider and reworded passes the suggestions skip
+    const results = await runSearch(searchQuery, false);
+    if (!results) return;
+    setSuggestions(results);
+    if (results.length > 0) {
+      // Show ALL results on map
+      setSearchResults(results);
+      setFocusedPointId(null);
       setShowSuggestions(false);
-
-      // Calculate bounds for all
-      if (allResults.length > 0) {
-        const group = L.featureGroup(allResults.map(r => L.marker([r.lat, r.lng])));
-        map.flyToBounds(group.getBounds(), { padding: [50, 50], duration: 1.5 });
-      }
-    } else {
-      // Fallback: If no suggestions in state (maybe typed fast and hit enter?), force fetch
-      // (This part is a bit tricky with async, but let's rely on the effect for now or trigger manual fetch)
-      // Ideally we should just rely on the effect having fired.
+      map.flyToBounds(L.latLngBounds(results.map(r => [r.lat, r.lng])), { padding: [50, 50], duration: 1.5 });
+    } else if (matches.schools.length > 0) {
+      handleSelectSchool(matches.schools[0].point);
     }
   };
 
@@ -369,12 +465,20 @@ export const MapSearch: React.FC = () => {
   };
 
   const handleClear = () => {
+    requestRef.current?.abort();
+    setIsSearching(false);
+    setSearchError(null);
     setQuery('');
     setSuggestions([]);
+    setProjectResults(EMPTY_PROJECT_RESULTS);
     setShowSuggestions(false);
     setSearchResults([]);
+    setFocusedPointId(null);
   };
 
+  const focusedPoint = points.find(p => p.id === focusedPointId);
+  const hasProjectResults = projectResults.schools.length > 0 || projectResults.voters.length > 0;
+
   return (
     <>
       <div
@@ -386,14 +490,22 @@ export const MapSearch: React.FC = () => {
       >
         <form onSubmit={handleSubmit} className="relative group">
           <div className="absolute inset-0 bg-emerald-500/10 rounded-full blur-md group-hover:bg-emerald-500/20 transition-all duration-300"></div>
+          <button
+            type="button"
+            onClick={onOpenSettings}
+            title="إعدادات البحث"
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-emerald-600 p-1.5 rounded-full transition-colors active:bg-slate-100 z-10"
+          >
+            <Settings2 className="w-4 h-4" />
+          </button>
           <input
             type="text"
             dir="rtl"
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            onFocus={() => { if (suggestions.length > 0 || isSearching) setShowSuggestions(true); }}
-            placeholder="ابحث عن منطقة..."
-            className="w-full pl-20 pr-6 py-3.5 rounded-full border border-white/50 focus:border-emerald-500/50 focus:ring-4 focus:ring-emerald-500/10 shadow-[0_8px_30px_rgb(0,0,0,0.12)] text-sm outline-none bg-white/90 backdrop-blur-xl transition-all text-right placeholder:text-slate-400 text-slate-700"
+            onFocus={() => { if (suggestions.length > 0 || hasProjectResults || isSearching || searchError) setShowSuggestions(true); }}
+            placeholder="ابحث عن مدرسة أو ناخب أو منطقة..."
+            className="w-full pl-20 pr-11 py-3.5 rounded-full border border-white/50 focus:border-emerald-500/50 focus:ring-4 focus:ring-emerald-500/10 shadow-[0_8px_30px_rgb(0,0,0,0.12)] text-sm outline-none bg-white/90 backdrop-blur-xl transition-all text-right placeholder:text-slate-400 text-slate-700"
           />
           {query.length > 0 && (
             <button
@@ -416,44 +528,79 @@ export const MapSearch: React.FC = () => {
           </button>
         </form>
 
-        {/* Suggestions Dropdown */}
-        {showSuggestions && (suggestions.length > 0 || isSearching) && (
+        {/* Suggestions Dropdown, grouped by source */}
+        {showSuggestions && (suggestions.length > 0 || hasProjectResults || isSearching || searchError) && (
           <div className="absolute top-full left-0 w-full mt-3 bg-white/95 backdrop-blur-xl rounded-2xl shadow-[0_20px_40px_rgba(0,0,0,0.15)] overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200 border border-white/50 ring-1 ring-slate-900/5">
-            {isSearching ? (
-              <div className="px-4 py-4 text-center text-slate-500 flex items-center justify-center gap-2 text-sm" dir="rtl">
-                <Loader2 className="w-4 h-4 animate-spin text-emerald-600" />
-                <span>جاري البحث...</span>
-              </div>
-            ) : (
-              <ul className="max-h-64 overflow-y-auto custom-scrollbar">
-                {suggestions.map((place) => (
-                  <li
-                    key={place.place_id}
-                    onClick={() => handleSelectLocation(place)}
-                    className="px-4 py-3 hover:bg-emerald-50/80 cursor-pointer border-b border-slate-50 last:border-0 transition-colors flex items-center gap-3 group"
-                  >
-                    <div className="bg-slate-100 p-2 rounded-full group-hover:bg-emerald-100/50 group-hover:text-emerald-600 transition-colors text-slate-400">
-                      <Navigation className="w-4 h-4" />
-                    </div>
-                    <div className="flex-1 text-right">
-                      <p className="text-sm font-semibold text-slate-700 group-hover:text-emerald-900 line-clamp-1">
-                        {place.display_name.split(',')[0]}
-                      </p>
-                      <p className="text-[10px] text-slate-400 mt-0.5 line-clamp-1">
-                        {place.display_name.split(',').slice(1).join(',')}
-                      </p>
-                    </div>
-                  </li>
-                ))}
-              </ul>
-            )}
+            <ul className="max-h-96 overflow-y-auto custom-scrollbar">
+              {projectResults.schools.length > 0 && (
+                <SuggestionGroup title="مدارسنا" count={projectResults.schools.length}>
+                  {projectResults.schools.map(({ point }) => (
+                    <SuggestionItem
+                      key={point.id}
+                      icon={School}
+                      title={point.name}
+                      subtitle={`${point.district || 'بدون منطقة'} • ${getVoterTotal(point).toLocaleString()} ناخب`}
+                      onClick={() => handleSelectSchool(point)}
+                    />
+                  ))}
+                </SuggestionGroup>
+              )}
+              {projectResults.voters.length > 0 && (
+                <SuggestionGroup title="ناخبونا" count={projectResults.voters.length}>
+                  {projectResults.voters.map(match => (
+                    <SuggestionItem
+                      key={match.voter.id}
+                      icon={UserRound}
+                      title={match.voter.fullName}
+                      subtitle={[match.schoolName, match.voter.phoneNumber].filter(Boolean).join(' • ')}
+                      onClick={() => handleSelectVoter(match)}
+                    />
+                  ))}
+                </SuggestionGroup>
+              )}
+              {(isSearching || suggestions.length > 0 || searchError) && (
+                <SuggestionGroup title="أماكن على الخريطة" count={isSearching || searchError ? undefined : suggestions.length}>
+                  {isSearching ? (
+                    <li className="px-4 py-4 text-center text-slate-500 flex items-center justify-center gap-2 text-sm" dir="rtl">
+                      <Loader2 className="w-4 h-4 animate-spin text-emerald-600" />
+                      <span>جاري البحث...</span>
+                    </li>
+                  ) : searchError ? (
+                    <li className="px-4 py-3 text-red-600 flex items-start gap-2 text-sm" dir="rtl">
+                      <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                      <span>{searchError}</span>
+                    </li>
+                  ) : (
+                    suggestions.map(place => (
+                      <SuggestionItem
+                        key={place.id}
+                        icon={Navigation}
+                        title={place.name}
+                        subtitle={place.description || GEOCODER_LABELS[place.provider].label}
+                        badge={GEOCODER_LABELS[place.provider].label}
+                        onClick={() => handleSelectLocation(place)}
+                      />
+                    ))
+                  )}
+                </SuggestionGroup>
+              )}
+            </ul>
           </div>
         )}
       </div>
 
+      {focusedPoint && (
+        <CircleMarker
+          center={[focusedPoint.lat, focusedPoint.lng]}
+          radius={22}
+          pathOptions={{ color: '#10b981', weight: 3, fillColor: '#10b981', fillOpacity: 0.15 }}
+          interactive={false}
+        />
+      )}
+
       {/* Render Search Results Visualization */}
       {searchResults.map((result) => (
-        <Marker key={result.place_id} position={[result.lat, result.lng]} icon={SearchIcon}>
+        <Marker key={result.id} position={[result.lat, result.lng]} icon={SearchIcon}>
           <Tooltip
             permanent={searchResults.length < 5} // Only show permanent tooltips if few results to avoid clutter
             direction="top"
@@ -470,7 +617,7 @@ export const MapSearch: React.FC = () => {
               <h3 className="font-bold text-lg text-slate-800 mb-1 leading-tight">{result.name}</h3>
               <p className="text-xs text-slate-500 mb-3 pb-2 border-b border-slate-100 flex items-center gap-1.5">
                 <MapPin className="w-3.5 h-3.5 text-red-500" />
-                {result.display_name}
+                {result.description || GEOCODER_LABELS[result.provider].label}
               </p>
             </div>
           </Popup>
@@ -478,4 +625,4 @@ export const MapSearch: React.FC = () => {
       ))}
     </>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,354 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, CloudDownload, WifiOff, Loader2, Trash2, Scan, HardDrive, AlertTriangle } from 'lucide-react';
+import L from 'leaflet';
+import { BBox } from '../types';
+import { bboxToBounds } from '../services/regionService';
+import { isAbortError } from '../services/geocoderService';
+import {
+    DownloadProgress,
+    MAX_DOWNLOAD_TILES,
+    MAX_DOWNLOAD_ZOOM,
+    MIN_DOWNLOAD_ZOOM,
+    OfflineRegion,
+    StorageUsage,
+    canDownloadTiles,
+    deleteOfflineRegion,
+    downloadOfflineRegion,
+    estimateArea,
+    formatBytes,
+    getStorageUsage,
+    isOfflineSupported,
+    loadOfflineRegions,
+    saveOfflineRegions
+} from '../services/offlineMapService';
+
+// Zoom levels above the current view that a new download includes by default
+const DEFAULT_EXTRA_ZOOM = 3;
+
+const ZOOM_OPTIONS = Array.from({ length: MAX_DOWNLOAD_ZOOM - MIN_DOWNLOAD_ZOOM + 1 }, (_, i) => MIN_DOWNLOAD_ZOOM + i);
+
+interface OfflineMapsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    map: L.Map | null;
+    isOnline: boolean;
+    // Suggested name for a new download
+    defaultName: string;
+}
+
+/**
+ * Downloads the map tiles of the current view for use without a connection and
+ * lists the downloaded areas with the space they take. A download keeps going
+ * when the window is closed.
+ */
+export const OfflineMapsModal: React.FC<OfflineMapsModalProps> = ({ isOpen, onClose, map, isOnline, defaultName }) => {
+    const [regions, setRegions] = useState<OfflineRegion[]>(loadOfflineRegions);
+    const [view, setView] = useState<BBox | null>(null);
+    const [name, setName] = useState('');
+    const [minZoom, setMinZoom] = useState(MIN_DOWNLOAD_ZOOM);
+    const [maxZoom, setMaxZoom] = useState(MIN_DOWNLOAD_ZOOM + DEFAULT_EXTRA_ZOOM);
+    const [progress, setProgress] = useState<DownloadProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const estimate = useMemo(() => view && estimateArea(view, minZoom, maxZoom), [view, minZoom, maxZoom]);
+    const isTooLarge = !!estimate && estimate.tiles > MAX_DOWNLOAD_TILES;
+
+    const refreshStorageUsage = () => {
+        getStorageUsage()
+            .then(setStorageUsage)
+            .catch(err => console.error('Error reading storage usage:', err));
+    };
+
+    // A new download covers whatever the map shows when the window opens
+    useEffect(() => {
+        if (!isOpen) return;
+        refreshStorageUsage();
+        if (!map || progress) return;
+        const bounds = map.getBounds();
+        const zoom = Math.min(Math.max(Math.round(map.getZoom()), MIN_DOWNLOAD_ZOOM), MAX_DOWNLOAD_ZOOM);
+        setView([bounds.getSouth(), bounds.getWest(), bounds.getNorth(), bounds.getEast()]);
+        setMinZoom(zoom);
+        setMaxZoom(Math.min(zoom + DEFAULT_EXTRA_ZOOM, MAX_DOWNLOAD_ZOOM));
+        setName(defaultName);
+        setError(null);
+    }, [isOpen]);
+
+    const updateRegions = (next: OfflineRegion[]) => {
+        setRegions(next);
+        saveOfflineRegions(next);
+    };
+
+    const handleDownload = async () => {
+        if (!view) return;
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setError(null);
+        setProgress({ done: 0, total: estimate?.tiles ?? 0, bytes: 0, failed: 0 });
+        try {
+            const region = await downloadOfflineRegion(
+                { name: name.trim() || defaultName, bbox: view, minZoom, maxZoom },
+                setProgress,
+                controller.signal
+            );
+            updateRegions([...loadOfflineRegions(), region]);
+            if (region.failedCount > 0) setError(`تعذر تنزيل ${region.failedCount} بلاطة؛ ستظهر فارغة دون اتصال`);
+        } catch (err) {
+            if (!isAbortError(err)) {
+                console.error('Offline download error:', err);
+                setError('تعذر تنزيل المنطقة. تحقق من الاتصال ومن المساحة المتاحة على الجهاز.');
+            }
+        } finally {
+            controllerRef.current = null;
+            setProgress(null);
+            refreshStorageUsage();
+        }
+    };
+
+    const handleDelete = async (region: OfflineRegion) => {
+        try {
+            await deleteOfflineRegion(region.id);
+        } catch (err) {
+            console.error('Error deleting offline region:', err);
+        }
+        updateRegions(regions.filter(r => r.id !== region.id));
+        refreshStorageUsage();
+    };
+
+    const handleShow = (region: OfflineRegion) => {
+        map?.fitBounds(bboxToBounds(region.bbox));
+        onClose();
+    };
+
+    const totalBytes = regions.reduce((sum, r) => sum + r.bytes, 0);
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1100] transition-opacity"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="fixed inset-0 z-[1110] flex items-center justify-center p-4 sm:p-6 pointer-events-none"
+                    >
+                        <div
+                            className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col pointer-events-auto overflow-hidden ring-1 ring-slate-900/5"
+                            dir="rtl"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                                <div>
+                                    <h2 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                                        <div className="bg-sky-100 p-2 rounded-xl text-sky-600">
+                                            <CloudDownload className="w-5 h-5" />
+                                        </div>
+                                        الخرائط دون اتصال
+                                    </h2>
+                                    <p className="text-sm text-slate-500 mt-1 font-medium pr-1">
+                                        {regions.length} منطقة منزّلة • {formatBytes(totalBytes)}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                >
+                                    <X className="w-6 h-6" />
+                                </button>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-6 bg-slate-50/50">
+                                {!isOnline && (
+                                    <div className="flex items-start gap-3 p-4 rounded-2xl bg-amber-50 border border-amber-100 text-sm text-amber-800">
+                                        <WifiOff className="w-5 h-5 shrink-0 mt-0.5" />
+                                        <p>
+                                            أنت غير متصل. تظهر الخريطة في المناطق المنزّلة فقط، ويستمر إدخال البيانات على هذا الجهاز وتُرسل التعديلات عند عودة الاتصال.
+                                        </p>
+                                    </div>
+                                )}
+
+                                {!isOfflineSupported() ? (
+                                    <div className="p-4 rounded-2xl bg-white border border-slate-100 text-sm text-slate-500">
+                                        هذا المتصفح لا يدعم حفظ الخرائط للاستخدام دون اتصال.
+                                    </div>
+                                ) : (
+                                    <>
+                                        {/* New download */}
+                                        {!canDownloadTiles ? (
+                                            <div className="flex items-start gap-3 p-4 rounded-2xl bg-white border border-slate-100 text-sm text-slate-500">
+                                                <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5 text-amber-500" />
+                                                <p>
+                                                    سياسة استخدام خرائط OpenStreetMap العامة لا تسمح بتنزيل المناطق مسبقاً. لتفعيل التنزيل يجب ربط التطبيق بخادم خرائط خاص بالفريق أو بمزوّد يسمح بذلك (الإعداد TILE_URL).
+                                                </p>
+                                            </div>
+                                        ) : (
+                                            <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 space-y-4">
+                                                <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                                                    <Scan className="w-4 h-4 text-sky-600" />
+                                                    تنزيل العرض الحالي للخريطة
+                                                </h3>
+                                                <div className="space-y-1.5">
+                                                    <label className="text-xs font-bold text-slate-500">اسم المنطقة</label>
+                                                    <input
+                                                        value={name}
+                                                        onChange={(e) => setName(e.target.value)}
+                                                        disabled={!!progress}
+                                                        className="w-full px-3 py-2 bg-white ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-sky-500/40 outline-none disabled:opacity-50"
+                                                    />
+                                                </div>
+                                                <div className="grid grid-cols-2 gap-3">
+                                                    <div className="space-y-1.5">
+                                                        <label className="text-xs font-bold text-slate-500">من مستوى التكبير</label>
+                                                        <select
+                                                            value={minZoom}
+                                                            onChange={(e) => {
+                                                                const zoom = Number(e.target.value);
+                                                                setMinZoom(zoom);
+                                                                if (zoom > maxZoom) setMaxZoom(zoom);
+                                                            }}
+                                                            disabled={!!progress}
+                                                            className="w-full px-3 py-2 bg-white ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 outline-none disabled:opacity-50"
+                                                        >
+                                                            {ZOOM_OPTIONS.map(zoom => <option key={zoom} value={zoom}>{zoom}</option>)}
+                                                        </select>
+                                                    </div>
+                                                    <div className="space-y-1.5">
+                                                        <label className="text-xs font-bold text-slate-500">إلى مستوى التكبير</label>
+                                                        <select
+                                                            value={maxZoom}
+                                                            onChange={(e) => {
+                                                                const zoom = Number(e.target.value);
+                                                                setMaxZoom(zoom);
+                                                                if (zoom < minZoom) setMinZoom(zoom);
+                                                            }}
+                                                            disabled={!!progress}
+                                                            className="w-full px-3 py-2 bg-white ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 outline-none disabled:opacity-50"
+                                                        >
+                                                            {ZOOM_OPTIONS.map(zoom => <option key={zoom} value={zoom}>{zoom}</option>)}
+                                                        </select>
+                                                    </div>
+                                                </div>
+
+                                                {estimate && (
+                                                    <div className={`text-sm font-bold ${isTooLarge ? 'text-rose-600' : 'text-slate-600'}`}>
+                                                        {estimate.tiles.toLocaleString('ar-IQ')} بلاطة • حوالي {formatBytes(estimate.bytes)}
+                                                        {isTooLarge && (
+                                                            <p className="mt-1 text-xs font-medium flex items-center gap-1.5">
+                                                                <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                                                                الحد الأقصى {MAX_DOWNLOAD_TILES.toLocaleString('ar-IQ')} بلاطة. قرّب الخريطة أو خفّض أعلى مستوى تكبير.
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                )}
+
+                                                {progress ? (
+                                                    <div className="space-y-2">
+                                                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                                                            <div
+                                                                className="h-full bg-sky-500 transition-all"
+                                                                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                                                            />
+                                                        </div>
+                                                        <div className="flex items-center justify-between text-xs text-slate-500">
+                                                            <span className="flex items-center gap-1.5">
+                                                                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                                                                {progress.done.toLocaleString('ar-IQ')} / {progress.total.toLocaleString('ar-IQ')} • {formatBytes(progress.bytes)}
+                                                            </span>
+                                                            <button
+                                                                onClick={() => controllerRef.current?.abort()}
+                                                                className="px-3 py-1 rounded-lg bg-slate-100 hover:bg-rose-50 hover:text-rose-600 font-bold"
+                                                            >
+                                                                إلغاء
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                ) : (
+                                                    <button
+                                                        onClick={handleDownload}
+                                                        disabled={!isOnline || !view || isTooLarge}
+                                                        className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl bg-sky-600 hover:bg-sky-700 disabled:opacity-40 disabled:cursor-not-allowed text-white text-sm font-bold"
+                                                    >
+                                                        <CloudDownload className="w-4 h-4" />
+                                                        تنزيل المنطقة للاستخدام دون اتصال
+                                                    </button>
+                                                )}
+                                                {error && <p className="text-xs text-rose-600">{error}</p>}
+                                            </section>
+                                        )}
+
+                                        {/* Downloaded regions */}
+                                        <section className="space-y-2">
+                                            <h3 className="text-xs font-bold text-slate-500">المناطق المنزّلة</h3>
+                                            {regions.length === 0 ? (
+                                                <p className="text-sm text-slate-400 text-center py-6">لم تُنزّل أي منطقة بعد</p>
+                                            ) : regions.map(region => (
+                                                <div key={region.id} className="bg-white rounded-xl border border-slate-100 p-3 flex items-center gap-3">
+                                                    <div className="flex-1 min-w-0">
+                                                        <div className="text-sm font-bold text-slate-700 truncate">{region.name}</div>
+                                                        <div className="text-[11px] text-slate-400">
+                                                            التكبير {region.minZoom}–{region.maxZoom} • {region.tileCount.toLocaleString('ar-IQ')} بلاطة • {formatBytes(region.bytes)} • {new Date(region.createdAt).toLocaleDateString('ar-IQ')}
+                                                        </div>
+                                                    </div>
+                                                    <button
+                                                        onClick={() => handleShow(region)}
+                                                        disabled={!map}
+                                                        className="px-3 py-1.5 rounded-lg bg-slate-100 hover:bg-sky-50 hover:text-sky-700 text-slate-600 text-xs font-bold disabled:opacity-40"
+                                                    >
+                                                        عرض
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDelete(region)}
+                                                        className="p-1.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                                                        title="حذف المنطقة من الجهاز"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            ))}
+                                        </section>
+
+                                        {/* Storage */}
+                                        {storageUsage && storageUsage.quota > 0 && (
+                                            <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 space-y-2">
+                                                <div className="flex items-center justify-between text-xs font-bold text-slate-500">
+                                                    <span className="flex items-center gap-1.5">
+                                                        <HardDrive className="w-4 h-4" />
+                                                        مساحة التخزين المستخدمة
+                                                    </span>
+                                                    <span>{formatBytes(storageUsage.usage)} من {formatBytes(storageUsage.quota)}</span>
+                                                </div>
+                                                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                                                    <div
+                                                        className="h-full bg-slate-400"
+                                                        style={{ width: `${Math.min((storageUsage.usage / storageUsage.quota) * 100, 100)}%` }}
+                                                    />
+                                                </div>
+                                                <p className="text-[11px] text-slate-400">
+                                                    {storageUsage.persisted
+                                                        ? 'التخزين دائم: لن يحذف المتصفح البيانات عند امتلاء الجهاز.'
+                                                        : 'قد يحذف المتصفح الخرائط المنزّلة عند امتلاء الجهاز. ثبّت التطبيق على الشاشة الرئيسية لحمايتها.'}
+                                                </p>
+                                            </section>
+                                        )}
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
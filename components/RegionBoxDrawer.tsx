@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Rectangle, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { X } from 'lucide-react';
+import { BBox, LatLngPair } from '../types';
+import { boundsToBBox } from '../services/regionService';
+
+const PREVIEW_STYLE: L.PathOptions = { color: '#059669', weight: 2, dashArray: '6 6', fillColor: '#059669', fillOpacity: 0.1 };
+
+interface RegionBoxDrawerProps {
+  // The box and the zoom level that fits it on the current map size
+  onDone: (bbox: BBox, zoom: number) => void;
+  onCancel: () => void;
+}
+
+// Two clicks on the map set opposite corners of the project region
+export const RegionBoxDrawer: React.FC<RegionBoxDrawerProps> = ({ onDone, onCancel }) => {
+  const map = useMap();
+  const [corner, setCorner] = useState<LatLngPair | null>(null);
+  const [cursor, setCursor] = useState<LatLngPair | null>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (barRef.current) {
+      L.DomEvent.disableClickPropagation(barRef.current);
+      L.DomEvent.disableScrollPropagation(barRef.current);
+    }
+  }, []);
+
+  useEffect(() => {
+    map.getContainer().style.cursor = 'crosshair';
+    return () => {
+      map.getContainer().style.cursor = '';
+    };
+  }, [map]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  useMapEvents({
+    preclick(e) {
+      const latlng: LatLngPair = [e.latlng.lat, e.latlng.lng];
+      if (!corner) {
+        setCorner(latlng);
+        return;
+      }
+      const bbox = boundsToBBox([corner, latlng]);
+      if (bbox[0] === bbox[2] || bbox[1] === bbox[3]) return;
+      onDone(bbox, map.getBoundsZoom([corner, latlng]));
+    },
+    mousemove(e) {
+      setCursor([e.latlng.lat, e.latlng.lng]);
+    },
+    popupopen() {
+      map.closePopup();
+    },
+  });
+
+  return (
+    <>
+      {corner && cursor && <Rectangle bounds={[corner, cursor]} pathOptions={PREVIEW_STYLE} interactive={false} />}
+
+      <div
+        ref={barRef}
+        dir="rtl"
+        className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-3 bg-white/95 backdrop-blur-md rounded-2xl shadow-xl ring-1 ring-slate-900/5 px-4 py-2.5 font-sans"
+      >
+        <span className="text-sm font-bold text-slate-700">
+          {corner ? 'انقر على الزاوية المقابلة' : 'انقر على زاوية منطقة المشروع'}
+        </span>
+        <button
+          onClick={onCancel}
+          className="p-1.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+          title="إلغاء"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </>
+  );
+};
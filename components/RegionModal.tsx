@@ -0,0 +1,178 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, MapPinned, Scan, RectangleHorizontal } from 'lucide-react';
+import L from 'leaflet';
+import { MapRegion } from '../types';
+import { CUSTOM_REGION_ID, IRAQ_GOVERNORATES, regionFromBBox } from '../services/regionService';
+
+interface RegionModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    region: MapRegion;
+    onChange: (region: MapRegion) => void;
+    // Closes the modal so the user can draw the region box on the map
+    onDrawBox: () => void;
+    map: L.Map | null;
+}
+
+/**
+ * Picks the project's governorate or a custom box. The map opens on it and
+ * place search is limited to it.
+ */
+export const RegionModal: React.FC<RegionModalProps> = ({ isOpen, onClose, region, onChange, onDrawBox, map }) => {
+    const [south, west, north, east] = region.bbox;
+
+    const handleUseCurrentView = () => {
+        if (!map) return;
+        const bounds = map.getBounds();
+        onChange(regionFromBBox([bounds.getSouth(), bounds.getWest(), bounds.getNorth(), bounds.getEast()], map.getZoom(), region));
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1100] transition-opacity"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="fixed inset-0 z-[1110] flex items-center justify-center p-4 sm:p-6 pointer-events-none"
+                    >
+                        <div
+                            className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col pointer-events-auto overflow-hidden ring-1 ring-slate-900/5"
+                            dir="rtl"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                                <div>
+                                    <h2 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                                        <div className="bg-emerald-100 p-2 rounded-xl text-emerald-600">
+                                            <MapPinned className="w-5 h-5" />
+                                        </div>
+                                        منطقة المشروع
+                                    </h2>
+                                    <p className="text-sm text-slate-500 mt-1 font-medium pr-1">
+                                        <span className="text-emerald-600 font-bold">{region.name}</span> • تفتح الخريطة عليها ويُحصر البحث فيها
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                >
+                                    <X className="w-6 h-6" />
+                                </button>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-6 bg-slate-50/50">
+                                {/* Governorates */}
+                                <section className="space-y-2">
+                                    <h3 className="text-xs font-bold text-slate-500">المحافظة</h3>
+                                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                                        {IRAQ_GOVERNORATES.map(governorate => (
+                                            <button
+                                                key={governorate.id}
+                                                onClick={() => onChange({ ...governorate, countryCode: region.countryCode, language: region.language })}
+                                                className={`py-2 rounded-lg text-sm font-bold transition-colors ${region.id === governorate.id ? 'bg-emerald-600 text-white' : 'bg-white ring-1 ring-slate-200 text-slate-600 hover:bg-emerald-50'}`}
+                                            >
+                                                {governorate.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </section>
+
+                                {/* Custom box */}
+                                <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 space-y-3">
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={onDrawBox}
+                                            className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl bg-emerald-50 hover:bg-emerald-100 text-emerald-700 text-sm font-bold"
+                                        >
+                                            <RectangleHorizontal className="w-4 h-4" />
+                                            رسم مربع على الخريطة
+                                        </button>
+                                        <button
+                                            onClick={handleUseCurrentView}
+                                            disabled={!map}
+                                            className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl bg-slate-100 hover:bg-slate-200 disabled:opacity-40 text-slate-600 text-sm font-bold"
+                                        >
+                                            <Scan className="w-4 h-4" />
+                                            العرض الحالي للخريطة
+                                        </button>
+                                    </div>
+                                    {region.id === CUSTOM_REGION_ID && (
+                                        <div className="space-y-1.5">
+                                            <label className="text-xs font-bold text-slate-500">اسم المنطقة</label>
+                                            <input
+                                                value={region.name}
+                                                onChange={(e) => onChange({ ...region, name: e.target.value })}
+                                                onBlur={() => { if (!region.name.trim()) onChange({ ...region, name: 'منطقة مخصصة' }); }}
+                                                className="w-full px-3 py-2 bg-white ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-emerald-500/40 outline-none"
+                                            />
+                                        </div>
+                                    )}
+                                    <p className="text-[11px] text-slate-400 text-left" dir="ltr">
+                                        {south.toFixed(3)}, {west.toFixed(3)} → {north.toFixed(3)}, {east.toFixed(3)}
+                                    </p>
+                                </section>
+
+                                {/* Search options */}
+                                <section className="grid grid-cols-3 gap-3">
+                                    <div className="space-y-1.5">
+                                        <label className="text-xs font-bold text-slate-500">رمز الدولة</label>
+                                        <input
+                                            dir="ltr"
+                                            value={region.countryCode}
+                                            onChange={(e) => onChange({ ...region, countryCode: e.target.value.trim().toLowerCase() })}
+                                            placeholder="iq"
+                                            maxLength={2}
+                                            className="w-full px-3 py-2 bg-white ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-emerald-500/40 outline-none"
+                                        />
+                                    </div>
+                                    <div className="space-y-1.5">
+                                        <label className="text-xs font-bold text-slate-500">لغة أسماء الأماكن</label>
+                                        <select
+                                            value={region.language}
+                                            onChange={(e) => onChange({ ...region, language: e.target.value })}
+                                            className="w-full px-3 py-2 bg-white ring-1 ring-slate-200 rounded-lg text-sm text-slate-600 cursor-pointer"
+                                        >
+                                            <option value="ar">العربية</option>
+                                            <option value="ku">الكردية</option>
+                                            <option value="en">الإنجليزية</option>
+                                        </select>
+                                    </div>
+                                    <div className="space-y-1.5">
+                                        <label className="text-xs font-bold text-slate-500">مستوى التقريب</label>
+                                        <input
+                                            type="number"
+                                            min={5}
+                                            max={18}
+                                            value={region.zoom}
+                                            onChange={(e) => {
+                                                const zoom = Number(e.target.value);
+                                                if (zoom >= 5 && zoom <= 18) onChange({ ...region, zoom });
+                                            }}
+                                            className="w-full px-3 py-2 bg-white ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-emerald-500/40 outline-none"
+                                        />
+                                    </div>
+                                </section>
+                                <p className="text-[11px] text-slate-400">
+                                    اترك رمز الدولة فارغاً للبحث في كل الدول عند توسيع البحث خارج المنطقة.
+                                </p>
+                            </div>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Printer, Loader2, Map as MapIcon, ClipboardList } from 'lucide-react';
+import L from 'leaflet';
+import { LocationPoint } from '../types';
+import { getEnteredCount } from '../services/coverageService';
+import { captureMapSnapshot } from '../services/mapSnapshotService';
+import { openPrintWindow, renderReport, writePrintDocument } from '../services/printService';
+
+interface ReportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    // The filtered schools; the report covers exactly what the map shows
+    points: LocationPoint[];
+    scopeLabel: string;
+    map: L.Map | null;
+}
+
+const TOP_COUNTS = [10, 20, 50];
+
+// Options for the printable / PDF summary report
+export const ReportModal: React.FC<ReportModalProps> = ({ isOpen, onClose, points, scopeLabel, map }) => {
+    const [title, setTitle] = useState('تقرير توزيع الناخبين');
+    const [topCount, setTopCount] = useState(10);
+    const [includeMap, setIncludeMap] = useState(true);
+    const [includeRollSheets, setIncludeRollSheets] = useState(false);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const rollSchools = points.filter(p => p.voters?.length).length;
+    const rollVoters = points.reduce((sum, p) => sum + getEnteredCount(p), 0);
+
+    const handleGenerate = async () => {
+        setError(null);
+        const win = openPrintWindow();
+        if (!win) {
+            setError('منع المتصفح فتح نافذة الطباعة. يرجى السماح بالنوافذ المنبثقة لهذا الموقع.');
+            return;
+        }
+        setIsGenerating(true);
+        try {
+            const mapImage = includeMap && map ? await captureMapSnapshot(map, points) : null;
+            writePrintDocument(win, title, renderReport(points, { title, scopeLabel, topCount, includeRollSheets }, mapImage));
+            onClose();
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1100] transition-opacity"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="fixed inset-0 z-[1110] flex items-center justify-center p-4 sm:p-6 pointer-events-none"
+                    >
+                        <div
+                            className="bg-white rounded-3xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col pointer-events-auto overflow-hidden ring-1 ring-slate-900/5"
+                            dir="rtl"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                                <div>
+                                    <h2 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                                        <div className="bg-slate-100 p-2 rounded-xl text-slate-700">
+                                            <Printer className="w-5 h-5" />
+                                        </div>
+                                        تقرير للطباعة
+                                    </h2>
+                                    <p className="text-sm text-slate-500 mt-1 font-medium pr-1">
+                                        <span className="text-slate-800 font-bold">{points.length}</span> مدرسة • {scopeLabel}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                >
+                                    <X className="w-6 h-6" />
+                                </button>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-4 bg-slate-50/50">
+                                <div className="space-y-1.5">
+                                    <label className="text-xs font-bold text-slate-500">عنوان التقرير</label>
+                                    <input
+                                        value={title}
+                                        onChange={(e) => setTitle(e.target.value)}
+                                        className="w-full px-3 py-2 bg-white ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-slate-400/40 outline-none"
+                                    />
+                                </div>
+
+                                <div className="space-y-1.5">
+                                    <label className="text-xs font-bold text-slate-500">قائمة أكبر المدارس</label>
+                                    <div className="flex gap-2">
+                                        {TOP_COUNTS.map(count => (
+                                            <button
+                                                key={count}
+                                                onClick={() => setTopCount(count)}
+                                                className={`flex-1 py-2 rounded-lg text-sm font-bold transition-colors ${topCount === count ? 'bg-slate-800 text-white' : 'bg-white ring-1 ring-slate-200 text-slate-600 hover:bg-slate-100'}`}
+                                            >
+                                                أكبر {count}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <label className="flex items-start gap-3 bg-white p-3 rounded-xl border border-slate-100 shadow-sm cursor-pointer">
+                                    <input type="checkbox" checked={includeMap} onChange={(e) => setIncludeMap(e.target.checked)} className="mt-1 accent-slate-800" />
+                                    <div>
+                                        <div className="text-sm font-bold text-slate-700 flex items-center gap-1.5">
+                                            <MapIcon className="w-4 h-4 text-slate-400" />
+                                            صورة الخريطة
+                                        </div>
+                                        <div className="text-[11px] text-slate-400">العرض الحالي للخريطة على خلفية OpenStreetMap</div>
+                                    </div>
+                                </label>
+
+                                <label className="flex items-start gap-3 bg-white p-3 rounded-xl border border-slate-100 shadow-sm cursor-pointer">
+                                    <input type="checkbox" checked={includeRollSheets} onChange={(e) => setIncludeRollSheets(e.target.checked)} className="mt-1 accent-slate-800" />
+                                    <div>
+                                        <div className="text-sm font-bold text-slate-700 flex items-center gap-1.5">
+                                            <ClipboardList className="w-4 h-4 text-slate-400" />
+                                            كشوف الناخبين للزيارات الميدانية
+                                        </div>
+                                        <div className="text-[11px] text-slate-400">
+                                            صفحة لكل مدرسة مع خانات للتأشير: {rollSchools} مدرسة، {rollVoters.toLocaleString()} ناخب
+                                        </div>
+                                    </div>
+                                </label>
+
+                                {error && <p className="text-xs font-bold text-rose-600">{error}</p>}
+                            </div>
+
+                            <div className="p-4 border-t border-slate-100">
+                                <button
+                                    onClick={handleGenerate}
+                                    disabled={isGenerating || points.length === 0 || !title.trim()}
+                                    className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-slate-800 hover:bg-slate-900 disabled:opacity-40 text-white text-sm font-bold"
+                                >
+                                    {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}
+                                    إنشاء التقرير وطباعته
+                                </button>
+                                <p className="text-[11px] text-slate-400 text-center mt-2">لحفظه كملف PDF اختر "حفظ بتنسيق PDF" في نافذة الطباعة</p>
+                            </div>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
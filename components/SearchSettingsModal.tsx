@@ -0,0 +1,256 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Search, Upload, Trash2, ChevronUp, ChevronDown, Eraser, RotateCcw } from 'lucide-react';
+import {
+    DEFAULT_GEOCODER_CONFIG,
+    GEOCODER_LABELS,
+    GeocoderConfig,
+    GeocoderKind,
+    clearGeocodeCache,
+    loadGazetteer,
+    parseGazetteer,
+    saveGazetteer
+} from '../services/geocoderService';
+
+interface SearchSettingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    config: GeocoderConfig;
+    onChange: (config: GeocoderConfig) => void;
+}
+
+const ALL_KINDS = Object.keys(GEOCODER_LABELS) as GeocoderKind[];
+
+const URL_FIELDS: { key: 'nominatimUrl' | 'overpassUrl' | 'customUrl'; label: string; placeholder: string }[] = [
+    { key: 'customUrl', label: 'عنوان الخادم المخصص', placeholder: 'http://localhost:8080' },
+    { key: 'nominatimUrl', label: 'عنوان Nominatim', placeholder: DEFAULT_GEOCODER_CONFIG.nominatimUrl },
+    { key: 'overpassUrl', label: 'عنوان Overpass', placeholder: DEFAULT_GEOCODER_CONFIG.overpassUrl },
+];
+
+// Which geocoders the map search uses, in what order, and where they live
+export const SearchSettingsModal: React.FC<SearchSettingsModalProps> = ({ isOpen, onClose, config, onChange }) => {
+    const [gazetteerCount, setGazetteerCount] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const [cacheCleared, setCacheCleared] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setError(null);
+        setCacheCleared(false);
+        loadGazetteer().then(entries => setGazetteerCount(entries.length));
+    }, [isOpen]);
+
+    // Enabled providers first, in search order
+    const kinds = [...config.order, ...ALL_KINDS.filter(kind => !config.order.includes(kind))];
+
+    const handleToggle = (kind: GeocoderKind) => {
+        onChange({
+            ...config,
+            order: config.order.includes(kind) ? config.order.filter(k => k !== kind) : [...config.order, kind],
+        });
+    };
+
+    const handleMove = (index: number, offset: number) => {
+        const order = [...config.order];
+        [order[index], order[index + offset]] = [order[index + offset], order[index]];
+        onChange({ ...config, order });
+    };
+
+    const handleFile = async (file: File) => {
+        setError(null);
+        try {
+            const entries = parseGazetteer(await file.text());
+            await saveGazetteer(entries);
+            setGazetteerCount(entries.length);
+            if (!config.order.includes('gazetteer')) onChange({ ...config, order: ['gazetteer', ...config.order] });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'تعذر قراءة الملف.');
+        }
+    };
+
+    const handleDeleteGazetteer = async () => {
+        await saveGazetteer([]);
+        setGazetteerCount(0);
+    };
+
+    const handleClearCache = async () => {
+        await clearGeocodeCache();
+        setCacheCleared(true);
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1100] transition-opacity"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="fixed inset-0 z-[1110] flex items-center justify-center p-4 sm:p-6 pointer-events-none"
+                    >
+                        <div
+                            className="bg-white rounded-3xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col pointer-events-auto overflow-hidden ring-1 ring-slate-900/5"
+                            dir="rtl"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                                <div>
+                                    <h2 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                                        <div className="bg-emerald-100 p-2 rounded-xl text-emerald-600">
+                                            <Search className="w-5 h-5" />
+                                        </div>
+                                        إعدادات البحث
+                                    </h2>
+                                    <p className="text-sm text-slate-500 mt-1 font-medium pr-1">
+                                        تُجرب المصادر بالترتيب حتى يجد أحدها نتائج
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                >
+                                    <X className="w-6 h-6" />
+                                </button>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-6 bg-slate-50/50">
+                                {/* Provider order */}
+                                <section className="space-y-2">
+                                    <h3 className="text-xs font-bold text-slate-500">مصادر البحث</h3>
+                                    {kinds.map(kind => {
+                                        const index = config.order.indexOf(kind);
+                                        const enabled = index >= 0;
+                                        return (
+                                            <div
+                                                key={kind}
+                                                className={`flex items-center gap-3 bg-white p-3 rounded-xl border border-slate-100 shadow-sm ${enabled ? '' : 'opacity-60'}`}
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={enabled}
+                                                    onChange={() => handleToggle(kind)}
+                                                    className="accent-emerald-600"
+                                                />
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="text-sm font-bold text-slate-700">
+                                                        {enabled && <span className="text-emerald-600 ml-1">{index + 1}.</span>}
+                                                        {GEOCODER_LABELS[kind].label}
+                                                    </div>
+                                                    <div className="text-[11px] text-slate-400">{GEOCODER_LABELS[kind].hint}</div>
+                                                </div>
+                                                {enabled && (
+                                                    <div className="flex flex-col">
+                                                        <button
+                                                            onClick={() => handleMove(index, -1)}
+                                                            disabled={index === 0}
+                                                            className="p-0.5 text-slate-400 hover:text-emerald-600 disabled:opacity-30"
+                                                            title="تقديم"
+                                                        >
+                                                            <ChevronUp className="w-4 h-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleMove(index, 1)}
+                                                            disabled={index === config.order.length - 1}
+                                                            className="p-0.5 text-slate-400 hover:text-emerald-600 disabled:opacity-30"
+                                                            title="تأخير"
+                                                        >
+                                                            <ChevronDown className="w-4 h-4" />
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </section>
+
+                                {/* Endpoints */}
+                                <section className="space-y-3">
+                                    {URL_FIELDS.map(field => (
+                                        <div key={field.key} className="space-y-1.5">
+                                            <label className="text-xs font-bold text-slate-500">{field.label}</label>
+                                            <input
+                                                dir="ltr"
+                                                value={config[field.key]}
+                                                onChange={(e) => onChange({ ...config, [field.key]: e.target.value })}
+                                                placeholder={field.placeholder}
+                                                className="w-full px-3 py-2 bg-white ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-emerald-500/40 outline-none"
+                                            />
+                                        </div>
+                                    ))}
+                                    <p className="text-[11px] text-slate-400">
+                                        الخادم المخصص يجب أن يدعم واجهة /search الخاصة بـ Nominatim. لا يُقيد بطلب واحد في الثانية.
+                                    </p>
+                                </section>
+
+                                {/* Gazetteer */}
+                                <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 space-y-3">
+                                    <input
+                                        ref={fileInputRef}
+                                        type="file"
+                                        accept=".geojson,.json,.csv,application/geo+json,application/json,text/csv"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            if (file) handleFile(file);
+                                            e.target.value = '';
+                                        }}
+                                    />
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => fileInputRef.current?.click()}
+                                            className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl bg-emerald-50 hover:bg-emerald-100 text-emerald-700 text-sm font-bold"
+                                        >
+                                            <Upload className="w-4 h-4" />
+                                            {gazetteerCount ? `استبدال ملف الأماكن (${gazetteerCount.toLocaleString()} مكان)` : 'رفع ملف أماكن محلي'}
+                                        </button>
+                                        {gazetteerCount > 0 && (
+                                            <button
+                                                onClick={handleDeleteGazetteer}
+                                                className="p-2.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-xl transition-colors"
+                                                title="حذف ملف الأماكن"
+                                            >
+                                                <Trash2 className="w-5 h-5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                    {error && <p className="text-xs font-bold text-rose-600">{error}</p>}
+                                    <p className="text-[11px] text-slate-400">
+                                        GeoJSON بنقاط لها خاصية name، أو CSV بأعمدة name و lat و lng. يُحفظ على هذا الجهاز فقط.
+                                    </p>
+                                </section>
+
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={handleClearCache}
+                                        className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-white ring-1 ring-slate-200 hover:bg-slate-100 text-slate-600 text-sm font-bold"
+                                    >
+                                        <Eraser className="w-4 h-4" />
+                                        {cacheCleared ? 'تم مسح النتائج المحفوظة' : 'مسح النتائج المحفوظة'}
+                                    </button>
+                                    <button
+                                        onClick={() => onChange(DEFAULT_GEOCODER_CONFIG)}
+                                        className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-white ring-1 ring-slate-200 hover:bg-slate-100 text-slate-600 text-sm font-bold"
+                                    >
+                                        <RotateCcw className="w-4 h-4" />
+                                        الإعدادات الافتراضية
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
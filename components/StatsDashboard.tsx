@@ -0,0 +1,261 @@
+import React, { useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, BarChart3 } from 'lucide-react';
+import { LocationPoint } from '../types';
+import { summarizeByDistrict, summarizePoints } from '../services/coverageService';
+import { VOTER_STATUSES } from '../services/contactService';
+import { COMPLETION_BUCKETS, StatsFilter, formatDay, getCompletionCounts, getEntryGrowth, getSizeBins } from '../services/statsService';
+
+interface StatsDashboardProps {
+    isOpen: boolean;
+    onClose: () => void;
+    points: LocationPoint[];
+    onSelectDistrict: (district: string) => void;
+    onFilter: (filter: StatsFilter) => void;
+}
+
+// Only the biggest districts get a bar; the rest are counted below the chart
+const MAX_DISTRICT_BARS = 12;
+const COMPLETION_COLORS = ['bg-slate-300', 'bg-rose-400', 'bg-amber-400', 'bg-yellow-400', 'bg-lime-500', 'bg-emerald-500'];
+
+const GROWTH_WIDTH = 640;
+const GROWTH_HEIGHT = 160;
+const GROWTH_PAD = { top: 10, right: 12, bottom: 22, left: 44 };
+
+const ChartCard: React.FC<{ title: string; hint?: string; className?: string; children: React.ReactNode }> = ({ title, hint, className = '', children }) => (
+    <section className={`bg-white rounded-2xl border border-slate-100 shadow-sm p-4 ${className}`}>
+        <h3 className={`font-black text-slate-800 text-sm ${hint ? '' : 'mb-3'}`}>{title}</h3>
+        {hint && <p className="text-[11px] text-slate-400 mb-3">{hint}</p>}
+        {children}
+    </section>
+);
+
+const EmptyChart: React.FC = () => <p className="text-sm text-slate-400 text-center py-8">لا توجد بيانات</p>;
+
+/**
+ * Charts over the filtered schools. Clicking a bar or point narrows the map
+ * and list to the schools behind it and closes the dashboard.
+ */
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ isOpen, onClose, points, onSelectDistrict, onFilter }) => {
+    const districts = useMemo(() => summarizeByDistrict(points), [points]);
+    const sizeBins = useMemo(() => getSizeBins(points), [points]);
+    const completion = useMemo(() => getCompletionCounts(points), [points]);
+    const growth = useMemo(() => getEntryGrowth(points), [points]);
+    const contact = useMemo(() => summarizePoints(points).contact, [points]);
+
+    const pick = (apply: () => void) => {
+        apply();
+        onClose();
+    };
+
+    const maxDistrict = Math.max(1, ...districts.map(d => d.total));
+    const maxBin = Math.max(1, ...sizeBins.map(b => b.schools));
+    const maxCompletion = Math.max(1, ...completion);
+    const completionTracked = completion.reduce((sum, n) => sum + n, 0);
+
+    const renderGrowth = () => {
+        if (growth.length === 0) return <EmptyChart />;
+        const first = growth[0].day;
+        const span = Math.max(growth[growth.length - 1].day - first, 1);
+        const maxY = Math.max(growth[growth.length - 1].total, 1);
+        const innerW = GROWTH_WIDTH - GROWTH_PAD.left - GROWTH_PAD.right;
+        const innerH = GROWTH_HEIGHT - GROWTH_PAD.top - GROWTH_PAD.bottom;
+        const x = (day: number) => GROWTH_PAD.left + (growth.length === 1 ? innerW / 2 : ((day - first) / span) * innerW);
+        const y = (total: number) => GROWTH_PAD.top + innerH - (total / maxY) * innerH;
+        const line = growth.map((g, i) => `${i === 0 ? 'M' : 'L'}${x(g.day)},${y(g.total)}`).join(' ');
+        const labelStep = Math.ceil(growth.length / 6);
+
+        return (
+            <svg viewBox={`0 0 ${GROWTH_WIDTH} ${GROWTH_HEIGHT}`} className="w-full h-auto" dir="ltr">
+                <line x1={GROWTH_PAD.left} x2={GROWTH_WIDTH - GROWTH_PAD.right} y1={y(0)} y2={y(0)} className="stroke-slate-200" />
+                <text x={GROWTH_PAD.left - 4} y={y(maxY) + 3} textAnchor="end" className="fill-slate-400 text-[9px]">{maxY.toLocaleString()}</text>
+                <text x={GROWTH_PAD.left - 4} y={y(0) + 3} textAnchor="end" className="fill-slate-400 text-[9px]">0</text>
+                <path d={`${line} L${x(growth[growth.length - 1].day)},${y(0)} L${x(first)},${y(0)} Z`} className="fill-sky-500/10" />
+                <path d={line} className="stroke-sky-500 fill-none" strokeWidth={2} strokeLinejoin="round" />
+                {growth.map((g, i) => (
+                    <g key={g.day} onClick={() => pick(() => onFilter({ kind: 'addedOn', day: g.day }))} className="cursor-pointer">
+                        <circle cx={x(g.day)} cy={y(g.total)} r={8} className="fill-transparent" />
+                        <circle cx={x(g.day)} cy={y(g.total)} r={3.5} className="fill-white stroke-sky-500 hover:fill-sky-500" strokeWidth={1.5}>
+                            <title>{`${formatDay(g.day)}: +${g.added.toLocaleString()} (المجموع ${g.total.toLocaleString()})`}</title>
+                        </circle>
+                        {i % labelStep === 0 && (
+                            <text x={x(g.day)} y={GROWTH_HEIGHT - 6} textAnchor="middle" className="fill-slate-400 text-[9px]">{formatDay(g.day)}</text>
+                        )}
+                    </g>
+                ))}
+            </svg>
+        );
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1100] transition-opacity"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="fixed inset-0 z-[1110] flex items-center justify-center p-4 sm:p-6 pointer-events-none"
+                    >
+                        <div
+                            className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col pointer-events-auto overflow-hidden ring-1 ring-slate-900/5"
+                            dir="rtl"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                                <div>
+                                    <h2 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                                        <div className="bg-sky-100 p-2 rounded-xl text-sky-600">
+                                            <BarChart3 className="w-5 h-5" />
+                                        </div>
+                                        لوحة الإحصائيات
+                                    </h2>
+                                    <p className="text-sm text-slate-500 mt-1 font-medium pr-1">
+                                        <span className="text-sky-600 font-bold">{points.length}</span> مدرسة حسب التصفية الحالية • انقر على أي عمود لتصفية الخريطة والقائمة
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                >
+                                    <X className="w-6 h-6" />
+                                </button>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar bg-slate-50/50 grid grid-cols-1 md:grid-cols-2 gap-4">
+                                {/* Voters per district */}
+                                <ChartCard title="الناخبون حسب المنطقة">
+                                    {districts.length === 0 ? <EmptyChart /> : (
+                                        <div className="space-y-1.5">
+                                            {districts.slice(0, MAX_DISTRICT_BARS).map(d => (
+                                                <button
+                                                    key={d.district}
+                                                    onClick={() => pick(() => onSelectDistrict(d.district))}
+                                                    disabled={!d.district}
+                                                    className="w-full flex items-center gap-2 text-right group disabled:cursor-default"
+                                                    title={`${d.points.length} مدرسة • ${d.entered.toLocaleString()} اسم مدخل`}
+                                                >
+                                                    <span className="w-24 shrink-0 text-[11px] font-bold text-slate-600 truncate">{d.district || 'بدون منطقة'}</span>
+                                                    <span className="flex-1 h-4 bg-slate-100 rounded-md overflow-hidden">
+                                                        <span
+                                                            className="block h-full bg-emerald-500 group-enabled:group-hover:bg-emerald-600 rounded-md"
+                                                            style={{ width: `${(d.total / maxDistrict) * 100}%` }}
+                                                        />
+                                                    </span>
+                                                    <span className="w-14 shrink-0 text-[11px] font-bold text-slate-500 text-left">{d.total.toLocaleString()}</span>
+                                                </button>
+                                            ))}
+                                            {districts.length > MAX_DISTRICT_BARS && (
+                                                <p className="text-[11px] text-slate-400">و{districts.length - MAX_DISTRICT_BARS} مناطق أخرى</p>
+                                            )}
+                                        </div>
+                                    )}
+                                </ChartCard>
+
+                                {/* School size distribution */}
+                                <ChartCard title="توزيع أحجام المدارس" hint="عدد المدارس حسب عدد الناخبين">
+                                    {sizeBins.length === 0 ? <EmptyChart /> : (
+                                        <div className="flex items-end gap-1.5 h-40" dir="ltr">
+                                            {sizeBins.map(bin => (
+                                                <button
+                                                    key={bin.min}
+                                                    onClick={() => pick(() => onFilter({ kind: 'size', min: bin.min, max: bin.max }))}
+                                                    disabled={bin.schools === 0}
+                                                    className="flex-1 h-full flex flex-col justify-end items-center gap-1 group disabled:cursor-default"
+                                                    title={`${bin.min.toLocaleString()}–${bin.max.toLocaleString()} ناخب`}
+                                                >
+                                                    <span className="text-[10px] font-bold text-slate-500">{bin.schools}</span>
+                                                    <span
+                                                        className="w-full bg-sky-500 group-enabled:group-hover:bg-sky-600 rounded-t-md min-h-[2px]"
+                                                        style={{ height: `${(bin.schools / maxBin) * 75}%` }}
+                                                    />
+                                                    <span className="text-[9px] text-slate-400 whitespace-nowrap">{bin.min.toLocaleString()}+</span>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </ChartCard>
+
+                                {/* Roll completion */}
+                                <ChartCard title="اكتمال سجلات الناخبين" hint="المدارس التي تتابع السجل مقابل العدد المسجل">
+                                    {completionTracked === 0 ? <EmptyChart /> : (
+                                        <div className="space-y-1.5">
+                                            {COMPLETION_BUCKETS.map((label, bucket) => (
+                                                <button
+                                                    key={label}
+                                                    onClick={() => pick(() => onFilter({ kind: 'completion', bucket }))}
+                                                    disabled={completion[bucket] === 0}
+                                                    className="w-full flex items-center gap-2 text-right group disabled:cursor-default"
+                                                >
+                                                    <span className="w-24 shrink-0 text-[11px] font-bold text-slate-600">{label}</span>
+                                                    <span className="flex-1 h-4 bg-slate-100 rounded-md overflow-hidden">
+                                                        <span
+                                                            className={`block h-full rounded-md group-enabled:group-hover:opacity-80 ${COMPLETION_COLORS[bucket]}`}
+                                                            style={{ width: `${(completion[bucket] / maxCompletion) * 100}%` }}
+                                                        />
+                                                    </span>
+                                                    <span className="w-14 shrink-0 text-[11px] font-bold text-slate-500 text-left">{completion[bucket]} مدرسة</span>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </ChartCard>
+
+                                {/* Contact status */}
+                                <ChartCard title="حالة التواصل مع الناخبين" hint={`${contact.total.toLocaleString()} ناخب في السجلات`}>
+                                    {contact.total === 0 ? <EmptyChart /> : (
+                                        <div className="space-y-3">
+                                            <div className="flex h-4 rounded-md overflow-hidden">
+                                                {VOTER_STATUSES.filter(({ status }) => contact.byStatus[status] > 0).map(({ status, label, dot }) => (
+                                                    <button
+                                                        key={status}
+                                                        onClick={() => pick(() => onFilter({ kind: 'status', status }))}
+                                                        className={`h-full hover:opacity-80 ${dot}`}
+                                                        style={{ width: `${(contact.byStatus[status] / contact.total) * 100}%` }}
+                                                        title={`${label}: ${contact.byStatus[status].toLocaleString()}`}
+                                                    />
+                                                ))}
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-1.5">
+                                                {VOTER_STATUSES.map(({ status, label, dot }) => (
+                                                    <button
+                                                        key={status}
+                                                        onClick={() => pick(() => onFilter({ kind: 'status', status }))}
+                                                        disabled={contact.byStatus[status] === 0}
+                                                        className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-transparent text-right"
+                                                    >
+                                                        <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${dot}`} />
+                                                        <span className="flex-1 text-[11px] font-bold text-slate-600">{label}</span>
+                                                        <span className="text-[11px] font-bold text-slate-500">
+                                                            {contact.byStatus[status].toLocaleString()}
+                                                            <span className="text-slate-300 font-medium"> ({Math.round((contact.byStatus[status] / contact.total) * 100)}%)</span>
+                                                        </span>
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+                                </ChartCard>
+
+                                {/* Growth over time */}
+                                <ChartCard title="نمو الأسماء المدخلة" hint="المجموع التراكمي حسب تاريخ الإدخال" className="md:col-span-2">
+                                    {renderGrowth()}
+                                </ChartCard>
+                            </div>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Cloud, CloudOff, RefreshCw, HardDrive, Loader2, KeyRound } from 'lucide-react';
+import { SyncConfig } from '../services/syncService';
+import { SyncStatus } from '../services/storageService';
+
+interface SyncMenuProps {
+    config: SyncConfig;
+    status: SyncStatus | null;
+    onConfigChange: (config: SyncConfig) => void;
+    onSyncNow: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus['state'], string> = {
+    synced: 'متزامن',
+    syncing: 'جاري المزامنة...',
+    pending: 'تغييرات بانتظار الإرسال',
+    offline: 'الخادم غير متاح — التغييرات محفوظة محلياً',
+    unauthorized: 'رمز الفريق غير صحيح — التغييرات محفوظة محلياً',
+};
+
+export const SyncMenu: React.FC<SyncMenuProps> = ({ config, status, onConfigChange, onSyncNow }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [serverUrl, setServerUrl] = useState(config.serverUrl);
+    const [token, setToken] = useState(config.token);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Click outside to close
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    useEffect(() => setServerUrl(config.serverUrl), [config.serverUrl]);
+    useEffect(() => setToken(config.token), [config.token]);
+
+    const isValidUrl = (() => {
+        try {
+            return ['http:', 'https:'].includes(new URL(serverUrl).protocol);
+        } catch {
+            return false;
+        }
+    })();
+
+    const state = config.enabled ? status?.state : undefined;
+    const isFailing = state === 'offline' || state === 'unauthorized';
+    const Icon = !config.enabled ? HardDrive : state === 'unauthorized' ? KeyRound : state === 'offline' ? CloudOff : state === 'syncing' ? Loader2 : Cloud;
+    const tone = !config.enabled
+        ? 'text-slate-500'
+        : isFailing ? 'text-rose-500' : state === 'pending' || state === 'syncing' ? 'text-amber-500' : 'text-emerald-600';
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <motion.button
+                whileTap={{ scale: 0.9 }}
+                whileHover={{ scale: 1.05 }}
+                onClick={() => setIsOpen(!isOpen)}
+                className={`relative p-3 rounded-2xl transition-colors shadow-sm hover:shadow flex items-center gap-2 text-sm font-bold ${isOpen ? 'bg-slate-800 text-white' : `${tone} hover:bg-slate-50`}`}
+                title={config.enabled && state ? STATUS_LABELS[state] : 'حفظ محلي فقط'}
+            >
+                <Icon className={`w-5 h-5 ${state === 'syncing' ? 'animate-spin' : ''}`} />
+                {config.enabled && !!status?.pendingCount && (
+                    <span className="absolute -top-1 -left-1 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-white text-[10px] font-bold flex items-center justify-center">
+                        {status.pendingCount}
+                    </span>
+                )}
+            </motion.button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.9, y: 10 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.9, y: 10 }}
+                        className="absolute top-full left-0 z-50 mt-3 w-80 bg-white/95 backdrop-blur-2xl border border-white/20 rounded-3xl shadow-[0_30px_60px_rgba(0,0,0,0.12)] ring-1 ring-black/5 p-5 space-y-4"
+                    >
+                        <label className="flex items-center justify-between cursor-pointer">
+                            <div>
+                                <div className="text-sm font-bold text-slate-800">مزامنة الفريق</div>
+                                <div className="text-[11px] text-slate-400">مشاركة البيانات عبر خادم المزامنة</div>
+                            </div>
+                            <input
+                                type="checkbox"
+                                checked={config.enabled}
+                                disabled={!isValidUrl || !token.trim()}
+                                onChange={(e) => onConfigChange({ serverUrl, token: token.trim(), enabled: e.target.checked })}
+                                className="w-5 h-5 rounded text-emerald-600 cursor-pointer"
+                            />
+                        </label>
+
+                        <div className="space-y-1.5">
+                            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">عنوان الخادم</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="url"
+                                    dir="ltr"
+                                    value={serverUrl}
+                                    onChange={(e) => setServerUrl(e.target.value)}
+                                    placeholder="http://localhost:8787"
+                                    className={`flex-1 px-3 py-2 bg-slate-50 border-0 rounded-xl focus:ring-2 focus:ring-emerald-500/20 text-slate-700 text-sm font-mono ${isValidUrl ? '' : 'ring-1 ring-rose-300'}`}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="space-y-1.5">
+                            <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">رمز الفريق</label>
+                            <input
+                                type="password"
+                                dir="ltr"
+                                value={token}
+                                onChange={(e) => setToken(e.target.value)}
+                                placeholder="SYNC_TOKEN"
+                                autoComplete="off"
+                                className="w-full px-3 py-2 bg-slate-50 border-0 rounded-xl focus:ring-2 focus:ring-emerald-500/20 text-slate-700 text-sm font-mono"
+                            />
+                            <p className="text-[11px] text-slate-400">الرمز المشترك الذي شُغّل به خادم المزامنة</p>
+                        </div>
+
+                        {(serverUrl !== config.serverUrl || token.trim() !== config.token) && (
+                            <button
+                                onClick={() => onConfigChange({ ...config, serverUrl, token: token.trim() })}
+                                disabled={!isValidUrl}
+                                className="w-full py-2 rounded-xl bg-emerald-500 text-white text-xs font-bold disabled:opacity-40"
+                            >
+                                حفظ
+                            </button>
+                        )}
+
+                        {config.enabled && status && (
+                            <div className="bg-slate-50 rounded-xl p-3 space-y-2">
+                                <div className={`text-xs font-bold ${tone}`}>{STATUS_LABELS[status.state]}</div>
+                                <div className="text-[11px] text-slate-400">
+                                    بانتظار الإرسال: <span className="font-bold text-slate-600">{status.pendingCount}</span>
+                                    {status.lastSyncedAt && (
+                                        <> • آخر مزامنة: {new Date(status.lastSyncedAt).toLocaleTimeString('ar-IQ')}</>
+                                    )}
+                                </div>
+                                <button
+                                    onClick={onSyncNow}
+                                    disabled={status.state === 'syncing'}
+                                    className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-white hover:bg-emerald-50 text-emerald-700 text-xs font-bold ring-1 ring-slate-100 transition-colors disabled:opacity-50"
+                                >
+                                    <RefreshCw className={`w-3.5 h-3.5 ${status.state === 'syncing' ? 'animate-spin' : ''}`} />
+                                    مزامنة الآن
+                                </button>
+                            </div>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
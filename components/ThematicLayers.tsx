@@ -0,0 +1,329 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CircleMarker, LayerGroup, Polygon, Popup, Tooltip, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { LocationPoint } from '../types';
+import { getVoterTotal } from '../services/coverageService';
+import { DistrictStats } from '../services/districtService';
+import { CLASS_METHODS, ClassMethod, getClassBreaks, getClassColor, getClassIndex } from '../services/classificationService';
+
+// Overlay names as shown in the layers control; the legend keys off them too
+export const HEATMAP_OVERLAY = 'خريطة حرارية';
+export const CIRCLES_OVERLAY = 'دوائر نسبية';
+export const CLASSES_OVERLAY = 'فئات ملونة';
+export const DISTRICTS_OVERLAY = 'حدود المناطق';
+
+const HEAT_RADIUS = 30;
+const HEAT_GRADIENT: [number, string][] = [[0.2, '#3b82f6'], [0.45, '#22d3ee'], [0.6, '#84cc16'], [0.8, '#facc15'], [1, '#dc2626']];
+const HEAT_CSS_GRADIENT = `linear-gradient(to left, ${HEAT_GRADIENT.map(([stop, color]) => `${color} ${stop * 100}%`).join(', ')})`;
+
+const MIN_CIRCLE_RADIUS = 4;
+const MAX_CIRCLE_RADIUS = 36;
+
+// 256 RGBA entries mapping heat intensity to a color
+const createHeatPalette = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  HEAT_GRADIENT.forEach(([stop, color]) => gradient.addColorStop(stop, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+  return ctx.getImageData(0, 0, 256, 1).data;
+};
+
+/**
+ * Canvas heatmap: each point stamps a blurred spot whose opacity is its weight
+ * relative to the heaviest point, then the accumulated alpha is colorized.
+ */
+class HeatLayer extends L.Layer {
+  private data: [number, number, number][];
+  private canvas: HTMLCanvasElement | null = null;
+  private heatMap: L.Map | null = null;
+  private palette: Uint8ClampedArray | null = null;
+
+  constructor(data: [number, number, number][]) {
+    super();
+    this.data = data;
+  }
+
+  onAdd(map: L.Map) {
+    this.heatMap = map;
+    this.canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide');
+    this.canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(this.canvas);
+    map.on('moveend resize', this.redraw, this);
+    this.redraw();
+    return this;
+  }
+
+  onRemove(map: L.Map) {
+    map.off('moveend resize', this.redraw, this);
+    this.canvas?.remove();
+    this.canvas = null;
+    this.heatMap = null;
+    return this;
+  }
+
+  private redraw() {
+    const map = this.heatMap;
+    const canvas = this.canvas;
+    if (!map || !canvas) return;
+
+    const size = map.getSize();
+    canvas.width = size.x;
+    canvas.height = size.y;
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+    const ctx = canvas.getContext('2d')!;
+    const max = Math.max(...this.data.map(([, , weight]) => weight), 1);
+    ctx.shadowBlur = HEAT_RADIUS;
+    // Draw the spots off-canvas and let only their blurred shadow land on it
+    ctx.shadowOffsetX = 10000;
+    ctx.shadowColor = 'black';
+    this.data.forEach(([lat, lng, weight]) => {
+      const { x, y } = map.latLngToContainerPoint([lat, lng]);
+      if (x < -HEAT_RADIUS * 2 || y < -HEAT_RADIUS * 2 || x > size.x + HEAT_RADIUS * 2 || y > size.y + HEAT_RADIUS * 2) return;
+      ctx.globalAlpha = Math.max(weight / max, 0.05);
+      ctx.beginPath();
+      ctx.arc(x - 10000, y, HEAT_RADIUS / 2, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    this.palette ??= createHeatPalette();
+    const image = ctx.getImageData(0, 0, size.x, size.y);
+    const pixels = image.data;
+    for (let i = 0; i < pixels.length; i += 4) {
+      const alpha = pixels[i + 3];
+      if (!alpha) continue;
+      const offset = alpha * 4;
+      pixels[i] = this.palette[offset];
+      pixels[i + 1] = this.palette[offset + 1];
+      pixels[i + 2] = this.palette[offset + 2];
+      pixels[i + 3] = Math.min(255, alpha * 1.5);
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+}
+
+interface ThematicLayerProps {
+  points: LocationPoint[];
+}
+
+// The heat layer is added to a LayerGroup so the layers control can toggle it like any overlay
+export const HeatmapLayer: React.FC<ThematicLayerProps> = ({ points }) => {
+  const groupRef = useRef<L.LayerGroup>(null);
+
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    const layer = new HeatLayer(points.map(p => [p.lat, p.lng, getVoterTotal(p)]));
+    group.addLayer(layer);
+    return () => {
+      group.removeLayer(layer);
+    };
+  }, [points]);
+
+  return <LayerGroup ref={groupRef} />;
+};
+
+// Circle area is proportional to the voter count
+const circleRadius = (value: number, max: number) =>
+  Math.max(MIN_CIRCLE_RADIUS, MAX_CIRCLE_RADIUS * Math.sqrt(value / Math.max(max, 1)));
+
+export const ProportionalCirclesLayer: React.FC<ThematicLayerProps> = ({ points }) => {
+  const max = Math.max(0, ...points.map(getVoterTotal));
+  return (
+    <LayerGroup>
+      {/* Largest first so small circles stay clickable on top */}
+      {[...points].sort((a, b) => getVoterTotal(b) - getVoterTotal(a)).map(point => (
+        <CircleMarker
+          key={point.id}
+          center={[point.lat, point.lng]}
+          radius={circleRadius(getVoterTotal(point), max)}
+          bubblingMouseEvents={false}
+          pathOptions={{ color: '#047857', weight: 1, fillColor: '#10b981', fillOpacity: 0.35 }}
+        >
+          <Tooltip direction="top">{point.name}: {getVoterTotal(point).toLocaleString()}</Tooltip>
+        </CircleMarker>
+      ))}
+    </LayerGroup>
+  );
+};
+
+interface ClassesLayerProps extends ThematicLayerProps {
+  breaks: number[];
+}
+
+export const ClassesLayer: React.FC<ClassesLayerProps> = ({ points, breaks }) => (
+  <LayerGroup>
+    {points.map(point => (
+      <CircleMarker
+        key={point.id}
+        center={[point.lat, point.lng]}
+        radius={9}
+        bubblingMouseEvents={false}
+        pathOptions={{
+          color: '#ffffff',
+          weight: 2,
+          fillColor: getClassColor(getClassIndex(getVoterTotal(point), breaks), breaks.length),
+          fillOpacity: 0.95,
+        }}
+      >
+        <Tooltip direction="top">{point.name}: {getVoterTotal(point).toLocaleString()}</Tooltip>
+      </CircleMarker>
+    ))}
+  </LayerGroup>
+);
+
+interface DistrictChoroplethLayerProps {
+  stats: DistrictStats[];
+  breaks: number[];
+}
+
+// Boundaries filled by total voters, with the district's numbers in a popup
+export const DistrictChoroplethLayer: React.FC<DistrictChoroplethLayerProps> = ({ stats, breaks }) => (
+  <LayerGroup>
+    {stats.map(({ boundary, points, total, entered, contact }) => (
+      <Polygon
+        key={boundary.id}
+        positions={boundary.polygons.map(polygon => polygon.map(ring => ring.map(([lng, lat]) => [lat, lng] as [number, number])))}
+        bubblingMouseEvents={false}
+        pathOptions={{
+          color: '#475569',
+          weight: 1,
+          fillColor: points.length ? getClassColor(getClassIndex(total, breaks), breaks.length) : '#e2e8f0',
+          fillOpacity: 0.55,
+        }}
+      >
+        <Tooltip sticky>{boundary.name}</Tooltip>
+        <Popup>
+          <div dir="rtl" className="text-right min-w-[170px] space-y-1 font-sans">
+            <h3 className="font-bold text-base text-slate-800 mb-2">{boundary.name}</h3>
+            {[
+              ['المدارس', points.length],
+              ['عدد الناخبين', total],
+              ['الأسماء المدخلة', entered],
+              ['تم الاتصال', contact.contacted],
+              ['مؤيد مؤكد', contact.confirmed],
+            ].map(([label, value]) => (
+              <div key={label} className="flex justify-between text-xs">
+                <span className="text-slate-500">{label}</span>
+                <span className="font-bold text-slate-700">{value.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        </Popup>
+      </Polygon>
+    ))}
+  </LayerGroup>
+);
+
+// "from – to" rows for the classes in `breaks`, starting at `min`
+const ClassRows: React.FC<{ breaks: number[]; min: number }> = ({ breaks, min }) => (
+  <>
+    {breaks.map((upper, i) => (
+      <div key={upper} className="flex items-center gap-2 text-[11px] text-slate-500">
+        <span className="w-3 h-3 rounded-full ring-1 ring-slate-200" style={{ backgroundColor: getClassColor(i, breaks.length) }} />
+        <span dir="ltr">{(i === 0 ? min : breaks[i - 1] + 1).toLocaleString()} – {upper.toLocaleString()}</span>
+      </div>
+    ))}
+  </>
+);
+
+interface ThematicLegendProps {
+  points: LocationPoint[];
+  breaks: number[];
+  districtStats: DistrictStats[];
+  districtBreaks: number[];
+  classMethod: ClassMethod;
+  onClassMethodChange: (method: ClassMethod) => void;
+}
+
+// Legend for whichever thematic overlays are switched on in the layers control
+export const ThematicLegend: React.FC<ThematicLegendProps> = ({ points, breaks, districtStats, districtBreaks, classMethod, onClassMethodChange }) => {
+  const [activeOverlays, setActiveOverlays] = useState<string[]>([]);
+  const legendRef = useRef<HTMLDivElement>(null);
+
+  useMapEvents({
+    overlayadd: (e) => setActiveOverlays(prev => [...prev, e.name]),
+    overlayremove: (e) => setActiveOverlays(prev => prev.filter(name => name !== e.name)),
+  });
+
+  useEffect(() => {
+    if (legendRef.current) {
+      L.DomEvent.disableClickPropagation(legendRef.current);
+      L.DomEvent.disableScrollPropagation(legendRef.current);
+    }
+  });
+
+  if (activeOverlays.length === 0 || points.length === 0) return null;
+  const max = Math.max(0, ...points.map(getVoterTotal));
+  const min = Math.min(...points.map(getVoterTotal));
+  const usedDistricts = districtStats.filter(d => d.points.length > 0);
+  const showClasses = activeOverlays.includes(CLASSES_OVERLAY);
+  const showDistricts = activeOverlays.includes(DISTRICTS_OVERLAY) && usedDistricts.length > 0;
+
+  return (
+    <div
+      ref={legendRef}
+      dir="rtl"
+      className="absolute bottom-8 right-4 z-[1000] w-56 bg-white/90 backdrop-blur-md rounded-2xl shadow-xl ring-1 ring-slate-900/5 p-4 space-y-4 font-sans"
+    >
+      {(showClasses || showDistricts) && (
+        <select
+          value={classMethod}
+          onChange={(e) => onClassMethodChange(e.target.value as ClassMethod)}
+          className="w-full px-2 py-1.5 bg-slate-50 ring-1 ring-slate-200 rounded-lg text-xs text-slate-600 cursor-pointer"
+          title="طريقة التصنيف"
+        >
+          {CLASS_METHODS.map(({ method, label }) => (
+            <option key={method} value={method}>{label}</option>
+          ))}
+        </select>
+      )}
+
+      {showClasses && (
+        <div className="space-y-1.5">
+          <div className="text-xs font-black text-slate-700">{CLASSES_OVERLAY}</div>
+          <ClassRows breaks={breaks} min={min} />
+        </div>
+      )}
+
+      {showDistricts && (
+        <div className="space-y-1.5">
+          <div className="text-xs font-black text-slate-700">الناخبين حسب المنطقة</div>
+          <ClassRows breaks={districtBreaks} min={Math.min(...usedDistricts.map(d => d.total))} />
+        </div>
+      )}
+
+      {activeOverlays.includes(CIRCLES_OVERLAY) && (
+        <div className="space-y-1.5">
+          <div className="text-xs font-black text-slate-700">{CIRCLES_OVERLAY}</div>
+          <div className="flex items-end gap-3">
+            {[max, Math.round(max / 4), Math.round(max / 16)].filter(v => v > 0).map(value => (
+              <div key={value} className="flex flex-col items-center gap-1">
+                <span
+                  className="rounded-full bg-emerald-500/35 border border-emerald-700"
+                  style={{ width: circleRadius(value, max) * 2, height: circleRadius(value, max) * 2 }}
+                />
+                <span className="text-[10px] text-slate-500">{value.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {activeOverlays.includes(HEATMAP_OVERLAY) && (
+        <div className="space-y-1.5">
+          <div className="text-xs font-black text-slate-700">{HEATMAP_OVERLAY}</div>
+          <div className="h-2 rounded-full" style={{ background: HEAT_CSS_GRADIENT }} />
+          <div className="flex justify-between text-[10px] text-slate-400">
+            <span>أقل</span>
+            <span>أكثر كثافة</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Turnout, getTurnoutColor } from '../services/turnoutService';
+
+interface TurnoutBarProps {
+    turnout: Turnout;
+    // Dark variant for the map tooltip
+    variant?: 'light' | 'dark';
+    showLabel?: boolean;
+    className?: string;
+}
+
+// "voted / expected" with a bar colored by the same turnout levels as the markers
+export const TurnoutBar: React.FC<TurnoutBarProps> = ({ turnout, variant = 'light', showLabel = true, className = '' }) => {
+    const track = variant === 'dark' ? 'bg-white/15' : 'bg-slate-100';
+    const text = variant === 'dark' ? 'text-slate-300' : 'text-slate-400';
+
+    return (
+        <div className={`w-full ${className}`}>
+            {showLabel && (
+                <div className={`flex justify-between items-center text-[10px] font-bold mb-1 ${text}`}>
+                    <span>
+                        صوّت <span dir="ltr">{turnout.voted.toLocaleString()} / {turnout.expected.toLocaleString()}</span>
+                    </span>
+                    <span>{turnout.ratio === null ? '—' : `${Math.round(turnout.ratio * 100)}%`}</span>
+                </div>
+            )}
+            <div className={`h-1.5 w-full rounded-full overflow-hidden ${track}`}>
+                <div
+                    className="h-full rounded-full transition-all"
+                    style={{ width: `${Math.min(turnout.ratio ?? 0, 1) * 100}%`, backgroundColor: getTurnoutColor(turnout.ratio) }}
+                />
+            </div>
+        </div>
+    );
+};
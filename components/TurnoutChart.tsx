@@ -0,0 +1,57 @@
+import React from 'react';
+
+interface TurnoutChartProps {
+    series: { at: number; count: number }[];
+    // Drawn as a dashed line when known
+    expected: number;
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD = { top: 10, right: 10, bottom: 22, left: 34 };
+
+const hourLabel = (at: number) => new Date(at).toLocaleTimeString('ar-IQ', { hour: 'numeric' });
+
+// Cumulative turnout by hour as a small SVG line chart
+export const TurnoutChart: React.FC<TurnoutChartProps> = ({ series, expected }) => {
+    if (series.length === 0) {
+        return <p className="text-sm text-slate-400 text-center py-8">لا توجد بيانات اقتراع بعد</p>;
+    }
+
+    const maxY = Math.max(expected, ...series.map(s => s.count), 1);
+    const innerW = WIDTH - PAD.left - PAD.right;
+    const innerH = HEIGHT - PAD.top - PAD.bottom;
+    const x = (i: number) => PAD.left + (series.length === 1 ? innerW / 2 : (i / (series.length - 1)) * innerW);
+    const y = (count: number) => PAD.top + innerH - (count / maxY) * innerH;
+
+    const line = series.map((s, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(s.count)}`).join(' ');
+    const area = `${line} L${x(series.length - 1)},${y(0)} L${x(0)},${y(0)} Z`;
+    // Label every hour up to ~6 labels
+    const labelStep = Math.ceil(series.length / 6);
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" dir="ltr">
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} className="stroke-slate-200" />
+            {expected > 0 && (
+                <>
+                    <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(expected)} y2={y(expected)} className="stroke-slate-300" strokeDasharray="4 3" />
+                    <text x={PAD.left - 4} y={y(expected) + 3} textAnchor="end" className="fill-slate-400 text-[9px]">{expected.toLocaleString()}</text>
+                </>
+            )}
+            <text x={PAD.left - 4} y={y(0) + 3} textAnchor="end" className="fill-slate-400 text-[9px]">0</text>
+
+            <path d={area} className="fill-emerald-500/10" />
+            <path d={line} className="stroke-emerald-500 fill-none" strokeWidth={2} strokeLinejoin="round" />
+            {series.map((s, i) => (
+                <g key={s.at}>
+                    <circle cx={x(i)} cy={y(s.count)} r={3} className="fill-white stroke-emerald-500" strokeWidth={1.5}>
+                        <title>{`${hourLabel(s.at)}: ${s.count.toLocaleString()}`}</title>
+                    </circle>
+                    {i % labelStep === 0 && (
+                        <text x={x(i)} y={HEIGHT - 6} textAnchor="middle" className="fill-slate-400 text-[9px]">{hourLabel(s.at)}</text>
+                    )}
+                </g>
+            ))}
+        </svg>
+    );
+};
@@ -0,0 +1,49 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Undo2, X } from 'lucide-react';
+
+const TOAST_DURATION_MS = 6000;
+
+interface UndoToastProps {
+    // Null hides the toast; a new object restarts the timer
+    toast: { label: string } | null;
+    onUndo: () => void;
+    onDismiss: () => void;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ toast, onUndo, onDismiss }) => {
+    useEffect(() => {
+        if (!toast) return;
+        const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+        return () => clearTimeout(timer);
+    }, [toast]);
+
+    return (
+        <AnimatePresence>
+            {toast && (
+                <motion.div
+                    initial={{ opacity: 0, y: 40 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 40 }}
+                    className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[1300] bg-slate-900 text-white rounded-2xl shadow-2xl ring-1 ring-white/10 flex items-center gap-4 pl-2 pr-5 py-2 text-sm"
+                    dir="rtl"
+                >
+                    <span className="font-medium">تم {toast.label}</span>
+                    <button
+                        onClick={onUndo}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/20 font-bold text-emerald-300 transition-colors"
+                    >
+                        <Undo2 className="w-4 h-4" />
+                        تراجع
+                    </button>
+                    <button
+                        onClick={onDismiss}
+                        className="p-1.5 text-slate-400 hover:text-white rounded-full transition-colors"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
@@ -0,0 +1,89 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Marker, Polyline, Tooltip, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Printer, Route, X } from 'lucide-react';
+import { LocationPoint, Volunteer } from '../types';
+import { formatDistance, planRoute } from '../services/routeService';
+import { printVolunteerRoute } from '../services/printService';
+
+const createStopIcon = (index: number) => L.divIcon({
+  className: '',
+  html: `<div class="w-6 h-6 rounded-full bg-indigo-600 ring-2 ring-white shadow-md text-white text-[11px] font-black flex items-center justify-center">${index + 1}</div>`,
+  iconSize: [24, 24],
+  // Sits above-left of the school marker so both stay visible
+  iconAnchor: [30, 48],
+});
+
+interface VolunteerRouteLayerProps {
+  volunteer: Volunteer;
+  points: LocationPoint[];
+  onClose: () => void;
+}
+
+// A volunteer's visiting route as a numbered line, with a summary bar to print or hide it
+export const VolunteerRouteLayer: React.FC<VolunteerRouteLayerProps> = ({ volunteer, points, onClose }) => {
+  const map = useMap();
+  const barRef = useRef<HTMLDivElement>(null);
+  const route = useMemo(() => planRoute(points), [points]);
+  const icons = useMemo(() => route.stops.map((_, i) => createStopIcon(i)), [route]);
+
+  // Frame the route once when it is opened, not on every edit to its schools
+  useEffect(() => {
+    if (route.stops.length === 0) return;
+    map.fitBounds(L.latLngBounds(route.stops.map(p => [p.lat, p.lng] as [number, number])), { padding: [80, 80], maxZoom: 15 });
+  }, [map, volunteer.id]);
+
+  useEffect(() => {
+    if (barRef.current) {
+      L.DomEvent.disableClickPropagation(barRef.current);
+      L.DomEvent.disableScrollPropagation(barRef.current);
+    }
+  });
+
+  return (
+    <>
+      <Polyline
+        positions={route.stops.map(p => [p.lat, p.lng] as [number, number])}
+        pathOptions={{ color: '#4f46e5', weight: 4, opacity: 0.8, dashArray: '10 8' }}
+        interactive={false}
+      />
+      {route.stops.map((p, i) => (
+        <Marker key={p.id} position={[p.lat, p.lng]} icon={icons[i]} zIndexOffset={1000}>
+          <Tooltip direction="top">
+            <div dir="rtl" className="text-xs">
+              {i + 1}. {p.name}
+              {i > 0 && <span className="text-slate-400"> • {formatDistance(route.legs[i])} من السابقة</span>}
+            </div>
+          </Tooltip>
+        </Marker>
+      ))}
+
+      <div
+        ref={barRef}
+        dir="rtl"
+        className="absolute bottom-8 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-3 bg-white/95 backdrop-blur-md rounded-2xl shadow-xl ring-1 ring-slate-900/5 pr-4 pl-2 py-2 font-sans"
+      >
+        <Route className="w-4 h-4 text-indigo-600 shrink-0" />
+        <div className="text-xs whitespace-nowrap">
+          <span className="font-black text-slate-800">مسار {volunteer.name}</span>
+          <span className="text-slate-500"> • {route.stops.length} مدرسة • {formatDistance(route.distance)}</span>
+        </div>
+        <button
+          onClick={() => printVolunteerRoute(volunteer, route)}
+          disabled={route.stops.length === 0}
+          className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-40 rounded-xl transition-colors"
+          title="طباعة المسار"
+        >
+          <Printer className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onClose}
+          className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-xl transition-colors"
+          title="إخفاء المسار"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,390 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, HeartHandshake, Plus, Pencil, Trash2, ArrowRight, Phone, Route, Printer, Users, Search, Check } from 'lucide-react';
+import { LocationPoint, Volunteer, VolunteerRole } from '../types';
+import { VOLUNTEER_ROLES, getVolunteerPoints } from '../services/volunteerService';
+import { normalizeIraqiPhone } from '../services/voterService';
+import { getEnteredCount, getVoterTotal } from '../services/coverageService';
+import { getPointsContactStats } from '../services/contactService';
+import { formatDistance, planRoute } from '../services/routeService';
+import { printVolunteerRoute } from '../services/printService';
+import { normalizeArabic } from '../services/textService';
+import { ContactStatsSummary } from './ContactStatsSummary';
+
+interface VolunteersModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    volunteers: Volunteer[];
+    points: LocationPoint[];
+    onVolunteersChange: (volunteers: Volunteer[]) => void;
+    onDeleteVolunteer: (volunteer: Volunteer) => void;
+    onToggleAssignment: (pointId: string, volunteerId: string) => void;
+    onShowRoute: (volunteerId: string) => void;
+    onOpenVoters: (pointId: string) => void;
+}
+
+interface VolunteerDraft {
+    id?: string;
+    name: string;
+    phone: string;
+    role: VolunteerRole;
+}
+
+const EMPTY_DRAFT: VolunteerDraft = { name: '', phone: '', role: 'canvasser' };
+
+/**
+ * The volunteers list, and for each volunteer the schools they are assigned
+ * to with a suggested visiting order.
+ */
+export const VolunteersModal: React.FC<VolunteersModalProps> = ({
+    isOpen,
+    onClose,
+    volunteers,
+    points,
+    onVolunteersChange,
+    onDeleteVolunteer,
+    onToggleAssignment,
+    onShowRoute,
+    onOpenVoters,
+}) => {
+    const [draft, setDraft] = useState<VolunteerDraft>(EMPTY_DRAFT);
+    const [error, setError] = useState<string | null>(null);
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [schoolQuery, setSchoolQuery] = useState('');
+
+    const active = volunteers.find(v => v.id === activeId);
+    const assigned = useMemo(() => (active ? getVolunteerPoints(points, active.id) : []), [points, active]);
+    const route = useMemo(() => planRoute(assigned), [assigned]);
+
+    const assignablePoints = useMemo(() => {
+        if (!active) return [];
+        const query = normalizeArabic(schoolQuery.trim());
+        return points
+            .filter(p => !p.volunteerIds?.includes(active.id))
+            .filter(p => !query || normalizeArabic(`${p.name} ${p.district}`).includes(query))
+            .sort((a, b) => a.name.localeCompare(b.name, 'ar'))
+            .slice(0, 50);
+    }, [points, active, schoolQuery]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = draft.name.trim();
+        if (!name) return;
+        const phone = draft.phone.trim() ? normalizeIraqiPhone(draft.phone) : '';
+        if (phone === null) {
+            setError('رقم الهاتف غير صالح. مثال: 07701234567');
+            return;
+        }
+
+        if (draft.id) {
+            onVolunteersChange(volunteers.map(v => v.id === draft.id ? { ...v, name, phone, role: draft.role } : v));
+        } else {
+            onVolunteersChange([...volunteers, { id: crypto.randomUUID(), name, phone, role: draft.role, createdAt: Date.now() }]);
+        }
+        setDraft(EMPTY_DRAFT);
+        setError(null);
+    };
+
+    const handleClose = () => {
+        setActiveId(null);
+        setDraft(EMPTY_DRAFT);
+        setError(null);
+        onClose();
+    };
+
+    const renderList = () => (
+        <>
+            <form onSubmit={handleSubmit} className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    <input
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        placeholder="اسم المتطوع"
+                        className="px-3 py-2 bg-slate-50 ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-rose-500/30 outline-none"
+                    />
+                    <input
+                        value={draft.phone}
+                        onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                        placeholder="رقم الهاتف"
+                        dir="ltr"
+                        className="px-3 py-2 bg-slate-50 ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 text-right focus:ring-2 focus:ring-rose-500/30 outline-none"
+                    />
+                    <select
+                        value={draft.role}
+                        onChange={(e) => setDraft({ ...draft, role: e.target.value as VolunteerRole })}
+                        className="px-3 py-2 bg-slate-50 ring-1 ring-slate-200 rounded-lg text-sm text-slate-600 cursor-pointer"
+                    >
+                        {Object.entries(VOLUNTEER_ROLES).map(([role, label]) => (
+                            <option key={role} value={role}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+                {error && <p className="text-xs font-bold text-rose-600">{error}</p>}
+                <div className="flex gap-2">
+                    <button
+                        type="submit"
+                        disabled={!draft.name.trim()}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-rose-600 hover:bg-rose-700 disabled:opacity-40 text-white text-sm font-bold"
+                    >
+                        {draft.id ? <Check className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                        {draft.id ? 'حفظ التعديل' : 'إضافة متطوع'}
+                    </button>
+                    {draft.id && (
+                        <button
+                            type="button"
+                            onClick={() => { setDraft(EMPTY_DRAFT); setError(null); }}
+                            className="px-4 py-2 rounded-xl bg-slate-100 hover:bg-slate-200 text-slate-600 text-sm font-bold"
+                        >
+                            إلغاء
+                        </button>
+                    )}
+                </div>
+            </form>
+
+            {volunteers.length === 0 ? (
+                <p className="text-sm text-slate-400 text-center py-8">لم تتم إضافة متطوعين بعد</p>
+            ) : (
+                <div className="space-y-2">
+                    {volunteers.map(volunteer => {
+                        const volunteerPoints = getVolunteerPoints(points, volunteer.id);
+                        return (
+                            <div
+                                key={volunteer.id}
+                                onClick={() => setActiveId(volunteer.id)}
+                                className="group flex items-center gap-3 bg-white p-3 rounded-xl border border-slate-100 shadow-sm hover:border-rose-200 cursor-pointer transition-colors"
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-bold text-slate-700 text-sm truncate">{volunteer.name}</span>
+                                        <span className="px-2 py-0.5 rounded-md bg-rose-50 text-rose-600 text-[10px] font-bold whitespace-nowrap">
+                                            {VOLUNTEER_ROLES[volunteer.role]}
+                                        </span>
+                                    </div>
+                                    <div className="text-[11px] text-slate-400 mt-0.5 flex items-center gap-3">
+                                        {volunteer.phone && (
+                                            <span className="flex items-center gap-1" dir="ltr">
+                                                <Phone className="w-3 h-3" />
+                                                {volunteer.phone}
+                                            </span>
+                                        )}
+                                        <span>
+                                            {volunteerPoints.length} مدرسة •{' '}
+                                            {volunteerPoints.reduce((sum, p) => sum + getVoterTotal(p), 0).toLocaleString()} ناخب
+                                        </span>
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setDraft({ id: volunteer.id, name: volunteer.name, phone: volunteer.phone, role: volunteer.role });
+                                        setError(null);
+                                    }}
+                                    className="p-2 text-slate-300 hover:text-amber-500 hover:bg-amber-50 rounded-lg transition-colors"
+                                    title="تعديل"
+                                >
+                                    <Pencil className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onDeleteVolunteer(volunteer);
+                                    }}
+                                    className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                                    title="حذف"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </>
+    );
+
+    const renderVolunteer = (volunteer: Volunteer) => (
+        <>
+            <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 space-y-3">
+                <div className="grid grid-cols-3 gap-2 text-center">
+                    {[
+                        ['المدارس', assigned.length],
+                        ['عدد الناخبين', assigned.reduce((sum, p) => sum + getVoterTotal(p), 0)],
+                        ['الأسماء المدخلة', assigned.reduce((sum, p) => sum + getEnteredCount(p), 0)],
+                    ].map(([label, value]) => (
+                        <div key={label} className="bg-slate-50 rounded-xl py-2">
+                            <div className="text-lg font-black text-slate-800">{value.toLocaleString()}</div>
+                            <div className="text-[11px] text-slate-400 font-bold">{label}</div>
+                        </div>
+                    ))}
+                </div>
+                <ContactStatsSummary stats={getPointsContactStats(assigned)} className="justify-center" />
+            </section>
+
+            {/* Visiting order */}
+            <section className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-black text-slate-800 flex items-center gap-2">
+                        <Route className="w-4 h-4 text-rose-500" />
+                        ترتيب الزيارات
+                        {assigned.length > 1 && <span className="text-xs font-bold text-slate-400">({formatDistance(route.distance)} تقريباً)</span>}
+                    </h3>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => {
+                                onShowRoute(volunteer.id);
+                                handleClose();
+                            }}
+                            disabled={assigned.length === 0}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-rose-50 hover:bg-rose-100 disabled:opacity-40 text-rose-700 text-xs font-bold"
+                        >
+                            <Route className="w-3.5 h-3.5" />
+                            عرض على الخريطة
+                        </button>
+                        <button
+                            onClick={() => printVolunteerRoute(volunteer, route)}
+                            disabled={assigned.length === 0}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-900 disabled:opacity-40 text-white text-xs font-bold"
+                        >
+                            <Printer className="w-3.5 h-3.5" />
+                            طباعة
+                        </button>
+                    </div>
+                </div>
+                {route.stops.length === 0 ? (
+                    <p className="text-sm text-slate-400 text-center py-4">لم يتم تكليف هذا المتطوع بأي مدرسة</p>
+                ) : (
+                    route.stops.map((point, i) => (
+                        <div key={point.id} className="flex items-center gap-3 bg-white p-3 rounded-xl border border-slate-100 shadow-sm">
+                            <span className="w-7 h-7 shrink-0 rounded-full bg-rose-600 text-white text-xs font-black flex items-center justify-center">{i + 1}</span>
+                            <div className="flex-1 min-w-0">
+                                <div className="font-bold text-slate-700 text-sm truncate">{point.name}</div>
+                                <div className="text-[11px] text-slate-400">
+                                    {point.district || '—'} • {getVoterTotal(point).toLocaleString()} ناخب
+                                    {i > 0 && ` • ${formatDistance(route.legs[i])} من السابقة`}
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => onOpenVoters(point.id)}
+                                className="p-2 text-slate-300 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors"
+                                title="سجل الناخبين"
+                            >
+                                <Users className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => onToggleAssignment(point.id, volunteer.id)}
+                                className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                                title="إلغاء التكليف"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))
+                )}
+            </section>
+
+            {/* Assign more schools */}
+            <section className="space-y-2">
+                <h3 className="font-black text-slate-800">تكليف بمدارس أخرى</h3>
+                <div className="relative">
+                    <Search className="w-4 h-4 text-slate-400 absolute right-3 top-1/2 -translate-y-1/2" />
+                    <input
+                        value={schoolQuery}
+                        onChange={(e) => setSchoolQuery(e.target.value)}
+                        placeholder="ابحث باسم المدرسة أو المنطقة"
+                        className="w-full pr-9 pl-3 py-2 bg-white ring-1 ring-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-rose-500/30 outline-none"
+                    />
+                </div>
+                {assignablePoints.map(point => (
+                    <button
+                        key={point.id}
+                        onClick={() => onToggleAssignment(point.id, volunteer.id)}
+                        className="w-full flex items-center gap-3 bg-white p-2.5 rounded-xl border border-slate-100 hover:border-rose-200 text-right transition-colors"
+                    >
+                        <Plus className="w-4 h-4 text-rose-500 shrink-0" />
+                        <span className="flex-1 min-w-0 text-sm font-bold text-slate-700 truncate">{point.name}</span>
+                        <span className="text-[11px] text-slate-400 whitespace-nowrap">
+                            {point.district || '—'}
+                            {point.volunteerIds?.length ? ` • ${point.volunteerIds.length} متطوع` : ''}
+                        </span>
+                    </button>
+                ))}
+            </section>
+        </>
+    );
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={handleClose}
+                        className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[1100] transition-opacity"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        className="fixed inset-0 z-[1110] flex items-center justify-center p-4 sm:p-6 pointer-events-none"
+                    >
+                        <div
+                            className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col pointer-events-auto overflow-hidden ring-1 ring-slate-900/5"
+                            dir="rtl"
+                        >
+                            {/* Header */}
+                            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                                <div className="flex items-center gap-2">
+                                    {active && (
+                                        <button
+                                            onClick={() => setActiveId(null)}
+                                            className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-full transition-colors"
+                                            title="رجوع"
+                                        >
+                                            <ArrowRight className="w-5 h-5" />
+                                        </button>
+                                    )}
+                                    <div>
+                                        <h2 className="text-xl font-black text-slate-800 flex items-center gap-2">
+                                            <div className="bg-rose-100 p-2 rounded-xl text-rose-600">
+                                                <HeartHandshake className="w-5 h-5" />
+                                            </div>
+                                            {active ? active.name : 'المتطوعون'}
+                                        </h2>
+                                        <p className="text-sm text-slate-500 mt-1 font-medium pr-1">
+                                            {active ? (
+                                                <>
+                                                    {VOLUNTEER_ROLES[active.role]}
+                                                    {active.phone && <> • <span dir="ltr">{active.phone}</span></>}
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <span className="text-rose-600 font-bold">{volunteers.length}</span> متطوع •{' '}
+                                                    <span className="text-rose-600 font-bold">{points.filter(p => p.volunteerIds?.length).length}</span> مدرسة مكلف بها
+                                                </>
+                                            )}
+                                        </p>
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={handleClose}
+                                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                >
+                                    <X className="w-6 h-6" />
+                                </button>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-6 bg-slate-50/50">
+                                {active ? renderVolunteer(active) : renderList()}
+                            </div>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
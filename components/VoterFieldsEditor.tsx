@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CustomFieldDefinition, CustomFieldType } from '../types';
+import { CUSTOM_FIELD_TYPE_LABELS } from '../services/voterService';
+
+interface VoterFieldsEditorProps {
+    fields: CustomFieldDefinition[];
+    onChange: (fields: CustomFieldDefinition[]) => void;
+}
+
+/**
+ * Project-level custom voter fields. Removing a field hides it from the form
+ * but keeps the values already entered on voters.
+ */
+export const VoterFieldsEditor: React.FC<VoterFieldsEditorProps> = ({ fields, onChange }) => {
+    const [newLabel, setNewLabel] = useState('');
+
+    const updateField = (id: string, changes: Partial<CustomFieldDefinition>) =>
+        onChange(fields.map(f => (f.id === id ? { ...f, ...changes } : f)));
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newLabel.trim()) return;
+        onChange([...fields, { id: crypto.randomUUID(), label: newLabel.trim(), type: 'text' }]);
+        setNewLabel('');
+    };
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-slate-400">حقول إضافية تظهر في نموذج كل ناخب ضمن هذا المشروع.</p>
+
+            {fields.length === 0 && (
+                <p className="text-sm text-slate-400 text-center py-6">لا توجد حقول مخصصة بعد</p>
+            )}
+
+            {fields.map(field => (
+                <div key={field.id} className="bg-white p-3 rounded-xl border border-slate-100 shadow-sm space-y-2">
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={field.label}
+                            onChange={(e) => updateField(field.id, { label: e.target.value })}
+                            className="flex-1 px-3 py-2 bg-slate-50 border-0 ring-1 ring-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500/20 text-sm font-bold text-slate-700"
+                        />
+                        <select
+                            value={field.type}
+                            onChange={(e) => updateField(field.id, { type: e.target.value as CustomFieldType })}
+                            className="px-3 py-2 bg-slate-50 border-0 ring-1 ring-slate-200 rounded-lg text-sm text-slate-600 cursor-pointer"
+                        >
+                            {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+                                <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => onChange(fields.filter(f => f.id !== field.id))}
+                            className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                            title="حذف الحقل"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                    {field.type === 'select' && (
+                        <input
+                            type="text"
+                            defaultValue={(field.options || []).join('، ')}
+                            onBlur={(e) => updateField(field.id, {
+                                options: Array.from(new Set(e.target.value.split(/[,،]/).map(o => o.trim()).filter(Boolean)))
+                            })}
+                            placeholder="الخيارات مفصولة بفواصل"
+                            className="w-full px-3 py-2 bg-slate-50 border-0 ring-1 ring-slate-200 rounded-lg focus:ring-2 focus:ring-emerald-500/20 text-sm text-slate-600"
+                        />
+                    )}
+                    <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer w-fit">
+                        <input
+                            type="checkbox"
+                            checked={!!field.required}
+                            onChange={(e) => updateField(field.id, { required: e.target.checked || undefined })}
+                            className="w-4 h-4 rounded text-emerald-600"
+                        />
+                        حقل إلزامي
+                    </label>
+                </div>
+            ))}
+
+            <form onSubmit={handleAdd} className="flex gap-2">
+                <input
+                    type="text"
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value)}
+                    placeholder="اسم الحقل الجديد، مثال: العشيرة"
+                    className="flex-1 px-4 py-2.5 bg-white border-0 ring-1 ring-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 text-sm"
+                />
+                <button
+                    type="submit"
+                    disabled={!newLabel.trim()}
+                    className="px-4 rounded-xl bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white text-sm font-bold flex items-center gap-1.5"
+                >
+                    <Plus className="w-4 h-4" />
+                    إضافة حقل
+                </button>
+            </form>
+        </div>
+    );
+};
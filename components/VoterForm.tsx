@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { UserPlus, Check, ChevronDown, AlertTriangle } from 'lucide-react';
+import { CustomFieldDefinition, Gender, Voter } from '../types';
+import { DUPLICATE_REASON_LABELS, DuplicateMatch } from '../services/duplicateService';
+import {
+    GENDER_LABELS,
+    VoterDraft,
+    VoterErrors,
+    cleanVoterDraft,
+    customFieldKey,
+    emptyVoterDraft,
+    getAge,
+    parseTags,
+    toVoterDraft,
+    toWesternDigits,
+    validateVoterDraft
+} from '../services/voterService';
+
+interface VoterFormProps {
+    fields: CustomFieldDefinition[];
+    // Voter being edited; omitted for the add form
+    voter?: Voter;
+    onSubmit: (draft: VoterDraft) => void;
+    onCancel?: () => void;
+    nameInputRef?: React.RefObject<HTMLInputElement>;
+    // Possible duplicates of the draft elsewhere in the project; saving them needs a second confirmation
+    findDuplicates?: (draft: VoterDraft) => DuplicateMatch[];
+}
+
+const inputClass = (error?: string) =>
+    `w-full px-4 py-2.5 bg-slate-50 border-0 ring-1 rounded-xl focus:ring-2 focus:bg-white transition-all text-slate-700 font-medium text-sm ${error ? 'ring-rose-300 focus:ring-rose-500/20' : 'ring-slate-200 focus:ring-emerald-500/20'}`;
+
+const FieldError: React.FC<{ error?: string }> = ({ error }) =>
+    error ? <p className="text-[11px] text-rose-500 font-medium mt-1">{error}</p> : null;
+
+// Values below this in the age/birth-year input are read as an age
+const MAX_TYPED_AGE = 130;
+
+export const VoterForm: React.FC<VoterFormProps> = ({ fields, voter, onSubmit, onCancel, nameInputRef, findDuplicates }) => {
+    const [draft, setDraft] = useState<VoterDraft>(() => (voter ? toVoterDraft(voter) : emptyVoterDraft()));
+    const [tagsText, setTagsText] = useState(voter?.tags?.join('، ') || '');
+    const [birthText, setBirthText] = useState(voter?.birthYear ? String(voter.birthYear) : '');
+    const [showDetails, setShowDetails] = useState(!!voter);
+    // Errors show up after the first submit attempt, then update as the user types
+    const [submitted, setSubmitted] = useState(false);
+    // Matches the user has been warned about for the current name/phone
+    const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+
+    useEffect(() => {
+        setDraft(voter ? toVoterDraft(voter) : emptyVoterDraft());
+        setTagsText(voter?.tags?.join('، ') || '');
+        setBirthText(voter?.birthYear ? String(voter.birthYear) : '');
+        setShowDetails(!!voter);
+        setSubmitted(false);
+        setDuplicates([]);
+    }, [voter?.id]);
+
+    useEffect(() => setDuplicates([]), [draft.fullName, draft.phoneNumber]);
+
+    const parseBirthYear = (text: string) => {
+        const value = Number(toWesternDigits(text.trim()));
+        if (!text.trim() || !Number.isFinite(value)) return undefined;
+        return value > 0 && value < MAX_TYPED_AGE ? new Date().getFullYear() - value : value;
+    };
+
+    const current: VoterDraft = { ...draft, tags: parseTags(tagsText), birthYear: parseBirthYear(birthText) };
+    const errors: VoterErrors = submitted ? validateVoterDraft(current, fields) : {};
+    const hasDetailErrors = Object.keys(errors).some(key => key !== 'fullName' && key !== 'phoneNumber');
+    const age = getAge(current);
+
+    const update = (changes: Partial<VoterDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+    const updateCustom = (id: string, value: string) =>
+        setDraft(prev => ({ ...prev, customFields: { ...prev.customFields, [id]: value } }));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitted(true);
+        const validation = validateVoterDraft(current, fields);
+        if (Object.keys(validation).length > 0) {
+            if (Object.keys(validation).some(key => key !== 'fullName' && key !== 'phoneNumber')) setShowDetails(true);
+            return;
+        }
+        const cleaned = cleanVoterDraft(current, fields);
+        if (duplicates.length === 0 && findDuplicates) {
+            const matches = findDuplicates(cleaned);
+            if (matches.length > 0) {
+                setDuplicates(matches);
+                return;
+            }
+        }
+
+        onSubmit(cleaned);
+        setDuplicates([]);
+        if (!voter) {
+            setDraft(emptyVoterDraft());
+            setTagsText('');
+            setBirthText('');
+            setSubmitted(false);
+            nameInputRef?.current?.focus();
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            {duplicates.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 text-xs text-amber-800 space-y-2">
+                    <div className="flex items-center gap-2 font-bold">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        قد يكون هذا الناخب مسجلاً مسبقاً:
+                    </div>
+                    <ul className="space-y-1 max-h-24 overflow-y-auto custom-scrollbar">
+                        {duplicates.map(match => (
+                            <li key={match.voter.id} className="flex flex-wrap items-center gap-x-2">
+                                <span className="font-bold">{match.voter.fullName}</span>
+                                {match.voter.phoneNumber && <span className="font-mono" dir="ltr">{match.voter.phoneNumber}</span>}
+                                <span className="text-amber-600">• {match.schoolName}</span>
+                                <span className="text-amber-500">({match.reasons.map(r => DUPLICATE_REASON_LABELS[r]).join('، ')})</span>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex gap-2">
+                        <button type="submit" className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold">
+                            حفظ على أي حال
+                        </button>
+                        <button type="button" onClick={() => setDuplicates([])} className="px-3 py-1.5 rounded-lg bg-white hover:bg-amber-100 font-bold">
+                            مراجعة
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex gap-3">
+                <div className="flex-1 flex gap-2">
+                    <div className="flex-1">
+                        <input
+                            ref={nameInputRef}
+                            type="text"
+                            value={draft.fullName}
+                            onChange={(e) => update({ fullName: e.target.value })}
+                            placeholder="أدخل اسم الناخب..."
+                            className={inputClass(errors.fullName)}
+                        />
+                        <FieldError error={errors.fullName} />
+                    </div>
+                    <div className="w-1/3">
+                        <input
+                            type="tel"
+                            value={draft.phoneNumber}
+                            onChange={(e) => update({ phoneNumber: e.target.value })}
+                            placeholder="07XX XXX XXXX"
+                            className={`${inputClass(errors.phoneNumber)} font-mono text-right`}
+                            dir="ltr"
+                        />
+                        <FieldError error={errors.phoneNumber} />
+                    </div>
+                </div>
+                <button
+                    type="submit"
+                    disabled={!draft.fullName.trim()}
+                    className="self-start h-[42px] bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-5 rounded-xl font-bold flex items-center gap-2 transition-all shadow-lg shadow-emerald-500/20 active:scale-95 whitespace-nowrap text-sm"
+                >
+                    {voter ? <Check className="w-5 h-5" /> : <UserPlus className="w-5 h-5" />}
+                    <span>{voter ? 'حفظ' : 'إضافة'}</span>
+                </button>
+            </div>
+
+            <div className="flex items-center justify-between">
+                <button
+                    type="button"
+                    onClick={() => setShowDetails(!showDetails)}
+                    className={`flex items-center gap-1 text-xs font-bold transition-colors ${hasDetailErrors ? 'text-rose-500' : 'text-slate-400 hover:text-emerald-600'}`}
+                >
+                    <ChevronDown className={`w-4 h-4 transition-transform ${showDetails ? 'rotate-180' : ''}`} />
+                    {showDetails ? 'إخفاء التفاصيل' : 'تفاصيل إضافية'}
+                </button>
+                {onCancel && (
+                    <button type="button" onClick={onCancel} className="text-xs font-bold text-slate-400 hover:text-slate-600">
+                        إلغاء التعديل
+                    </button>
+                )}
+            </div>
+
+            <AnimatePresence initial={false}>
+                {showDetails && (
+                    <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: 'auto', opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        className="overflow-hidden"
+                    >
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 pt-1 max-h-[35vh] overflow-y-auto custom-scrollbar px-0.5 pb-1">
+                            <div>
+                                <label className="text-[11px] font-bold text-slate-500 mr-1">رقم الهوية / بطاقة الناخب</label>
+                                <input
+                                    type="text"
+                                    value={draft.nationalId || ''}
+                                    onChange={(e) => update({ nationalId: e.target.value })}
+                                    className={`${inputClass(errors.nationalId)} font-mono`}
+                                    dir="ltr"
+                                />
+                                <FieldError error={errors.nationalId} />
+                            </div>
+                            <div>
+                                <label className="text-[11px] font-bold text-slate-500 mr-1">الجنس</label>
+                                <select
+                                    value={draft.gender || ''}
+                                    onChange={(e) => update({ gender: (e.target.value || undefined) as Gender | undefined })}
+                                    className={`${inputClass()} cursor-pointer`}
+                                >
+                                    <option value="">—</option>
+                                    {(Object.keys(GENDER_LABELS) as Gender[]).map(g => (
+                                        <option key={g} value={g}>{GENDER_LABELS[g]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-[11px] font-bold text-slate-500 mr-1">
+                                    سنة الميلاد أو العمر
+                                    {age !== undefined && !errors.birthYear && <span className="text-slate-400 font-medium"> • {age} سنة</span>}
+                                </label>
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    value={birthText}
+                                    onChange={(e) => setBirthText(e.target.value)}
+                                    placeholder="1985 أو 40"
+                                    className={inputClass(errors.birthYear)}
+                                />
+                                <FieldError error={errors.birthYear} />
+                            </div>
+                            <div className="col-span-2 sm:col-span-3">
+                                <label className="text-[11px] font-bold text-slate-500 mr-1">العنوان</label>
+                                <input
+                                    type="text"
+                                    value={draft.address || ''}
+                                    onChange={(e) => update({ address: e.target.value })}
+                                    placeholder="المحلة، الزقاق، الدار..."
+                                    className={inputClass()}
+                                />
+                            </div>
+                            <div className="col-span-2 sm:col-span-3">
+                                <label className="text-[11px] font-bold text-slate-500 mr-1">الوسوم</label>
+                                <input
+                                    type="text"
+                                    value={tagsText}
+                                    onChange={(e) => setTagsText(e.target.value)}
+                                    placeholder="مفصولة بفواصل، مثال: شباب، متطوع"
+                                    className={inputClass()}
+                                />
+                            </div>
+                            {fields.map(field => {
+                                const key = customFieldKey(field);
+                                const value = draft.customFields?.[field.id] || '';
+                                return (
+                                    <div key={field.id}>
+                                        <label className="text-[11px] font-bold text-slate-500 mr-1">
+                                            {field.label}{field.required && <span className="text-rose-500"> *</span>}
+                                        </label>
+                                        {field.type === 'select' ? (
+                                            <select
+                                                value={value}
+                                                onChange={(e) => updateCustom(field.id, e.target.value)}
+                                                className={`${inputClass(errors[key])} cursor-pointer`}
+                                            >
+                                                <option value="">—</option>
+                                                {(field.options || []).map(option => (
+                                                    <option key={option} value={option}>{option}</option>
+                                                ))}
+                                            </select>
+                                        ) : (
+                                            <input
+                                                type="text"
+                                                inputMode={field.type === 'number' ? 'numeric' : undefined}
+                                                value={value}
+                                                onChange={(e) => updateCustom(field.id, e.target.value)}
+                                                className={inputClass(errors[key])}
+                                            />
+                                        )}
+                                        <FieldError error={errors[key]} />
+                                    </div>
+                                );
+                            })}
+                            <div className="col-span-2 sm:col-span-3">
+                                <label className="text-[11px] font-bold text-slate-500 mr-1">ملاحظات</label>
+                                <textarea
+                                    value={draft.notes || ''}
+                                    onChange={(e) => update({ notes: e.target.value })}
+                                    rows={2}
+                                    className={`${inputClass()} resize-none`}
+                                />
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </form>
+    );
+};
@@ -1,15 +1,30 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, UserPlus, Trash2, Users, Search } from 'lucide-react';
-import { Voter } from '../types';
+import { X, Trash2, Users, Search, Pencil, Settings2, ArrowRight } from 'lucide-react';
+import { CustomFieldDefinition, Voter, VoterStatus } from '../types';
+import { GENDER_LABELS, VoterDraft, getAge } from '../services/voterService';
+import { STATUS_INFO, VOTER_STATUSES, getContactStats, getVoterStatus } from '../services/contactService';
+import { DuplicateMatch, phoneKey } from '../services/duplicateService';
+import { nameKey } from '../services/textService';
+import { VoterForm } from './VoterForm';
+import { VoterFieldsEditor } from './VoterFieldsEditor';
+import { ContactPanel } from './ContactPanel';
 
 interface VoterManagerModalProps {
     isOpen: boolean;
     onClose: () => void;
     schoolName: string;
     voters: Voter[];
-    onAddVoter: (fullName: string, phoneNumber: string) => void;
+    voterFields: CustomFieldDefinition[];
+    onAddVoter: (draft: VoterDraft) => void;
+    onUpdateVoter: (voterId: string, draft: VoterDraft) => void;
     onDeleteVoter: (voterId: string) => void;
+    onVoterFieldsChange: (fields: CustomFieldDefinition[]) => void;
+    onLogContact: (voterId: string, status: VoterStatus, note: string) => void;
+    // Project-wide duplicate lookup, excluding the given voter
+    findDuplicates: (draft: VoterDraft, excludeVoterId?: string) => DuplicateMatch[];
+    // Voter picked from the map search, scrolled to and marked in the list
+    highlightVoterId?: string | null;
 }
 
 export const VoterManagerModal: React.FC<VoterManagerModalProps> = ({
@@ -17,34 +32,73 @@ export const VoterManagerModal: React.FC<VoterManagerModalProps> = ({
     onClose,
     schoolName,
     voters,
+    voterFields,
     onAddVoter,
-    onDeleteVoter
+    onUpdateVoter,
+    onDeleteVoter,
+    onVoterFieldsChange,
+    onLogContact,
+    findDuplicates,
+    highlightVoterId
 }) => {
-    const [newVoterName, setNewVoterName] = useState('');
-    const [newVoterPhone, setNewVoterPhone] = useState('');
     const [searchQuery, setSearchQuery] = useState('');
+    const [editingVoterId, setEditingVoterId] = useState<string | null>(null);
+    const [showFieldsEditor, setShowFieldsEditor] = useState(false);
+    const [statusFilter, setStatusFilter] = useState<VoterStatus | ''>('');
+    // Voter whose contact panel is expanded
+    const [contactVoterId, setContactVoterId] = useState<string | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
+    const highlightRef = useRef<HTMLDivElement>(null);
 
-    // Focus input when modal opens
+    const editingVoter = voters.find(v => v.id === editingVoterId);
+
+    // Focus input when modal opens; start each school in add mode
     useEffect(() => {
+        setEditingVoterId(null);
+        setShowFieldsEditor(false);
+        setStatusFilter('');
+        setContactVoterId(null);
+        setSearchQuery('');
         if (isOpen && inputRef.current) {
             setTimeout(() => inputRef.current?.focus(), 100);
         }
     }, [isOpen]);
 
-    const handleAdd = (e: React.FormEvent) => {
-        e.preventDefault();
-        if (newVoterName.trim()) {
-            onAddVoter(newVoterName.trim(), newVoterPhone.trim());
-            setNewVoterName('');
-            setNewVoterPhone('');
-            inputRef.current?.focus();
+    // Wait for the open animation before scrolling
+    useEffect(() => {
+        if (!isOpen || !highlightVoterId) return;
+        const timeoutId = setTimeout(() => highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' }), 300);
+        return () => clearTimeout(timeoutId);
+    }, [isOpen, highlightVoterId]);
+
+    const handleSubmit = (draft: VoterDraft) => {
+        if (editingVoter) {
+            onUpdateVoter(editingVoter.id, draft);
+            setEditingVoterId(null);
+        } else {
+            onAddVoter(draft);
         }
     };
 
-    const filteredVoters = voters.filter(v =>
-        v.fullName.toLowerCase().includes(searchQuery.toLowerCase())
-    );
+    // An edit only warns when the name or phone changed, not about a duplicate the voter already had
+    const checkDuplicates = (draft: VoterDraft) => {
+        if (editingVoter &&
+            nameKey(draft.fullName) === nameKey(editingVoter.fullName) &&
+            phoneKey(draft.phoneNumber) === phoneKey(editingVoter.phoneNumber)) {
+            return [];
+        }
+        return findDuplicates(draft, editingVoter?.id);
+    };
+
+    // Name, phone, ID card and tags are searchable
+    const query = searchQuery.trim().toLowerCase();
+    const filteredVoters = voters.filter(v => (!statusFilter || getVoterStatus(v) === statusFilter) && (!query ||
+        v.fullName.toLowerCase().includes(query) ||
+        v.phoneNumber.includes(query) ||
+        v.nationalId?.toLowerCase().includes(query) ||
+        v.tags?.some(tag => tag.toLowerCase().includes(query))
+    ));
+    const contactStats = getContactStats(voters);
 
     return (
         <AnimatePresence>
@@ -83,108 +137,173 @@ export const VoterManagerModal: React.FC<VoterManagerModalProps> = ({
                                         {schoolName} • <span className="text-emerald-600 font-bold">{voters.length}</span> ناخب مسجل
                                     </p>
                                 </div>
-                                <button
-                                    onClick={onClose}
-                                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
-                                >
-                                    <X className="w-6 h-6" />
-                                </button>
+                                <div className="flex items-center gap-1">
+                                    <button
+                                        onClick={() => setShowFieldsEditor(!showFieldsEditor)}
+                                        className={`p-2 rounded-full transition-colors ${showFieldsEditor ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-emerald-600 hover:bg-emerald-50'}`}
+                                        title="الحقول المخصصة"
+                                    >
+                                        <Settings2 className="w-5 h-5" />
+                                    </button>
+                                    <button
+                                        onClick={onClose}
+                                        className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full transition-colors"
+                                    >
+                                        <X className="w-6 h-6" />
+                                    </button>
+                                </div>
                             </div>
 
-                            {/* Search & List Area */}
-                            <div className="flex-1 overflow-hidden flex flex-col bg-slate-50/50">
-                                {/* Search Bar (Only show if there are voters) */}
-                                {voters.length > 5 && (
-                                    <div className="px-6 pt-4 pb-2">
-                                        <div className="relative">
-                                            <Search className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
-                                            <input
-                                                type="text"
-                                                placeholder="بحث عن اسم..."
-                                                value={searchQuery}
-                                                onChange={(e) => setSearchQuery(e.target.value)}
-                                                className="w-full pl-4 pr-10 py-2.5 rounded-xl border-none ring-1 ring-slate-200 focus:ring-2 focus:ring-emerald-500/20 bg-white text-sm"
-                                            />
-                                        </div>
-                                    </div>
-                                )}
-
-                                {/* Voters List */}
-                                <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-2">
-                                    {voters.length === 0 ? (
-                                        <div className="h-full flex flex-col items-center justify-center text-slate-400 opacity-60 min-h-[200px]">
-                                            <Users className="w-12 h-12 mb-3 stroke-1" />
-                                            <p className="font-medium">لا يوجد ناخبين مسجلين بعد</p>
-                                        </div>
-                                    ) : filteredVoters.length === 0 ? (
-                                        <div className="text-center py-8 text-slate-400">
-                                            لا توجد نتائج للبحث
-                                        </div>
-                                    ) : (
-                                        filteredVoters.map((voter) => (
-                                            <motion.div
-                                                layout
-                                                initial={{ opacity: 0, x: -20 }}
-                                                animate={{ opacity: 1, x: 0 }}
-                                                exit={{ opacity: 0, x: 20 }}
-                                                key={voter.id}
-                                                className="bg-white p-3 rounded-xl border border-slate-100 flex items-center justify-between group hover:border-emerald-200 transition-colors shadow-sm"
-                                            >
-                                                <div className="flex items-center gap-3">
-                                                    <div className="w-8 h-8 rounded-full bg-slate-100 flex items-center justify-center text-slate-500 font-bold text-xs">
-                                                        {voter.fullName.charAt(0)}
-                                                    </div>
-                                                    <div>
-                                                        <div className="font-bold text-slate-700">{voter.fullName}</div>
-                                                        {voter.phoneNumber && (
-                                                            <div className="text-xs text-slate-400 font-mono mt-0.5">{voter.phoneNumber}</div>
-                                                        )}
-                                                    </div>
+                            {showFieldsEditor ? (
+                                <div className="flex-1 overflow-y-auto p-6 custom-scrollbar bg-slate-50/50">
+                                    <button
+                                        onClick={() => setShowFieldsEditor(false)}
+                                        className="flex items-center gap-1.5 text-xs font-bold text-slate-400 hover:text-emerald-600 mb-4"
+                                    >
+                                        <ArrowRight className="w-4 h-4" />
+                                        العودة إلى السجل
+                                    </button>
+                                    <h3 className="font-black text-slate-800 mb-1">الحقول المخصصة</h3>
+                                    <VoterFieldsEditor fields={voterFields} onChange={onVoterFieldsChange} />
+                                </div>
+                            ) : (
+                                <>
+                                    {/* Search & List Area */}
+                                    <div className="flex-1 overflow-hidden flex flex-col bg-slate-50/50">
+                                        {/* Search Bar (Only show if there are voters) */}
+                                        {voters.length > 5 && (
+                                            <div className="px-6 pt-4 pb-2">
+                                                <div className="relative">
+                                                    <Search className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                                                    <input
+                                                        type="text"
+                                                        placeholder="بحث بالاسم أو الهاتف أو الهوية أو الوسم..."
+                                                        value={searchQuery}
+                                                        onChange={(e) => setSearchQuery(e.target.value)}
+                                                        className="w-full pl-4 pr-10 py-2.5 rounded-xl border-none ring-1 ring-slate-200 focus:ring-2 focus:ring-emerald-500/20 bg-white text-sm"
+                                                    />
                                                 </div>
+                                            </div>
+                                        )}
+
+                                        {/* Status Filter */}
+                                        {voters.length > 0 && (
+                                            <div className="px-6 pt-3 flex gap-1.5 overflow-x-auto custom-scrollbar">
                                                 <button
-                                                    onClick={() => onDeleteVoter(voter.id)}
-                                                    className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
-                                                    title="حذف"
+                                                    onClick={() => setStatusFilter('')}
+                                                    className={`px-2.5 py-1 rounded-lg text-xs font-bold whitespace-nowrap transition-colors ${!statusFilter ? 'bg-slate-800 text-white' : 'bg-white text-slate-500 ring-1 ring-slate-200 hover:bg-slate-50'}`}
                                                 >
-                                                    <Trash2 className="w-4 h-4" />
+                                                    الكل {voters.length}
                                                 </button>
-                                            </motion.div>
-                                        ))
-                                    )}
-                                </div>
-                            </div>
+                                                {VOTER_STATUSES.filter(s => contactStats.byStatus[s.status] > 0).map(s => (
+                                                    <button
+                                                        key={s.status}
+                                                        onClick={() => setStatusFilter(statusFilter === s.status ? '' : s.status)}
+                                                        className={`px-2.5 py-1 rounded-lg text-xs font-bold whitespace-nowrap transition-all ${statusFilter === s.status ? `${s.badge} ring-2 ring-current` : 'bg-white text-slate-500 ring-1 ring-slate-200 hover:bg-slate-50'}`}
+                                                    >
+                                                        {s.label} {contactStats.byStatus[s.status]}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
 
-                            {/* Footer - Add Form */}
-                            <div className="p-4 bg-white border-t border-slate-100 z-10">
-                                <form onSubmit={handleAdd} className="flex gap-3">
-                                    <div className="flex-1 flex gap-2">
-                                        <input
-                                            ref={inputRef}
-                                            type="text"
-                                            value={newVoterName}
-                                            onChange={(e) => setNewVoterName(e.target.value)}
-                                            placeholder="أدخل اسم الناخب..."
-                                            className="flex-1 px-4 py-3 bg-slate-50 border-0 ring-1 ring-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:bg-white transition-all text-slate-700 font-medium"
-                                        />
-                                        <input
-                                            type="text"
-                                            value={newVoterPhone}
-                                            onChange={(e) => setNewVoterPhone(e.target.value)}
-                                            placeholder="رقم الهاتف..."
-                                            className="w-1/3 px-4 py-3 bg-slate-50 border-0 ring-1 ring-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:bg-white transition-all text-slate-700 font-medium font-mono text-right"
-                                            dir="ltr"
+                                        {/* Voters List */}
+                                        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-2">
+                                            {voters.length === 0 ? (
+                                                <div className="h-full flex flex-col items-center justify-center text-slate-400 opacity-60 min-h-[200px]">
+                                                    <Users className="w-12 h-12 mb-3 stroke-1" />
+                                                    <p className="font-medium">لا يوجد ناخبين مسجلين بعد</p>
+                                                </div>
+                                            ) : filteredVoters.length === 0 ? (
+                                                <div className="text-center py-8 text-slate-400">
+                                                    لا توجد نتائج للبحث
+                                                </div>
+                                            ) : (
+                                                filteredVoters.map((voter) => (
+                                                    <motion.div
+                                                        layout
+                                                        initial={{ opacity: 0, x: -20 }}
+                                                        animate={{ opacity: 1, x: 0 }}
+                                                        exit={{ opacity: 0, x: 20 }}
+                                                        key={voter.id}
+                                                        ref={voter.id === highlightVoterId ? highlightRef : undefined}
+                                                        className={`bg-white p-3 rounded-xl border group transition-colors shadow-sm ${voter.id === editingVoterId ? 'border-amber-300 ring-2 ring-amber-100' : voter.id === highlightVoterId ? 'border-sky-300 ring-2 ring-sky-100' : 'border-slate-100 hover:border-emerald-200'}`}
+                                                    >
+                                                        <div className="flex items-center justify-between">
+                                                            <div className="flex items-center gap-3 min-w-0">
+                                                                <div className="w-8 h-8 shrink-0 rounded-full bg-slate-100 flex items-center justify-center text-slate-500 font-bold text-xs">
+                                                                    {voter.fullName.charAt(0)}
+                                                                </div>
+                                                                <div className="min-w-0">
+                                                                    <div className="flex items-center gap-2">
+                                                                        <span className="font-bold text-slate-700">{voter.fullName}</span>
+                                                                        <button
+                                                                            onClick={() => setContactVoterId(contactVoterId === voter.id ? null : voter.id)}
+                                                                            className={`px-1.5 py-0.5 rounded-md text-[10px] font-bold ${STATUS_INFO[getVoterStatus(voter)].badge}`}
+                                                                            title="تسجيل اتصال"
+                                                                        >
+                                                                            {STATUS_INFO[getVoterStatus(voter)].label}
+                                                                        </button>
+                                                                    </div>
+                                                                    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-slate-400 mt-0.5">
+                                                                        {voter.phoneNumber && <span className="font-mono" dir="ltr">{voter.phoneNumber}</span>}
+                                                                        {voter.gender && <span>{GENDER_LABELS[voter.gender]}</span>}
+                                                                        {getAge(voter) !== undefined && <span>{getAge(voter)} سنة</span>}
+                                                                        {voter.nationalId && <span className="font-mono">#{voter.nationalId}</span>}
+                                                                        {voter.tags?.map(tag => (
+                                                                            <span key={tag} className="px-1.5 py-0.5 rounded-md bg-emerald-50 text-emerald-700 text-[10px] font-bold">{tag}</span>
+                                                                        ))}
+                                                                    </div>
+                                                                </div>
+                                                            </div>
+                                                            <div className="flex shrink-0 opacity-0 group-hover:opacity-100 transition-all">
+                                                                <button
+                                                                    onClick={() => setEditingVoterId(voter.id)}
+                                                                    className="p-2 text-slate-300 hover:text-amber-500 hover:bg-amber-50 rounded-lg"
+                                                                    title="تعديل"
+                                                                >
+                                                                    <Pencil className="w-4 h-4" />
+                                                                </button>
+                                                                <button
+                                                                    onClick={() => {
+                                                                        if (voter.id === editingVoterId) setEditingVoterId(null);
+                                                                        onDeleteVoter(voter.id);
+                                                                    }}
+                                                                    className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg"
+                                                                    title="حذف"
+                                                                >
+                                                                    <Trash2 className="w-4 h-4" />
+                                                                </button>
+                                                            </div>
+                                                        </div>
+                                                        {contactVoterId === voter.id && (
+                                                            <ContactPanel
+                                                                voter={voter}
+                                                                onLogContact={(status, note) => onLogContact(voter.id, status, note)}
+                                                            />
+                                                        )}
+                                                    </motion.div>
+                                                ))
+                                            )}
+                                        </div>
+                                    </div>
+
+                                    {/* Footer - Add/Edit Form */}
+                                    <div className={`p-4 bg-white border-t z-10 ${editingVoter ? 'border-amber-200 bg-amber-50/30' : 'border-slate-100'}`}>
+                                        {editingVoter && (
+                                            <p className="text-xs font-bold text-amber-600 mb-2">تعديل: {editingVoter.fullName}</p>
+                                        )}
+                                        <VoterForm
+                                            fields={voterFields}
+                                            voter={editingVoter}
+                                            onSubmit={handleSubmit}
+                                            onCancel={editingVoter ? () => setEditingVoterId(null) : undefined}
+                                            nameInputRef={inputRef}
+                                            findDuplicates={checkDuplicates}
                                         />
                                     </div>
-                                    <button
-                                        type="submit"
-                                        disabled={!newVoterName.trim()}
-                                        className="bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 rounded-xl font-bold flex items-center gap-2 transition-all shadow-lg shadow-emerald-500/20 active:scale-95 whitespace-nowrap"
-                                    >
-                                        <UserPlus className="w-5 h-5" />
-                                        <span>إضافة</span>
-                                    </button>
-                                </form>
-                            </div>
+                                </>
+                            )}
                         </div>
                     </motion.div>
                 </>
@@ -0,0 +1,105 @@
+// Keeps the app usable without a connection: the built page, scripts and styles
+// are cached on install, the CDN scripts, styles and fonts as they load, and map
+// tiles are served from the areas downloaded in the offline maps window
+// (services/offlineMapService.ts).
+// Data is not handled here; it lives in IndexedDB and the sync queue.
+
+// Written by the build (see `precacheManifest` in vite.config.ts): the built
+// files and a version that changes with them. A new build therefore also
+// installs a new service worker, since browsers compare imported scripts too.
+importScripts('/precache-manifest.js');
+
+const SHELL_CACHE = `app-shell-${self.PRECACHE_VERSION}`;
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg', ...self.PRECACHE_URLS];
+// CDN files outlive a build, so they are kept apart from the versioned shell
+const RUNTIME_CACHE = 'app-runtime';
+// Loaded by index.html from other hosts; without the styles the app is unusable
+const CDN_URLS = ['https://cdn.tailwindcss.com', 'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css'];
+
+const SHELL_DESTINATIONS = ['script', 'style', 'font', 'manifest'];
+
+// Best effort: a CDN that's down shouldn't stop the app shell from installing.
+// Fetched with CORS (both CDNs send the headers): index.html loads leaflet.css
+// with `crossorigin` and `integrity`, which an opaque cached copy can't satisfy.
+const precacheCdn = async () => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  await Promise.all(CDN_URLS.map(async url => {
+    if (await cache.match(url)) return;
+    try {
+      const response = await fetch(url, { mode: 'cors' });
+      if (response.ok) await cache.put(url, response);
+    } catch {
+      // Cached on the next load instead
+    }
+  }));
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)),
+      precacheCdn(),
+    ]).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('app-shell-') && key !== SHELL_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The latest page when online, the cached one otherwise
+const networkFirst = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/', response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Cached copy right away, refreshed in the background for the next load
+const staleWhileRevalidate = async event => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request).then(response => {
+    // CDN scripts load without CORS and come back opaque; they are still worth keeping
+    if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+    return response;
+  });
+  if (!cached) return network;
+  event.waitUntil(network.catch(() => undefined));
+  return cached;
+};
+
+// From any cache first: built files (their names change with their content),
+// downloaded map tiles and the app icons. Tiles outside downloaded areas are not
+// kept, so browsing doesn't fill the disk.
+const cacheFirst = async request => (await caches.match(request)) || fetch(request);
+
+// Requests left unhandled, e.g. the sync server, geocoder and AI calls, go straight
+// to the network; those handle being offline themselves
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const isSameOrigin = new URL(request.url).origin === self.location.origin;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (request.destination === 'image' || (isSameOrigin && SHELL_DESTINATIONS.includes(request.destination))) {
+    event.respondWith(cacheFirst(request));
+  } else if (SHELL_DESTINATIONS.includes(request.destination)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
@@ -0,0 +1,268 @@
+import http from 'http';
+import path from 'path';
+import { timingSafeEqual } from 'crypto';
+import { LocationPoint, StoredPoint, StoredVoter, SyncOperation, SyncResult } from '../types';
+import { createFileStore, createSqliteStore, DataStore } from './store';
+
+/**
+ * Small REST server that lets a team share one dataset.
+ *
+ *   SYNC_TOKEN=... npm run server                # JSON file store in server/data/db.json
+ *   SYNC_TOKEN=... STORE=sqlite npm run server   # SQLite store (Node 22.13+) in server/data/db.sqlite
+ *
+ * Every /api request must carry the team's shared `SYNC_TOKEN` as a bearer
+ * token, and browsers may only call it from `ALLOWED_ORIGIN`, the address the
+ * app is served from (comma-separated for several).
+ *
+ * Conflicts are resolved last-write-wins on each record's `updatedAt`
+ * (falling back to `createdAt`); deletions are kept as tombstones so
+ * offline clients learn about them on their next pull.
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'server', 'data');
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const SYNC_TOKEN = process.env.SYNC_TOKEN || '';
+// Defaults to the vite dev server
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGIN || 'http://localhost:3000')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+
+const lastModified = (record: { createdAt: number; updatedAt?: number }) => record.updatedAt ?? record.createdAt;
+
+// Server clock that never repeats, so `since` cursors never skip a write made in the same millisecond
+let lastServerTime = 0;
+const serverNow = () => {
+  lastServerTime = Math.max(Date.now(), lastServerTime + 1);
+  return lastServerTime;
+};
+
+const applyOperation = (store: DataStore, operation: SyncOperation): SyncResult => {
+  const now = serverNow();
+  const conflict = (id: string, current?: StoredPoint | StoredVoter): SyncResult => ({
+    operation,
+    status: 'conflict',
+    current,
+    tombstone: current ? undefined : store.getTombstone(id),
+  });
+
+  switch (operation.kind) {
+    case 'upsertPoint':
+    case 'upsertVoter': {
+      const record = operation.kind === 'upsertPoint' ? operation.point : operation.voter;
+      const existing = operation.kind === 'upsertPoint' ? store.getPoint(record.id) : store.getVoter(record.id);
+      const tombstone = store.getTombstone(record.id);
+      if (tombstone && tombstone.deletedAt > operation.timestamp) return conflict(record.id);
+      if (existing && lastModified(existing) > operation.timestamp) return conflict(record.id, existing);
+
+      if (operation.kind === 'upsertPoint') {
+        store.putPoint(operation.point, now);
+      } else {
+        // A voter can't outlive its school
+        const schoolTombstone = store.getTombstone(operation.voter.schoolId);
+        if (schoolTombstone && schoolTombstone.deletedAt > operation.timestamp) return conflict(record.id);
+        store.putVoter(operation.voter, now);
+      }
+      return { operation, status: 'applied' };
+    }
+
+    case 'deletePoint':
+    case 'deleteVoter': {
+      const isPoint = operation.kind === 'deletePoint';
+      const existing = isPoint ? store.getPoint(operation.id) : store.getVoter(operation.id);
+      if (existing && lastModified(existing) > operation.timestamp) return conflict(operation.id, existing);
+
+      if (isPoint) {
+        store.getVotersBySchool(operation.id).forEach(voter => {
+          store.deleteRecord({ id: voter.id, type: 'voter', deletedAt: operation.timestamp }, now);
+        });
+      }
+      store.deleteRecord({ id: operation.id, type: isPoint ? 'point' : 'voter', deletedAt: operation.timestamp }, now);
+      return { operation, status: 'applied' };
+    }
+  }
+};
+
+// Full dataset in the client's shape (points with nested voters)
+const assemblePoints = (store: DataStore): LocationPoint[] => {
+  const { points, voters } = store.changesSince(0);
+  return points.map(point => ({ ...point, voters: voters.filter(v => v.schoolId === point.id) }));
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const readJson = (req: http.IncomingMessage) => new Promise<any>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf-8')) : {});
+    } catch {
+      reject(new HttpError(400, 'Invalid JSON body'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+// Constant-time comparison, so the token can't be guessed from response timings
+const isAuthorized = (req: http.IncomingMessage) => {
+  const expected = Buffer.from(`Bearer ${SYNC_TOKEN}`);
+  const given = Buffer.from(req.headers.authorization || '');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const isRecord = (value: any, ...stringKeys: string[]) =>
+  value && typeof value === 'object' && stringKeys.every(key => typeof value[key] === 'string') &&
+  Number.isFinite(value.createdAt);
+
+const validateOperation = (operation: any): SyncOperation => {
+  if (!operation || !Number.isFinite(operation.timestamp)) throw new HttpError(400, 'Operation needs a timestamp');
+  switch (operation.kind) {
+    case 'upsertPoint':
+      if (!isRecord(operation.point, 'id', 'name') || !Number.isFinite(operation.point.lat) || !Number.isFinite(operation.point.lng)) {
+        throw new HttpError(400, 'Invalid point');
+      }
+      return operation;
+    case 'upsertVoter':
+      if (!isRecord(operation.voter, 'id', 'fullName', 'schoolId')) throw new HttpError(400, 'Invalid voter');
+      return operation;
+    case 'deletePoint':
+    case 'deleteVoter':
+      if (typeof operation.id !== 'string') throw new HttpError(400, 'Invalid id');
+      return operation;
+    default:
+      throw new HttpError(400, `Unknown operation kind: ${operation.kind}`);
+  }
+};
+
+const handleRequest = async (store: DataStore, req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const [, api, resource, id] = url.pathname.split('/');
+  if (api !== 'api') throw new HttpError(404, 'Not found');
+  if (!isAuthorized(req)) throw new HttpError(401, 'Missing or invalid sync token');
+
+  const respondWith = (operation: SyncOperation) => {
+    const result = applyOperation(store, validateOperation(operation));
+    sendJson(res, result.status === 'applied' ? 200 : 409, result);
+  };
+
+  switch (`${req.method} ${resource}${id ? '/:id' : ''}`) {
+    case 'GET health':
+      return sendJson(res, 200, { ok: true, store: store.name, serverTime: Date.now() });
+
+    // Incremental pull: everything modified after the client's last `serverTime`
+    case 'GET changes': {
+      const since = Number(url.searchParams.get('since')) || 0;
+      const serverTime = serverNow();
+      return sendJson(res, 200, { ...store.changesSince(since), serverTime });
+    }
+
+    // Pending-changes queue flush; operations are applied in order
+    case 'POST batch': {
+      const body = await readJson(req);
+      if (!Array.isArray(body.operations)) throw new HttpError(400, 'Expected { operations: [] }');
+      const operations = body.operations.map(validateOperation);
+      const results = operations.map((operation: SyncOperation) => applyOperation(store, operation));
+      return sendJson(res, 200, { results, serverTime: serverNow() });
+    }
+
+    case 'GET points':
+      return sendJson(res, 200, assemblePoints(store));
+    case 'GET points/:id': {
+      const point = store.getPoint(id);
+      if (!point) throw new HttpError(404, 'Point not found');
+      return sendJson(res, 200, { ...point, voters: store.getVotersBySchool(id) });
+    }
+    case 'PUT points/:id': {
+      const { voters, ...point } = await readJson(req);
+      return respondWith({ kind: 'upsertPoint', point: { ...point, id }, timestamp: lastModified(point) });
+    }
+    case 'DELETE points/:id':
+      return respondWith({ kind: 'deletePoint', id, timestamp: Number(url.searchParams.get('timestamp')) || Date.now() });
+
+    case 'PUT voters/:id': {
+      const voter = await readJson(req);
+      return respondWith({ kind: 'upsertVoter', voter: { ...voter, id }, timestamp: lastModified(voter) });
+    }
+    case 'DELETE voters/:id':
+      return respondWith({ kind: 'deleteVoter', id, timestamp: Number(url.searchParams.get('timestamp')) || Date.now() });
+
+    default:
+      throw new HttpError(404, 'Not found');
+  }
+};
+
+const main = async () => {
+  if (!SYNC_TOKEN) throw new Error('SYNC_TOKEN is not set; choose a shared token for the team and start the server with it');
+
+  const store = process.env.STORE === 'sqlite'
+    ? await createSqliteStore(process.env.SQLITE_FILE || path.join(DATA_DIR, 'db.sqlite'))
+    : createFileStore(process.env.DATA_FILE || path.join(DATA_DIR, 'db.json'));
+
+  const server = http.createServer(async (req, res) => {
+    // The app is served from a different origin (vite dev server or a static host).
+    // Requests without an Origin header come from scripts and still need the token.
+    const origin = req.headers.origin;
+    res.setHeader('Vary', 'Origin');
+    if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+      sendJson(res, 403, { error: 'Origin not allowed' });
+      return;
+    }
+    if (origin) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    try {
+      await handleRequest(store, req, res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error('Request failed:', error);
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Sync server listening on http://localhost:${PORT} using ${store.name}, allowing ${ALLOWED_ORIGINS.join(', ')}`);
+  });
+
+  const shutdown = () => {
+    server.close();
+    store.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+main().catch(error => {
+  console.error('Failed to start sync server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,152 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { StoredPoint, StoredVoter, SyncChanges, SyncTombstone } from '../types';
+
+/**
+ * Persistence used by the sync server. Every write carries the server time it
+ * happened at (`modifiedAt`) so clients can pull only what changed since their
+ * last sync. Methods are synchronous: both backends answer from memory or an
+ * embedded database.
+ */
+export interface DataStore {
+  readonly name: string;
+  getPoint: (id: string) => StoredPoint | undefined;
+  getVoter: (id: string) => StoredVoter | undefined;
+  getVotersBySchool: (schoolId: string) => StoredVoter[];
+  getTombstone: (id: string) => SyncTombstone | undefined;
+  putPoint: (point: StoredPoint, modifiedAt: number) => void;
+  putVoter: (voter: StoredVoter, modifiedAt: number) => void;
+  // Removes the point or voter named by the tombstone and records the deletion
+  deleteRecord: (tombstone: SyncTombstone, modifiedAt: number) => void;
+  changesSince: (since: number) => Omit<SyncChanges, 'serverTime'>;
+  close: () => void;
+}
+
+interface Row<T> {
+  record: T;
+  modifiedAt: number;
+}
+
+interface FileData {
+  points: Record<string, Row<StoredPoint>>;
+  voters: Record<string, Row<StoredVoter>>;
+  tombstones: Record<string, Row<SyncTombstone>>;
+}
+
+/**
+ * JSON file store: keeps everything in memory and writes the whole file
+ * (atomically, via a temp file) shortly after each change.
+ */
+export const createFileStore = (filePath: string): DataStore => {
+  let data: FileData = { points: {}, voters: {}, tombstones: {} };
+  if (existsSync(filePath)) {
+    data = { ...data, ...JSON.parse(readFileSync(filePath, 'utf-8')) };
+  } else {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  let saveTimer: NodeJS.Timeout | null = null;
+  const flush = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = null;
+    const tempPath = `${filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(data));
+    renameSync(tempPath, filePath);
+  };
+  const scheduleSave = () => {
+    if (!saveTimer) saveTimer = setTimeout(flush, 200);
+  };
+
+  const since = <T>(rows: Record<string, Row<T>>, time: number) =>
+    Object.values(rows).filter(row => row.modifiedAt > time).map(row => row.record);
+
+  return {
+    name: `file (${filePath})`,
+    getPoint: (id) => data.points[id]?.record,
+    getVoter: (id) => data.voters[id]?.record,
+    getVotersBySchool: (schoolId) => Object.values(data.voters).map(r => r.record).filter(v => v.schoolId === schoolId),
+    getTombstone: (id) => data.tombstones[id]?.record,
+    putPoint: (point, modifiedAt) => {
+      data.points[point.id] = { record: point, modifiedAt };
+      delete data.tombstones[point.id];
+      scheduleSave();
+    },
+    putVoter: (voter, modifiedAt) => {
+      data.voters[voter.id] = { record: voter, modifiedAt };
+      delete data.tombstones[voter.id];
+      scheduleSave();
+    },
+    deleteRecord: (tombstone, modifiedAt) => {
+      if (tombstone.type === 'point') delete data.points[tombstone.id];
+      else delete data.voters[tombstone.id];
+      data.tombstones[tombstone.id] = { record: tombstone, modifiedAt };
+      scheduleSave();
+    },
+    changesSince: (time) => ({
+      points: since(data.points, time),
+      voters: since(data.voters, time),
+      tombstones: since(data.tombstones, time),
+    }),
+    close: flush,
+  };
+};
+
+/**
+ * SQLite store using Node's built-in `node:sqlite` module (Node 22.13+).
+ */
+export const createSqliteStore = async (filePath: string): Promise<DataStore> => {
+  const { DatabaseSync } = await import('node:sqlite');
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new DatabaseSync(filePath);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS points (id TEXT PRIMARY KEY, data TEXT NOT NULL, modified_at INTEGER NOT NULL);
+    CREATE TABLE IF NOT EXISTS voters (id TEXT PRIMARY KEY, school_id TEXT NOT NULL, data TEXT NOT NULL, modified_at INTEGER NOT NULL);
+    CREATE INDEX IF NOT EXISTS voters_school_id ON voters (school_id);
+    CREATE TABLE IF NOT EXISTS tombstones (id TEXT PRIMARY KEY, data TEXT NOT NULL, modified_at INTEGER NOT NULL);
+  `);
+
+  const parse = <T>(row: unknown) => (row ? JSON.parse((row as { data: string }).data) as T : undefined);
+  const parseAll = <T>(rows: unknown[]) => rows.map(row => parse<T>(row)!);
+
+  const statements = {
+    getPoint: db.prepare('SELECT data FROM points WHERE id = ?'),
+    getVoter: db.prepare('SELECT data FROM voters WHERE id = ?'),
+    getVotersBySchool: db.prepare('SELECT data FROM voters WHERE school_id = ?'),
+    getTombstone: db.prepare('SELECT data FROM tombstones WHERE id = ?'),
+    putPoint: db.prepare('INSERT OR REPLACE INTO points (id, data, modified_at) VALUES (?, ?, ?)'),
+    putVoter: db.prepare('INSERT OR REPLACE INTO voters (id, school_id, data, modified_at) VALUES (?, ?, ?, ?)'),
+    putTombstone: db.prepare('INSERT OR REPLACE INTO tombstones (id, data, modified_at) VALUES (?, ?, ?)'),
+    deleteTombstone: db.prepare('DELETE FROM tombstones WHERE id = ?'),
+    deletePoint: db.prepare('DELETE FROM points WHERE id = ?'),
+    deleteVoter: db.prepare('DELETE FROM voters WHERE id = ?'),
+    pointsSince: db.prepare('SELECT data FROM points WHERE modified_at > ?'),
+    votersSince: db.prepare('SELECT data FROM voters WHERE modified_at > ?'),
+    tombstonesSince: db.prepare('SELECT data FROM tombstones WHERE modified_at > ?'),
+  };
+
+  return {
+    name: `sqlite (${filePath})`,
+    getPoint: (id) => parse<StoredPoint>(statements.getPoint.get(id)),
+    getVoter: (id) => parse<StoredVoter>(statements.getVoter.get(id)),
+    getVotersBySchool: (schoolId) => parseAll<StoredVoter>(statements.getVotersBySchool.all(schoolId)),
+    getTombstone: (id) => parse<SyncTombstone>(statements.getTombstone.get(id)),
+    putPoint: (point, modifiedAt) => {
+      statements.putPoint.run(point.id, JSON.stringify(point), modifiedAt);
+      statements.deleteTombstone.run(point.id);
+    },
+    putVoter: (voter, modifiedAt) => {
+      statements.putVoter.run(voter.id, voter.schoolId, JSON.stringify(voter), modifiedAt);
+      statements.deleteTombstone.run(voter.id);
+    },
+    deleteRecord: (tombstone, modifiedAt) => {
+      (tombstone.type === 'point' ? statements.deletePoint : statements.deleteVoter).run(tombstone.id);
+      statements.putTombstone.run(tombstone.id, JSON.stringify(tombstone), modifiedAt);
+    },
+    changesSince: (time) => ({
+      points: parseAll<StoredPoint>(statements.pointsSince.all(time)),
+      voters: parseAll<StoredVoter>(statements.votersSince.all(time)),
+      tombstones: parseAll<SyncTombstone>(statements.tombstonesSince.all(time)),
+    }),
+    close: () => db.close(),
+  };
+};
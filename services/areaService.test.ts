@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { makePoint } from '../test/fixtures';
+import { SavedArea } from '../types';
+import { getAreaPoints, isInArea, sanitizeAreas } from './areaService';
+
+const area = (shape: SavedArea['shape']): SavedArea => ({ id: 'a1', name: 'منطقة', color: '#6366f1', shape, createdAt: 1 });
+
+describe('isInArea', () => {
+  it('reads drawn polygons as [lat, lng]', () => {
+    const triangle = area({ type: 'polygon', latlngs: [[33, 44], [33, 45], [34, 44]] });
+    expect(isInArea(33.2, 44.2, triangle)).toBe(true);
+    expect(isInArea(33.8, 44.8, triangle)).toBe(false);
+  });
+
+  it('accepts rectangle corners in either order, edges included', () => {
+    const rectangle = area({ type: 'rectangle', bounds: [[34, 45], [33, 44]] });
+    expect(isInArea(33.5, 44.5, rectangle)).toBe(true);
+    expect(isInArea(33, 44, rectangle)).toBe(true);
+    expect(isInArea(34.1, 44.5, rectangle)).toBe(false);
+  });
+
+  it('measures circles in meters', () => {
+    const circle = area({ type: 'circle', center: [33.3, 44.4], radius: 1000 });
+    // 0.005° of latitude is about 556 m, 0.01° about 1.1 km
+    expect(isInArea(33.305, 44.4, circle)).toBe(true);
+    expect(isInArea(33.31, 44.4, circle)).toBe(false);
+  });
+});
+
+describe('getAreaPoints', () => {
+  it('keeps the schools inside the area', () => {
+    const points = [makePoint('in', { lat: 33.5, lng: 44.5 }), makePoint('out', { lat: 35, lng: 44.5 })];
+    expect(getAreaPoints(points, area({ type: 'rectangle', bounds: [[33, 44], [34, 45]] })).map(p => p.id)).toEqual(['in']);
+  });
+});
+
+describe('sanitizeAreas', () => {
+  it('drops areas with broken shapes', () => {
+    const areas = sanitizeAreas([
+      area({ type: 'polygon', latlngs: [[33, 44], [33, 45], [34, 44]] }),
+      { ...area({ type: 'polygon', latlngs: [[33, 44], [33, 45]] }), id: 'two-corners' },
+      { ...area({ type: 'circle', center: [33, 44], radius: 0 }), id: 'no-radius' },
+      { id: 'no-shape', name: 'x' },
+      null,
+    ]);
+    expect(areas.map(a => a.id)).toEqual(['a1']);
+    expect(sanitizeAreas('nonsense')).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { AreaShape, LatLngPair, LocationPoint, SavedArea } from '../types';
+import { PointsSummary, summarizePoints } from './coverageService';
+import { distanceMeters, isInRing } from './geoService';
+
+const AREAS_KEY = 'populationMapAreas';
+
+// Cycled through as areas are drawn, so neighbouring areas tell apart
+export const AREA_COLORS = ['#6366f1', '#f97316', '#0ea5e9', '#db2777', '#16a34a', '#ca8a04'];
+
+export const AREA_SHAPE_LABELS: Record<AreaShape['type'], string> = {
+  polygon: 'مضلع',
+  rectangle: 'مستطيل',
+  circle: 'دائرة',
+};
+
+export const createArea = (name: string, shape: AreaShape, existing: SavedArea[]): SavedArea => ({
+  id: crypto.randomUUID(),
+  name,
+  color: AREA_COLORS[existing.length % AREA_COLORS.length],
+  shape,
+  createdAt: Date.now(),
+});
+
+export const isInArea = (lat: number, lng: number, area: SavedArea) => {
+  const { shape } = area;
+  switch (shape.type) {
+    case 'polygon':
+      return isInRing(lat, lng, shape.latlngs.map(([pLat, pLng]) => [pLng, pLat]));
+    case 'rectangle': {
+      const [[lat1, lng1], [lat2, lng2]] = shape.bounds;
+      return lat >= Math.min(lat1, lat2) && lat <= Math.max(lat1, lat2) && lng >= Math.min(lng1, lng2) && lng <= Math.max(lng1, lng2);
+    }
+    case 'circle':
+      return distanceMeters({ lat, lng }, { lat: shape.center[0], lng: shape.center[1] }) <= shape.radius;
+  }
+};
+
+export const getAreaPoints = (points: LocationPoint[], area: SavedArea) =>
+  points.filter(p => isInArea(p.lat, p.lng, area));
+
+export interface AreaStats extends PointsSummary {
+  area: SavedArea;
+}
+
+export const getAreaStats = (points: LocationPoint[], area: SavedArea): AreaStats => ({
+  area,
+  ...summarizePoints(getAreaPoints(points, area)),
+});
+
+const isLatLng = (value: unknown): value is LatLngPair =>
+  Array.isArray(value) && value.length === 2 && value.every(Number.isFinite);
+
+const isAreaShape = (shape: any): shape is AreaShape => {
+  switch (shape?.type) {
+    case 'polygon':
+      return Array.isArray(shape.latlngs) && shape.latlngs.length >= 3 && shape.latlngs.every(isLatLng);
+    case 'rectangle':
+      return Array.isArray(shape.bounds) && shape.bounds.length === 2 && shape.bounds.every(isLatLng);
+    case 'circle':
+      return isLatLng(shape.center) && Number.isFinite(shape.radius) && shape.radius > 0;
+    default:
+      return false;
+  }
+};
+
+export const sanitizeAreas = (raw: unknown): SavedArea[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(a => a && typeof a.id === 'string' && typeof a.name === 'string' && isAreaShape(a.shape))
+    .map((a, i) => ({
+      id: a.id,
+      name: a.name,
+      color: typeof a.color === 'string' ? a.color : AREA_COLORS[i % AREA_COLORS.length],
+      shape: a.shape,
+      createdAt: Number.isFinite(a.createdAt) ? a.createdAt : Date.now(),
+    }));
+};
+
+export const loadAreas = (): SavedArea[] => {
+  try {
+    return sanitizeAreas(JSON.parse(localStorage.getItem(AREAS_KEY) || '[]'));
+  } catch (error) {
+    console.error('Error loading areas from localStorage:', error);
+    return [];
+  }
+};
+
+export const saveAreas = (areas: SavedArea[]) => {
+  localStorage.setItem(AREAS_KEY, JSON.stringify(areas));
+};
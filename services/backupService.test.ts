@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { makePoint, makeVoter } from '../test/fixtures';
+import { BACKUP_APP_ID, CURRENT_SCHEMA_VERSION, createBackup, mergePoints, parseBackup } from './backupService';
+import { DEFAULT_GEOCODER_CONFIG } from './geocoderService';
+import { DEFAULT_REGION } from './regionService';
+
+// A backup as each schema version wrote it
+const backupAtVersion = (version: number) => {
+  if (version === 0) return [makePoint()];
+  const settings: Record<string, unknown> = { selectedDistrict: 'الكرادة', hiddenPointIds: ['p1'] };
+  if (version >= 2) settings.voterFields = [{ id: 'f1', label: 'المهنة', type: 'text' }];
+  if (version >= 3) settings.areas = [];
+  if (version >= 4) settings.volunteers = [];
+  if (version >= 5) settings.region = DEFAULT_REGION;
+  return {
+    app: BACKUP_APP_ID,
+    schemaVersion: version,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    points: [makePoint()],
+    settings,
+    ...(version >= 6 ? { device: { districts: { boundaries: [], aliases: { 'كرادة': 'd1' } }, geocoder: DEFAULT_GEOCODER_CONFIG, gazetteer: [] } } : {}),
+  };
+};
+
+describe('parseBackup migrations', () => {
+  it.each([0, 1, 2, 3, 4, 5, 6])('reads a version %i backup as the current schema', version => {
+    const { backup, sourceVersion, warnings } = parseBackup(JSON.stringify(backupAtVersion(version)));
+
+    expect(sourceVersion).toBe(version);
+    expect(warnings).toEqual([]);
+    expect(backup.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(backup.points).toEqual([{ ...makePoint(), countMode: undefined, volunteerIds: undefined, checkIns: undefined, turnoutReports: undefined }]);
+    expect(backup.settings.selectedDistrict).toBe(version === 0 ? '' : 'الكرادة');
+    expect(backup.settings.voterFields).toHaveLength(version >= 2 ? 1 : 0);
+    expect(backup.settings.areas).toEqual([]);
+    expect(backup.settings.volunteers).toEqual([]);
+    expect(backup.settings.region).toEqual(DEFAULT_REGION);
+    // Older backups carry no device settings, so restoring them keeps the device's own
+    expect(backup.device).toEqual(version >= 6
+      ? { districts: { boundaries: [], aliases: { 'كرادة': 'd1' } }, geocoder: DEFAULT_GEOCODER_CONFIG, gazetteer: [] }
+      : null);
+  });
+
+  it('round-trips a backup written by createBackup', () => {
+    const device = { districts: { boundaries: [], aliases: {} }, geocoder: DEFAULT_GEOCODER_CONFIG, gazetteer: [{ name: 'الجادرية', lat: 33.27, lng: 44.38 }] };
+    const settings = { selectedDistrict: '', hiddenPointIds: [], voterFields: [], areas: [], volunteers: [], region: DEFAULT_REGION };
+    const { backup } = parseBackup(JSON.stringify(createBackup([makePoint()], settings, device)));
+    expect(backup.device).toEqual(device);
+    expect(backup.settings).toEqual(settings);
+  });
+
+  it('skips points without a name or valid coordinates and says how many', () => {
+    const data = { ...backupAtVersion(6), points: [makePoint(), { id: 'p2', name: 'بلا موقع', lat: 'x', lng: 44 }] };
+    const { backup, warnings } = parseBackup(JSON.stringify(data));
+    expect(backup.points.map(p => p.id)).toEqual(['p1']);
+    expect(warnings).toEqual(['تم تجاهل 1 موقع بسبب بيانات ناقصة أو إحداثيات غير صالحة.']);
+  });
+
+  it('rejects files from other apps and newer versions', () => {
+    expect(() => parseBackup('not json')).toThrow('الملف ليس بصيغة JSON صالحة.');
+    expect(() => parseBackup(JSON.stringify({ app: 'other', schemaVersion: 1 }))).toThrow('هذا الملف ليس نسخة احتياطية من خريطة الناخبين.');
+    expect(() => parseBackup(JSON.stringify({ ...backupAtVersion(6), schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))).toThrow(/إصدار أحدث/);
+  });
+});
+
+describe('mergePoints', () => {
+  it('keeps the newer copy of a point and unites the voter lists', () => {
+    const current = [makePoint('p1', { name: 'قديم', voters: [makeVoter('a')] }), makePoint('p2')];
+    const incoming = [makePoint('p1', { name: 'جديد', updatedAt: 5, voters: [makeVoter('b')] }), makePoint('p3')];
+
+    const merged = mergePoints(current, incoming);
+    expect(merged.map(p => p.id)).toEqual(['p1', 'p2', 'p3']);
+    expect(merged[0].name).toBe('جديد');
+    expect(merged[0].voters!.map(v => v.id)).toEqual(['b', 'a']);
+  });
+
+  it('keeps the newer copy of each voter, even inside the older copy of its school', () => {
+    const current = [makePoint('p1', { updatedAt: 10, voters: [makeVoter('a', { phoneNumber: '07701111111', updatedAt: 30 }), makeVoter('b', { updatedAt: 5 })] })];
+    const incoming = [makePoint('p1', { updatedAt: 20, voters: [makeVoter('a', { updatedAt: 15 }), makeVoter('b', { phoneNumber: '07702222222', updatedAt: 25 })] })];
+
+    const [merged] = mergePoints(current, incoming);
+    expect(merged.updatedAt).toBe(20);
+    expect(merged.voters!.map(v => [v.id, v.phoneNumber])).toEqual([['a', '07701111111'], ['b', '07702222222']]);
+  });
+});
@@ -0,0 +1,255 @@
+import { DistrictBoundaries, LocationPoint, ProjectSettings, Voter } from '../types';
+import { downloadFile, fileStamp } from './exportService';
+import { isCountMode } from './coverageService';
+import { sanitizeVoterFields } from './voterService';
+import { isVoterStatus } from './contactService';
+import { sanitizeAreas } from './areaService';
+import { sanitizeVolunteers } from './volunteerService';
+import { DEFAULT_REGION, sanitizeRegion } from './regionService';
+import { sanitizeCheckIns, sanitizeTurnoutReports } from './turnoutService';
+import { sanitizeBoundaries } from './districtService';
+import { GazetteerEntry, GeocoderConfig, loadGazetteer, sanitizeGazetteer, sanitizeGeocoderConfig } from './geocoderService';
+
+export const BACKUP_APP_ID = 'voter-distribution-map';
+export const CURRENT_SCHEMA_VERSION = 6;
+
+// Set up on each device rather than synced with the project, so only a backup carries it over
+export interface DeviceSettings {
+  districts: DistrictBoundaries;
+  geocoder: GeocoderConfig;
+  gazetteer: GazetteerEntry[];
+}
+
+export interface ProjectBackup {
+  app: typeof BACKUP_APP_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  points: LocationPoint[];
+  settings: ProjectSettings;
+  // null for backups written before these were included; restoring keeps the device's own
+  device: DeviceSettings | null;
+}
+
+export interface RestoreResult {
+  backup: ProjectBackup;
+  // Version the file was written with, before migration
+  sourceVersion: number;
+  warnings: string[];
+}
+
+export const DEFAULT_SETTINGS: ProjectSettings = {
+  selectedDistrict: '',
+  hiddenPointIds: [],
+  voterFields: [],
+  areas: [],
+  volunteers: [],
+  region: DEFAULT_REGION,
+};
+
+/**
+ * Migrations keyed by the version they upgrade FROM. Each step receives the
+ * raw object of that version and returns the shape of the next version.
+ *
+ * Version 0 is the bare `LocationPoint[]` array stored under the
+ * `populationMapPoints` localStorage key, which users may have copied out by hand.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  0: (data: any[]) => ({
+    app: BACKUP_APP_ID,
+    schemaVersion: 1,
+    exportedAt: new Date().toISOString(),
+    points: data,
+    settings: { selectedDistrict: '', hiddenPointIds: [] },
+  }),
+  // v2 adds project-level custom voter fields
+  1: (data: any) => ({
+    ...data,
+    schemaVersion: 2,
+    settings: { ...data.settings, voterFields: [] },
+  }),
+  // v3 adds areas drawn on the map
+  2: (data: any) => ({
+    ...data,
+    schemaVersion: 3,
+    settings: { ...data.settings, areas: [] },
+  }),
+  // v4 adds the volunteers list (assignments live on the points)
+  3: (data: any) => ({
+    ...data,
+    schemaVersion: 4,
+    settings: { ...data.settings, volunteers: [] },
+  }),
+  // v5 adds the project region; earlier projects all worked in Baghdad
+  4: (data: any) => ({
+    ...data,
+    schemaVersion: 5,
+    settings: { ...data.settings, region: DEFAULT_REGION },
+  }),
+  // v6 adds the device settings: district boundaries, map search providers and the gazetteer
+  5: (data: any) => ({
+    ...data,
+    schemaVersion: 6,
+    device: null,
+  }),
+};
+
+export const createBackup = (points: LocationPoint[], settings: ProjectSettings, device: DeviceSettings): ProjectBackup => ({
+  app: BACKUP_APP_ID,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  points,
+  settings,
+  device,
+});
+
+// The gazetteer is only read from storage here, it isn't kept in memory
+export const downloadBackup = async (
+  points: LocationPoint[],
+  settings: ProjectSettings,
+  device: Omit<DeviceSettings, 'gazetteer'>
+) => {
+  const backup = createBackup(points, settings, { ...device, gazetteer: await loadGazetteer() });
+  downloadFile(JSON.stringify(backup, null, 2), `voter-map-backup-${fileStamp()}.json`, 'application/json');
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const sanitizeVoter = (raw: any): Voter | null => {
+  if (!raw || typeof raw !== 'object' || typeof raw.fullName !== 'string' || !raw.fullName.trim()) return null;
+  return {
+    ...raw,
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    fullName: raw.fullName,
+    phoneNumber: typeof raw.phoneNumber === 'string' ? raw.phoneNumber : '',
+    gender: raw.gender === 'male' || raw.gender === 'female' ? raw.gender : undefined,
+    birthYear: isFiniteNumber(raw.birthYear) ? raw.birthYear : undefined,
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((t: unknown) => typeof t === 'string') : undefined,
+    status: isVoterStatus(raw.status) ? raw.status : undefined,
+    contactLog: Array.isArray(raw.contactLog)
+      ? raw.contactLog.filter((e: any) => e && isFiniteNumber(e.at) && isVoterStatus(e.status))
+      : undefined,
+    createdAt: isFiniteNumber(raw.createdAt) ? raw.createdAt : Date.now(),
+  };
+};
+
+const sanitizePoint = (raw: any): LocationPoint | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  if (typeof raw.name !== 'string' || !isFiniteNumber(raw.lat) || !isFiniteNumber(raw.lng)) return null;
+  return {
+    ...raw,
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    name: raw.name,
+    district: typeof raw.district === 'string' ? raw.district : '',
+    count: isFiniteNumber(raw.count) ? raw.count : 0,
+    countMode: isCountMode(raw.countMode) ? raw.countMode : undefined,
+    createdAt: isFiniteNumber(raw.createdAt) ? raw.createdAt : Date.now(),
+    voters: Array.isArray(raw.voters)
+      ? raw.voters.map(sanitizeVoter).filter((v: Voter | null): v is Voter => v !== null)
+      : [],
+    volunteerIds: Array.isArray(raw.volunteerIds)
+      ? raw.volunteerIds.filter((id: unknown) => typeof id === 'string')
+      : undefined,
+    checkIns: sanitizeCheckIns(raw.checkIns),
+    turnoutReports: sanitizeTurnoutReports(raw.turnoutReports),
+  };
+};
+
+/**
+ * Parses and validates a backup file, migrating older schema versions forward.
+ * Throws an Error with a user-facing message when the file cannot be used.
+ */
+export const parseBackup = (text: string): RestoreResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('الملف ليس بصيغة JSON صالحة.');
+  }
+
+  const sourceVersion = Array.isArray(data) ? 0 : data?.schemaVersion;
+  if (!Array.isArray(data) && data?.app !== BACKUP_APP_ID) {
+    throw new Error('هذا الملف ليس نسخة احتياطية من خريطة الناخبين.');
+  }
+  if (!Number.isInteger(sourceVersion) || sourceVersion < 0) {
+    throw new Error('إصدار النسخة الاحتياطية غير معروف.');
+  }
+  if (sourceVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('هذه النسخة الاحتياطية من إصدار أحدث للتطبيق. يرجى تحديث التطبيق أولاً.');
+  }
+
+  for (let version = sourceVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    data = MIGRATIONS[version](data);
+  }
+
+  if (!Array.isArray(data.points)) {
+    throw new Error('النسخة الاحتياطية لا تحتوي على قائمة مواقع صالحة.');
+  }
+
+  const warnings: string[] = [];
+  const points = data.points.map(sanitizePoint).filter((p: LocationPoint | null): p is LocationPoint => p !== null);
+  const skipped = data.points.length - points.length;
+  if (skipped > 0) {
+    warnings.push(`تم تجاهل ${skipped} موقع بسبب بيانات ناقصة أو إحداثيات غير صالحة.`);
+  }
+
+  const settings: ProjectSettings = {
+    selectedDistrict: typeof data.settings?.selectedDistrict === 'string' ? data.settings.selectedDistrict : '',
+    hiddenPointIds: Array.isArray(data.settings?.hiddenPointIds)
+      ? data.settings.hiddenPointIds.filter((id: unknown) => typeof id === 'string')
+      : [],
+    voterFields: sanitizeVoterFields(data.settings?.voterFields),
+    areas: sanitizeAreas(data.settings?.areas),
+    volunteers: sanitizeVolunteers(data.settings?.volunteers),
+    region: sanitizeRegion(data.settings?.region),
+  };
+
+  const device: DeviceSettings | null = data.device && typeof data.device === 'object'
+    ? {
+      districts: sanitizeBoundaries(data.device.districts),
+      geocoder: sanitizeGeocoderConfig(data.device.geocoder),
+      gazetteer: sanitizeGazetteer(data.device.gazetteer),
+    }
+    : null;
+
+  return {
+    backup: {
+      app: BACKUP_APP_ID,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      points,
+      settings,
+      device,
+    },
+    sourceVersion,
+    warnings,
+  };
+};
+
+const lastModified = (record: { createdAt: number; updatedAt?: number }) => record.updatedAt ?? record.createdAt;
+
+/**
+ * Merges restored points into the current list by id. When both sides have the
+ * same point, the more recently modified copy wins and the voter lists are
+ * united, each voter on both sides again by its own modification time.
+ */
+export const mergePoints = (current: LocationPoint[], incoming: LocationPoint[]): LocationPoint[] => {
+  const incomingById = new Map(incoming.map(p => [p.id, p]));
+
+  const merged = current.map(existing => {
+    const other = incomingById.get(existing.id);
+    if (!other) return existing;
+    incomingById.delete(existing.id);
+
+    const newer = lastModified(other) > lastModified(existing) ? other : existing;
+    const older = newer === other ? existing : other;
+    const olderVoters = new Map((older.voters || []).map(v => [v.id, v]));
+    const voters = (newer.voters || []).map(voter => {
+      const olderVoter = olderVoters.get(voter.id);
+      olderVoters.delete(voter.id);
+      return olderVoter && lastModified(olderVoter) > lastModified(voter) ? olderVoter : voter;
+    });
+    return { ...newer, voters: [...voters, ...olderVoters.values()] };
+  });
+
+  return [...merged, ...incomingById.values()];
+};
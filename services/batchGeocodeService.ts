@@ -0,0 +1,76 @@
+import { LocationPoint, MapRegion, UnplacedPoint } from '../types';
+import { GeocodeResult, GeocoderConfig, geocode } from './geocoderService';
+import { loadLocalValue, saveLocalValue } from './storageService';
+import { fuzzyMatchScore, normalizeArabic } from './textService';
+
+const QUEUE_KEY = 'geocodeQueue';
+const MAX_CANDIDATES = 5;
+
+// queued: not searched yet; review: has candidates to pick from; notFound: needs placing by hand
+export type GeocodeJobStatus = 'queued' | 'review' | 'notFound';
+
+export interface GeocodeJobItem {
+  point: UnplacedPoint;
+  status: GeocodeJobStatus;
+  // Best match first
+  candidates: GeocodeResult[];
+}
+
+export const GEOCODE_STATUS_LABELS: Record<GeocodeJobStatus, string> = {
+  queued: 'بانتظار البحث',
+  review: 'للمراجعة',
+  notFound: 'لم يُعثر عليها',
+};
+
+export const createJobItems = (points: UnplacedPoint[]): GeocodeJobItem[] =>
+  points.map(point => ({ point, status: 'queued', candidates: [] }));
+
+const sanitizeQueue = (raw: unknown): GeocodeJobItem[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(item => item?.point && typeof item.point.id === 'string' && typeof item.point.name === 'string')
+    .map(item => ({
+      point: item.point,
+      // A search cut short by the reload is simply run again
+      status: item.status === 'review' || item.status === 'notFound' ? item.status : 'queued',
+      candidates: Array.isArray(item.candidates) ? item.candidates : [],
+    }));
+};
+
+export const loadGeocodeQueue = async (): Promise<GeocodeJobItem[]> =>
+  sanitizeQueue(await loadLocalValue(QUEUE_KEY));
+
+export const saveGeocodeQueue = (items: GeocodeJobItem[]) =>
+  saveLocalValue(QUEUE_KEY, items.length ? items : undefined);
+
+const inBBox = (result: GeocodeResult, [south, west, north, east]: MapRegion['bbox']) =>
+  result.lat >= south && result.lat <= north && result.lng >= west && result.lng <= east;
+
+/**
+ * Orders geocoder results for a school: places mentioning its district first,
+ * then those inside the project region, then by how close the name is.
+ */
+export const rankCandidates = (point: UnplacedPoint, results: GeocodeResult[], region: MapRegion) => {
+  const district = normalizeArabic(point.district);
+  const rank = (result: GeocodeResult) =>
+    (district && normalizeArabic(`${result.name} ${result.description}`).includes(district) ? 1000 : 0)
+    + (inBBox(result, region.bbox) ? 500 : 0)
+    + fuzzyMatchScore(point.name, result.name);
+  return [...results].sort((a, b) => rank(b) - rank(a));
+};
+
+/**
+ * Runs the school's name through the same providers and heuristics as the map
+ * search (stop words, "مدرسة" prefix, Overpass fuzzy match). Rejects with an
+ * AbortError when `signal` is aborted, and with an Error instead of returning no
+ * candidates when a provider couldn't be reached.
+ */
+export const findCandidates = async (
+  point: UnplacedPoint,
+  config: GeocoderConfig,
+  region: MapRegion,
+  signal: AbortSignal
+): Promise<GeocodeResult[]> =>
+  rankCandidates(point, await geocode(point.name, config, region, signal), region).slice(0, MAX_CANDIDATES);
+
+export const placePoint = (point: UnplacedPoint, lat: number, lng: number): LocationPoint => ({ ...point, lat, lng });
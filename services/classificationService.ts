@@ -0,0 +1,88 @@
+export type ClassMethod = 'quantile' | 'equal-interval' | 'natural-breaks';
+
+export const CLASS_METHODS: { method: ClassMethod; label: string }[] = [
+  { method: 'quantile', label: 'أعداد متساوية (Quantile)' },
+  { method: 'equal-interval', label: 'فترات متساوية' },
+  { method: 'natural-breaks', label: 'فواصل طبيعية (Jenks)' },
+];
+
+// Light to dark, one per class
+export const CLASS_COLORS = ['#fef3c7', '#fcd34d', '#f59e0b', '#ea580c', '#b91c1c'];
+
+const quantileBreaks = (sorted: number[], k: number) =>
+  Array.from({ length: k }, (_, i) => sorted[Math.min(sorted.length - 1, Math.ceil(((i + 1) * sorted.length) / k) - 1)]);
+
+const equalIntervalBreaks = (sorted: number[], k: number) => {
+  const min = sorted[0];
+  const step = (sorted[sorted.length - 1] - min) / k;
+  return Array.from({ length: k }, (_, i) => (i === k - 1 ? sorted[sorted.length - 1] : min + step * (i + 1)));
+};
+
+// Fisher-Jenks: minimizes the squared deviation within each class
+const naturalBreaks = (sorted: number[], k: number) => {
+  const n = sorted.length;
+  const lower = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+  const variance = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(Infinity));
+  for (let j = 1; j <= k; j++) {
+    lower[1][j] = 1;
+    variance[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+    let v = 0;
+    for (let m = 1; m <= l; m++) {
+      const lowerIndex = l - m + 1;
+      const value = sorted[lowerIndex - 1];
+      count++;
+      sum += value;
+      sumSquares += value * value;
+      v = sumSquares - (sum * sum) / count;
+      if (lowerIndex > 1) {
+        for (let j = 2; j <= k; j++) {
+          if (variance[l][j] >= v + variance[lowerIndex - 1][j - 1]) {
+            lower[l][j] = lowerIndex;
+            variance[l][j] = v + variance[lowerIndex - 1][j - 1];
+          }
+        }
+      }
+    }
+    lower[l][1] = 1;
+    variance[l][1] = v;
+  }
+
+  const breaks = new Array<number>(k);
+  let end = n;
+  for (let j = k; j >= 1; j--) {
+    breaks[j - 1] = sorted[end - 1];
+    end = lower[end][j] - 1;
+  }
+  return breaks;
+};
+
+/**
+ * Upper bound of each class, ascending. Fewer than `k` classes come back when
+ * there are fewer distinct values than classes.
+ */
+export const getClassBreaks = (values: number[], method: ClassMethod, k = CLASS_COLORS.length): number[] => {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const classes = Math.min(k, new Set(sorted).size);
+  const breaks = method === 'quantile'
+    ? quantileBreaks(sorted, classes)
+    : method === 'equal-interval'
+      ? equalIntervalBreaks(sorted, classes)
+      : naturalBreaks(sorted, classes);
+  return Array.from(new Set(breaks.map(b => Math.round(b))));
+};
+
+export const getClassIndex = (value: number, breaks: number[]) => {
+  const index = breaks.findIndex(upper => value <= upper);
+  return index === -1 ? breaks.length - 1 : index;
+};
+
+// Colors spread across the palette when there are fewer classes than colors
+export const getClassColor = (index: number, classCount: number) =>
+  CLASS_COLORS[classCount <= 1 ? CLASS_COLORS.length - 1 : Math.round((index / (classCount - 1)) * (CLASS_COLORS.length - 1))];
@@ -0,0 +1,71 @@
+import { LocationPoint } from '../types';
+import { getVoterTotal } from './coverageService';
+
+export interface PixelPosition {
+  x: number;
+  y: number;
+}
+
+export interface PointCluster {
+  // Stable for the same members, so React keys don't churn between renders
+  id: string;
+  points: LocationPoint[];
+  // Voter-weighted center, falling back to the plain average when all counts are 0
+  lat: number;
+  lng: number;
+  total: number;
+}
+
+/**
+ * Groups points that fall in the same grid cell of `cellSize` pixels at the
+ * projection's zoom. Single points come back as clusters of one.
+ */
+export const clusterPoints = (
+  points: LocationPoint[],
+  project: (point: LocationPoint) => PixelPosition,
+  cellSize: number
+): PointCluster[] => {
+  const cells = new Map<string, LocationPoint[]>();
+  points.forEach(point => {
+    const { x, y } = project(point);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) || []), point]);
+  });
+
+  return [...cells.values()].map(members => {
+    const total = members.reduce((sum, p) => sum + getVoterTotal(p), 0);
+    const weight = (p: LocationPoint) => (total > 0 ? getVoterTotal(p) / total : 1 / members.length);
+    return {
+      id: members.map(p => p.id).sort().join('|'),
+      points: members,
+      lat: members.reduce((sum, p) => sum + p.lat * weight(p), 0),
+      lng: members.reduce((sum, p) => sum + p.lng * weight(p), 0),
+      total,
+    };
+  });
+};
+
+/**
+ * Ids of the points whose label box doesn't overlap a label already placed.
+ * Bigger schools are placed first, so they keep their label in a collision.
+ */
+export const findClearLabels = (
+  points: LocationPoint[],
+  project: (point: LocationPoint) => PixelPosition,
+  labelSize: { width: number; height: number }
+): Set<string> => {
+  const placed: PixelPosition[] = [];
+  const clear = new Set<string>();
+
+  [...points].sort((a, b) => getVoterTotal(b) - getVoterTotal(a)).forEach(point => {
+    const position = project(point);
+    const overlaps = placed.some(other =>
+      Math.abs(position.x - other.x) < labelSize.width && Math.abs(position.y - other.y) < labelSize.height
+    );
+    if (overlaps) return;
+    placed.push(position);
+    clear.add(point.id);
+  });
+
+  return clear;
+};
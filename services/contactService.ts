@@ -0,0 +1,52 @@
+import { LocationPoint, Voter, VoterStatus } from '../types';
+
+export const VOTER_STATUSES: { status: VoterStatus; label: string; badge: string; dot: string }[] = [
+  { status: 'not_contacted', label: 'لم يتم الاتصال', badge: 'bg-slate-100 text-slate-500', dot: 'bg-slate-300' },
+  { status: 'contacted', label: 'تم الاتصال', badge: 'bg-sky-50 text-sky-700', dot: 'bg-sky-500' },
+  { status: 'supporter', label: 'مؤيد مؤكد', badge: 'bg-emerald-50 text-emerald-700', dot: 'bg-emerald-500' },
+  { status: 'undecided', label: 'متردد', badge: 'bg-amber-50 text-amber-700', dot: 'bg-amber-500' },
+  { status: 'declined', label: 'رافض', badge: 'bg-rose-50 text-rose-700', dot: 'bg-rose-500' },
+  { status: 'voted', label: 'صوّت', badge: 'bg-violet-50 text-violet-700', dot: 'bg-violet-500' },
+];
+
+export const STATUS_INFO = Object.fromEntries(VOTER_STATUSES.map(s => [s.status, s])) as Record<VoterStatus, typeof VOTER_STATUSES[number]>;
+
+export const isVoterStatus = (value: unknown): value is VoterStatus =>
+  VOTER_STATUSES.some(({ status }) => status === value);
+
+export const getVoterStatus = (voter: Voter): VoterStatus => voter.status ?? 'not_contacted';
+
+/**
+ * Records a call or visit: sets the voter's status and appends it, with the
+ * optional note, to the contact log.
+ */
+export const logContact = (voter: Voter, status: VoterStatus, note = '', now = Date.now()): Voter => ({
+  ...voter,
+  status,
+  contactLog: [...(voter.contactLog || []), { id: crypto.randomUUID(), at: now, status, note: note.trim() || undefined }],
+  updatedAt: now,
+});
+
+export interface ContactStats {
+  total: number;
+  // Reached at least once (any status but not contacted)
+  contacted: number;
+  confirmed: number;
+  voted: number;
+  byStatus: Record<VoterStatus, number>;
+}
+
+export const getContactStats = (voters: Voter[]): ContactStats => {
+  const byStatus = Object.fromEntries(VOTER_STATUSES.map(({ status }) => [status, 0])) as Record<VoterStatus, number>;
+  voters.forEach(v => byStatus[getVoterStatus(v)]++);
+  return {
+    total: voters.length,
+    contacted: voters.length - byStatus.not_contacted,
+    confirmed: byStatus.supporter,
+    voted: byStatus.voted,
+    byStatus,
+  };
+};
+
+export const getPointsContactStats = (points: LocationPoint[]) =>
+  getContactStats(points.flatMap(p => p.voters || []));
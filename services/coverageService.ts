@@ -0,0 +1,86 @@
+import { CountMode, LocationPoint } from '../types';
+import { ContactStats, getPointsContactStats } from './contactService';
+
+// Also applies to points saved before modes existed
+export const DEFAULT_COUNT_MODE: CountMode = 'both';
+
+export const COUNT_MODES: { mode: CountMode; label: string; hint: string }[] = [
+  { mode: 'manual', label: 'يدوي', hint: 'العدد المدخل فقط' },
+  { mode: 'derived', label: 'من القائمة', hint: 'عدد الأسماء المدخلة' },
+  { mode: 'both', label: 'كلاهما', hint: 'الأسماء المدخلة مقابل العدد المتوقع' },
+];
+
+export const isCountMode = (value: unknown): value is CountMode =>
+  COUNT_MODES.some(({ mode }) => mode === value);
+
+export const getCountMode = (point: LocationPoint): CountMode => point.countMode ?? DEFAULT_COUNT_MODE;
+
+export const getEnteredCount = (point: LocationPoint) => point.voters?.length ?? 0;
+
+/**
+ * The number that stands for the school in totals, exports and analysis:
+ * the roll size in derived mode, the registered count otherwise.
+ */
+export const getVoterTotal = (point: LocationPoint) =>
+  getCountMode(point) === 'derived' ? getEnteredCount(point) : point.count;
+
+export interface Coverage {
+  entered: number;
+  expected: number;
+  // 0..1 for the progress bar; entered above expected is reported by `isOver`
+  ratio: number;
+  isOver: boolean;
+}
+
+const toCoverage = (entered: number, expected: number): Coverage => ({
+  entered,
+  expected,
+  ratio: expected > 0 ? Math.min(entered / expected, 1) : entered > 0 ? 1 : 0,
+  isOver: entered > expected,
+});
+
+// Only schools in "both" mode track coverage
+export const getCoverage = (point: LocationPoint): Coverage | null =>
+  getCountMode(point) === 'both' ? toCoverage(getEnteredCount(point), point.count) : null;
+
+// Overall coverage of the schools that track it
+export const getTotalCoverage = (points: LocationPoint[]): Coverage | null => {
+  const tracked = points.filter(p => getCountMode(p) === 'both');
+  if (tracked.length === 0) return null;
+  return toCoverage(
+    tracked.reduce((sum, p) => sum + getEnteredCount(p), 0),
+    tracked.reduce((sum, p) => sum + p.count, 0)
+  );
+};
+
+// Totals for a group of schools (a district, a drawn area, ...)
+export interface PointsSummary {
+  points: LocationPoint[];
+  total: number;
+  entered: number;
+  contact: ContactStats;
+}
+
+export const summarizePoints = (points: LocationPoint[]): PointsSummary => ({
+  points,
+  total: points.reduce((sum, p) => sum + getVoterTotal(p), 0),
+  entered: points.reduce((sum, p) => sum + getEnteredCount(p), 0),
+  contact: getPointsContactStats(points),
+});
+
+export interface DistrictSummary extends PointsSummary {
+  // As typed on the schools; '' for schools without one
+  district: string;
+}
+
+// One summary per typed district, biggest first
+export const summarizeByDistrict = (points: LocationPoint[]): DistrictSummary[] => {
+  const byDistrict = new Map<string, LocationPoint[]>();
+  points.forEach(p => {
+    const district = p.district.trim();
+    byDistrict.set(district, [...(byDistrict.get(district) || []), p]);
+  });
+  return [...byDistrict.entries()]
+    .map(([district, members]) => ({ district, ...summarizePoints(members) }))
+    .sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { makePoint } from '../test/fixtures';
+import { DistrictBoundary, Ring } from '../types';
+import { findBoundaryAt, getDistrictStats, isInBoundary, matchDistrictName, parseBoundaryGeoJson } from './districtService';
+
+const box = (west: number, south: number, east: number, north: number): Ring =>
+  [[west, south], [east, south], [east, north], [west, north], [west, south]];
+
+// Karkh with a hole cut out of it, and a second part further west
+const karkh: DistrictBoundary = { id: 'karkh', name: 'الكرخ', polygons: [[box(44, 33, 45, 34), box(44.4, 33.4, 44.6, 33.6)], [box(43, 33, 43.5, 33.5)]] };
+const rusafa: DistrictBoundary = { id: 'rusafa', name: 'الرصافة', polygons: [[box(45, 33, 46, 34)]] };
+
+describe('isInBoundary', () => {
+  it('counts every part of a multipolygon and leaves holes out', () => {
+    expect(isInBoundary(33.2, 44.2, karkh)).toBe(true);
+    expect(isInBoundary(33.25, 43.25, karkh)).toBe(true);
+    expect(isInBoundary(33.5, 44.5, karkh)).toBe(false);
+    expect(isInBoundary(33.5, 45.5, karkh)).toBe(false);
+  });
+
+  it('finds the boundary a location falls in', () => {
+    expect(findBoundaryAt(33.5, 45.5, [karkh, rusafa])?.id).toBe('rusafa');
+    expect(findBoundaryAt(33.5, 44.5, [karkh, rusafa])).toBeUndefined();
+  });
+});
+
+describe('district matching', () => {
+  const data = { boundaries: [karkh, rusafa], aliases: { كرخ: 'karkh' } };
+
+  it('matches typed names by alias or normalized name', () => {
+    expect(matchDistrictName('كرخ', data)?.id).toBe('karkh');
+    expect(matchDistrictName('الرصافه', data)?.id).toBe('rusafa');
+    expect(matchDistrictName(' ', data)).toBeUndefined();
+  });
+
+  it('counts schools by typed district first, then by location', () => {
+    const points = [
+      makePoint('typed', { district: 'كرخ', lat: 33.5, lng: 45.5, count: 10 }),
+      makePoint('located', { district: '', lat: 33.5, lng: 45.5, count: 20 }),
+      makePoint('nowhere', { district: 'المريخ', lat: 40, lng: 40, count: 30 }),
+    ];
+    const stats = getDistrictStats(points, data);
+    expect(stats.get('karkh')?.total).toBe(10);
+    expect(stats.get('rusafa')?.total).toBe(20);
+  });
+});
+
+describe('parseBoundaryGeoJson', () => {
+  it('reads polygons and multipolygons and suggests the Arabic name property', () => {
+    const parsed = parseBoundaryGeoJson(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { name_ar: 'الكرخ', NAME: 'Karkh' }, geometry: { type: 'Polygon', coordinates: [box(44, 33, 45, 34)] } },
+        { type: 'Feature', properties: { name_ar: 'الرصافة' }, geometry: { type: 'MultiPolygon', coordinates: [[box(45, 33, 46, 34)], [box(46, 33, 47, 34)]] } },
+        { type: 'Feature', properties: { name_ar: 'نقطة' }, geometry: { type: 'Point', coordinates: [44, 33] } },
+      ],
+    }));
+    expect(parsed.features.map(f => f.polygons.length)).toEqual([1, 2]);
+    expect(parsed.suggestedNameProperty).toBe('name_ar');
+  });
+
+  it('rejects files without polygons', () => {
+    expect(() => parseBoundaryGeoJson('not json')).toThrow('GeoJSON');
+    expect(() => parseBoundaryGeoJson(JSON.stringify({ type: 'FeatureCollection', features: [] }))).toThrow('Polygon');
+  });
+});
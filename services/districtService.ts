@@ -0,0 +1,138 @@
+import { DistrictBoundaries, DistrictBoundary, LocationPoint, Ring } from '../types';
+import { PointsSummary, summarizePoints } from './coverageService';
+import { isInRing } from './geoService';
+import { loadLocalValue, saveLocalValue } from './storageService';
+import { nameKey } from './textService';
+
+const BOUNDARIES_KEY = 'districtBoundaries';
+
+// Properties commonly holding the district name in OCHA / GADM / OSM exports, Arabic first
+const NAME_PROPERTY_CANDIDATES = [
+  'name_ar', 'NAME_AR', 'ADM3_AR', 'ADM2_AR', 'ADM1_AR', 'name:ar',
+  'name', 'NAME', 'Name', 'district', 'District', 'NAME_3', 'NAME_2', 'ADM3_EN', 'ADM2_EN',
+];
+
+export const EMPTY_BOUNDARIES: DistrictBoundaries = { boundaries: [], aliases: {} };
+
+export interface ParsedBoundaryFile {
+  features: { properties: Record<string, unknown>; polygons: Ring[][] }[];
+  // Text/number properties found on the features, to pick the name from
+  propertyKeys: string[];
+  suggestedNameProperty: string;
+}
+
+const isRing = (ring: unknown): ring is Ring =>
+  Array.isArray(ring) && ring.length >= 4 && ring.every(c => Array.isArray(c) && Number.isFinite(c[0]) && Number.isFinite(c[1]));
+
+const toPolygons = (geometry: any): Ring[][] => {
+  if (geometry?.type === 'Polygon') return [geometry.coordinates];
+  if (geometry?.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+};
+
+/**
+ * Reads the Polygon / MultiPolygon features of an uploaded GeoJSON file.
+ * Throws an Error with a user-facing message when nothing usable is found.
+ */
+export const parseBoundaryGeoJson = (text: string): ParsedBoundaryFile => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('الملف ليس بصيغة GeoJSON صالحة.');
+  }
+
+  const rawFeatures: any[] = data?.type === 'FeatureCollection' ? data.features || [] : data?.type === 'Feature' ? [data] : [];
+  const features = rawFeatures
+    .map(f => ({
+      properties: f?.properties && typeof f.properties === 'object' ? f.properties : {},
+      polygons: toPolygons(f?.geometry)
+        .map((polygon: unknown) => (Array.isArray(polygon) ? polygon.filter(isRing) : []))
+        .filter((polygon: Ring[]) => polygon.length > 0),
+    }))
+    .filter(f => f.polygons.length > 0);
+
+  if (features.length === 0) {
+    throw new Error('لم يتم العثور على مضلعات (Polygon) في الملف.');
+  }
+
+  const propertyKeys = Array.from(new Set(features.flatMap(f =>
+    Object.keys(f.properties).filter(key => ['string', 'number'].includes(typeof f.properties[key]))
+  )));
+
+  return {
+    features,
+    propertyKeys,
+    suggestedNameProperty: NAME_PROPERTY_CANDIDATES.find(key => propertyKeys.includes(key)) ?? propertyKeys[0] ?? '',
+  };
+};
+
+export const buildBoundaries = (parsed: ParsedBoundaryFile, nameProperty: string): DistrictBoundary[] =>
+  parsed.features.map((f, i) => ({
+    id: crypto.randomUUID(),
+    name: String(f.properties[nameProperty] ?? '').trim() || `منطقة ${i + 1}`,
+    polygons: f.polygons,
+  }));
+
+export const isInBoundary = (lat: number, lng: number, boundary: DistrictBoundary) =>
+  boundary.polygons.some(([outer, ...holes]) => isInRing(lat, lng, outer) && !holes.some(hole => isInRing(lat, lng, hole)));
+
+export const findBoundaryAt = (lat: number, lng: number, boundaries: DistrictBoundary[]) =>
+  boundaries.find(b => isInBoundary(lat, lng, b));
+
+// Mapped alias first, then a boundary with the same normalized name
+export const matchDistrictName = (district: string, data: DistrictBoundaries): DistrictBoundary | undefined => {
+  const key = nameKey(district);
+  if (!key) return undefined;
+  const aliasId = data.aliases[key];
+  return data.boundaries.find(b => b.id === aliasId) ?? data.boundaries.find(b => nameKey(b.name) === key);
+};
+
+/**
+ * The boundary a school counts towards: its typed district when that is
+ * matched to a boundary, otherwise the boundary its location falls in.
+ */
+export const resolvePointBoundary = (point: LocationPoint, data: DistrictBoundaries) =>
+  matchDistrictName(point.district, data) ?? findBoundaryAt(point.lat, point.lng, data.boundaries);
+
+export interface DistrictStats extends PointsSummary {
+  boundary: DistrictBoundary;
+}
+
+export const getDistrictStats = (points: LocationPoint[], data: DistrictBoundaries): Map<string, DistrictStats> => {
+  const byBoundary = new Map<string, LocationPoint[]>();
+  points.forEach(point => {
+    const boundary = resolvePointBoundary(point, data);
+    if (boundary) byBoundary.set(boundary.id, [...(byBoundary.get(boundary.id) || []), point]);
+  });
+
+  return new Map(data.boundaries.map(boundary => [
+    boundary.id,
+    { boundary, ...summarizePoints(byBoundary.get(boundary.id) || []) },
+  ]));
+};
+
+// Distinct free-text districts with how many schools use each
+export const getTypedDistricts = (points: LocationPoint[]) => {
+  const counts = new Map<string, number>();
+  points.forEach(p => {
+    const district = p.district.trim();
+    if (district) counts.set(district, (counts.get(district) || 0) + 1);
+  });
+  return [...counts.entries()].map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count);
+};
+
+export const sanitizeBoundaries = (raw: any): DistrictBoundaries => ({
+  boundaries: Array.isArray(raw?.boundaries)
+    ? raw.boundaries.filter((b: any) => b && typeof b.id === 'string' && typeof b.name === 'string' && Array.isArray(b.polygons))
+    : [],
+  aliases: raw?.aliases && typeof raw.aliases === 'object'
+    ? Object.fromEntries(Object.entries(raw.aliases).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : {},
+});
+
+export const loadDistrictBoundaries = async (): Promise<DistrictBoundaries> =>
+  sanitizeBoundaries(await loadLocalValue(BOUNDARIES_KEY));
+
+export const saveDistrictBoundaries = (data: DistrictBoundaries) =>
+  saveLocalValue(BOUNDARIES_KEY, data.boundaries.length ? data : undefined);
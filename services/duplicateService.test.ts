@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { makePoint, makeVoter } from '../test/fixtures';
+import { createDuplicateIndex, findDuplicateGroups, findVoterMatches, mergeVoterRecords, phoneKey } from './duplicateService';
+
+describe('phoneKey', () => {
+  it('compares Iraqi mobiles in any written form and keeps other numbers as digits', () => {
+    expect(phoneKey('+964 770 123 4567')).toBe(phoneKey('07701234567'));
+    expect(phoneKey('01-7654321')).toBe('017654321');
+    expect(phoneKey(' ')).toBe('');
+  });
+});
+
+describe('findVoterMatches', () => {
+  const points = [
+    makePoint('a', { name: 'مدرسة الرشيد', voters: [makeVoter('v1', { fullName: 'أحمد عبد الله', phoneNumber: '07701234567' })] }),
+    makePoint('b', { name: 'مدرسة بغداد', voters: [makeVoter('v2', { fullName: 'علي حسن', phoneNumber: '+9647701234567' })] }),
+  ];
+
+  it('matches normalized names and phones across schools', () => {
+    const matches = findVoterMatches({ fullName: 'احمد عبدالله', phoneNumber: '0770 123 4567' }, points);
+    expect(matches.map(m => [m.voter.id, m.schoolName, m.reasons])).toEqual([
+      ['v1', 'مدرسة الرشيد', ['name', 'phone']],
+      ['v2', 'مدرسة بغداد', ['phone']],
+    ]);
+  });
+
+  it('skips the voter being edited and blank phones', () => {
+    expect(findVoterMatches({ fullName: 'علي حسن', phoneNumber: '' }, points, 'v2')).toEqual([]);
+  });
+
+  it('answers the same from the index', () => {
+    const index = createDuplicateIndex(points);
+    expect(index.byName('احمد عبدالله').map(e => e.voter.id)).toEqual(['v1']);
+    expect(index.byPhone('7701234567').map(e => e.voter.id)).toEqual(['v1', 'v2']);
+    expect(index.byPhone('')).toEqual([]);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('joins voters linked through a chain of names and phones', () => {
+    const points = [
+      makePoint('a', { voters: [
+        makeVoter('v1', { fullName: 'علي حسن', phoneNumber: '07701111111', createdAt: 3 }),
+        makeVoter('v2', { fullName: 'كريم جاسم', phoneNumber: '07701111111', createdAt: 1 }),
+      ] }),
+      makePoint('b', { voters: [
+        makeVoter('v3', { fullName: 'كريم  جاسم', phoneNumber: '', createdAt: 2 }),
+        makeVoter('v4', { fullName: 'زينب علي', phoneNumber: '07702222222' }),
+      ] }),
+    ];
+
+    const groups = findDuplicateGroups(points);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].id).toBe('v1|v2|v3');
+    expect([...groups[0].reasons].sort()).toEqual(['name', 'phone']);
+    // Oldest first, so the original record is offered as the one to keep
+    expect(groups[0].entries.map(e => e.voter.id)).toEqual(['v2', 'v3', 'v1']);
+    expect(groups[0].entries.map(e => e.schoolId)).toEqual(['a', 'b', 'a']);
+  });
+
+  it('keeps separate groups apart', () => {
+    const points = [makePoint('a', { voters: [
+      makeVoter('v1', { fullName: 'علي' }),
+      makeVoter('v2', { fullName: 'علي' }),
+      makeVoter('v3', { fullName: 'حسن', phoneNumber: '07703333333' }),
+      makeVoter('v4', { fullName: 'حسين', phoneNumber: '07703333333' }),
+      makeVoter('v5', { fullName: 'زينب' }),
+    ] })];
+    const groups = findDuplicateGroups(points);
+    expect(groups.map(g => [g.id, g.reasons])).toEqual([['v1|v2', ['name']], ['v3|v4', ['phone']]]);
+  });
+});
+
+describe('mergeVoterRecords', () => {
+  it('keeps the kept values and fills the gaps from the duplicates', () => {
+    const keep = makeVoter('v1', { phoneNumber: '', notes: 'مؤيد', tags: ['أ'], customFields: { tribe: 'الجبور' }, contactLog: [{ id: 'c2', at: 20, status: 'contacted' }] });
+    const other = makeVoter('v2', { phoneNumber: '07701234567', address: 'الكرادة', notes: 'متطوع', tags: ['أ', 'ب'], customFields: { tribe: 'العبيد', family: '5' }, status: 'supporter', contactLog: [{ id: 'c1', at: 10, status: 'supporter' }] });
+
+    expect(mergeVoterRecords(keep, [other])).toMatchObject({
+      id: 'v1',
+      fullName: keep.fullName,
+      phoneNumber: '07701234567',
+      address: 'الكرادة',
+      notes: 'مؤيد\nمتطوع',
+      tags: ['أ', 'ب'],
+      customFields: { tribe: 'الجبور', family: '5' },
+      status: 'supporter',
+      contactLog: [{ id: 'c1', at: 10, status: 'supporter' }, { id: 'c2', at: 20, status: 'contacted' }],
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { LocationPoint, Voter } from '../types';
+import { nameKey } from './textService';
+import { normalizeIraqiPhone, toWesternDigits } from './voterService';
+
+export type DuplicateReason = 'name' | 'phone';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  name: 'نفس الاسم',
+  phone: 'نفس رقم الهاتف',
+};
+
+// A voter together with the school it is registered in
+export interface VoterEntry {
+  voter: Voter;
+  schoolId: string;
+  schoolName: string;
+}
+
+export interface DuplicateMatch extends VoterEntry {
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateGroup {
+  // Stable while the group's members don't change
+  id: string;
+  reasons: DuplicateReason[];
+  entries: VoterEntry[];
+}
+
+export const phoneKey = (phone: string) => {
+  if (!phone.trim()) return '';
+  return normalizeIraqiPhone(phone) ?? toWesternDigits(phone).replace(/\D/g, '');
+};
+
+const listEntries = (points: LocationPoint[]): VoterEntry[] =>
+  points.flatMap(p => (p.voters || []).map(voter => ({ voter, schoolId: p.id, schoolName: p.name })));
+
+/**
+ * Voters anywhere in the project that look like the given one (same phone or
+ * same normalized name). `excludeVoterId` skips the voter being edited.
+ */
+export const findVoterMatches = (
+  candidate: Pick<Voter, 'fullName' | 'phoneNumber'>,
+  points: LocationPoint[],
+  excludeVoterId?: string
+): DuplicateMatch[] => {
+  const name = nameKey(candidate.fullName);
+  const phone = phoneKey(candidate.phoneNumber);
+
+  return listEntries(points)
+    .filter(entry => entry.voter.id !== excludeVoterId)
+    .map(entry => {
+      const reasons: DuplicateReason[] = [];
+      if (name && nameKey(entry.voter.fullName) === name) reasons.push('name');
+      if (phone && phoneKey(entry.voter.phoneNumber) === phone) reasons.push('phone');
+      return { ...entry, reasons };
+    })
+    .filter(match => match.reasons.length > 0);
+};
+
+/**
+ * Index for checking many candidates (e.g. an import) against the project
+ * without rescanning every voter per row.
+ */
+export const createDuplicateIndex = (points: LocationPoint[]) => {
+  const byName = new Map<string, VoterEntry[]>();
+  const byPhone = new Map<string, VoterEntry[]>();
+  const add = (map: Map<string, VoterEntry[]>, key: string, entry: VoterEntry) => {
+    if (key) map.set(key, [...(map.get(key) || []), entry]);
+  };
+  listEntries(points).forEach(entry => {
+    add(byName, nameKey(entry.voter.fullName), entry);
+    add(byPhone, phoneKey(entry.voter.phoneNumber), entry);
+  });
+
+  return {
+    byName: (fullName: string) => byName.get(nameKey(fullName)) || [],
+    byPhone: (phone: string) => byPhone.get(phoneKey(phone)) || [],
+  };
+};
+
+/**
+ * Groups every voter that shares a normalized name or phone with another,
+ * transitively (A~B by phone and B~C by name puts all three together).
+ */
+export const findDuplicateGroups = (points: LocationPoint[]): DuplicateGroup[] => {
+  const entries = listEntries(points);
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasonsByRoot = new Map<number, Set<DuplicateReason>>();
+  const links: [number, number, DuplicateReason][] = [];
+
+  (['name', 'phone'] as DuplicateReason[]).forEach(reason => {
+    const firstByKey = new Map<string, number>();
+    entries.forEach((entry, i) => {
+      const key = reason === 'name' ? nameKey(entry.voter.fullName) : phoneKey(entry.voter.phoneNumber);
+      if (!key) return;
+      const first = firstByKey.get(key);
+      if (first === undefined) firstByKey.set(key, i);
+      else links.push([first, i, reason]);
+    });
+  });
+
+  links.forEach(([a, b]) => {
+    parent[find(a)] = find(b);
+  });
+  links.forEach(([a, , reason]) => {
+    const root = find(a);
+    reasonsByRoot.set(root, (reasonsByRoot.get(root) || new Set()).add(reason));
+  });
+
+  const groups = new Map<number, VoterEntry[]>();
+  entries.forEach((entry, i) => {
+    const root = find(i);
+    if (reasonsByRoot.has(root)) groups.set(root, [...(groups.get(root) || []), entry]);
+  });
+
+  return [...groups.entries()].map(([root, members]) => ({
+    id: members.map(m => m.voter.id).sort().join('|'),
+    reasons: [...reasonsByRoot.get(root)!],
+    entries: [...members].sort((a, b) => a.voter.createdAt - b.voter.createdAt),
+  }));
+};
+
+/**
+ * Folds duplicates into the voter being kept: its own values win, empty fields
+ * are filled from the others, tags and custom fields are united, notes are
+ * concatenated and contact logs are interleaved by time.
+ */
+export const mergeVoterRecords = (keep: Voter, others: Voter[]): Voter => others.reduce<Voter>((merged, other) => {
+  const tags = Array.from(new Set([...(merged.tags || []), ...(other.tags || [])]));
+  return {
+    ...merged,
+    phoneNumber: merged.phoneNumber || other.phoneNumber,
+    nationalId: merged.nationalId || other.nationalId,
+    gender: merged.gender || other.gender,
+    birthYear: merged.birthYear || other.birthYear,
+    address: merged.address || other.address,
+    notes: Array.from(new Set([merged.notes, other.notes].filter(Boolean))).join('\n') || undefined,
+    tags: tags.length ? tags : undefined,
+    customFields: merged.customFields || other.customFields ? { ...other.customFields, ...merged.customFields } : undefined,
+    status: merged.status ?? other.status,
+    contactLog: merged.contactLog || other.contactLog
+      ? [...(merged.contactLog || []), ...(other.contactLog || [])].sort((a, b) => a.at - b.at)
+      : undefined,
+  };
+}, keep);
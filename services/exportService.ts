@@ -0,0 +1,174 @@
+import * as XLSX from 'xlsx';
+import { CustomFieldDefinition, LocationPoint, Voter } from '../types';
+import { getEnteredCount, getVoterTotal } from './coverageService';
+import { GENDER_LABELS } from './voterService';
+import { STATUS_INFO, getVoterStatus } from './contactService';
+
+export type PointExportFormat = 'csv' | 'xlsx' | 'geojson' | 'kml';
+export type VoterExportLayout = 'flat' | 'per-school';
+
+// Column headers for the points sheet (kept in Arabic to match the import aliases)
+const POINT_HEADERS = ['اسم المدرسة', 'المنطقة', 'عدد الناخبين', 'الناخبين المسجلين', 'lat', 'lng', 'تاريخ الإضافة'];
+const VOTER_HEADERS = ['اسم الناخب', 'رقم الهاتف', 'رقم الهوية', 'الجنس', 'سنة الميلاد', 'العنوان', 'الوسوم', 'ملاحظات', 'الحالة', 'آخر اتصال', 'تاريخ الإضافة'];
+
+const formatDate = (timestamp: number) => new Date(timestamp).toISOString();
+
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Date stamp used in exported file names, e.g. voter-map-2024-05-01
+export const fileStamp = () => new Date().toISOString().slice(0, 10);
+
+const pointRows = (points: LocationPoint[]) => points.map(p => [
+  p.name,
+  p.district,
+  getVoterTotal(p),
+  getEnteredCount(p),
+  p.lat,
+  p.lng,
+  formatDate(p.createdAt),
+]);
+
+// Spreadsheets run text starting with one of these as a formula, so an imported
+// name like "=HYPERLINK(...)" would execute when the export is opened. A leading
+// apostrophe makes Excel and LibreOffice show it as plain text instead.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const neutralizeFormula = (value: unknown) =>
+  typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : value;
+
+const escapeCsv = (value: unknown) => {
+  const text = String(neutralizeFormula(value) ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]) =>
+  // BOM so Excel opens the Arabic text as UTF-8
+  '\uFEFF' + rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+
+// Excel limits sheet names to 31 chars and forbids a few characters; names must also be unique
+const safeSheetName = (name: string, used: Set<string>) => {
+  const base = (name.replace(/[\\/?*[\]:]/g, ' ').trim() || 'Sheet').slice(0, 28);
+  let candidate = base;
+  for (let i = 2; used.has(candidate); i++) candidate = `${base} ${i}`;
+  used.add(candidate);
+  return candidate;
+};
+
+const writeWorkbook = (sheets: { name: string; rows: unknown[][] }[]) => {
+  const workbook = XLSX.utils.book_new();
+  workbook.Workbook = { Views: [{ RTL: true }] };
+  const used = new Set<string>();
+  sheets.forEach(({ name, rows }) => {
+    const safeRows = rows.map(row => row.map(neutralizeFormula));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(safeRows), safeSheetName(name, used));
+  });
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer;
+};
+
+export const toGeoJson = (points: LocationPoint[]) => JSON.stringify({
+  type: 'FeatureCollection',
+  features: points.map(p => ({
+    type: 'Feature',
+    id: p.id,
+    geometry: { type: 'Point', coordinates: [p.lng, p.lat] },
+    properties: {
+      name: p.name,
+      district: p.district,
+      count: getVoterTotal(p),
+      voterCount: getEnteredCount(p),
+      createdAt: formatDate(p.createdAt),
+    },
+  })),
+}, null, 2);
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const toKml = (points: LocationPoint[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>خريطة الناخبين</name>
+${points.map(p => `    <Placemark>
+      <name>${escapeXml(p.name)}</name>
+      <description>${escapeXml(`${p.district || '—'} • عدد الناخبين: ${getVoterTotal(p)}`)}</description>
+      <ExtendedData>
+        <Data name="district"><value>${escapeXml(p.district || '')}</value></Data>
+        <Data name="count"><value>${getVoterTotal(p)}</value></Data>
+        <Data name="voterCount"><value>${getEnteredCount(p)}</value></Data>
+      </ExtendedData>
+      <Point><coordinates>${p.lng},${p.lat},0</coordinates></Point>
+    </Placemark>`).join('\n')}
+  </Document>
+</kml>
+`;
+
+export const exportPoints = (points: LocationPoint[], format: PointExportFormat) => {
+  const baseName = `voter-map-${fileStamp()}`;
+  switch (format) {
+    case 'csv':
+      downloadFile(toCsv([POINT_HEADERS, ...pointRows(points)]), `${baseName}.csv`, 'text/csv;charset=utf-8');
+      break;
+    case 'xlsx':
+      downloadFile(
+        writeWorkbook([{ name: 'المدارس', rows: [POINT_HEADERS, ...pointRows(points)] }]),
+        `${baseName}.xlsx`,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+      break;
+    case 'geojson':
+      downloadFile(toGeoJson(points), `${baseName}.geojson`, 'application/geo+json');
+      break;
+    case 'kml':
+      downloadFile(toKml(points), `${baseName}.kml`, 'application/vnd.google-earth.kml+xml');
+      break;
+  }
+};
+
+export const exportVoters = (points: LocationPoint[], layout: VoterExportLayout, fields: CustomFieldDefinition[] = []) => {
+  const withVoters = points.filter(p => p.voters && p.voters.length > 0);
+  const headers = [...VOTER_HEADERS, ...fields.map(f => f.label)];
+  const voterRow = (v: Voter) => [
+    v.fullName,
+    v.phoneNumber,
+    v.nationalId || '',
+    v.gender ? GENDER_LABELS[v.gender] : '',
+    v.birthYear || '',
+    v.address || '',
+    (v.tags || []).join('، '),
+    v.notes || '',
+    STATUS_INFO[getVoterStatus(v)].label,
+    v.contactLog?.length ? formatDate(v.contactLog[v.contactLog.length - 1].at) : '',
+    formatDate(v.createdAt),
+    ...fields.map(f => v.customFields?.[f.id] || ''),
+  ];
+
+  const sheets = layout === 'flat'
+    ? [{
+      name: 'الناخبين',
+      rows: [
+        ['اسم المدرسة', 'المنطقة', ...headers],
+        ...withVoters.flatMap(p => p.voters!.map(v => [p.name, p.district, ...voterRow(v)])),
+      ],
+    }]
+    : withVoters.map(p => ({
+      name: p.name,
+      rows: [headers, ...p.voters!.map(voterRow)],
+    }));
+
+  downloadFile(
+    writeWorkbook(sheets),
+    `voters-${fileStamp()}.xlsx`,
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { makePoint } from '../test/fixtures';
+import { ANALYSIS_MODEL, AnalysisClient, analyzePopulationDistribution } from './geminiService';
+
+const fakeClient = (generateContent: AnalysisClient['generateContent']) => ({ generateContent: vi.fn(generateContent) });
+
+describe('analyzePopulationDistribution', () => {
+  const points = [
+    makePoint('a', { name: 'مدرسة الرشيد', district: 'الكرخ', count: 120 }),
+    makePoint('b', { name: 'مدرسة بغداد', district: '', count: 40 }),
+  ];
+
+  it('sends every school with its district and voter total to the model', async () => {
+    const client = fakeClient(async () => ({ text: 'تقرير' }));
+    await expect(analyzePopulationDistribution(points, client)).resolves.toBe('تقرير');
+
+    expect(client.generateContent).toHaveBeenCalledTimes(1);
+    const [{ model, contents }] = client.generateContent.mock.calls[0];
+    expect(model).toBe(ANALYSIS_MODEL);
+    expect(contents).toContain('المدرسة: مدرسة الرشيد, المنطقة: الكرخ, عدد الناخبين: 120');
+    expect(contents).toContain('المدرسة: مدرسة بغداد, المنطقة: غير محدد, عدد الناخبين: 40');
+  });
+
+  it('does not call the model without points', async () => {
+    const client = fakeClient(async () => ({ text: 'تقرير' }));
+    await expect(analyzePopulationDistribution([], client)).resolves.toContain('لا توجد نقاط');
+    expect(client.generateContent).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a message when the model returns no text', async () => {
+    await expect(analyzePopulationDistribution(points, fakeClient(async () => ({})))).resolves.toBe('لم يتم استلام رد من النموذج.');
+  });
+
+  it('turns client failures into a user-facing error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const client = fakeClient(async () => { throw new Error('503 Service Unavailable'); });
+    await expect(analyzePopulationDistribution(points, client)).rejects.toThrow('حدث خطأ أثناء محاولة تحليل البيانات');
+  });
+});
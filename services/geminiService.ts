@@ -1,16 +1,41 @@
 import { GoogleGenAI } from "@google/genai";
 import { LocationPoint } from "../types";
+import { getVoterTotal } from "./coverageService";
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Minimal surface of the Gemini SDK used by the analysis.
+// Anything matching this shape (e.g. a local mock) can stand in for the live API.
+export interface AnalysisClient {
+  generateContent: (params: { model: string; contents: string }) => Promise<{ text?: string }>;
+}
 
-export const analyzePopulationDistribution = async (points: LocationPoint[]): Promise<string> => {
+export const ANALYSIS_MODEL = 'gemini-3-flash-preview';
+
+// Initialize Gemini Client lazily so a missing API key doesn't break the app on load.
+// GEMINI_BASE_URL can point the SDK at a local mock server instead of the live API.
+let defaultClient: AnalysisClient | null = null;
+
+export const getDefaultAnalysisClient = (): AnalysisClient => {
+  if (!defaultClient) {
+    const baseUrl = process.env.GEMINI_BASE_URL;
+    const ai = new GoogleGenAI({
+      apiKey: process.env.API_KEY,
+      ...(baseUrl ? { httpOptions: { baseUrl } } : {})
+    });
+    defaultClient = { generateContent: (params) => ai.models.generateContent(params) };
+  }
+  return defaultClient;
+};
+
+export const analyzePopulationDistribution = async (
+  points: LocationPoint[],
+  client: AnalysisClient = getDefaultAnalysisClient()
+): Promise<string> => {
   if (points.length === 0) {
     return "لا توجد نقاط لتحليلها. يرجى إضافة بعض النقاط على الخريطة.";
   }
 
   // Prepare the data prompt
-  const dataString = points.map(p => `- المدرسة: ${p.name}, المنطقة: ${p.district || 'غير محدد'}, عدد الناخبين: ${p.count}`).join('\n');
+  const dataString = points.map(p => `- المدرسة: ${p.name}, المنطقة: ${p.district || 'غير محدد'}, عدد الناخبين: ${getVoterTotal(p)}`).join('\n');
 
   const prompt = `
     أنت خبير في التخطيط العمراني وتحليل البيانات الانتخابية.
@@ -21,19 +46,20 @@ export const analyzePopulationDistribution = async (points: LocationPoint[]): Pr
     1. قدم ملخصاً إحصائياً بسيطاً (المجموع الكلي للناخبين).
     2. حدد المدرسة/المنطقة التي تحتوي على أكبر كثافة/عدد.
     3. قدم استنتاجاً قصيراً أو توصية بناءً على هذا التوزيع.
-    
+
     اكتب الرد باللغة العربية بأسلوب احترافي وواضح.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+    const response = await client.generateContent({
+      model: ANALYSIS_MODEL,
       contents: prompt,
     });
 
     return response.text || "لم يتم استلام رد من النموذج.";
   } catch (error) {
+    // Re-throw with a user-facing message so callers can show an error state
     console.error("Gemini Analysis Error:", error);
-    return "حدث خطأ أثناء محاولة تحليل البيانات بواسطة الذكاء الاصطناعي.";
+    throw new Error("حدث خطأ أثناء محاولة تحليل البيانات بواسطة الذكاء الاصطناعي.");
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Ring } from '../types';
+import { distanceMeters, isInRing } from './geoService';
+
+// [lng, lat], closed as in GeoJSON
+const square: Ring = [[44, 33], [45, 33], [45, 34], [44, 34], [44, 33]];
+// An L shape whose notch (44.5-45, 33.5-34) is outside
+const lShape: Ring = [[44, 33], [45, 33], [45, 33.5], [44.5, 33.5], [44.5, 34], [44, 34], [44, 33]];
+
+describe('isInRing', () => {
+  it('finds points inside and outside a square', () => {
+    expect(isInRing(33.5, 44.5, square)).toBe(true);
+    expect(isInRing(34.5, 44.5, square)).toBe(false);
+    expect(isInRing(33.5, 43.9, square)).toBe(false);
+  });
+
+  it('handles concave rings', () => {
+    expect(isInRing(33.25, 44.75, lShape)).toBe(true);
+    expect(isInRing(33.75, 44.25, lShape)).toBe(true);
+    expect(isInRing(33.75, 44.75, lShape)).toBe(false);
+  });
+
+  it('does not depend on winding order or the ring being closed', () => {
+    expect(isInRing(33.5, 44.5, [...square].reverse())).toBe(true);
+    expect(isInRing(33.5, 44.5, square.slice(0, -1))).toBe(true);
+  });
+
+  it('reads rings as [lng, lat]', () => {
+    const tall: Ring = [[44, 30], [44.1, 30], [44.1, 40], [44, 40], [44, 30]];
+    expect(isInRing(35, 44.05, tall)).toBe(true);
+    expect(isInRing(44.05, 35, tall)).toBe(false);
+  });
+
+  it('treats degenerate rings as empty', () => {
+    expect(isInRing(33, 44, [])).toBe(false);
+    expect(isInRing(33, 44, [[44, 33], [44, 33]])).toBe(false);
+  });
+});
+
+describe('distanceMeters', () => {
+  it('is zero for the same place and symmetric', () => {
+    const baghdad = { lat: 33.3152, lng: 44.3661 };
+    const basra = { lat: 30.5085, lng: 47.7804 };
+    expect(distanceMeters(baghdad, baghdad)).toBe(0);
+    expect(distanceMeters(baghdad, basra)).toBeCloseTo(distanceMeters(basra, baghdad), 6);
+    // About 450 km by great circle
+    expect(distanceMeters(baghdad, basra) / 1000).toBeCloseTo(450, -1);
+  });
+
+  it('measures one degree of latitude as about 111 km', () => {
+    expect(distanceMeters({ lat: 33, lng: 44 }, { lat: 34, lng: 44 })).toBeCloseTo(111195, -1);
+  });
+});
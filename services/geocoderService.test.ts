@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { getQueryVariants, parseGazetteer } from './geocoderService';
+
+describe('parseGazetteer', () => {
+  it('reads quoted CSV names that contain commas', () => {
+    expect(parseGazetteer('Name,Lat,Lng\n"الجادرية, بغداد",33.27,44.38\nبلا موقع,,\n')).toEqual([
+      { name: 'الجادرية, بغداد', lat: 33.27, lng: 44.38 },
+    ]);
+  });
+
+  it('reads GeoJSON points', () => {
+    const geojson = { features: [{ geometry: { type: 'Point', coordinates: [44.38, 33.27] }, properties: { 'name:ar': 'الجادرية' } }] };
+    expect(parseGazetteer(JSON.stringify(geojson))).toEqual([{ name: 'الجادرية', lat: 33.27, lng: 44.38, description: undefined }]);
+  });
+
+  it('asks for the missing columns', () => {
+    expect(() => parseGazetteer('title,x\nالجادرية,44.38')).toThrow('يجب أن يحتوي ملف CSV على أعمدة name و lat و lng.');
+  });
+});
+
+describe('getQueryVariants', () => {
+  it('starts with the query as typed inside the region', () => {
+    expect(getQueryVariants('ثانوية المنصور للبنات')).toEqual([
+      { query: 'ثانوية المنصور للبنات', bounded: true },
+      { query: 'ثانوية المنصور للبنات', bounded: false },
+      { query: 'المنصور', bounded: true },
+      { query: 'المنصور', bounded: false },
+      { query: 'مدرسة ثانوية المنصور للبنات', bounded: true },
+    ]);
+  });
+});
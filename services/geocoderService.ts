@@ -0,0 +1,444 @@
+import { MapRegion } from '../types';
+import { loadLocalValue, saveLocalValue } from './storageService';
+import { normalizeArabic } from './textService';
+import { parseCsv } from './importService';
+
+export type GeocoderKind = 'nominatim' | 'overpass' | 'custom' | 'gazetteer';
+
+export interface GeocodeResult {
+  // Unique across providers, e.g. "nominatim:123"
+  id: string;
+  name: string;
+  // The rest of the display name (city, governorate, ...)
+  description: string;
+  lat: number;
+  lng: number;
+  // [[south, west], [north, east]]
+  bounds: [[number, number], [number, number]];
+  provider: GeocoderKind;
+}
+
+export interface GeocoderConfig {
+  // Providers are tried in this order; ones left out are switched off
+  order: GeocoderKind[];
+  nominatimUrl: string;
+  overpassUrl: string;
+  // A self-hosted Nominatim-compatible instance; unused while empty
+  customUrl: string;
+}
+
+export const GEOCODER_LABELS: Record<GeocoderKind, { label: string; hint: string }> = {
+  gazetteer: { label: 'ملف الأماكن المحلي', hint: 'قائمة أماكن مرفوعة على هذا الجهاز' },
+  custom: { label: 'خادم مخصص', hint: 'نسخة Nominatim خاصة بالفريق' },
+  nominatim: { label: 'Nominatim', hint: 'بحث OpenStreetMap العام (طلب واحد في الثانية)' },
+  overpass: { label: 'Overpass', hint: 'مطابقة تقريبية للأسماء داخل المنطقة' },
+};
+
+export const DEFAULT_GEOCODER_CONFIG: GeocoderConfig = {
+  order: ['gazetteer', 'custom', 'nominatim', 'overpass'],
+  nominatimUrl: process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+  overpassUrl: process.env.OVERPASS_URL || 'https://overpass-api.de/api/interpreter',
+  customUrl: process.env.GEOCODER_URL || '',
+};
+
+const GEOCODER_CONFIG_KEY = 'populationMapGeocoder';
+const CACHE_KEY = 'geocodeCache';
+const GAZETTEER_KEY = 'gazetteer';
+
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const CACHE_LIMIT = 500;
+const CACHE_SAVE_DELAY_MS = 2_000;
+// Nominatim's usage policy allows one request per second
+const PUBLIC_SERVICE_INTERVAL_MS = 1_000;
+const RESULT_LIMIT = 50;
+
+const isGeocoderKind = (value: unknown): value is GeocoderKind =>
+  typeof value === 'string' && Object.keys(GEOCODER_LABELS).includes(value);
+
+const isUrlSetting = (value: unknown): value is string => typeof value === 'string';
+
+export const sanitizeGeocoderConfig = (raw: any): GeocoderConfig => {
+  if (!raw || typeof raw !== 'object') return DEFAULT_GEOCODER_CONFIG;
+  return {
+    order: Array.isArray(raw.order) ? raw.order.filter(isGeocoderKind) : DEFAULT_GEOCODER_CONFIG.order,
+    nominatimUrl: isUrlSetting(raw.nominatimUrl) ? raw.nominatimUrl : DEFAULT_GEOCODER_CONFIG.nominatimUrl,
+    overpassUrl: isUrlSetting(raw.overpassUrl) ? raw.overpassUrl : DEFAULT_GEOCODER_CONFIG.overpassUrl,
+    customUrl: isUrlSetting(raw.customUrl) ? raw.customUrl : DEFAULT_GEOCODER_CONFIG.customUrl,
+  };
+};
+
+export const loadGeocoderConfig = (): GeocoderConfig => {
+  try {
+    return sanitizeGeocoderConfig(JSON.parse(localStorage.getItem(GEOCODER_CONFIG_KEY) || 'null'));
+  } catch (error) {
+    console.error('Error loading geocoder settings from localStorage:', error);
+    return DEFAULT_GEOCODER_CONFIG;
+  }
+};
+
+export const saveGeocoderConfig = (config: GeocoderConfig) => {
+  localStorage.setItem(GEOCODER_CONFIG_KEY, JSON.stringify(config));
+};
+
+// --- Throttling ---
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+const nextSlot = new Map<string, number>();
+
+// Runs `task` no sooner than `interval` ms after the previous task on the same key
+const throttled = async <T>(key: string, interval: number, signal: AbortSignal, task: () => Promise<T>): Promise<T> => {
+  const now = Date.now();
+  const previous = nextSlot.get(key) ?? 0;
+  const slot = Math.max(now, previous);
+  nextSlot.set(key, slot + interval);
+  if (slot > now) {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        // Hand the unused slot back so the next search doesn't wait for it,
+        // unless a later task has already queued behind it
+        if (nextSlot.get(key) === slot + interval) nextSlot.set(key, previous);
+        reject(abortError());
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, slot - now);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+  if (signal.aborted) throw abortError();
+  return task();
+};
+
+// --- Persistent cache ---
+
+interface CacheEntry {
+  at: number;
+  results: GeocodeResult[];
+}
+
+let cache: Promise<Map<string, CacheEntry>> | null = null;
+let cacheSaveTimer: ReturnType<typeof setTimeout> | undefined;
+
+const getCache = () => {
+  cache ??= loadLocalValue<[string, CacheEntry][]>(CACHE_KEY)
+    .then(entries => new Map((entries || []).filter(([, entry]) => Date.now() - entry.at < CACHE_TTL_MS)))
+    .catch(() => new Map<string, CacheEntry>());
+  return cache;
+};
+
+const scheduleCacheSave = (entries: Map<string, CacheEntry>) => {
+  clearTimeout(cacheSaveTimer);
+  cacheSaveTimer = setTimeout(() => {
+    // Map keeps insertion order, so the oldest entries are dropped first
+    saveLocalValue(CACHE_KEY, [...entries.entries()].slice(-CACHE_LIMIT)).catch(error => {
+      console.error('Error saving geocode cache:', error);
+    });
+  }, CACHE_SAVE_DELAY_MS);
+};
+
+export const clearGeocodeCache = async () => {
+  (await getCache()).clear();
+  await saveLocalValue(CACHE_KEY, undefined);
+};
+
+// --- Gazetteer (local place list) ---
+
+export interface GazetteerEntry {
+  name: string;
+  lat: number;
+  lng: number;
+  description?: string;
+}
+
+let gazetteer: Promise<GazetteerEntry[]> | null = null;
+
+const isGazetteerEntry = (e: any): e is GazetteerEntry =>
+  !!e && typeof e.name === 'string' && !!e.name && Number.isFinite(e.lat) && Number.isFinite(e.lng);
+
+export const sanitizeGazetteer = (raw: unknown): GazetteerEntry[] =>
+  Array.isArray(raw) ? raw.filter(isGazetteerEntry) : [];
+
+export const loadGazetteer = () => {
+  gazetteer ??= loadLocalValue<GazetteerEntry[]>(GAZETTEER_KEY).then(entries => entries || []).catch(() => []);
+  return gazetteer;
+};
+
+export const saveGazetteer = async (entries: GazetteerEntry[]) => {
+  gazetteer = Promise.resolve(entries);
+  await saveLocalValue(GAZETTEER_KEY, entries.length ? entries : undefined);
+};
+
+const NAME_COLUMNS = ['name_ar', 'name:ar', 'name', 'الاسم', 'اسم'];
+
+/**
+ * Reads a gazetteer from GeoJSON Point features or CSV with name / lat / lng
+ * columns. Throws an Error with a user-facing message when nothing usable is found.
+ */
+export const parseGazetteer = (text: string): GazetteerEntry[] => {
+  let entries: GazetteerEntry[];
+  if (text.trim().startsWith('{')) {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('الملف ليس بصيغة GeoJSON صالحة.');
+    }
+    entries = (data?.features || [])
+      .filter((f: any) => f?.geometry?.type === 'Point')
+      .map((f: any) => ({
+        name: String(NAME_COLUMNS.map(key => f.properties?.[key]).find(Boolean) ?? '').trim(),
+        lat: Number(f.geometry.coordinates[1]),
+        lng: Number(f.geometry.coordinates[0]),
+        description: typeof f.properties?.description === 'string' ? f.properties.description : undefined,
+      }));
+  } else {
+    // Same reader as the import, so quoted names with commas stay in one column
+    const { headers, rows } = parseCsv(text);
+    const findColumn = (names: string[]) => headers.find(h => names.includes(h.toLowerCase()));
+    const nameColumn = findColumn(NAME_COLUMNS);
+    const latColumn = findColumn(['lat', 'latitude', 'y']);
+    const lngColumn = findColumn(['lng', 'lon', 'long', 'longitude', 'x']);
+    if (!nameColumn || !latColumn || !lngColumn) {
+      throw new Error('يجب أن يحتوي ملف CSV على أعمدة name و lat و lng.');
+    }
+    // Blank cells would otherwise read as 0
+    const toCoordinate = (value: string) => (value ? Number(value) : NaN);
+    entries = rows.map(row => ({ name: row[nameColumn], lat: toCoordinate(row[latColumn]), lng: toCoordinate(row[lngColumn]) }));
+  }
+
+  const valid = entries.filter(isGazetteerEntry);
+  if (valid.length === 0) throw new Error('لم يتم العثور على أماكن صالحة في الملف.');
+  return valid;
+};
+
+// --- Providers ---
+
+interface SearchOptions {
+  // Restrict to the region box; false widens the search to the whole country
+  bounded: boolean;
+  region: MapRegion;
+  signal: AbortSignal;
+}
+
+interface GeocoderProvider {
+  kind: GeocoderKind;
+  // Identifies the endpoint in cache and throttle keys
+  endpoint: string;
+  // Providers that always search the region box are skipped by the wider passes
+  canWiden: boolean;
+  interval: number;
+  search: (query: string, options: SearchOptions) => Promise<GeocodeResult[]>;
+}
+
+const pointBounds = (lat: number, lng: number): GeocodeResult['bounds'] => [[lat - 0.001, lng - 0.001], [lat + 0.001, lng + 0.001]];
+
+const inRegion = (lat: number, lng: number, [south, west, north, east]: MapRegion['bbox']) =>
+  lat >= south && lat <= north && lng >= west && lng <= east;
+
+const nominatimProvider = (kind: GeocoderKind, endpoint: string, interval: number): GeocoderProvider => ({
+  kind,
+  endpoint,
+  canWiden: true,
+  interval,
+  search: async (query, { bounded, region, signal }) => {
+    const [south, west, north, east] = region.bbox;
+    const params = new URLSearchParams({
+      format: 'json',
+      q: query,
+      'accept-language': region.language,
+      limit: String(RESULT_LIMIT),
+      viewbox: `${west},${north},${east},${south}`,
+      bounded: bounded ? '1' : '0',
+    });
+    if (region.countryCode) params.set('countrycodes', region.countryCode);
+    const res = await fetch(`${endpoint.replace(/\/+$/, '')}/search?${params}`, { signal });
+    if (!res.ok) throw new Error(`Geocoder responded ${res.status}`);
+    const data: any[] = await res.json();
+    return data.map(place => {
+      const [name, ...rest] = String(place.display_name).split(',');
+      const [s, n, w, e] = (place.boundingbox || []).map(Number);
+      const lat = Number(place.lat);
+      const lng = Number(place.lon);
+      return {
+        id: `${kind}:${place.place_id}`,
+        name: name.trim(),
+        description: rest.join(',').trim(),
+        lat,
+        lng,
+        bounds: [s, n, w, e].every(Number.isFinite) ? [[s, w], [n, e]] : pointBounds(lat, lng),
+        provider: kind,
+      };
+    });
+  },
+});
+
+// Regex that tolerates the usual spelling variants of alef, taa marbuta and yaa
+const toArabicPattern = (text: string) => text
+  .replace(/[\\"]/g, '')
+  .replace(/[.*+?^${}()|[\]]/g, '\\$&')
+  .replace(/[اأإآ]/g, '[اأإآ]')
+  .replace(/[ةه]/g, '[ةه]')
+  .replace(/[يى]/g, '[يى]');
+
+const overpassProvider = (endpoint: string): GeocoderProvider => ({
+  kind: 'overpass',
+  endpoint,
+  canWiden: false,
+  interval: PUBLIC_SERVICE_INTERVAL_MS,
+  search: async (query, { region, signal }) => {
+    const [south, west, north, east] = region.bbox;
+    // Any name key or alt_name, case-insensitive
+    const overpassQuery = `
+      [out:json][timeout:25];
+      (
+        nwr[~"^name(:.*)?|alt_name$"~"${toArabicPattern(query)}",i](${south},${west},${north},${east});
+      );
+      out center;
+    `;
+    const res = await fetch(`${endpoint}?data=${encodeURIComponent(overpassQuery)}`, { signal });
+    if (!res.ok) throw new Error(`Overpass responded ${res.status}`);
+    const data = await res.json();
+    return (data.elements || [])
+      .map((el: any) => {
+        const lat = el.lat ?? el.center?.lat;
+        const lng = el.lon ?? el.center?.lon;
+        return {
+          id: `overpass:${el.type}/${el.id}`,
+          name: el.tags?.name || el.tags?.['name:ar'] || el.tags?.['name:en'] || 'مكان بدون اسم',
+          description: [el.tags?.['addr:street'], el.tags?.['addr:city']].filter(Boolean).join('، '),
+          lat,
+          lng,
+          bounds: pointBounds(lat, lng),
+          provider: 'overpass' as const,
+        };
+      })
+      .filter((r: GeocodeResult) => Number.isFinite(r.lat) && Number.isFinite(r.lng));
+  },
+});
+
+const gazetteerProvider: GeocoderProvider = {
+  kind: 'gazetteer',
+  endpoint: 'local',
+  canWiden: true,
+  interval: 0,
+  search: async (query, { bounded, region }) => {
+    const needle = normalizeArabic(query);
+    const entries = await loadGazetteer();
+    return entries
+      .filter(e => normalizeArabic(e.name).includes(needle) && (!bounded || inRegion(e.lat, e.lng, region.bbox)))
+      .slice(0, RESULT_LIMIT)
+      .map((e, i) => ({
+        id: `gazetteer:${i}:${e.name}`,
+        name: e.name,
+        description: e.description || '',
+        lat: e.lat,
+        lng: e.lng,
+        bounds: pointBounds(e.lat, e.lng),
+        provider: 'gazetteer' as const,
+      }));
+  },
+};
+
+const createProviders = (config: GeocoderConfig): GeocoderProvider[] => config.order.flatMap(kind => {
+  switch (kind) {
+    case 'nominatim': return [nominatimProvider('nominatim', config.nominatimUrl, PUBLIC_SERVICE_INTERVAL_MS)];
+    case 'custom': return config.customUrl.trim() ? [nominatimProvider('custom', config.customUrl.trim(), 0)] : [];
+    case 'overpass': return [overpassProvider(config.overpassUrl)];
+    case 'gazetteer': return [gazetteerProvider];
+  }
+});
+
+// Cached, throttled call to one provider; null when it failed, so the chain can move on
+const searchProvider = async (provider: GeocoderProvider, query: string, options: SearchOptions): Promise<GeocodeResult[] | null> => {
+  const entries = await getCache();
+  const key = [provider.kind, provider.endpoint, options.bounded ? 1 : 0, options.region.bbox.join(','), options.region.countryCode, options.region.language, normalizeArabic(query)].join('|');
+  const cached = entries.get(key);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.results;
+
+  try {
+    const results = await throttled(`${provider.kind}|${provider.endpoint}`, provider.interval, options.signal, () => provider.search(query, options));
+    if (provider.kind !== 'gazetteer') {
+      entries.delete(key);
+      entries.set(key, { at: Date.now(), results });
+      scheduleCacheSave(entries);
+    }
+    return results;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`${provider.kind} geocoder error:`, error);
+    return null;
+  }
+};
+
+// --- Query heuristics ---
+
+// School types, genders and other words that often keep a school's own name from matching
+const STOP_WORDS = [
+  'school', 'high', 'secondary', 'prep', 'preparatory', 'primary', 'elementary', 'kindergarten',
+  'girls', 'boys', 'mixed', 'vocational', 'commercial', 'industrial', 'institute',
+  'مدرسة', 'ثانوية', 'اعدادية', 'متوسطة', 'ابتدائية', 'روضة', 'معهد',
+  'للبنات', 'للبنين', 'بنات', 'بنين', 'مختلطة',
+  'المهنية', 'الصناعية', 'التجارية', 'الفنون', 'للدراسات', 'الأهلية', 'الحكومية',
+];
+
+export interface QueryVariant {
+  query: string;
+  bounded: boolean;
+}
+
+/**
+ * The passes a search goes through until one finds something: the query as
+ * typed inside the region, then anywhere in the country, then its core name
+ * without stop words, then with a "مدرسة" prefix.
+ */
+export const getQueryVariants = (query: string): QueryVariant[] => {
+  const variants: QueryVariant[] = [{ query, bounded: true }, { query, bounded: false }];
+
+  const coreName = query.replace(new RegExp(STOP_WORDS.join('|'), 'gi'), '').replace(/\s+/g, ' ').trim();
+  if (coreName.length >= 3 && coreName !== query) {
+    variants.push({ query: coreName, bounded: true }, { query: coreName, bounded: false });
+  }
+
+  if (!query.includes('مدرسة') && !/school/i.test(query)) {
+    variants.push({ query: `مدرسة ${query}`, bounded: true });
+  }
+  return variants;
+};
+
+/**
+ * Runs the query variants through the configured providers in order and
+ * returns the first non-empty result list. `quick` only tries the query as
+ * typed inside the region, for suggestions while the user types, so the public
+ * services get one request per search rather than one per variant. Rejects
+ * with an AbortError when `signal` is aborted, e.g. because a newer search
+ * started, and with an Error (user-facing message) when nothing was found but a
+ * provider failed, so being offline isn't mistaken for a place that doesn't exist.
+ */
+export const geocode = async (
+  query: string,
+  config: GeocoderConfig,
+  region: MapRegion,
+  signal: AbortSignal,
+  { quick = false }: { quick?: boolean } = {}
+): Promise<GeocodeResult[]> => {
+  const providers = createProviders(config);
+  const variants = getQueryVariants(query.trim());
+  const failed = new Set<GeocoderKind>();
+  for (const variant of quick ? variants.slice(0, 1) : variants) {
+    for (const provider of providers) {
+      if (!variant.bounded && !provider.canWiden) continue;
+      const results = await searchProvider(provider, variant.query, { bounded: variant.bounded, region, signal });
+      if (!results) failed.add(provider.kind);
+      else if (results.length > 0) return results;
+    }
+  }
+  if (failed.size > 0) {
+    throw new Error(`تعذر الاتصال بخدمة البحث: ${[...failed].map(kind => GEOCODER_LABELS[kind].label).join('، ')}.`);
+  }
+  return [];
+};
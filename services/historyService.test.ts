@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { makePoint, makeVoter } from '../test/fixtures';
+import { replacePointsCommand } from './historyService';
+
+describe('replacePointsCommand', () => {
+  const kept = makePoint('a', { updatedAt: 5, voters: [makeVoter('v1', { updatedAt: 5 }), makeVoter('v2', { updatedAt: 5 })] });
+  const edited = makePoint('b', { updatedAt: 5, count: 10 });
+  const before = [kept, edited];
+  // A restored backup: fresh objects with the same content, one edited voter, one edited school and a new school
+  const after = [
+    { ...kept, updatedAt: 1, voters: [{ ...kept.voters[0] }, { ...kept.voters[1], fullName: 'اسم جديد' }] },
+    { ...edited, count: 20 },
+    makePoint('c'),
+  ];
+
+  it('touches only the records the restore changes', () => {
+    const restored = replacePointsCommand(before, after, 'استعادة').apply(before);
+    expect(restored[0]).not.toBe(kept);
+    expect(restored[0].updatedAt).toBe(5);
+    expect(restored[0].voters[0]).toBe(kept.voters[0]);
+    expect(restored[0].voters[1].fullName).toBe('اسم جديد');
+    expect(restored[0].voters[1].updatedAt).toBeGreaterThan(5);
+    expect(restored[1].count).toBe(20);
+    expect(restored[1].updatedAt).toBeGreaterThan(5);
+    expect(restored[2].updatedAt).toBeDefined();
+  });
+
+  it('keeps the current objects when the backup matches the list', () => {
+    const copy = before.map(p => ({ ...p, voters: p.voters.map(v => ({ ...v })) }));
+    const restored = replacePointsCommand(before, copy, 'استعادة').apply(before);
+    expect(restored[0]).toBe(kept);
+    expect(restored[1]).toBe(edited);
+  });
+
+  it('touches only the records undo puts back', () => {
+    const command = replacePointsCommand(before, after, 'استعادة');
+    const undone = command.revert(command.apply(before));
+    expect(undone).toHaveLength(2);
+    expect(undone[0].voters[0]).toBe(kept.voters[0]);
+    expect(undone[0].voters[1].fullName).toBe(kept.voters[1].fullName);
+    expect(undone[1].count).toBe(10);
+    expect(undone[1].updatedAt).toBeGreaterThan(5);
+  });
+});
@@ -0,0 +1,130 @@
+import { LocationPoint, Voter } from '../types';
+
+/**
+ * A reversible edit to the points list. Commands work by id against whatever
+ * the list currently is, so undoing one edit doesn't roll back unrelated
+ * changes made since (e.g. teammates' edits arriving through sync).
+ */
+export interface HistoryCommand {
+  label: string;
+  apply: (points: LocationPoint[]) => LocationPoint[];
+  revert: (points: LocationPoint[]) => LocationPoint[];
+  // State outside the points list that the same edit changes (e.g. the volunteers
+  // list), run alongside `apply` and `revert` so undo restores both together
+  onApply?: () => void;
+  onRevert?: () => void;
+}
+
+export const HISTORY_LIMIT = 100;
+
+const insertAt = <T>(list: T[], index: number, item: T) => {
+  const copy = [...list];
+  copy.splice(Math.min(index, copy.length), 0, item);
+  return copy;
+};
+
+// Re-inserted records get a fresh `updatedAt` so the sync server doesn't treat
+// them as older than the deletion they undo
+const touch = <T extends { updatedAt?: number }>(record: T): T => ({ ...record, updatedAt: Date.now() });
+const touchPoint = (point: LocationPoint): LocationPoint => ({ ...touch(point), voters: point.voters?.map(touch) });
+
+const updateVoters = (points: LocationPoint[], schoolId: string, update: (voters: Voter[]) => Voter[]) =>
+  points.map(p => (p.id === schoolId ? { ...p, voters: update(p.voters || []) } : p));
+
+export const addPointsCommand = (added: LocationPoint[], label = `إضافة ${added.length} موقع`): HistoryCommand => {
+  const ids = new Set(added.map(p => p.id));
+  return {
+    label,
+    apply: (points) => [...points, ...added.map(touchPoint)],
+    revert: (points) => points.filter(p => !ids.has(p.id)),
+  };
+};
+
+export const addPointCommand = (point: LocationPoint): HistoryCommand =>
+  addPointsCommand([point], `إضافة ${point.name}`);
+
+export const deletePointCommand = (point: LocationPoint, index: number): HistoryCommand => ({
+  label: `حذف ${point.name}`,
+  apply: (points) => points.filter(p => p.id !== point.id),
+  revert: (points) => insertAt(points, index, touchPoint(point)),
+});
+
+// Only the point's own fields are swapped, so voters added meanwhile are kept
+export const updatePointCommand = (before: LocationPoint, after: LocationPoint): HistoryCommand => {
+  const { voters: _beforeVoters, ...beforeFields } = before;
+  const { voters: _afterVoters, ...afterFields } = after;
+  return {
+    label: `تعديل ${after.name}`,
+    apply: (points) => points.map(p => (p.id === after.id ? touch({ ...p, ...afterFields }) : p)),
+    revert: (points) => points.map(p => (p.id === before.id ? touch({ ...p, ...beforeFields }) : p)),
+  };
+};
+
+export const addVotersCommand = (schoolId: string, added: Voter[]): HistoryCommand => {
+  const ids = new Set(added.map(v => v.id));
+  return {
+    label: added.length === 1 ? `إضافة ${added[0].fullName}` : `إضافة ${added.length} ناخب`,
+    apply: (points) => updateVoters(points, schoolId, voters => [...voters, ...added.map(touch)]),
+    revert: (points) => updateVoters(points, schoolId, voters => voters.filter(v => !ids.has(v.id))),
+  };
+};
+
+export const updateVoterCommand = (schoolId: string, before: Voter, after: Voter): HistoryCommand => ({
+  label: `تعديل ${after.fullName}`,
+  apply: (points) => updateVoters(points, schoolId, voters => voters.map(v => (v.id === after.id ? touch(after) : v))),
+  revert: (points) => updateVoters(points, schoolId, voters => voters.map(v => (v.id === before.id ? touch(before) : v))),
+});
+
+export const deleteVoterCommand = (schoolId: string, voter: Voter, index: number): HistoryCommand => ({
+  label: `حذف ${voter.fullName}`,
+  apply: (points) => updateVoters(points, schoolId, voters => voters.filter(v => v.id !== voter.id)),
+  revert: (points) => updateVoters(points, schoolId, voters => insertAt(voters, index, touch(voter))),
+});
+
+// Same content apart from `updatedAt`; nested values (logs, reports) are compared as JSON
+const sameFields = <T extends object>(a: T, b: T) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof T)[]);
+  keys.delete('updatedAt' as keyof T);
+  return [...keys].every(key => a[key] === b[key] || JSON.stringify(a[key]) === JSON.stringify(b[key]));
+};
+
+/**
+ * The `target` list, keeping the current object of every point and voter that
+ * didn't change and touching only those that did. Sync is last-write-wins on
+ * `updatedAt`, so touching everything would re-upload the whole dataset over
+ * teammates' newer edits.
+ */
+const replaceChanged = (current: LocationPoint[], target: LocationPoint[]) => {
+  const currentById = new Map(current.map(p => [p.id, p]));
+  return target.map(point => {
+    const existing = currentById.get(point.id);
+    if (!existing) return touchPoint(point);
+
+    const existingVoters = existing.voters || [];
+    const existingById = new Map(existingVoters.map(v => [v.id, v]));
+    const voters = (point.voters || []).map(voter => {
+      const same = existingById.get(voter.id);
+      return same && sameFields(same, voter) ? same : touch(voter);
+    });
+    const votersSame = voters.length === existingVoters.length && voters.every((v, i) => v === existingVoters[i]);
+
+    const { voters: _existingVoters, ...existingFields } = existing;
+    const { voters: _targetVoters, ...targetFields } = point;
+    if (sameFields(existingFields, targetFields)) return votersSame ? existing : { ...existing, voters };
+    return { ...touch(point), voters };
+  });
+};
+
+// Whole-list swap, used for restoring a backup; only records that differ are touched
+export const replacePointsCommand = (before: LocationPoint[], after: LocationPoint[], label: string): HistoryCommand => ({
+  label,
+  apply: (points) => replaceChanged(points, after),
+  revert: (points) => replaceChanged(points, before),
+});
+
+// Several commands as one undo step; reverted in reverse order so indices stay valid
+export const batchCommand = (label: string, commands: HistoryCommand[]): HistoryCommand => ({
+  label,
+  apply: (points) => commands.reduce((result, command) => command.apply(result), points),
+  revert: (points) => commands.reduceRight((result, command) => command.revert(result), points),
+});
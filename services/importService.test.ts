@@ -0,0 +1,114 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { makePoint, makeVoter } from '../test/fixtures';
+import { guessColumnMapping, isPlaced, parseCsv, parseSpreadsheetFile, previewPointRows, previewVoterRows } from './importService';
+
+describe('parseCsv', () => {
+  it('keeps quoted commas, quotes and line breaks inside one cell', () => {
+    const sheet = parseCsv('﻿name,notes\n"الرشيد, الكرادة","قال ""نعم""\nثم غادر"\n');
+    expect(sheet.headers).toEqual(['name', 'notes']);
+    expect(sheet.rows).toEqual([{ name: 'الرشيد, الكرادة', notes: 'قال "نعم"\nثم غادر' }]);
+  });
+
+  it('keeps cells as text, names blank headers and drops empty rows', () => {
+    const sheet = parseCsv('id,,lat\n00123,x,33.312345678901\n,,\n');
+    expect(sheet.headers).toEqual(['id', 'عمود 2', 'lat']);
+    expect(sheet.rows).toEqual([{ id: '00123', 'عمود 2': 'x', lat: '33.312345678901' }]);
+  });
+});
+
+describe('parseSpreadsheetFile', () => {
+  it('reads numbers at full precision whatever their display format', async () => {
+    const sheet = XLSX.utils.aoa_to_sheet([['name', 'lat', 'phone'], ['المنصور', 33.312345, 7701234567]]);
+    sheet.B2.z = '0.00';
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Sheet1');
+    const file = new File([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })], 'schools.xlsx');
+
+    const { rows } = await parseSpreadsheetFile(file);
+    expect(rows).toEqual([{ name: 'المنصور', lat: '33.312345', phone: '7701234567' }]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches English and Arabic headers to fields', () => {
+    expect(guessColumnMapping(['اسم المدرسة', 'District', 'عدد الناخبين', 'Latitude', 'lon'], 'points')).toEqual({
+      name: 'اسم المدرسة',
+      district: 'District',
+      count: 'عدد الناخبين',
+      lat: 'Latitude',
+      lng: 'lon',
+    });
+  });
+});
+
+describe('previewPointRows', () => {
+  const mapping = { name: 'name', district: 'district', count: 'count', lat: 'lat', lng: 'lng' };
+
+  it('reads Arabic-Indic digits and thousands separators', () => {
+    const [row] = previewPointRows(parseCsv('name,district,count,lat,lng\nالمنصور,الكرخ,"١٬٢٣٤",٣٣٫٣١,44.35'), mapping, []);
+    expect(row.issues).toEqual([]);
+    expect(row.record).toMatchObject({ name: 'المنصور', district: 'الكرخ', count: 1234, lat: 33.31, lng: 44.35 });
+  });
+
+  it('reads a comma in a coordinate as the decimal point', () => {
+    const [row] = previewPointRows(parseCsv('name,district,count,lat,lng\nالمنصور,الكرخ,"1,234","33,312","44,361"'), mapping, []);
+    expect(row.record).toMatchObject({ count: 1234, lat: 33.312, lng: 44.361 });
+  });
+
+  it('rejects coordinates that are not numbers or only half there', () => {
+    const rows = previewPointRows(parseCsv('name,district,count,lat,lng\nأ,,1,شمال,44\nب,,1,"33,312,5",44\nج,,1,33.3,'), mapping, []);
+    rows.forEach(row => {
+      expect(row.record).toBeNull();
+      expect(row.issues).toContainEqual({ severity: 'error', message: 'إحداثيات غير صالحة' });
+    });
+  });
+
+  it('sends rows without coordinates to the geocoding queue', () => {
+    const [row] = previewPointRows(parseCsv('name,district,count,lat,lng\nالمنصور,الكرخ,10,,'), mapping, []);
+    expect(row.record).not.toBeNull();
+    expect(isPlaced(row.record!)).toBe(false);
+    expect(row.issues.map(i => i.severity)).toEqual(['warning']);
+  });
+
+  it('rejects missing names and invalid coordinates, and flags duplicates', () => {
+    const rows = previewPointRows(
+      parseCsv('name,district,count,lat,lng\n,الكرخ,10,33,44\nالمنصور,الكرخ,10,95,44\nمدرسة الرشيد,,5,33,44'),
+      mapping,
+      [makePoint('school-1', { name: 'مدرسة الرشيد' })]
+    );
+    expect(rows.map(r => r.rowNumber)).toEqual([2, 3, 4]);
+    expect(rows[0].record).toBeNull();
+    expect(rows[1].record).toBeNull();
+    expect(rows[2].record).not.toBeNull();
+    expect(rows[2].issues).toContainEqual({ severity: 'warning', message: 'الاسم موجود مسبقاً في الخريطة' });
+  });
+});
+
+describe('previewVoterRows', () => {
+  const mapping = { fullName: 'name', phoneNumber: 'phone', gender: 'gender', birthYear: 'age' };
+
+  it('normalizes phones, genders and ages', () => {
+    const [row] = previewVoterRows(parseCsv('name,phone,gender,age\nعلي حسن,+964 770 123 4567,ذكر,30'), mapping, [makePoint('school-1', { name: 'مدرسة الرشيد' })], 'school-1');
+    expect(row.issues).toEqual([]);
+    expect(row.record).toMatchObject({
+      fullName: 'علي حسن',
+      phoneNumber: '07701234567',
+      gender: 'male',
+      birthYear: new Date().getFullYear() - 30,
+    });
+  });
+
+  it('flags voters already registered in another school', () => {
+    const points = [makePoint('school-2', {
+      name: 'مدرسة بغداد',
+      voters: [makeVoter('v1', { fullName: 'علي حسن', phoneNumber: '07701234567' })],
+    })];
+    const [row] = previewVoterRows(parseCsv('name,phone,gender,age\nعلي حسن,07701234567,,'), mapping, points, 'school-1');
+    expect(row.record).not.toBeNull();
+    expect(row.issues.map(i => i.message)).toEqual([
+      'الاسم مسجل مسبقاً في مدرسة بغداد',
+      'رقم الهاتف مسجل مسبقاً في مدرسة بغداد',
+    ]);
+  });
+});
@@ -0,0 +1,295 @@
+import * as XLSX from 'xlsx';
+import { Gender, LocationPoint, UnplacedPoint, Voter } from '../types';
+import { MIN_VOTING_AGE, normalizeIraqiPhone, parseTags, toWesternDigits } from './voterService';
+import { VoterEntry, createDuplicateIndex, phoneKey } from './duplicateService';
+import { nameKey } from './textService';
+
+export type ImportMode = 'points' | 'voters';
+
+export type PointField = 'name' | 'district' | 'count' | 'lat' | 'lng';
+export type VoterField = 'fullName' | 'phoneNumber' | 'nationalId' | 'gender' | 'birthYear' | 'address' | 'notes' | 'tags';
+export type ImportField = PointField | VoterField;
+
+// Maps each target field to a column header in the source sheet ('' = not mapped)
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportRowPreview<T> {
+  rowNumber: number;
+  record: T | null;
+  issues: ImportIssue[];
+}
+
+export const POINT_FIELDS: { field: PointField; label: string; required: boolean }[] = [
+  { field: 'name', label: 'اسم المدرسة', required: true },
+  { field: 'district', label: 'المنطقة', required: false },
+  { field: 'count', label: 'عدد الناخبين', required: true },
+  // Schools without coordinates go to the geocoding queue
+  { field: 'lat', label: 'خط العرض (lat)', required: false },
+  { field: 'lng', label: 'خط الطول (lng)', required: false },
+];
+
+export const VOTER_FIELDS: { field: VoterField; label: string; required: boolean }[] = [
+  { field: 'fullName', label: 'اسم الناخب', required: true },
+  { field: 'phoneNumber', label: 'رقم الهاتف', required: false },
+  { field: 'nationalId', label: 'رقم الهوية / بطاقة الناخب', required: false },
+  { field: 'gender', label: 'الجنس', required: false },
+  { field: 'birthYear', label: 'سنة الميلاد أو العمر', required: false },
+  { field: 'address', label: 'العنوان', required: false },
+  { field: 'notes', label: 'ملاحظات', required: false },
+  { field: 'tags', label: 'الوسوم', required: false },
+];
+
+// Header aliases used to guess the mapping (compared after lower-casing and trimming)
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'school', 'school name', 'center', 'polling center', 'اسم المدرسة', 'المدرسة', 'اسم المركز', 'المركز', 'الاسم'],
+  district: ['district', 'area', 'region', 'المنطقة', 'الحي', 'القضاء', 'الناحية'],
+  count: ['count', 'voters', 'total', 'registered', 'عدد الناخبين', 'العدد', 'الناخبين'],
+  lat: ['lat', 'latitude', 'y', 'خط العرض', 'العرض'],
+  lng: ['lng', 'lon', 'long', 'longitude', 'x', 'خط الطول', 'الطول'],
+  fullName: ['full name', 'fullname', 'name', 'voter', 'الاسم', 'الاسم الكامل', 'اسم الناخب', 'الاسم الثلاثي', 'الاسم الرباعي'],
+  phoneNumber: ['phone', 'phone number', 'mobile', 'tel', 'الهاتف', 'رقم الهاتف', 'الموبايل', 'رقم الموبايل'],
+  nationalId: ['national id', 'id number', 'voter card', 'card number', 'رقم الهوية', 'الهوية', 'البطاقة الوطنية', 'رقم البطاقة', 'بطاقة الناخب'],
+  gender: ['gender', 'sex', 'الجنس'],
+  birthYear: ['birth year', 'year of birth', 'age', 'سنة الميلاد', 'المواليد', 'التولد', 'العمر'],
+  address: ['address', 'العنوان', 'السكن'],
+  notes: ['notes', 'note', 'comments', 'ملاحظات', 'الملاحظات'],
+  tags: ['tags', 'labels', 'الوسوم', 'التصنيف'],
+};
+
+const GENDER_ALIASES: Record<string, Gender> = {
+  'male': 'male', 'm': 'male', 'ذكر': 'male', 'ذ': 'male',
+  'female': 'female', 'f': 'female', 'أنثى': 'female', 'انثى': 'female', 'انثي': 'female', 'أ': 'female',
+};
+
+// Header-keyed rows of the workbook's first sheet
+const readFirstSheet = (workbook: XLSX.WorkBook): ParsedSheet => {
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error('الملف لا يحتوي على أي ورقة بيانات.');
+  }
+
+  // Raw values: formatted text would round numbers to the cell's display format
+  // (a "0.00" coordinate column), so numbers are turned into text here instead
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: true });
+  const [headerRow = [], ...dataRows] = matrix;
+  const headers = headerRow.map((h, i) => String(h).trim() || `عمود ${i + 1}`);
+
+  const rows = dataRows
+    .filter(row => row.some(cell => String(cell).trim() !== ''))
+    .map(row => Object.fromEntries(headers.map((h, i) => [h, String(row[i] ?? '').trim()])));
+
+  return { headers, rows };
+};
+
+/**
+ * Reads CSV text into header-keyed rows, handling quoted cells with commas,
+ * quotes or line breaks. Cells are kept as text, so long IDs and coordinates
+ * aren't rounded.
+ */
+export const parseCsv = (text: string): ParsedSheet =>
+  readFirstSheet(XLSX.read(text.replace(/^\uFEFF/, ''), { type: 'string', raw: true }));
+
+/**
+ * Reads a CSV or XLSX file into a list of header-keyed rows (first sheet only).
+ * CSV is read as text so Arabic content keeps its UTF-8 encoding.
+ */
+export const parseSpreadsheetFile = async (file: File): Promise<ParsedSheet> => {
+  const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+  return isCsv
+    ? parseCsv(await file.text())
+    : readFirstSheet(XLSX.read(await file.arrayBuffer(), { type: 'array' }));
+};
+
+export const guessColumnMapping = (headers: string[], mode: ImportMode): ColumnMapping => {
+  const fields = mode === 'points' ? POINT_FIELDS.map(f => f.field) : VOTER_FIELDS.map(f => f.field);
+  const mapping: ColumnMapping = {};
+  fields.forEach(field => {
+    const match = headers.find(h => FIELD_ALIASES[field].includes(h.toLowerCase().trim()));
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+};
+
+const toAsciiNumber = (value: string) => value
+  .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+  .replace(/٫/g, '.')
+  .replace(/\s/g, '');
+
+// Accepts Arabic-Indic digits, thousands separators and comma decimals as found in local spreadsheets
+const parseNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  const normalized = toAsciiNumber(value)
+    .replace(/[,٬](?=\d{3}(\D|$))/g, '') // thousands separators
+    .replace(/,/g, '.');
+  const num = Number(normalized);
+  return Number.isFinite(num) ? num : null;
+};
+
+// Coordinates have no thousands separators, so a comma is the decimal point ("33,312" is 33.312)
+const parseCoordinate = (value: string): number | null => {
+  if (value === '') return null;
+  const num = Number(toAsciiNumber(value).replace(/,/g, '.'));
+  return Number.isFinite(num) ? num : null;
+};
+
+const normalizeKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const isPlaced = (point: LocationPoint | UnplacedPoint): point is LocationPoint => 'lat' in point;
+
+export const previewPointRows = (
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  existingPoints: LocationPoint[]
+): ImportRowPreview<LocationPoint | UnplacedPoint>[] => {
+  const existingNames = new Set(existingPoints.map(p => normalizeKey(p.name)));
+  const seenNames = new Set<string>();
+  const now = Date.now();
+
+  return sheet.rows.map((row, index) => {
+    const issues: ImportIssue[] = [];
+    const get = (field: PointField) => (mapping[field] ? row[mapping[field]!] : undefined);
+
+    const name = (get('name') || '').trim();
+    const district = (get('district') || '').trim();
+    const count = parseNumber(get('count'));
+    const latText = (get('lat') || '').trim();
+    const lngText = (get('lng') || '').trim();
+    const lat = parseCoordinate(latText);
+    const lng = parseCoordinate(lngText);
+
+    if (!name) {
+      issues.push({ severity: 'error', message: 'اسم المدرسة مفقود' });
+    } else {
+      const key = normalizeKey(name);
+      if (existingNames.has(key)) {
+        issues.push({ severity: 'warning', message: 'الاسم موجود مسبقاً في الخريطة' });
+      } else if (seenNames.has(key)) {
+        issues.push({ severity: 'warning', message: 'الاسم مكرر في الملف' });
+      }
+      seenNames.add(key);
+    }
+
+    // Text that isn't a coordinate is an error, not a school waiting to be placed
+    const hasCoordinates = latText !== '' || lngText !== '';
+    if (!hasCoordinates) {
+      issues.push({ severity: 'warning', message: 'بدون إحداثيات (يُحدد موقعها لاحقاً من قائمة تحديد المواقع)' });
+    } else if (lat === null || lng === null || lat < -90 || lat > 90 || lng < -180 || lng > 180 || (lat === 0 && lng === 0)) {
+      issues.push({ severity: 'error', message: 'إحداثيات غير صالحة' });
+    }
+
+    if (count === null) {
+      issues.push({ severity: 'warning', message: 'عدد الناخبين مفقود (سيُعتبر 0)' });
+    } else if (count < 0) {
+      issues.push({ severity: 'error', message: 'عدد الناخبين سالب' });
+    }
+
+    const hasError = issues.some(i => i.severity === 'error');
+    const record: UnplacedPoint = {
+      id: crypto.randomUUID(),
+      name,
+      district,
+      count: Math.round(count ?? 0),
+      createdAt: now,
+    };
+    return {
+      rowNumber: index + 2, // +1 for the header row, +1 for 1-based numbering
+      issues,
+      record: hasError ? null : hasCoordinates ? { ...record, lat: lat!, lng: lng! } : record,
+    };
+  });
+};
+
+// Duplicates are checked project-wide, since one person may only vote in one school
+export const previewVoterRows = (
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  points: LocationPoint[],
+  schoolId: string
+): ImportRowPreview<Voter>[] => {
+  const index = createDuplicateIndex(points);
+  const describe = (matches: VoterEntry[], what: string) => {
+    if (matches.some(m => m.schoolId === schoolId)) return `${what} موجود مسبقاً في هذه المدرسة`;
+    return `${what} مسجل مسبقاً في ${matches[0].schoolName}`;
+  };
+  const seenNames = new Set<string>();
+  const seenPhones = new Set<string>();
+  const now = Date.now();
+  const currentYear = new Date().getFullYear();
+
+  return sheet.rows.map((row, rowIndex) => {
+    const issues: ImportIssue[] = [];
+    const get = (field: VoterField) => (mapping[field] ? row[mapping[field]!] : '').trim();
+    const fullName = get('fullName');
+    const rawPhone = get('phoneNumber');
+    const phoneNumber = rawPhone ? normalizeIraqiPhone(rawPhone) ?? rawPhone : '';
+    const rawGender = get('gender');
+    const gender = GENDER_ALIASES[rawGender.toLowerCase()];
+    const birthValue = parseNumber(get('birthYear'));
+    // Small numbers are ages, as in the voter form
+    const parsedBirthYear = birthValue === null ? undefined
+      : birthValue < 130 ? currentYear - Math.round(birthValue) : Math.round(birthValue);
+    const birthYearValid = parsedBirthYear !== undefined && parsedBirthYear >= 1900 && currentYear - parsedBirthYear >= MIN_VOTING_AGE;
+    const birthYear = birthYearValid ? parsedBirthYear : undefined;
+
+    if (!fullName) {
+      issues.push({ severity: 'error', message: 'اسم الناخب مفقود' });
+    } else {
+      const key = nameKey(fullName);
+      const matches = index.byName(fullName);
+      if (matches.length > 0) {
+        issues.push({ severity: 'warning', message: describe(matches, 'الاسم') });
+      } else if (seenNames.has(key)) {
+        issues.push({ severity: 'warning', message: 'الاسم مكرر في الملف' });
+      }
+      seenNames.add(key);
+    }
+
+    if (rawPhone && !normalizeIraqiPhone(rawPhone)) {
+      issues.push({ severity: 'warning', message: 'رقم الهاتف ليس رقم موبايل عراقي صالح' });
+    }
+    if (rawGender && !gender) {
+      issues.push({ severity: 'warning', message: 'قيمة الجنس غير معروفة (سيتم تجاهلها)' });
+    }
+    if (parsedBirthYear !== undefined && !birthYearValid) {
+      issues.push({ severity: 'warning', message: 'سنة الميلاد أو العمر غير منطقي (سيتم تجاهله)' });
+    }
+
+    if (phoneNumber) {
+      const matches = index.byPhone(phoneNumber);
+      if (matches.length > 0) {
+        issues.push({ severity: 'warning', message: describe(matches, 'رقم الهاتف') });
+      } else if (seenPhones.has(phoneKey(phoneNumber))) {
+        issues.push({ severity: 'warning', message: 'رقم الهاتف مكرر في الملف' });
+      }
+      seenPhones.add(phoneKey(phoneNumber));
+    }
+
+    const hasError = issues.some(i => i.severity === 'error');
+    return {
+      rowNumber: rowIndex + 2,
+      issues,
+      record: hasError ? null : {
+        id: crypto.randomUUID(),
+        fullName,
+        phoneNumber,
+        nationalId: toWesternDigits(get('nationalId')).replace(/\s/g, '') || undefined,
+        gender,
+        birthYear,
+        address: get('address') || undefined,
+        notes: get('notes') || undefined,
+        tags: parseTags(get('tags')).length ? parseTags(get('tags')) : undefined,
+        createdAt: now,
+      },
+    };
+  });
+};
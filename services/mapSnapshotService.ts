@@ -0,0 +1,71 @@
+import L from 'leaflet';
+import { LocationPoint } from '../types';
+import { getVoterTotal } from './coverageService';
+import { TILE_URL } from './offlineMapService';
+
+const TILE_SIZE = 256;
+
+// The base map tiles are served with CORS headers, so the canvas stays exportable
+// whichever base layer is shown on screen
+const loadTile = (x: number, y: number, z: number) => new Promise<HTMLImageElement | null>(resolve => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => resolve(null);
+  img.src = TILE_URL.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+});
+
+/**
+ * Renders the current map view with the given schools as circles sized by
+ * voters. Resolves to a PNG data URL, or null when the canvas can't be exported.
+ */
+export const captureMapSnapshot = async (map: L.Map, points: LocationPoint[]): Promise<string | null> => {
+  const zoom = Math.round(map.getZoom());
+  const size = map.getSize();
+  const origin = map.project(map.getBounds().getNorthWest(), zoom).round();
+  const tileCount = 2 ** zoom;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size.x;
+  canvas.height = size.y;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#e2e8f0';
+  ctx.fillRect(0, 0, size.x, size.y);
+
+  const tiles: Promise<void>[] = [];
+  for (let x = Math.floor(origin.x / TILE_SIZE); x <= Math.floor((origin.x + size.x) / TILE_SIZE); x++) {
+    for (let y = Math.floor(origin.y / TILE_SIZE); y <= Math.floor((origin.y + size.y) / TILE_SIZE); y++) {
+      if (y < 0 || y >= tileCount) continue;
+      const wrappedX = ((x % tileCount) + tileCount) % tileCount;
+      tiles.push(loadTile(wrappedX, y, zoom).then(img => {
+        if (img) ctx.drawImage(img, x * TILE_SIZE - origin.x, y * TILE_SIZE - origin.y);
+      }));
+    }
+  }
+  await Promise.all(tiles);
+
+  const max = Math.max(1, ...points.map(getVoterTotal));
+  [...points].sort((a, b) => getVoterTotal(b) - getVoterTotal(a)).forEach(p => {
+    const { x, y } = map.project([p.lat, p.lng], zoom).subtract(origin);
+    ctx.beginPath();
+    ctx.arc(x, y, 4 + Math.sqrt(getVoterTotal(p) / max) * 14, 0, Math.PI * 2);
+    ctx.fillStyle = 'rgba(16, 185, 129, 0.65)';
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2;
+    ctx.fill();
+    ctx.stroke();
+  });
+
+  ctx.font = '11px sans-serif';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.fillRect(0, size.y - 18, 190, 18);
+  ctx.fillStyle = '#334155';
+  ctx.fillText('© OpenStreetMap contributors', 6, size.y - 5);
+
+  try {
+    return canvas.toDataURL('image/png');
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,221 @@
+import { BBox } from '../types';
+
+const REGIONS_KEY = 'populationMapOfflineRegions';
+
+// Each downloaded area gets its own cache so deleting it frees exactly its tiles;
+// the service worker (public/sw.js) serves a tile from whichever cache holds it
+const TILE_CACHE_PREFIX = 'map-tiles-';
+
+// The base map tiles. The map, the report snapshot and offline downloads all use
+// this one URL (no {s} subdomains) so a downloaded tile is found by the exact
+// URL the map asks for.
+export const TILE_URL = process.env.TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+// The OpenStreetMap tile usage policy forbids bulk and offline pre-fetching
+// from its servers, so areas can only be downloaded from a tile server of our
+// own or a provider that allows it, set through TILE_URL
+const isPublicOsmTileServer = (url: string) => /^https?:\/\/([a-z{}]+\.)?tile\.openstreetmap\.org\//i.test(url);
+export const canDownloadTiles = !isPublicOsmTileServer(TILE_URL);
+
+export const MIN_DOWNLOAD_ZOOM = 10;
+export const MAX_DOWNLOAD_ZOOM = 18;
+
+// Keeps a single download to a size the device and the tile server can handle
+export const MAX_DOWNLOAD_TILES = 50000;
+
+// Rough average for city streets; open desert is much smaller, dense districts larger
+const AVERAGE_TILE_BYTES = 25 * 1024;
+
+// Parallel tile requests while downloading, kept low for the tile server's sake
+const DOWNLOAD_CONCURRENCY = 2;
+
+export interface OfflineArea {
+  name: string;
+  bbox: BBox;
+  minZoom: number;
+  maxZoom: number;
+}
+
+export interface OfflineRegion extends OfflineArea {
+  id: string;
+  tileCount: number;
+  // Tiles the server didn't return; the map shows them blank offline
+  failedCount: number;
+  bytes: number;
+  createdAt: number;
+}
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+  bytes: number;
+  failed: number;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  // True when the browser won't evict the app's data under storage pressure
+  persisted: boolean;
+}
+
+export const isOfflineSupported = () => 'serviceWorker' in navigator && 'caches' in window;
+
+/**
+ * Registers the service worker that keeps the app shell and downloaded tiles
+ * available offline. Only in production builds: the dev server's modules
+ * change on every edit and must not be served from a cache.
+ */
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !isOfflineSupported()) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .catch(error => console.error('Service worker registration failed:', error));
+  });
+};
+
+// --- Tile math (Web Mercator, as used by Leaflet) ---
+
+const tileCountAt = (zoom: number) => 2 ** zoom;
+
+const clampTile = (value: number, zoom: number) => Math.min(Math.max(value, 0), tileCountAt(zoom) - 1);
+
+const lngToTileX = (lng: number, zoom: number) => clampTile(Math.floor((lng + 180) / 360 * tileCountAt(zoom)), zoom);
+
+const latToTileY = (lat: number, zoom: number) => {
+  const rad = lat * Math.PI / 180;
+  return clampTile(Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * tileCountAt(zoom)), zoom);
+};
+
+const getTileRange = ([south, west, north, east]: BBox, zoom: number) => ({
+  minX: lngToTileX(west, zoom),
+  maxX: lngToTileX(east, zoom),
+  // Tile rows count down from the north
+  minY: latToTileY(north, zoom),
+  maxY: latToTileY(south, zoom),
+});
+
+const getTileUrl = (x: number, y: number, zoom: number) =>
+  TILE_URL.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y));
+
+const getTileUrls = (area: OfflineArea) => {
+  const urls: string[] = [];
+  for (let zoom = area.minZoom; zoom <= area.maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = getTileRange(area.bbox, zoom);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) urls.push(getTileUrl(x, y, zoom));
+    }
+  }
+  return urls;
+};
+
+// Tile count and approximate download size of an area, before downloading it
+export const estimateArea = (bbox: BBox, minZoom: number, maxZoom: number) => {
+  let tiles = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bbox, zoom);
+    tiles += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return { tiles, bytes: tiles * AVERAGE_TILE_BYTES };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} كيلوبايت`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} ميغابايت`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} غيغابايت`;
+};
+
+// --- Saved regions (the list lives in localStorage, the tiles in Cache Storage) ---
+
+const sanitizeRegions = (raw: unknown): OfflineRegion[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(region =>
+    typeof region?.id === 'string'
+    && typeof region.name === 'string'
+    && Array.isArray(region.bbox) && region.bbox.length === 4
+    && Number.isFinite(region.minZoom) && Number.isFinite(region.maxZoom)
+  );
+};
+
+export const loadOfflineRegions = (): OfflineRegion[] => {
+  try {
+    return sanitizeRegions(JSON.parse(localStorage.getItem(REGIONS_KEY) || '[]'));
+  } catch (error) {
+    console.error('Error loading offline regions from localStorage:', error);
+    return [];
+  }
+};
+
+export const saveOfflineRegions = (regions: OfflineRegion[]) => {
+  localStorage.setItem(REGIONS_KEY, JSON.stringify(regions));
+};
+
+const cacheName = (regionId: string) => `${TILE_CACHE_PREFIX}${regionId}`;
+
+/**
+ * Fetches every tile of the area into its own cache, a couple at a time.
+ * Refuses to run against the public OpenStreetMap servers (`canDownloadTiles`).
+ * Tiles already downloaded with another region are copied instead of fetched
+ * again. Rejects with an AbortError when `signal` is aborted, after removing
+ * the partial download.
+ */
+export const downloadOfflineRegion = async (
+  area: OfflineArea,
+  onProgress: (progress: DownloadProgress) => void,
+  signal: AbortSignal
+): Promise<OfflineRegion> => {
+  if (!canDownloadTiles) throw new Error('Offline downloads are not allowed from the public OpenStreetMap tile servers');
+  const id = crypto.randomUUID();
+  const urls = getTileUrls(area);
+  const progress: DownloadProgress = { done: 0, total: urls.length, bytes: 0, failed: 0 };
+  const cache = await caches.open(cacheName(id));
+
+  // Asking once is enough; browsers that decline still keep the data unless space runs out
+  await navigator.storage?.persist?.().catch(() => false);
+
+  let next = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      signal.throwIfAborted();
+      const url = urls[next++];
+      try {
+        const response = (await caches.match(url)) ?? await fetch(url, { signal });
+        if (!response.ok) throw new Error(`Tile request failed (${response.status})`);
+        progress.bytes += (await response.clone().blob()).size;
+        await cache.put(url, response);
+      } catch (error) {
+        if (signal.aborted) throw error;
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress({ ...progress });
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+  } catch (error) {
+    await caches.delete(cacheName(id));
+    throw error;
+  }
+
+  return {
+    ...area,
+    id,
+    tileCount: urls.length - progress.failed,
+    failedCount: progress.failed,
+    bytes: progress.bytes,
+    createdAt: Date.now(),
+  };
+};
+
+export const deleteOfflineRegion = (regionId: string) => caches.delete(cacheName(regionId));
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted?.() ?? Promise.resolve(false),
+  ]);
+  return { usage, quota, persisted };
+};
@@ -0,0 +1,206 @@
+import { LocationPoint, Volunteer } from '../types';
+import { getEnteredCount, getTotalCoverage, getVoterTotal, summarizeByDistrict, summarizePoints } from './coverageService';
+import { STATUS_INFO, getContactStats, getVoterStatus } from './contactService';
+import { PlannedRoute, formatDistance } from './routeService';
+import { VOLUNTEER_ROLES } from './volunteerService';
+
+const PRINT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: 'Segoe UI', Tahoma, 'Noto Naskh Arabic', sans-serif; color: #0f172a; margin: 24px; font-size: 13px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #64748b; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: right; vertical-align: top; }
+  th { background: #f1f5f9; font-weight: 700; }
+  .num { text-align: center; white-space: nowrap; }
+  .ltr { direction: ltr; unicode-bidi: embed; }
+  .check { width: 16px; height: 16px; border: 1.5px solid #334155; border-radius: 3px; display: inline-block; }
+  h2 { font-size: 16px; margin: 24px 0 8px; border-bottom: 2px solid #0f172a; padding-bottom: 4px; }
+  .totals { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; }
+  .total { border: 1px solid #cbd5e1; border-radius: 8px; padding: 8px; text-align: center; }
+  .total b { display: block; font-size: 18px; }
+  .total span { color: #64748b; font-size: 11px; }
+  .snapshot { width: 100%; border: 1px solid #cbd5e1; border-radius: 8px; }
+  tfoot td { font-weight: 700; background: #f8fafc; }
+  .sheet { break-before: page; }
+  .notes { width: 30%; }
+  @media print { body { margin: 0; } tr { break-inside: avoid; } thead { display: table-header-group; } }
+  @page { size: A4; margin: 12mm; }
+`;
+
+export const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Opens an empty window to print into. Call it straight from the click
+ * handler: popup blockers refuse windows opened after an `await`.
+ */
+export const openPrintWindow = () => {
+  const win = window.open('', '_blank');
+  win?.document.write('<p dir="rtl" style="font-family: sans-serif">جاري التحضير للطباعة...</p>');
+  return win;
+};
+
+// Replaces the window's content with `body` as an RTL page and shows the print dialog, which also offers "Save as PDF"
+export const writePrintDocument = (win: Window, title: string, body: string) => {
+  win.document.open();
+  win.document.write(`<!DOCTYPE html>
+<html lang="ar" dir="rtl">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${PRINT_STYLES}</style></head>
+<body>${body}<script>window.addEventListener('load', () => window.print());</script></body>
+</html>`);
+  win.document.close();
+  win.focus();
+};
+
+// Returns false when the browser blocked the popup
+export const printHtml = (title: string, body: string) => {
+  const win = openPrintWindow();
+  if (!win) return false;
+  writePrintDocument(win, title, body);
+  return true;
+};
+
+export const printVolunteerRoute = (volunteer: Volunteer, route: PlannedRoute) => printHtml(
+  `مسار ${volunteer.name}`,
+  `<h1>مسار الزيارات: ${escapeHtml(volunteer.name)}</h1>
+  <div class="meta">
+    ${escapeHtml(VOLUNTEER_ROLES[volunteer.role])}${volunteer.phone ? ` • <span class="ltr">${escapeHtml(volunteer.phone)}</span>` : ''}
+    • ${route.stops.length} مدرسة • ${formatDistance(route.distance)} تقريباً • ${new Date().toLocaleDateString('ar-IQ')}
+  </div>
+  <table>
+    <thead>
+      <tr><th class="num">#</th><th>المدرسة</th><th>المنطقة</th><th class="num">الناخبين</th><th class="num">الأسماء المدخلة</th><th class="num">من السابقة</th><th class="num">الإحداثيات</th><th class="num">تمت</th></tr>
+    </thead>
+    <tbody>
+      ${route.stops.map((p, i) => `<tr>
+        <td class="num">${i + 1}</td>
+        <td>${escapeHtml(p.name)}</td>
+        <td>${escapeHtml(p.district || '—')}</td>
+        <td class="num">${getVoterTotal(p).toLocaleString()}</td>
+        <td class="num">${getEnteredCount(p).toLocaleString()}</td>
+        <td class="num">${i === 0 ? '—' : formatDistance(route.legs[i])}</td>
+        <td class="num ltr">${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}</td>
+        <td class="num"><span class="check"></span></td>
+      </tr>`).join('')}
+    </tbody>
+  </table>`
+);
+
+export interface ReportOptions {
+  title: string;
+  // Describes the filters applied, e.g. "المنطقة: الكرخ"
+  scopeLabel: string;
+  topCount: number;
+  includeRollSheets: boolean;
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—');
+
+const renderRollSheet = (point: LocationPoint) => {
+  const voters = [...(point.voters || [])].sort((a, b) => a.fullName.localeCompare(b.fullName, 'ar'));
+  return `<section class="sheet">
+    <h2>${escapeHtml(point.name)}</h2>
+    <div class="meta">${escapeHtml(point.district || '—')} • ${voters.length.toLocaleString()} ناخب في السجل • الزائر: ............................ • التاريخ: ..............</div>
+    <table>
+      <thead>
+        <tr><th class="num">#</th><th>الاسم</th><th class="num">الهاتف</th><th>العنوان</th><th>الحالة</th><th class="num">تمت الزيارة</th><th class="num">مؤيد</th><th class="num">غير موجود</th><th class="notes">ملاحظات</th></tr>
+      </thead>
+      <tbody>
+        ${voters.map((v, i) => `<tr>
+          <td class="num">${i + 1}</td>
+          <td>${escapeHtml(v.fullName)}</td>
+          <td class="num ltr">${escapeHtml(v.phoneNumber || '')}</td>
+          <td>${escapeHtml(v.address || '')}</td>
+          <td>${STATUS_INFO[getVoterStatus(v)].label}</td>
+          <td class="num"><span class="check"></span></td>
+          <td class="num"><span class="check"></span></td>
+          <td class="num"><span class="check"></span></td>
+          <td></td>
+        </tr>`).join('')}
+      </tbody>
+    </table>
+  </section>`;
+};
+
+/**
+ * The leadership summary: totals, a map snapshot, per-district table and the
+ * biggest schools, optionally followed by one door-to-door roll sheet per school.
+ */
+export const renderReport = (points: LocationPoint[], options: ReportOptions, mapImage: string | null) => {
+  const summary = summarizePoints(points);
+  const districts = summarizeByDistrict(points);
+  const coverage = getTotalCoverage(points);
+  const topSchools = [...points].sort((a, b) => getVoterTotal(b) - getVoterTotal(a)).slice(0, options.topCount);
+
+  const totals: [string, string][] = [
+    ['المدارس', points.length.toLocaleString()],
+    ['عدد الناخبين', summary.total.toLocaleString()],
+    ['الأسماء المدخلة', summary.entered.toLocaleString()],
+    ['اكتمال السجل', coverage ? percent(coverage.entered, coverage.expected) : '—'],
+    ['المناطق', districts.length.toLocaleString()],
+    ['تم الاتصال', summary.contact.contacted.toLocaleString()],
+    ['مؤيد مؤكد', summary.contact.confirmed.toLocaleString()],
+    ['صوّت', summary.contact.voted.toLocaleString()],
+  ];
+
+  return `<h1>${escapeHtml(options.title)}</h1>
+  <div class="meta">${new Date().toLocaleString('ar-IQ')} • ${escapeHtml(options.scopeLabel)}</div>
+
+  <div class="totals">
+    ${totals.map(([label, value]) => `<div class="total"><b>${value}</b><span>${label}</span></div>`).join('')}
+  </div>
+
+  ${mapImage ? `<h2>الخريطة</h2><img class="snapshot" src="${mapImage}" alt="">` : ''}
+
+  <h2>حسب المنطقة</h2>
+  <table>
+    <thead>
+      <tr><th>المنطقة</th><th class="num">المدارس</th><th class="num">الناخبين</th><th class="num">الأسماء المدخلة</th><th class="num">تم الاتصال</th><th class="num">مؤيد مؤكد</th><th class="num">من المجموع</th></tr>
+    </thead>
+    <tbody>
+      ${districts.map(d => `<tr>
+        <td>${escapeHtml(d.district || 'بدون منطقة')}</td>
+        <td class="num">${d.points.length.toLocaleString()}</td>
+        <td class="num">${d.total.toLocaleString()}</td>
+        <td class="num">${d.entered.toLocaleString()}</td>
+        <td class="num">${d.contact.contacted.toLocaleString()}</td>
+        <td class="num">${d.contact.confirmed.toLocaleString()}</td>
+        <td class="num">${percent(d.total, summary.total)}</td>
+      </tr>`).join('')}
+    </tbody>
+    <tfoot>
+      <tr>
+        <td>المجموع</td>
+        <td class="num">${points.length.toLocaleString()}</td>
+        <td class="num">${summary.total.toLocaleString()}</td>
+        <td class="num">${summary.entered.toLocaleString()}</td>
+        <td class="num">${summary.contact.contacted.toLocaleString()}</td>
+        <td class="num">${summary.contact.confirmed.toLocaleString()}</td>
+        <td class="num">100%</td>
+      </tr>
+    </tfoot>
+  </table>
+
+  <h2>أكبر ${topSchools.length} مدارس</h2>
+  <table>
+    <thead>
+      <tr><th class="num">#</th><th>المدرسة</th><th>المنطقة</th><th class="num">الناخبين</th><th class="num">الأسماء المدخلة</th><th class="num">تم الاتصال</th></tr>
+    </thead>
+    <tbody>
+      ${topSchools.map((p, i) => `<tr>
+        <td class="num">${i + 1}</td>
+        <td>${escapeHtml(p.name)}</td>
+        <td>${escapeHtml(p.district || '—')}</td>
+        <td class="num">${getVoterTotal(p).toLocaleString()}</td>
+        <td class="num">${getEnteredCount(p).toLocaleString()}</td>
+        <td class="num">${getContactStats(p.voters || []).contacted.toLocaleString()}</td>
+      </tr>`).join('')}
+    </tbody>
+  </table>
+
+  ${options.includeRollSheets ? points.filter(p => p.voters?.length).map(renderRollSheet).join('') : ''}`;
+};
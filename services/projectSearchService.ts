@@ -0,0 +1,60 @@
+import { LocationPoint } from '../types';
+import { VoterEntry, phoneKey } from './duplicateService';
+import { fuzzyMatchScore } from './textService';
+import { toWesternDigits } from './voterService';
+
+export interface SchoolMatch {
+  point: LocationPoint;
+  score: number;
+}
+
+export interface VoterMatch extends VoterEntry {
+  score: number;
+}
+
+export interface ProjectSearchResults {
+  schools: SchoolMatch[];
+  voters: VoterMatch[];
+}
+
+// Shorter digit runs would match most phone numbers
+const MIN_PHONE_DIGITS = 4;
+
+const byScore = (a: { score: number }, b: { score: number }) => b.score - a.score;
+
+/**
+ * Searches our own data: schools by name (or district), voters by name, phone
+ * or ID card number. Best matches first, at most `limit` of each.
+ */
+export const searchProject = (query: string, points: LocationPoint[], limit = 8): ProjectSearchResults => {
+  const digits = toWesternDigits(query).replace(/\D/g, '');
+  const isNumeric = digits.length >= MIN_PHONE_DIGITS && !/[^\d\s+\-()]/.test(toWesternDigits(query));
+
+  const schools: SchoolMatch[] = [];
+  const voters: VoterMatch[] = [];
+  points.forEach(point => {
+    if (!isNumeric) {
+      // A district hit ranks below any name hit
+      const score = Math.max(fuzzyMatchScore(query, point.name), fuzzyMatchScore(query, point.district || '') / 2);
+      if (score > 0) schools.push({ point, score });
+    }
+
+    point.voters?.forEach(voter => {
+      let score = 0;
+      if (isNumeric) {
+        const phoneDigits = toWesternDigits(voter.phoneNumber).replace(/\D/g, '');
+        if (phoneKey(voter.phoneNumber) === phoneKey(query)) score = 100;
+        else if (phoneDigits.includes(digits) || phoneKey(voter.phoneNumber).includes(digits)) score = 60;
+        else if (voter.nationalId && toWesternDigits(voter.nationalId).includes(digits)) score = 50;
+      } else {
+        score = fuzzyMatchScore(query, voter.fullName);
+      }
+      if (score > 0) voters.push({ voter, schoolId: point.id, schoolName: point.name, score });
+    });
+  });
+
+  return {
+    schools: schools.sort(byScore).slice(0, limit),
+    voters: voters.sort(byScore).slice(0, limit),
+  };
+};
@@ -0,0 +1,99 @@
+import { BBox, LatLngPair, MapRegion } from '../types';
+
+const REGION_KEY = 'populationMapRegion';
+
+export const CUSTOM_REGION_ID = 'custom';
+
+// Opens on the governorate capital; the box covers the whole governorate
+const governorate = (id: string, name: string, center: LatLngPair, bbox: BBox, zoom = 11): MapRegion => ({
+  id,
+  name,
+  center,
+  zoom,
+  bbox,
+  countryCode: 'iq',
+  language: 'ar',
+});
+
+export const IRAQ_GOVERNORATES: MapRegion[] = [
+  // Greater Baghdad including the outskirts, as the app has always searched
+  governorate('baghdad', 'بغداد', [33.3152, 44.3661], [33.10, 44.00, 33.55, 44.70]),
+  governorate('basra', 'البصرة', [30.5085, 47.7804], [29.10, 46.40, 31.35, 48.65]),
+  governorate('nineveh', 'نينوى', [36.3450, 43.1450], [35.20, 41.20, 37.10, 44.00]),
+  governorate('erbil', 'أربيل', [36.1911, 44.0092], [35.60, 43.30, 37.30, 45.20]),
+  governorate('sulaymaniyah', 'السليمانية', [35.5613, 45.4304], [34.40, 44.60, 36.50, 46.30]),
+  governorate('duhok', 'دهوك', [36.8669, 42.9503], [36.50, 42.30, 37.40, 44.30]),
+  governorate('halabja', 'حلبجة', [35.1778, 45.9861], [34.95, 45.70, 35.45, 46.20], 12),
+  governorate('kirkuk', 'كركوك', [35.4681, 44.3922], [34.50, 43.40, 36.00, 44.90]),
+  governorate('diyala', 'ديالى', [33.7500, 44.6400], [33.00, 44.30, 35.10, 46.00]),
+  governorate('anbar', 'الأنبار', [33.4258, 43.2994], [30.90, 38.80, 35.20, 44.20]),
+  governorate('salahaddin', 'صلاح الدين', [34.6071, 43.6782], [33.40, 42.70, 35.60, 44.90]),
+  governorate('babil', 'بابل', [32.4637, 44.4196], [32.10, 44.00, 33.10, 45.10]),
+  governorate('karbala', 'كربلاء', [32.6160, 44.0249], [32.00, 43.20, 33.00, 44.40]),
+  governorate('najaf', 'النجف', [31.9960, 44.3145], [29.10, 42.50, 32.30, 44.80]),
+  governorate('qadisiyah', 'القادسية', [31.9929, 44.9255], [31.10, 44.40, 32.60, 45.80]),
+  governorate('wasit', 'واسط', [32.5128, 45.8182], [32.00, 44.60, 33.60, 47.10]),
+  governorate('maysan', 'ميسان', [31.8356, 47.1440], [31.10, 46.30, 32.80, 48.00]),
+  governorate('dhiqar', 'ذي قار', [31.0439, 46.2573], [30.40, 45.40, 32.20, 47.40]),
+  governorate('muthanna', 'المثنى', [31.3099, 45.2806], [29.10, 44.00, 31.70, 46.40]),
+];
+
+export const DEFAULT_REGION = IRAQ_GOVERNORATES[0];
+
+/**
+ * A region covering `bbox`, e.g. drawn on the map. The country code and
+ * language are kept from `base`, the region it replaces.
+ */
+export const regionFromBBox = (bbox: BBox, zoom: number, base: MapRegion): MapRegion => {
+  const [south, west, north, east] = bbox;
+  return {
+    ...base,
+    id: CUSTOM_REGION_ID,
+    name: 'منطقة مخصصة',
+    center: [(south + north) / 2, (west + east) / 2],
+    zoom,
+    bbox,
+  };
+};
+
+// The two opposite corners of `bbox` in Leaflet order
+export const bboxToBounds = ([south, west, north, east]: BBox): [LatLngPair, LatLngPair] => [[south, west], [north, east]];
+
+export const boundsToBBox = ([a, b]: [LatLngPair, LatLngPair]): BBox => [
+  Math.min(a[0], b[0]),
+  Math.min(a[1], b[1]),
+  Math.max(a[0], b[0]),
+  Math.max(a[1], b[1]),
+];
+
+const isLatLng = (value: unknown): value is LatLngPair =>
+  Array.isArray(value) && value.length === 2 && value.every(Number.isFinite);
+
+const isBBox = (value: unknown): value is BBox =>
+  Array.isArray(value) && value.length === 4 && value.every(Number.isFinite) && value[0] < value[2] && value[1] < value[3];
+
+export const sanitizeRegion = (raw: any): MapRegion => {
+  if (!raw || !isLatLng(raw.center) || !isBBox(raw.bbox)) return DEFAULT_REGION;
+  return {
+    id: typeof raw.id === 'string' ? raw.id : CUSTOM_REGION_ID,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'منطقة مخصصة',
+    center: raw.center,
+    zoom: Number.isFinite(raw.zoom) ? Math.min(Math.max(raw.zoom, 3), 18) : DEFAULT_REGION.zoom,
+    bbox: raw.bbox,
+    countryCode: typeof raw.countryCode === 'string' ? raw.countryCode.trim().toLowerCase() : DEFAULT_REGION.countryCode,
+    language: typeof raw.language === 'string' && raw.language.trim() ? raw.language.trim() : DEFAULT_REGION.language,
+  };
+};
+
+export const loadRegion = (): MapRegion => {
+  try {
+    return sanitizeRegion(JSON.parse(localStorage.getItem(REGION_KEY) || 'null'));
+  } catch (error) {
+    console.error('Error loading region from localStorage:', error);
+    return DEFAULT_REGION;
+  }
+};
+
+export const saveRegion = (region: MapRegion) => {
+  localStorage.setItem(REGION_KEY, JSON.stringify(region));
+};
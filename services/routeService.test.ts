@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { makePoint } from '../test/fixtures';
+import { distanceMeters } from './geoService';
+import { formatDistance, planRoute } from './routeService';
+
+const at = (id: string, lat: number, lng: number) => makePoint(id, { lat, lng });
+
+describe('planRoute', () => {
+  it('handles no schools and a single school', () => {
+    expect(planRoute([])).toEqual({ stops: [], legs: [], distance: 0 });
+    const school = at('a', 33.3, 44.4);
+    expect(planRoute([school])).toEqual({ stops: [school], legs: [0], distance: 0 });
+  });
+
+  it('walks schools on a street from one end to the other', () => {
+    const street = [0, 1, 2, 3, 4, 5].map(i => at(`s${i}`, 33.3, 44.4 + i * 0.01));
+    const shuffled = [street[3], street[0], street[5], street[1], street[4], street[2]];
+
+    const { stops, distance } = planRoute(shuffled);
+    const ids = stops.map(p => p.id);
+    expect([ids, [...ids].reverse()]).toContainEqual(street.map(p => p.id));
+    expect(distance).toBeCloseTo(distanceMeters(street[0], street[5]), 0);
+  });
+
+  it('finds the shortest path through a grid, visiting every school once', () => {
+    // A 3 x 3 block, 0.01° apart: the best open path snakes along the rows
+    const grid = [0, 1, 2].flatMap(row => [0, 1, 2].map(col => at(`${row}${col}`, 33.3 + row * 0.01, 44.4 + col * 0.01)));
+    const { stops, legs, distance } = planRoute(grid);
+
+    expect(new Set(stops.map(p => p.id)).size).toBe(9);
+    expect(legs[0]).toBe(0);
+    expect(distance).toBeCloseTo(legs.reduce((sum, d) => sum + d, 0), 6);
+    const alongRow = distanceMeters(grid[0], grid[1]);
+    const betweenRows = distanceMeters(grid[0], grid[3]);
+    expect(distance).toBeLessThanOrEqual(6 * alongRow + 2 * betweenRows + 1);
+  });
+
+  it('undoes crossings the nearest-neighbour pass leaves behind', () => {
+    // Nearest neighbour from the far end goes a → b → c → d → e and then has to jump back to f
+    const points = [at('a', 33.30, 44.40), at('b', 33.30, 44.41), at('f', 33.31, 44.405), at('c', 33.30, 44.42), at('d', 33.30, 44.43), at('e', 33.30, 44.44)];
+    const { stops, legs } = planRoute(points);
+    const crosses = (i: number, j: number) => {
+      const [p1, p2, p3, p4] = [stops[i], stops[i + 1], stops[j], stops[j + 1]];
+      const side = (a: typeof p1, b: typeof p1, c: typeof p1) => Math.sign((b.lng - a.lng) * (c.lat - a.lat) - (b.lat - a.lat) * (c.lng - a.lng));
+      return side(p1, p2, p3) * side(p1, p2, p4) < 0 && side(p3, p4, p1) * side(p3, p4, p2) < 0;
+    };
+    for (let i = 0; i < stops.length - 1; i++) {
+      for (let j = i + 2; j < stops.length - 1; j++) expect(crosses(i, j)).toBe(false);
+    }
+    expect(legs).toHaveLength(6);
+  });
+});
+
+describe('formatDistance', () => {
+  it('uses meters below a kilometer', () => {
+    expect(formatDistance(420.4)).toBe('420 م');
+    expect(formatDistance(1234)).toBe('1.2 كم');
+  });
+});
@@ -0,0 +1,70 @@
+import { LocationPoint } from '../types';
+import { distanceMeters } from './geoService';
+
+export interface PlannedRoute {
+  stops: LocationPoint[];
+  // legs[i] is the distance in meters from stops[i - 1] to stops[i]; legs[0] is 0
+  legs: number[];
+  distance: number;
+}
+
+// Schools the route can't be improved past in reasonable time; 2-opt is O(n^2) per pass
+const MAX_IMPROVED_STOPS = 200;
+
+const nearestNeighbour = (points: LocationPoint[], start: LocationPoint) => {
+  const remaining = points.filter(p => p !== start);
+  const order = [start];
+  while (remaining.length) {
+    const last = order[order.length - 1];
+    let nearest = 0;
+    remaining.forEach((p, i) => {
+      if (distanceMeters(last, p) < distanceMeters(last, remaining[nearest])) nearest = i;
+    });
+    order.push(remaining.splice(nearest, 1)[0]);
+  }
+  return order;
+};
+
+// Reverses segments while that shortens the (open) path
+const twoOpt = (order: LocationPoint[]) => {
+  const route = [...order];
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < route.length - 1; i++) {
+      for (let k = i + 1; k < route.length; k++) {
+        const next = route[k + 1];
+        const before = distanceMeters(route[i - 1], route[i]) + (next ? distanceMeters(route[k], next) : 0);
+        const after = distanceMeters(route[i - 1], route[k]) + (next ? distanceMeters(route[i], next) : 0);
+        if (after < before - 1) {
+          route.splice(i, k - i + 1, ...route.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+  return route;
+};
+
+/**
+ * Orders schools into a short visiting route by straight-line distance:
+ * nearest neighbour from the outermost school, then 2-opt to remove crossings.
+ */
+export const planRoute = (points: LocationPoint[]): PlannedRoute => {
+  if (points.length === 0) return { stops: [], legs: [], distance: 0 };
+
+  // Starting at an end of the spread avoids doubling back through the middle
+  const center = {
+    lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+    lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+  };
+  const start = points.reduce((far, p) => (distanceMeters(center, p) > distanceMeters(center, far) ? p : far));
+
+  const order = nearestNeighbour(points, start);
+  const stops = order.length <= MAX_IMPROVED_STOPS ? twoOpt(order) : order;
+  const legs = stops.map((p, i) => (i === 0 ? 0 : distanceMeters(stops[i - 1], p)));
+  return { stops, legs, distance: legs.reduce((sum, d) => sum + d, 0) };
+};
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} م` : `${(meters / 1000).toFixed(1)} كم`;
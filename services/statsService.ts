@@ -0,0 +1,112 @@
+import { LocationPoint, VoterStatus } from '../types';
+import { getCoverage, getVoterTotal } from './coverageService';
+import { STATUS_INFO, getVoterStatus } from './contactService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A chart segment picked on the dashboard, applied on top of the other filters
+export type StatsFilter =
+  | { kind: 'size'; min: number; max: number }
+  | { kind: 'completion'; bucket: number }
+  | { kind: 'status'; status: VoterStatus }
+  // Schools that had voters entered on the day starting at `day`
+  | { kind: 'addedOn'; day: number };
+
+export const COMPLETION_BUCKETS = ['لم يبدأ', 'أقل من 25%', '25–50%', '50–75%', '75–99%', 'مكتمل'];
+
+export interface SizeBin {
+  min: number;
+  max: number;
+  schools: number;
+}
+
+export interface GrowthStep {
+  day: number;
+  added: number;
+  // Entered so far, including this day
+  total: number;
+}
+
+const startOfDay = (at: number) => new Date(at).setHours(0, 0, 0, 0);
+
+// 1, 2 or 5 times a power of ten, at least `value`
+const niceStep = (value: number) => {
+  const magnitude = 10 ** Math.floor(Math.log10(Math.max(value, 1)));
+  return [1, 2, 5, 10].map(m => m * magnitude).find(step => step >= value) ?? 10 * magnitude;
+};
+
+// Schools counted into equal voter-count ranges with round bounds
+export const getSizeBins = (points: LocationPoint[], binCount = 6): SizeBin[] => {
+  if (points.length === 0) return [];
+  const max = Math.max(...points.map(getVoterTotal));
+  const step = niceStep(Math.ceil((max + 1) / binCount));
+  const bins = Array.from({ length: Math.floor(max / step) + 1 }, (_, i) => ({ min: i * step, max: (i + 1) * step - 1, schools: 0 }));
+  points.forEach(p => bins[Math.floor(getVoterTotal(p) / step)].schools++);
+  return bins;
+};
+
+// Index into COMPLETION_BUCKETS, or null for schools that don't track a roll against a count
+export const getCompletionBucket = (point: LocationPoint): number | null => {
+  const coverage = getCoverage(point);
+  if (!coverage) return null;
+  const ratio = coverage.expected > 0 ? coverage.entered / coverage.expected : coverage.entered > 0 ? 1 : 0;
+  if (ratio === 0) return 0;
+  if (ratio >= 1) return COMPLETION_BUCKETS.length - 1;
+  return 1 + Math.floor(ratio * 4);
+};
+
+export const getCompletionCounts = (points: LocationPoint[]) => {
+  const counts = COMPLETION_BUCKETS.map(() => 0);
+  points.forEach(p => {
+    const bucket = getCompletionBucket(p);
+    if (bucket !== null) counts[bucket]++;
+  });
+  return counts;
+};
+
+// Voters entered per day (from `createdAt`) with the running total
+export const getEntryGrowth = (points: LocationPoint[]): GrowthStep[] => {
+  const perDay = new Map<number, number>();
+  points.forEach(p => p.voters?.forEach(v => {
+    const day = startOfDay(v.createdAt);
+    perDay.set(day, (perDay.get(day) || 0) + 1);
+  }));
+
+  let total = 0;
+  return [...perDay.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([day, added]) => {
+      total += added;
+      return { day, added, total };
+    });
+};
+
+export const matchesStatsFilter = (point: LocationPoint, filter: StatsFilter) => {
+  switch (filter.kind) {
+    case 'size': {
+      const total = getVoterTotal(point);
+      return total >= filter.min && total <= filter.max;
+    }
+    case 'completion':
+      return getCompletionBucket(point) === filter.bucket;
+    case 'status':
+      return !!point.voters?.some(v => getVoterStatus(v) === filter.status);
+    case 'addedOn':
+      return !!point.voters?.some(v => v.createdAt >= filter.day && v.createdAt < filter.day + DAY_MS);
+  }
+};
+
+export const formatDay = (day: number) => new Date(day).toLocaleDateString('ar-IQ', { day: 'numeric', month: 'short' });
+
+export const describeStatsFilter = (filter: StatsFilter) => {
+  switch (filter.kind) {
+    case 'size':
+      return `حجم ${filter.min.toLocaleString()}–${filter.max.toLocaleString()} ناخب`;
+    case 'completion':
+      return `اكتمال السجل: ${COMPLETION_BUCKETS[filter.bucket]}`;
+    case 'status':
+      return `فيها ناخبون بحالة "${STATUS_INFO[filter.status].label}"`;
+    case 'addedOn':
+      return `أُدخلت أسماء في ${formatDay(filter.day)}`;
+  }
+};
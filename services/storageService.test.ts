@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { makePoint, makeVoter } from '../test/fixtures';
+import { applyChangeSet, diffPoints, isEmptyChangeSet } from './storageService';
+
+describe('diffPoints', () => {
+  const a = makePoint('a', { voters: [makeVoter('v1'), makeVoter('v2')] });
+  const b = makePoint('b');
+  const prev = [a, b];
+
+  it('finds nothing when the snapshots share their objects', () => {
+    expect(isEmptyChangeSet(diffPoints(prev, [...prev]))).toBe(true);
+  });
+
+  it('writes only the voter that changed, not its school', () => {
+    const v2 = { ...a.voters![1], status: 'supporter' as const };
+    const changes = diffPoints(prev, [{ ...a, voters: [a.voters![0], v2] }, b]);
+    expect(changes).toEqual({ upsertPoints: [], deletePointIds: [], upsertVoters: [{ ...v2, schoolId: 'a' }], deleteVoterIds: [] });
+  });
+
+  it('writes a school whose own fields changed without its unchanged voters', () => {
+    const { voters, ...stored } = { ...a, name: 'اسم جديد' };
+    const changes = diffPoints(prev, [{ ...a, name: 'اسم جديد' }, b]);
+    expect(changes.upsertPoints).toEqual([stored]);
+    expect(changes.upsertVoters).toEqual([]);
+  });
+
+  it('picks up added and deleted schools and voters', () => {
+    const c = makePoint('c', { voters: [makeVoter('v3')] });
+    const changes = diffPoints(prev, [{ ...a, voters: [a.voters![0]] }, c]);
+    expect(changes.upsertPoints.map(p => p.id)).toEqual(['c']);
+    expect(changes.upsertVoters).toEqual([{ ...makeVoter('v3'), schoolId: 'c' }]);
+    expect(changes.deleteVoterIds).toEqual(['v2']);
+    expect(changes.deletePointIds).toEqual(['b']);
+  });
+});
+
+describe('applyChangeSet', () => {
+  it('is the inverse of diffPoints', () => {
+    const prev = [makePoint('a', { voters: [makeVoter('v1'), makeVoter('v2')] }), makePoint('b', { voters: [makeVoter('v4')] })];
+    const next = [
+      { ...prev[0], name: 'اسم جديد', voters: [{ ...makeVoter('v2'), notes: 'اتصل لاحقاً' }, makeVoter('v5')] },
+      makePoint('c', { voters: [makeVoter('v3')] }),
+    ];
+    expect(applyChangeSet(prev, diffPoints(prev, next))).toEqual(next);
+  });
+
+  it('returns the same array for an empty change set', () => {
+    const points = [makePoint('a')];
+    expect(applyChangeSet(points, diffPoints(points, points))).toBe(points);
+  });
+
+  it('keeps the untouched schools as they were', () => {
+    const untouched = makePoint('b');
+    const result = applyChangeSet([makePoint('a'), untouched], {
+      upsertPoints: [],
+      deletePointIds: ['a'],
+      upsertVoters: [],
+      deleteVoterIds: [],
+    });
+    expect(result).toEqual([untouched]);
+    expect(result[0]).toBe(untouched);
+  });
+});
@@ -0,0 +1,416 @@
+import { LocationPoint, StoredPoint, StoredVoter, Voter } from '../types';
+
+// Legacy key used before the IndexedDB storage layer existed
+export const LEGACY_STORAGE_KEY = 'populationMapPoints';
+
+const DB_NAME = 'voterDistributionMap';
+const DB_VERSION = 1;
+const POINTS_STORE = 'points';
+const VOTERS_STORE = 'voters';
+const META_STORE = 'meta';
+const LOCAL_VALUE_PREFIX = 'populationMapLocal:';
+
+/**
+ * Incremental set of writes derived by comparing two snapshots of `points`.
+ * Deleting a point also deletes all of its voters.
+ */
+export interface StorageChangeSet {
+  upsertPoints: StoredPoint[];
+  deletePointIds: string[];
+  upsertVoters: StoredVoter[];
+  deleteVoterIds: string[];
+}
+
+// 'unauthorized': the server rejected the sync token
+export type SyncState = 'synced' | 'syncing' | 'pending' | 'offline' | 'unauthorized';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingCount: number;
+  lastSyncedAt: number | null;
+}
+
+// Events an adapter can push to the app, e.g. when teammates' changes arrive from the sync server
+export type StorageEvent =
+  | { type: 'remoteChange'; points: LocationPoint[] }
+  | { type: 'status'; status: SyncStatus }
+  // Something the user should know about that didn't stop the data from loading
+  | { type: 'warning'; message: string };
+
+export interface StorageAdapter {
+  readonly name: string;
+  loadPoints: () => Promise<LocationPoint[]>;
+  applyChanges: (changes: StorageChangeSet) => Promise<void>;
+  replaceAll: (points: LocationPoint[]) => Promise<void>;
+  // Optional; only adapters with events to report implement it. Returns an unsubscribe function.
+  subscribe?: (listener: (event: StorageEvent) => void) => () => void;
+  // Optional; pushes pending changes and pulls remote ones right away
+  syncNow?: () => Promise<void>;
+  // Optional; releases timers and listeners when the adapter is replaced
+  dispose?: () => void;
+}
+
+export type StorageErrorKind = 'quota' | 'corrupt' | 'unavailable' | 'unknown';
+
+export class StorageError extends Error {
+  kind: StorageErrorKind;
+
+  constructor(kind: StorageErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'StorageError';
+    this.kind = kind;
+  }
+}
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Normalizes browser storage failures into StorageError with a user-facing Arabic message
+export const toStorageError = (error: unknown): StorageError => {
+  if (error instanceof StorageError) return error;
+  if (isQuotaError(error)) {
+    return new StorageError('quota', 'مساحة التخزين في المتصفح ممتلئة. لم يتم حفظ آخر التغييرات؛ يرجى تنزيل نسخة احتياطية وحذف بيانات غير ضرورية.', { cause: error });
+  }
+  return new StorageError('unknown', 'حدث خطأ أثناء حفظ البيانات في المتصفح.', { cause: error });
+};
+
+export const splitPoint = ({ voters, ...point }: LocationPoint): { point: StoredPoint; voters: StoredVoter[] } => ({
+  point,
+  voters: (voters || []).map(v => ({ ...v, schoolId: point.id })),
+});
+
+// True when anything other than the voters list differs between two versions of a point
+const pointFieldsChanged = (a: LocationPoint, b: LocationPoint) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof LocationPoint)[]);
+  keys.delete('voters');
+  return [...keys].some(key => a[key] !== b[key]);
+};
+
+export const isEmptyChangeSet = (changes: StorageChangeSet) =>
+  changes.upsertPoints.length === 0 &&
+  changes.deletePointIds.length === 0 &&
+  changes.upsertVoters.length === 0 &&
+  changes.deleteVoterIds.length === 0;
+
+/**
+ * Compares two snapshots of the points list and returns only what changed.
+ * State updates are immutable, so an unchanged point or voter keeps its object identity.
+ */
+export const diffPoints = (prev: LocationPoint[], next: LocationPoint[]): StorageChangeSet => {
+  const changes: StorageChangeSet = { upsertPoints: [], deletePointIds: [], upsertVoters: [], deleteVoterIds: [] };
+  const prevById = new Map(prev.map(p => [p.id, p]));
+
+  next.forEach(point => {
+    const before = prevById.get(point.id);
+    prevById.delete(point.id);
+    if (before === point) return;
+
+    const { point: stored, voters } = splitPoint(point);
+    if (!before || pointFieldsChanged(before, point)) changes.upsertPoints.push(stored);
+
+    const prevVoters = new Map((before?.voters || []).map(v => [v.id, v]));
+    (point.voters || []).forEach((voter, index) => {
+      if (prevVoters.get(voter.id) !== voter) changes.upsertVoters.push(voters[index]);
+      prevVoters.delete(voter.id);
+    });
+    changes.deleteVoterIds.push(...prevVoters.keys());
+  });
+
+  changes.deletePointIds.push(...prevById.keys());
+  return changes;
+};
+
+/**
+ * Folds a change set into a points snapshot (the inverse of `diffPoints`).
+ * Used by adapters that keep the whole list in memory.
+ */
+export const applyChangeSet = (points: LocationPoint[], changes: StorageChangeSet): LocationPoint[] => {
+  if (isEmptyChangeSet(changes)) return points;
+  const deletedPoints = new Set(changes.deletePointIds);
+  const deletedVoters = new Set(changes.deleteVoterIds);
+  const upserts = new Map(changes.upsertPoints.map(p => [p.id, p]));
+  const voterUpserts = new Map<string, StoredVoter[]>();
+  changes.upsertVoters.forEach(v => voterUpserts.set(v.schoolId, [...(voterUpserts.get(v.schoolId) || []), v]));
+
+  const result = points
+    .filter(p => !deletedPoints.has(p.id))
+    .map(p => {
+      const upsert = upserts.get(p.id);
+      upserts.delete(p.id);
+      return upsert ? { ...upsert, voters: p.voters } : p;
+    });
+  upserts.forEach(p => result.push({ ...p, voters: [] }));
+
+  return result.map(p => {
+    const added = voterUpserts.get(p.id);
+    if (!added && !(p.voters || []).some(v => deletedVoters.has(v.id))) return p;
+
+    const voters = (p.voters || []).filter(v => !deletedVoters.has(v.id));
+    (added || []).forEach(({ schoolId, ...voter }) => {
+      const index = voters.findIndex(v => v.id === voter.id);
+      if (index >= 0) voters[index] = voter;
+      else voters.push(voter);
+    });
+    return { ...p, voters };
+  });
+};
+
+// --- IndexedDB ---
+
+const promisifyRequest = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const promisifyTransaction = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(POINTS_STORE)) {
+      db.createObjectStore(POINTS_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(VOTERS_STORE)) {
+      const voters = db.createObjectStore(VOTERS_STORE, { keyPath: 'id' });
+      voters.createIndex('schoolId', 'schoolId', { unique: false });
+    }
+    if (!db.objectStoreNames.contains(META_STORE)) {
+      db.createObjectStore(META_STORE);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new StorageError('unavailable', 'قاعدة البيانات مفتوحة في نافذة أخرى بإصدار أقدم. يرجى إغلاق النوافذ الأخرى.'));
+});
+
+const isValidStoredPoint = (p: any): p is StoredPoint =>
+  p && typeof p.id === 'string' && typeof p.name === 'string' && Number.isFinite(p.lat) && Number.isFinite(p.lng);
+
+export const createIndexedDbStorage = (): StorageAdapter => {
+  const listeners = new Set<(event: StorageEvent) => void>();
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().catch(error => {
+        dbPromise = null;
+        throw error instanceof StorageError
+          ? error
+          : new StorageError('unavailable', 'تعذر فتح قاعدة بيانات المتصفح (IndexedDB).', { cause: error });
+      });
+    }
+    return dbPromise;
+  };
+
+  const writePoints = (tx: IDBTransaction, points: LocationPoint[]) => {
+    const pointStore = tx.objectStore(POINTS_STORE);
+    const voterStore = tx.objectStore(VOTERS_STORE);
+    points.forEach(p => {
+      const { point, voters } = splitPoint(p);
+      pointStore.put(point);
+      voters.forEach(v => voterStore.put(v));
+    });
+  };
+
+  // One-time move of the old localStorage blob into IndexedDB.
+  // The legacy key is only removed once the data is safely committed; records
+  // that can't be loaded are kept in the meta store rather than dropped.
+  const migrateLegacyData = async (db: IDBDatabase) => {
+    const migrated = await promisifyRequest(db.transaction(META_STORE).objectStore(META_STORE).get('legacyMigrated'));
+    if (migrated) return;
+
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    let legacyPoints: LocationPoint[] = [];
+    if (raw) {
+      try {
+        legacyPoints = JSON.parse(raw);
+        if (!Array.isArray(legacyPoints)) throw new Error('Legacy data is not an array');
+      } catch (error) {
+        throw new StorageError('corrupt', 'البيانات المحفوظة سابقاً في المتصفح تالفة ولا يمكن قراءتها. لم يتم حذفها، ويمكن استعادتها من نسخة احتياطية.', { cause: error });
+      }
+    }
+
+    const rejected = legacyPoints.filter(p => !isValidStoredPoint(p));
+    const tx = db.transaction([POINTS_STORE, VOTERS_STORE, META_STORE], 'readwrite');
+    writePoints(tx, legacyPoints.filter(isValidStoredPoint));
+    if (rejected.length > 0) tx.objectStore(META_STORE).put(rejected, 'legacyRejected');
+    tx.objectStore(META_STORE).put(Date.now(), 'legacyMigrated');
+    await promisifyTransaction(tx);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+
+    if (rejected.length > 0) {
+      listeners.forEach(listener => listener({
+        type: 'warning',
+        message: `تم نقل البيانات المحفوظة سابقاً، لكن تم تجاهل ${rejected.length} موقع بسبب بيانات ناقصة أو إحداثيات غير صالحة. لم تُحذف هذه السجلات وما زالت محفوظة في المتصفح.`,
+      }));
+    }
+  };
+
+  return {
+    name: 'IndexedDB',
+
+    loadPoints: async () => {
+      try {
+        const db = await getDb();
+        await migrateLegacyData(db);
+
+        const tx = db.transaction([POINTS_STORE, VOTERS_STORE]);
+        const [storedPoints, storedVoters] = await Promise.all([
+          promisifyRequest<StoredPoint[]>(tx.objectStore(POINTS_STORE).getAll()),
+          promisifyRequest<StoredVoter[]>(tx.objectStore(VOTERS_STORE).getAll()),
+        ]);
+
+        const invalid = storedPoints.filter(p => !isValidStoredPoint(p));
+        if (invalid.length > 0) {
+          throw new StorageError('corrupt', `تم العثور على ${invalid.length} سجل تالف في قاعدة بيانات المتصفح.`);
+        }
+
+        const votersBySchool = new Map<string, Voter[]>();
+        storedVoters.forEach(({ schoolId, ...voter }) => {
+          const list = votersBySchool.get(schoolId) || [];
+          list.push(voter);
+          votersBySchool.set(schoolId, list);
+        });
+
+        return storedPoints
+          .sort((a, b) => a.createdAt - b.createdAt)
+          .map(p => ({
+            ...p,
+            voters: (votersBySchool.get(p.id) || []).sort((a, b) => a.createdAt - b.createdAt),
+          }));
+      } catch (error) {
+        throw toStorageError(error);
+      }
+    },
+
+    applyChanges: async (changes) => {
+      if (isEmptyChangeSet(changes)) return;
+      try {
+        const db = await getDb();
+        const tx = db.transaction([POINTS_STORE, VOTERS_STORE], 'readwrite');
+        const pointStore = tx.objectStore(POINTS_STORE);
+        const voterStore = tx.objectStore(VOTERS_STORE);
+        const bySchool = voterStore.index('schoolId');
+
+        changes.upsertPoints.forEach(p => pointStore.put(p));
+        changes.upsertVoters.forEach(v => voterStore.put(v));
+        changes.deleteVoterIds.forEach(id => voterStore.delete(id));
+        changes.deletePointIds.forEach(id => {
+          pointStore.delete(id);
+          bySchool.openKeyCursor(IDBKeyRange.only(id)).onsuccess = (e) => {
+            const cursor = (e.target as IDBRequest<IDBCursor | null>).result;
+            if (cursor) {
+              voterStore.delete(cursor.primaryKey);
+              cursor.continue();
+            }
+          };
+        });
+
+        await promisifyTransaction(tx);
+      } catch (error) {
+        throw toStorageError(error);
+      }
+    },
+
+    replaceAll: async (points) => {
+      try {
+        const db = await getDb();
+        const tx = db.transaction([POINTS_STORE, VOTERS_STORE], 'readwrite');
+        tx.objectStore(POINTS_STORE).clear();
+        tx.objectStore(VOTERS_STORE).clear();
+        writePoints(tx, points);
+        await promisifyTransaction(tx);
+      } catch (error) {
+        throw toStorageError(error);
+      }
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+// --- localStorage fallback (browsers without IndexedDB, e.g. some private modes) ---
+
+export const createLocalStorageStorage = (): StorageAdapter => {
+  let snapshot: LocationPoint[] = [];
+
+  const write = (points: LocationPoint[]) => {
+    try {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(points));
+      snapshot = points;
+    } catch (error) {
+      throw toStorageError(error);
+    }
+  };
+
+  return {
+    name: 'localStorage',
+
+    loadPoints: async () => {
+      const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!raw) return [];
+      try {
+        const parsed = JSON.parse(raw);
+        if (!Array.isArray(parsed)) throw new Error('Stored data is not an array');
+        snapshot = parsed;
+        return parsed;
+      } catch (error) {
+        throw new StorageError('corrupt', 'البيانات المحفوظة في المتصفح تالفة ولا يمكن قراءتها.', { cause: error });
+      }
+    },
+
+    // localStorage can only hold a single blob, so changes are folded into the last snapshot
+    applyChanges: async (changes) => {
+      if (isEmptyChangeSet(changes)) return;
+      write(applyChangeSet(snapshot, changes));
+    },
+
+    replaceAll: async (points) => write(points),
+  };
+};
+
+export const createDefaultStorage = (): StorageAdapter =>
+  typeof indexedDB !== 'undefined' ? createIndexedDbStorage() : createLocalStorageStorage();
+
+/**
+ * Device-local project data that is too large for localStorage and isn't part
+ * of `points` (e.g. district boundaries). Lives in the IndexedDB meta store and
+ * falls back to localStorage where IndexedDB is missing.
+ */
+export const loadLocalValue = async <T>(key: string): Promise<T | undefined> => {
+  if (typeof indexedDB === 'undefined') {
+    const saved = localStorage.getItem(LOCAL_VALUE_PREFIX + key);
+    return saved ? JSON.parse(saved) : undefined;
+  }
+  const db = await openDatabase();
+  try {
+    return await promisifyRequest(db.transaction(META_STORE).objectStore(META_STORE).get(key));
+  } finally {
+    db.close();
+  }
+};
+
+// `undefined` deletes the value
+export const saveLocalValue = async (key: string, value: unknown) => {
+  if (typeof indexedDB === 'undefined') {
+    if (value === undefined) localStorage.removeItem(LOCAL_VALUE_PREFIX + key);
+    else localStorage.setItem(LOCAL_VALUE_PREFIX + key, JSON.stringify(value));
+    return;
+  }
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(META_STORE, 'readwrite');
+    if (value === undefined) tx.objectStore(META_STORE).delete(key);
+    else tx.objectStore(META_STORE).put(value, key);
+    await promisifyTransaction(tx);
+  } finally {
+    db.close();
+  }
+};
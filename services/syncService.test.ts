@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { makePoint, makeVoter, toStoredPoint, toStoredVoter } from '../test/fixtures';
+import { changeSetToOperations, createSyncBaseline, diffSyncBaseline, mergeRemoteChanges } from './syncService';
+import { diffPoints, isEmptyChangeSet } from './storageService';
+
+const noChanges = { points: [], voters: [], tombstones: [] };
+
+describe('mergeRemoteChanges', () => {
+  const local = [makePoint('a', { updatedAt: 10, voters: [makeVoter('v1', { updatedAt: 10 })] })];
+
+  it('returns the same array when the server has nothing new', () => {
+    expect(mergeRemoteChanges(local, noChanges)).toBe(local);
+    // An older copy of a record loses to the local one
+    expect(mergeRemoteChanges(local, { ...noChanges, points: [toStoredPoint(makePoint('a', { name: 'قديم', updatedAt: 5 }))] })).toBe(local);
+  });
+
+  it('takes newer points and voters and keeps the local voter list', () => {
+    const merged = mergeRemoteChanges(local, {
+      ...noChanges,
+      points: [toStoredPoint(makePoint('a', { name: 'جديد', updatedAt: 20 }))],
+      voters: [toStoredVoter('a', makeVoter('v2'))],
+    });
+    expect(merged[0].name).toBe('جديد');
+    expect(merged[0].voters!.map(v => v.id)).toEqual(['v1', 'v2']);
+  });
+
+  it('adds new schools together with their voters', () => {
+    const merged = mergeRemoteChanges(local, {
+      ...noChanges,
+      points: [toStoredPoint(makePoint('b'))],
+      voters: [toStoredVoter('b', makeVoter('v3'))],
+    });
+    expect(merged.map(p => p.id)).toEqual(['a', 'b']);
+    expect(merged[1].voters).toEqual([makeVoter('v3')]);
+  });
+
+  it('ignores voters of schools it does not have', () => {
+    expect(mergeRemoteChanges(local, { ...noChanges, voters: [toStoredVoter('missing', makeVoter('v3'))] })).toBe(local);
+  });
+
+  it('applies tombstones unless the local copy was edited after the deletion', () => {
+    const tombstones = [{ id: 'v1', type: 'voter' as const, deletedAt: 15 }];
+    expect(mergeRemoteChanges(local, { ...noChanges, tombstones })[0].voters).toEqual([]);
+    expect(mergeRemoteChanges(local, { ...noChanges, tombstones: [{ ...tombstones[0], deletedAt: 5 }] })).toBe(local);
+    expect(mergeRemoteChanges(local, { ...noChanges, tombstones: [{ id: 'a', type: 'point', deletedAt: 15 }] })).toEqual([]);
+  });
+
+  it('does not bring back records deleted locally but not pushed yet', () => {
+    const remote = { ...noChanges, points: [toStoredPoint(makePoint('b', { updatedAt: 10 }))] };
+    expect(mergeRemoteChanges(local, remote, new Map([['b', 20]]))).toBe(local);
+    // Edited on the server after the local deletion: the edit wins
+    expect(mergeRemoteChanges(local, remote, new Map([['b', 5]])).map(p => p.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('changeSetToOperations', () => {
+  it('turns a storage diff into timestamped operations', () => {
+    const prev = [makePoint('a', { voters: [makeVoter('v1')] }), makePoint('b')];
+    const next = [{ ...prev[0], updatedAt: 30, voters: [] }];
+    const operations = changeSetToOperations(diffPoints(prev, next));
+    expect(operations.map(op => op.kind)).toEqual(['upsertPoint', 'deleteVoter', 'deletePoint']);
+    expect(operations[0].timestamp).toBe(30);
+  });
+});
+
+describe('diffSyncBaseline', () => {
+  const points = [makePoint('a', { voters: [makeVoter('v1'), makeVoter('v2')] }), makePoint('b')];
+  const baseline = createSyncBaseline(points);
+
+  it('finds nothing to send when the data matches the baseline', () => {
+    const copy = points.map(p => ({ ...p, voters: p.voters.map(v => ({ ...v })) }));
+    expect(isEmptyChangeSet(diffSyncBaseline(baseline, copy))).toBe(true);
+  });
+
+  it('sends edits, additions and deletions made while sync was off', () => {
+    const edited = [
+      { ...points[0], name: 'اسم جديد', voters: [makeVoter('v1', { phoneNumber: '07701234567' }), makeVoter('v3')] },
+      makePoint('c'),
+    ];
+    const changes = diffSyncBaseline(baseline, edited);
+    expect(changes.upsertPoints.map(p => p.id)).toEqual(['a', 'c']);
+    expect(changes.upsertVoters.map(v => v.id)).toEqual(['v1', 'v3']);
+    expect(changes.deletePointIds).toEqual(['b']);
+    expect(changes.deleteVoterIds).toEqual(['v2']);
+  });
+
+  it('sends everything without a baseline', () => {
+    const changes = diffSyncBaseline(undefined, points);
+    expect(changes.upsertPoints).toHaveLength(2);
+    expect(changes.upsertVoters).toHaveLength(2);
+  });
+});
@@ -0,0 +1,368 @@
+import { LocationPoint, StoredPoint, StoredVoter, SyncChanges, SyncOperation, SyncResult, SyncTombstone } from '../types';
+import {
+  StorageAdapter,
+  StorageChangeSet,
+  StorageEvent,
+  SyncStatus,
+  applyChangeSet,
+  diffPoints,
+  isEmptyChangeSet,
+  loadLocalValue,
+  saveLocalValue,
+  splitPoint,
+} from './storageService';
+
+export interface SyncConfig {
+  enabled: boolean;
+  serverUrl: string;
+  // The team's shared token, the server's SYNC_TOKEN
+  token: string;
+}
+
+const SYNC_CONFIG_KEY = 'populationMapSyncConfig';
+// The queue, cursor and baseline are kept per server URL, so switching servers
+// never pushes one server's pending changes to another
+const SYNC_QUEUE_KEY = 'populationMapSyncQueue';
+const SYNC_CURSOR_KEY = 'populationMapSyncCursor';
+const SYNC_BASELINE_KEY = 'populationMapSyncBaseline';
+
+const POLL_INTERVAL_MS = 30_000;
+const FLUSH_DELAY_MS = 1_000;
+
+export const DEFAULT_SYNC_CONFIG: SyncConfig = {
+  enabled: false,
+  serverUrl: process.env.SYNC_SERVER_URL || 'http://localhost:8787',
+  token: '',
+};
+
+export const loadSyncConfig = (): SyncConfig => {
+  try {
+    const saved = localStorage.getItem(SYNC_CONFIG_KEY);
+    return saved ? { ...DEFAULT_SYNC_CONFIG, ...JSON.parse(saved) } : DEFAULT_SYNC_CONFIG;
+  } catch (error) {
+    console.error('Error loading sync settings from localStorage:', error);
+    return DEFAULT_SYNC_CONFIG;
+  }
+};
+
+export const saveSyncConfig = (config: SyncConfig) => {
+  localStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config));
+};
+
+const lastModified = (record: { createdAt: number; updatedAt?: number }) => record.updatedAt ?? record.createdAt;
+
+// Queue key: later operations on the same record replace earlier ones
+const operationKey = (operation: SyncOperation) => {
+  switch (operation.kind) {
+    case 'upsertPoint': return `point:${operation.point.id}`;
+    case 'deletePoint': return `point:${operation.id}`;
+    case 'upsertVoter': return `voter:${operation.voter.id}`;
+    case 'deleteVoter': return `voter:${operation.id}`;
+  }
+};
+
+export const changeSetToOperations = (changes: StorageChangeSet): SyncOperation[] => {
+  const now = Date.now();
+  return [
+    ...changes.upsertPoints.map(point => ({ kind: 'upsertPoint' as const, point, timestamp: lastModified(point) })),
+    ...changes.upsertVoters.map(voter => ({ kind: 'upsertVoter' as const, voter, timestamp: lastModified(voter) })),
+    ...changes.deleteVoterIds.map(id => ({ kind: 'deleteVoter' as const, id, timestamp: now })),
+    ...changes.deletePointIds.map(id => ({ kind: 'deletePoint' as const, id, timestamp: now })),
+  ];
+};
+
+/**
+ * Merges records pulled from the server into the local list, last-write-wins
+ * by `updatedAt`. `pendingDeletes` holds local deletions not yet pushed, so a
+ * stale remote copy doesn't resurrect them. Returns the same array when nothing changed.
+ */
+export const mergeRemoteChanges = (
+  points: LocationPoint[],
+  remote: Omit<SyncChanges, 'serverTime'>,
+  pendingDeletes: Map<string, number> = new Map()
+): LocationPoint[] => {
+  const changes: StorageChangeSet = { upsertPoints: [], deletePointIds: [], upsertVoters: [], deleteVoterIds: [] };
+  const pointsById = new Map(points.map(p => [p.id, p]));
+  const votersById = new Map<string, StoredVoter>();
+  points.forEach(p => splitPoint(p).voters.forEach(v => votersById.set(v.id, v)));
+
+  const isNewer = (incoming: StoredPoint | StoredVoter, local: StoredPoint | StoredVoter | undefined) => {
+    if (!local) return (pendingDeletes.get(incoming.id) ?? -1) < lastModified(incoming);
+    return lastModified(incoming) > lastModified(local);
+  };
+
+  remote.points.forEach(point => {
+    if (isNewer(point, pointsById.get(point.id))) changes.upsertPoints.push(point);
+  });
+  const incomingPointIds = new Set(changes.upsertPoints.map(p => p.id));
+  remote.voters.forEach(voter => {
+    const schoolExists = pointsById.has(voter.schoolId) || incomingPointIds.has(voter.schoolId);
+    if (schoolExists && isNewer(voter, votersById.get(voter.id))) changes.upsertVoters.push(voter);
+  });
+  remote.tombstones.forEach(({ id, type, deletedAt }: SyncTombstone) => {
+    const local = type === 'point' ? pointsById.get(id) : votersById.get(id);
+    if (local && lastModified(local) <= deletedAt) {
+      (type === 'point' ? changes.deletePointIds : changes.deleteVoterIds).push(id);
+    }
+  });
+
+  return applyChangeSet(points, changes);
+};
+
+/**
+ * The records this device has already queued for or received from a server,
+ * as a content fingerprint per id. Anything that differs from it on load was
+ * edited while sync was off and still has to be sent.
+ */
+export interface SyncBaseline {
+  points: Record<string, string>;
+  voters: Record<string, string>;
+}
+
+// Short content hash (djb2); a collision only means one edit isn't re-sent on enable
+const fingerprint = (record: StoredPoint | StoredVoter) => {
+  const text = JSON.stringify(record);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = (hash * 33 + text.charCodeAt(i)) | 0;
+  return hash.toString(36);
+};
+
+export const createSyncBaseline = (points: LocationPoint[]): SyncBaseline => {
+  const baseline: SyncBaseline = { points: {}, voters: {} };
+  points.forEach(p => {
+    const { point, voters } = splitPoint(p);
+    baseline.points[point.id] = fingerprint(point);
+    voters.forEach(v => { baseline.voters[v.id] = fingerprint(v); });
+  });
+  return baseline;
+};
+
+// What changed locally since the baseline; with no baseline, everything is new
+export const diffSyncBaseline = (baseline: SyncBaseline | undefined, points: LocationPoint[]): StorageChangeSet => {
+  const changes: StorageChangeSet = { upsertPoints: [], deletePointIds: [], upsertVoters: [], deleteVoterIds: [] };
+  const removedPoints = new Set(Object.keys(baseline?.points || {}));
+  const removedVoters = new Set(Object.keys(baseline?.voters || {}));
+
+  points.forEach(p => {
+    const { point, voters } = splitPoint(p);
+    removedPoints.delete(point.id);
+    if (baseline?.points[point.id] !== fingerprint(point)) changes.upsertPoints.push(point);
+    voters.forEach(voter => {
+      removedVoters.delete(voter.id);
+      if (baseline?.voters[voter.id] !== fingerprint(voter)) changes.upsertVoters.push(voter);
+    });
+  });
+
+  changes.deletePointIds.push(...removedPoints);
+  changes.deleteVoterIds.push(...removedVoters);
+  return changes;
+};
+
+class SyncServerError extends Error {
+  constructor(public status: number) {
+    super(`Sync server responded with ${status}`);
+  }
+}
+
+const loadQueue = (queueKey: string): Map<string, SyncOperation> => {
+  try {
+    const saved: SyncOperation[] = JSON.parse(localStorage.getItem(queueKey) || '[]');
+    return new Map(saved.map(op => [operationKey(op), op]));
+  } catch {
+    return new Map();
+  }
+};
+
+/**
+ * Wraps a local adapter so every change is also queued for the sync server.
+ * Local writes always succeed first; the queue is pushed when the server is
+ * reachable and teammates' changes are pulled on an interval.
+ */
+export const createSyncStorage = (local: StorageAdapter, serverUrl: string, token: string): StorageAdapter => {
+  const baseUrl = serverUrl.replace(/\/+$/, '');
+  const queueKey = `${SYNC_QUEUE_KEY}:${baseUrl}`;
+  const cursorKey = `${SYNC_CURSOR_KEY}:${baseUrl}`;
+  const baselineKey = `${SYNC_BASELINE_KEY}:${baseUrl}`;
+  const listeners = new Set<(event: StorageEvent) => void>();
+  const queue = loadQueue(queueKey);
+  let cursor = Number(localStorage.getItem(cursorKey)) || 0;
+
+  let snapshot: LocationPoint[] = [];
+  // The snapshot the saved baseline was made from
+  let baselineSnapshot: LocationPoint[] | null = null;
+  let status: SyncStatus = { state: queue.size > 0 ? 'pending' : 'synced', pendingCount: queue.size, lastSyncedAt: null };
+  let syncing: Promise<void> | null = null;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  const emit = (event: StorageEvent) => listeners.forEach(listener => listener(event));
+
+  const setStatus = (next: Partial<SyncStatus>) => {
+    status = { ...status, ...next, pendingCount: queue.size };
+    emit({ type: 'status', status });
+  };
+
+  const saveQueue = () => {
+    localStorage.setItem(queueKey, JSON.stringify([...queue.values()]));
+  };
+
+  const enqueue = (operations: SyncOperation[]) => {
+    if (operations.length === 0) return;
+    operations.forEach(op => queue.set(operationKey(op), op));
+    saveQueue();
+    setStatus({ state: status.state === 'offline' ? 'offline' : 'pending' });
+  };
+
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...init?.headers },
+    });
+    if (!res.ok) throw new SyncServerError(res.status);
+    return res.json();
+  };
+
+  // Applies server data locally and tells the app about it
+  const applyRemote = async (remote: Omit<SyncChanges, 'serverTime'>) => {
+    const pendingDeletes = new Map<string, number>();
+    queue.forEach(op => {
+      if (op.kind === 'deletePoint' || op.kind === 'deleteVoter') pendingDeletes.set(op.id, op.timestamp);
+    });
+
+    const merged = mergeRemoteChanges(snapshot, remote, pendingDeletes);
+    if (merged === snapshot) return;
+    const changes = diffPoints(snapshot, merged);
+    snapshot = merged;
+    await local.applyChanges(changes);
+    emit({ type: 'remoteChange', points: merged });
+  };
+
+  const push = async () => {
+    if (queue.size === 0) return;
+    const operations = [...queue.values()];
+    const { results } = await request<{ results: SyncResult[] }>('/api/batch', {
+      method: 'POST',
+      body: JSON.stringify({ operations }),
+    });
+
+    // Drop what was sent unless it was replaced by a newer local change meanwhile
+    operations.forEach(op => {
+      if (queue.get(operationKey(op)) === op) queue.delete(operationKey(op));
+    });
+    saveQueue();
+
+    // The server kept a newer version: adopt it locally
+    const conflicts: Omit<SyncChanges, 'serverTime'> = { points: [], voters: [], tombstones: [] };
+    results.filter(r => r.status === 'conflict').forEach(({ current, tombstone }) => {
+      if (tombstone) conflicts.tombstones.push(tombstone);
+      else if (current && 'schoolId' in current) conflicts.voters.push(current);
+      else if (current) conflicts.points.push(current as StoredPoint);
+    });
+    await applyRemote(conflicts);
+  };
+
+  const pull = async () => {
+    const changes = await request<SyncChanges>(`/api/changes?since=${cursor}`);
+    await applyRemote(changes);
+    cursor = changes.serverTime;
+    localStorage.setItem(cursorKey, String(cursor));
+  };
+
+  // Every change in the snapshot is already in the saved queue, so the baseline
+  // can lag behind it: at worst a few records are queued twice on the next load
+  const saveBaseline = async () => {
+    if (baselineSnapshot === snapshot) return;
+    const current = snapshot;
+    try {
+      await saveLocalValue(baselineKey, createSyncBaseline(current));
+      baselineSnapshot = current;
+    } catch (error) {
+      console.warn('Could not save the sync baseline:', error);
+    }
+  };
+
+  const syncNow = () => {
+    if (!syncing) {
+      syncing = (async () => {
+        setStatus({ state: 'syncing' });
+        await saveBaseline();
+        try {
+          await push();
+          await pull();
+          setStatus({ state: queue.size > 0 ? 'pending' : 'synced', lastSyncedAt: Date.now() });
+        } catch (error) {
+          console.warn('Sync failed, keeping changes queued:', error);
+          setStatus({ state: error instanceof SyncServerError && error.status === 401 ? 'unauthorized' : 'offline' });
+        } finally {
+          syncing = null;
+        }
+      })();
+    }
+    return syncing;
+  };
+
+  const scheduleFlush = () => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      syncNow();
+    }, FLUSH_DELAY_MS);
+  };
+
+  const handleOnline = () => syncNow();
+
+  return {
+    name: `${local.name} + sync`,
+
+    loadPoints: async () => {
+      snapshot = await local.loadPoints();
+
+      // Queue what changed while sync was off (everything, the first time with this server)
+      const baseline = await loadLocalValue<SyncBaseline>(baselineKey).catch(() => undefined);
+      enqueue(changeSetToOperations(diffSyncBaseline(baseline, snapshot)));
+
+      // Guard against a second load (React StrictMode) leaking timers
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = setInterval(syncNow, POLL_INTERVAL_MS);
+      window.removeEventListener('online', handleOnline);
+      window.addEventListener('online', handleOnline);
+      syncNow();
+      return snapshot;
+    },
+
+    applyChanges: async (changes) => {
+      if (isEmptyChangeSet(changes)) return;
+      snapshot = applyChangeSet(snapshot, changes);
+      await local.applyChanges(changes);
+      enqueue(changeSetToOperations(changes));
+      scheduleFlush();
+    },
+
+    replaceAll: async (points) => {
+      const changes = diffPoints(snapshot, points);
+      snapshot = points;
+      await local.replaceAll(points);
+      enqueue(changeSetToOperations(changes));
+      scheduleFlush();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      // The local adapter's own events, e.g. warnings from its data migration
+      const unsubscribeLocal = local.subscribe?.(listener);
+      listener({ type: 'status', status });
+      return () => {
+        listeners.delete(listener);
+        unsubscribeLocal?.();
+      };
+    },
+
+    syncNow,
+
+    dispose: () => {
+      if (flushTimer) clearTimeout(flushTimer);
+      if (pollTimer) clearInterval(pollTimer);
+      window.removeEventListener('online', handleOnline);
+    },
+  };
+};
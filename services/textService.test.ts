@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyMatchScore, nameKey, normalizeArabic } from './textService';
+
+describe('normalizeArabic', () => {
+  it('folds letter variants, diacritics, tatweel and spacing', () => {
+    expect(normalizeArabic('  أَحْمَد  إبراهيم ')).toBe('احمد ابراهيم');
+    expect(normalizeArabic('فاطمة')).toBe(normalizeArabic('فاطمه'));
+    expect(normalizeArabic('مصطفى')).toBe('مصطفي');
+    expect(normalizeArabic('مؤمن رئيس')).toBe('مومن رييس');
+    expect(normalizeArabic('عـــلي')).toBe('علي');
+    expect(normalizeArabic('AlKarada')).toBe('alkarada');
+  });
+});
+
+describe('nameKey', () => {
+  it('ignores the spacing inside compound names', () => {
+    expect(nameKey('عبد الله حسن')).toBe(nameKey('عبدالله  حسن'));
+    expect(nameKey('عبد الله')).not.toBe(nameKey('عبد الرحمن'));
+  });
+});
+
+describe('fuzzyMatchScore', () => {
+  it('ranks exact, prefix and substring matches in that order', () => {
+    const exact = fuzzyMatchScore('الكرادة', 'الكرادة');
+    const prefix = fuzzyMatchScore('الكرا', 'الكرادة داخل');
+    const inside = fuzzyMatchScore('داخل', 'الكرادة داخل');
+    expect(exact).toBe(100);
+    expect(prefix).toBeLessThan(exact);
+    expect(inside).toBeLessThan(prefix);
+  });
+
+  it('matches words in any order and tolerates a typo in longer words', () => {
+    expect(fuzzyMatchScore('حسن علي', 'علي حسن')).toBeGreaterThan(0);
+    expect(fuzzyMatchScore('محمود', 'محمد جاسم')).toBeGreaterThan(0);
+  });
+
+  it('returns 0 when a word has no match or the query is empty', () => {
+    expect(fuzzyMatchScore('علي بغداد', 'علي حسن')).toBe(0);
+    // Short words must match exactly
+    expect(fuzzyMatchScore('عل', 'حسن')).toBe(0);
+    expect(fuzzyMatchScore('  ', 'علي')).toBe(0);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Canonical form of Arabic text for comparisons: hamza/alef variants, taa
+ * marbuta, alef maqsura, diacritics, tatweel and extra spaces are folded so
+ * "أحمد  عبدالله" and "احمد عبد الله" compare close, and "فاطمة" equals "فاطمه".
+ */
+export const normalizeArabic = (text: string) => text
+  .replace(/[\u064B-\u065F\u0670\u0640]/g, '') // tashkeel, superscript alef, tatweel
+  .replace(/[أإآٱ]/g, 'ا')
+  .replace(/ة/g, 'ه')
+  .replace(/ى/g, 'ي')
+  .replace(/ؤ/g, 'و')
+  .replace(/ئ/g, 'ي')
+  .replace(/ء/g, '')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .toLowerCase();
+
+// Names also match when only the spacing of compound names differs ("عبد الله" / "عبدالله")
+export const nameKey = (name: string) => normalizeArabic(name).replace(/\s/g, '');
+
+// Levenshtein distance, giving up with `max + 1` once it is certainly above `max`
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How well `text` matches a search `query`, 0 when it doesn't. Whole-phrase
+ * matches rank first; otherwise every query word has to begin, appear in, or
+ * be a typo or two away from some word of the text, in any order.
+ */
+export const fuzzyMatchScore = (query: string, text: string) => {
+  const q = normalizeArabic(query);
+  const t = normalizeArabic(text);
+  if (!q || !t) return 0;
+  if (t === q) return 100;
+  if (t.startsWith(q)) return 80;
+  if (t.includes(q)) return 60;
+  if (nameKey(t).includes(nameKey(q))) return 50;
+
+  const words = t.split(' ');
+  const tokens = q.split(' ');
+  let total = 0;
+  for (const token of tokens) {
+    const allowed = token.length >= 7 ? 2 : token.length >= 4 ? 1 : 0;
+    const best = Math.max(...words.map(word => {
+      if (word.startsWith(token)) return 3;
+      if (word.includes(token)) return 2;
+      // Against the whole word and against what has been typed of it so far
+      if (allowed && Math.min(editDistance(token, word, allowed), editDistance(token, word.slice(0, token.length), allowed)) <= allowed) return 1;
+      return 0;
+    }));
+    if (best === 0) return 0;
+    total += best;
+  }
+  return Math.round((40 * total) / (3 * tokens.length));
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { makePoint, makeVoter } from '../test/fixtures';
+import { addTurnoutReport, getPointTurnout, getSchoolTurnout, getTurnoutReset, isCheckedIn, toggleCheckIn } from './turnoutService';
+
+describe('toggleCheckIn', () => {
+  const voter = makeVoter('v1', { status: 'voted', contactLog: [{ id: 'c1', at: 5, status: 'voted', note: 'اتصال' }] });
+  const school = makePoint('a', { count: 4, voters: [voter, makeVoter('v2')] });
+
+  it('checks a voter in on the school record and leaves the voter alone', () => {
+    const checkedIn = toggleCheckIn(school, 'v2', 100);
+    expect(checkedIn.checkIns).toEqual({ v2: 100 });
+    expect(checkedIn.voters).toBe(school.voters);
+    expect(isCheckedIn(checkedIn, 'v2')).toBe(true);
+    // A "voted" contact status is not a check-in
+    expect(isCheckedIn(checkedIn, 'v1')).toBe(false);
+  });
+
+  it('undoes a check-in when tapped again', () => {
+    const undone = toggleCheckIn(toggleCheckIn(school, 'v2', 100), 'v2', 200);
+    expect(undone.checkIns).toBeUndefined();
+    expect(undone.updatedAt).toBe(200);
+  });
+
+  it('counts check-ins or the latest report, whichever is higher', () => {
+    const checkedIn = toggleCheckIn(school, 'v2', 100);
+    expect(getPointTurnout(checkedIn, getSchoolTurnout(checkedIn))).toEqual({ voted: 1, expected: 4, ratio: 0.25 });
+    const reported = addTurnoutReport(checkedIn, 150, 3);
+    expect(getPointTurnout(reported, getSchoolTurnout(reported)).voted).toBe(3);
+  });
+});
+
+describe('getTurnoutReset', () => {
+  it('clears only the election day record of the schools that have one', () => {
+    const voter = makeVoter('v1', { status: 'voted', contactLog: [{ id: 'c1', at: 5, status: 'voted' }] });
+    const checkedIn = toggleCheckIn(makePoint('a', { voters: [voter] }), 'v1', 100);
+    const untouched = makePoint('b', { voters: [voter] });
+
+    const reset = getTurnoutReset([checkedIn, untouched], 300);
+    expect(reset).toHaveLength(1);
+    expect(reset[0].before).toBe(checkedIn);
+    expect(reset[0].after).toMatchObject({ checkIns: undefined, turnoutReports: undefined, updatedAt: 300 });
+    // The contact status volunteers logged by hand survives the reset
+    expect(reset[0].after.voters).toEqual([voter]);
+  });
+});
@@ -0,0 +1,176 @@
+import { LocationPoint, SchoolTurnout, TurnoutReport } from '../types';
+import { getVoterTotal } from './coverageService';
+
+// Where earlier versions kept check-ins and reports, apart from the roll
+const LEGACY_TURNOUT_KEY = 'populationMapTurnout';
+const ELECTION_MODE_KEY = 'populationMapElectionMode';
+
+const HOUR = 60 * 60 * 1000;
+
+// Marker and bar colors by share of the expected count that has voted
+export const TURNOUT_LEVELS: { min: number; color: string; label: string }[] = [
+  { min: 0.75, color: '#10b981', label: '75% فأكثر' },
+  { min: 0.5, color: '#84cc16', label: '50–75%' },
+  { min: 0.25, color: '#f59e0b', label: '25–50%' },
+  { min: 0, color: '#f43f5e', label: 'أقل من 25%' },
+];
+export const NO_TURNOUT_COLOR = '#94a3b8';
+
+// Check-ins live on the school record, apart from the voters' contact status and
+// log, so resetting election day never touches the roll
+export const isCheckedIn = (point: LocationPoint, voterId: string) => point.checkIns?.[voterId] !== undefined;
+
+// Tapping a voter again undoes an accidental check-in
+export const toggleCheckIn = (point: LocationPoint, voterId: string, now = Date.now()): LocationPoint => {
+  const { [voterId]: existing, ...rest } = point.checkIns || {};
+  const checkIns = existing === undefined ? { ...rest, [voterId]: now } : rest;
+  return { ...point, checkIns: Object.keys(checkIns).length ? checkIns : undefined, updatedAt: now };
+};
+
+export const addTurnoutReport = (point: LocationPoint, at: number, count: number): LocationPoint => ({
+  ...point,
+  turnoutReports: [...(point.turnoutReports || []), { id: crypto.randomUUID(), at, count }].sort((a, b) => a.at - b.at),
+  updatedAt: Date.now(),
+});
+
+export const removeTurnoutReport = (point: LocationPoint, reportId: string): LocationPoint => {
+  const turnoutReports = (point.turnoutReports || []).filter(r => r.id !== reportId);
+  return { ...point, turnoutReports: turnoutReports.length ? turnoutReports : undefined, updatedAt: Date.now() };
+};
+
+export const getSchoolTurnout = (point: LocationPoint): SchoolTurnout => ({
+  checkIns: point.checkIns || {},
+  reports: point.turnoutReports || [],
+});
+
+/**
+ * What resetting election day changes: the check-ins and reports of the
+ * schools that have any. Voters and other schools are left untouched, so sync
+ * only sends these records.
+ */
+export const getTurnoutReset = (points: LocationPoint[], now = Date.now()) => points
+  .filter(p => p.turnoutReports?.length || Object.keys(p.checkIns || {}).length)
+  .map(p => ({ before: p, after: { ...p, checkIns: undefined, turnoutReports: undefined, updatedAt: now } }));
+
+// Check-ins of voters that are still on the roll
+const checkInTimes = (point: LocationPoint, school: SchoolTurnout) =>
+  (point.voters || []).map(v => school.checkIns[v.id]).filter((at): at is number => at !== undefined);
+
+const latestReport = (reports: TurnoutReport[], until = Infinity) =>
+  reports.filter(r => r.at <= until).reduce<TurnoutReport | null>((last, r) => (!last || r.at >= last.at ? r : last), null);
+
+export interface Turnout {
+  voted: number;
+  expected: number;
+  // null when there is nothing to measure against
+  ratio: number | null;
+}
+
+const toTurnout = (voted: number, expected: number): Turnout => ({
+  voted,
+  expected,
+  ratio: expected > 0 ? voted / expected : null,
+});
+
+/**
+ * Voters counted so far: individual check-ins or the latest reported total,
+ * whichever is higher (stations that only report counts have no check-ins).
+ */
+export const getVotedCount = (point: LocationPoint, school: SchoolTurnout) =>
+  Math.max(checkInTimes(point, school).length, latestReport(school.reports)?.count ?? 0);
+
+export const getPointTurnout = (point: LocationPoint, school: SchoolTurnout): Turnout =>
+  toTurnout(getVotedCount(point, school), getVoterTotal(point));
+
+export const getTotalTurnout = (points: LocationPoint[]): Turnout =>
+  toTurnout(
+    points.reduce((sum, p) => sum + getVotedCount(p, getSchoolTurnout(p)), 0),
+    points.reduce((sum, p) => sum + getVoterTotal(p), 0)
+  );
+
+export const getTurnoutColor = (ratio: number | null) =>
+  ratio === null ? NO_TURNOUT_COLOR : TURNOUT_LEVELS.find(level => ratio >= level.min)!.color;
+
+/**
+ * Cumulative turnout at the end of each hour, from the first recorded hour up
+ * to the last one (or `now` while voting is still going).
+ */
+export const getTurnoutSeries = (point: LocationPoint, school: SchoolTurnout, now = Date.now()) => {
+  const checkIns = checkInTimes(point, school);
+  const times = [...checkIns, ...school.reports.map(r => r.at)];
+  if (times.length === 0) return [];
+
+  const first = Math.floor(Math.min(...times) / HOUR) * HOUR;
+  const last = Math.min(Math.max(...times, now), Math.max(...times) + 12 * HOUR);
+  const series: { at: number; count: number }[] = [];
+  for (let at = first + HOUR; at - HOUR <= last; at += HOUR) {
+    series.push({
+      at,
+      count: Math.max(checkIns.filter(t => t < at).length, latestReport(school.reports, at)?.count ?? 0),
+    });
+  }
+  return series;
+};
+
+const sanitizeSchoolTurnout = (raw: any): SchoolTurnout => ({
+  checkIns: raw && typeof raw.checkIns === 'object'
+    ? Object.fromEntries(Object.entries(raw.checkIns).filter((entry): entry is [string, number] => typeof entry[1] === 'number'))
+    : {},
+  reports: Array.isArray(raw?.reports)
+    ? raw.reports.filter((r: any) => r && typeof r.id === 'string' && typeof r.at === 'number' && typeof r.count === 'number')
+    : [],
+});
+
+export const sanitizeTurnoutReports = (raw: unknown): TurnoutReport[] | undefined => {
+  const reports = sanitizeSchoolTurnout({ reports: raw }).reports;
+  return reports.length ? reports : undefined;
+};
+
+export const sanitizeCheckIns = (raw: unknown): Record<string, number> | undefined => {
+  const { checkIns } = sanitizeSchoolTurnout({ checkIns: raw });
+  return Object.keys(checkIns).length ? checkIns : undefined;
+};
+
+/**
+ * Moves check-ins and reports that earlier versions kept in this browser onto
+ * the schools, so they sync and go into backups with the project. Returns null
+ * when there is nothing to move; only changed schools are copied.
+ */
+export const migrateLegacyTurnout = (points: LocationPoint[], now = Date.now()): LocationPoint[] | null => {
+  let saved: any;
+  try {
+    saved = JSON.parse(localStorage.getItem(LEGACY_TURNOUT_KEY) || 'null');
+  } catch (error) {
+    console.error('Error loading turnout from localStorage:', error);
+    return null;
+  }
+  if (!saved || typeof saved.schools !== 'object') return null;
+
+  return points.map(point => {
+    if (!saved.schools[point.id]) return point;
+    const school = sanitizeSchoolTurnout(saved.schools[point.id]);
+    const reportIds = new Set((point.turnoutReports || []).map(r => r.id));
+    const newReports = school.reports.filter(r => !reportIds.has(r.id));
+    const newCheckIns = Object.entries(school.checkIns).filter(([voterId]) => !isCheckedIn(point, voterId));
+    if (newReports.length === 0 && newCheckIns.length === 0) return point;
+    return {
+      ...point,
+      checkIns: newCheckIns.length ? { ...point.checkIns, ...Object.fromEntries(newCheckIns) } : point.checkIns,
+      turnoutReports: newReports.length
+        ? [...(point.turnoutReports || []), ...newReports].sort((a, b) => a.at - b.at)
+        : point.turnoutReports,
+      // Sent as a fresh edit so the sync server doesn't take it for an old one
+      updatedAt: now,
+    };
+  });
+};
+
+export const clearLegacyTurnout = () => {
+  localStorage.removeItem(LEGACY_TURNOUT_KEY);
+};
+
+export const loadElectionMode = () => localStorage.getItem(ELECTION_MODE_KEY) === 'true';
+
+export const saveElectionMode = (enabled: boolean) => {
+  localStorage.setItem(ELECTION_MODE_KEY, String(enabled));
+};
@@ -0,0 +1,55 @@
+import { LocationPoint, Volunteer, VolunteerRole } from '../types';
+
+const VOLUNTEERS_KEY = 'populationMapVolunteers';
+
+export const VOLUNTEER_ROLES: Record<VolunteerRole, string> = {
+  coordinator: 'منسق',
+  canvasser: 'مندوب ميداني',
+  caller: 'متصل هاتفي',
+  observer: 'مراقب',
+  driver: 'سائق',
+};
+
+export const isVolunteerRole = (value: unknown): value is VolunteerRole =>
+  typeof value === 'string' && Object.keys(VOLUNTEER_ROLES).includes(value);
+
+export const getVolunteerPoints = (points: LocationPoint[], volunteerId: string) =>
+  points.filter(p => p.volunteerIds?.includes(volunteerId));
+
+// Volunteers still on the list, in the order the point lists them
+export const getPointVolunteers = (point: LocationPoint, volunteers: Volunteer[]) =>
+  (point.volunteerIds || [])
+    .map(id => volunteers.find(v => v.id === id))
+    .filter((v): v is Volunteer => v !== undefined);
+
+export const toggleVolunteer = (point: LocationPoint, volunteerId: string): LocationPoint => {
+  const current = point.volunteerIds || [];
+  const volunteerIds = current.includes(volunteerId) ? current.filter(id => id !== volunteerId) : [...current, volunteerId];
+  return { ...point, volunteerIds: volunteerIds.length ? volunteerIds : undefined, updatedAt: Date.now() };
+};
+
+export const sanitizeVolunteers = (raw: unknown): Volunteer[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(v => v && typeof v.id === 'string' && typeof v.name === 'string' && v.name.trim())
+    .map(v => ({
+      id: v.id,
+      name: v.name.trim(),
+      phone: typeof v.phone === 'string' ? v.phone : '',
+      role: isVolunteerRole(v.role) ? v.role : 'canvasser',
+      createdAt: Number.isFinite(v.createdAt) ? v.createdAt : Date.now(),
+    }));
+};
+
+export const loadVolunteers = (): Volunteer[] => {
+  try {
+    return sanitizeVolunteers(JSON.parse(localStorage.getItem(VOLUNTEERS_KEY) || '[]'));
+  } catch (error) {
+    console.error('Error loading volunteers from localStorage:', error);
+    return [];
+  }
+};
+
+export const saveVolunteers = (volunteers: Volunteer[]) => {
+  localStorage.setItem(VOLUNTEERS_KEY, JSON.stringify(volunteers));
+};
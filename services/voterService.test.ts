@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { CustomFieldDefinition } from '../types';
+import { cleanVoterDraft, normalizeIraqiPhone, parseTags, validateVoterDraft } from './voterService';
+
+describe('normalizeIraqiPhone', () => {
+  it('accepts the international and local forms of a mobile number', () => {
+    ['07701234567', '7701234567', '+9647701234567', '009647701234567', '964 770 123 4567', '0770-123-4567', '(0770) 123.4567'].forEach(raw => {
+      expect(normalizeIraqiPhone(raw)).toBe('07701234567');
+    });
+  });
+
+  it('reads Arabic-Indic and Persian digits', () => {
+    expect(normalizeIraqiPhone('٠٧٨١٢٣٤٥٦٧٨')).toBe('07812345678');
+    expect(normalizeIraqiPhone('۰۷۵۱۲۳۴۵۶۷۸')).toBe('07512345678');
+  });
+
+  it('rejects landlines, unknown operators and wrong lengths', () => {
+    ['0117654321', '07201234567', '0770123456', '077012345678', '+9647701234', '07701234abc', ''].forEach(raw => {
+      expect(normalizeIraqiPhone(raw)).toBeNull();
+    });
+  });
+});
+
+describe('parseTags', () => {
+  it('splits on Latin and Arabic commas and drops blanks and repeats', () => {
+    expect(parseTags('مؤيد، متطوع, مؤيد ,, ')).toEqual(['مؤيد', 'متطوع']);
+  });
+});
+
+describe('validateVoterDraft', () => {
+  const now = new Date(2026, 0, 1);
+  const fields: CustomFieldDefinition[] = [
+    { id: 'tribe', label: 'العشيرة', type: 'text', required: true },
+    { id: 'family', label: 'أفراد الأسرة', type: 'number' },
+    { id: 'support', label: 'التأييد', type: 'select', options: ['مؤيد', 'محايد'] },
+  ];
+
+  it('passes a complete draft', () => {
+    const draft = { fullName: 'علي حسن', phoneNumber: '+964 770 123 4567', birthYear: 1990, customFields: { tribe: 'الجبور', family: '٥', support: 'مؤيد' } };
+    expect(validateVoterDraft(draft, fields, now)).toEqual({});
+  });
+
+  it('allows a blank phone but not an invalid one', () => {
+    expect(validateVoterDraft({ fullName: 'علي', phoneNumber: '  ' }, [], now)).toEqual({});
+    expect(validateVoterDraft({ fullName: 'علي', phoneNumber: '0117654321' }, [], now)).toHaveProperty('phoneNumber');
+  });
+
+  it('flags the name, national ID and birth year', () => {
+    const errors = validateVoterDraft({ fullName: ' ', phoneNumber: '', nationalId: 'AB-12', birthYear: 2010 }, [], now);
+    expect(Object.keys(errors).sort()).toEqual(['birthYear', 'fullName', 'nationalId']);
+    // The youngest voter turns 18 this year
+    expect(validateVoterDraft({ fullName: 'علي', phoneNumber: '', birthYear: 2008 }, [], now)).toEqual({});
+    expect(validateVoterDraft({ fullName: 'علي', phoneNumber: '', birthYear: 1899 }, [], now)).toHaveProperty('birthYear');
+  });
+
+  it('checks required, number and select custom fields', () => {
+    const errors = validateVoterDraft({ fullName: 'علي', phoneNumber: '', customFields: { family: 'خمسة', support: 'معارض' } }, fields, now);
+    expect(errors).toEqual({
+      'custom:tribe': 'العشيرة مطلوب',
+      'custom:family': 'أفراد الأسرة يجب أن يكون رقماً',
+      'custom:support': 'اختر قيمة من القائمة لـ التأييد',
+    });
+  });
+});
+
+describe('cleanVoterDraft', () => {
+  it('normalizes the phone and ID and drops empty optional fields', () => {
+    const fields: CustomFieldDefinition[] = [{ id: 'family', label: 'أفراد الأسرة', type: 'number' }];
+    const cleaned = cleanVoterDraft({
+      fullName: '  علي   حسن ',
+      phoneNumber: '٠٧٧٠ ١٢٣ ٤٥٦٧',
+      nationalId: ' ab ١٢٣ ',
+      address: ' ',
+      tags: [],
+      customFields: { family: '٥', removed: 'قيمة قديمة' },
+    }, fields);
+    expect(cleaned).toEqual({
+      fullName: 'علي حسن',
+      phoneNumber: '07701234567',
+      nationalId: 'AB123',
+      gender: undefined,
+      birthYear: undefined,
+      address: undefined,
+      notes: undefined,
+      tags: undefined,
+      customFields: { family: '5', removed: 'قيمة قديمة' },
+    });
+  });
+});
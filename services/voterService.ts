@@ -0,0 +1,150 @@
+import { CustomFieldDefinition, CustomFieldType, Gender, Voter } from '../types';
+
+const VOTER_FIELDS_KEY = 'populationMapVoterFields';
+
+// Everything the add/edit form controls; contact status is logged separately
+export type VoterDraft = Omit<Voter, 'id' | 'createdAt' | 'updatedAt' | 'status' | 'contactLog'>;
+
+// Validation messages keyed by draft field, or `custom:<field id>` for custom fields
+export type VoterErrors = Partial<Record<string, string>>;
+
+export const GENDER_LABELS: Record<Gender, string> = {
+  male: 'ذكر',
+  female: 'أنثى',
+};
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'نص',
+  number: 'رقم',
+  select: 'قائمة اختيار',
+};
+
+export const MIN_VOTING_AGE = 18;
+const MIN_BIRTH_YEAR = 1900;
+
+export const customFieldKey = (field: CustomFieldDefinition) => `custom:${field.id}`;
+
+// Arabic-Indic (٠-٩) and Persian (۰-۹) digits as typed on Arabic keyboards
+export const toWesternDigits = (text: string) => text
+  .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+  .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06f0));
+
+/**
+ * Normalizes an Iraqi mobile number to the local 07XXXXXXXXX form. Accepts
+ * +964 / 00964 / 964 prefixes, a missing leading zero, spaces and dashes.
+ * Returns null when the input isn't an Iraqi mobile number.
+ */
+export const normalizeIraqiPhone = (raw: string): string | null => {
+  let digits = toWesternDigits(raw).replace(/[\s\-().]/g, '');
+  if (digits.startsWith('+')) digits = digits.slice(1);
+  if (digits.startsWith('00')) digits = digits.slice(2);
+  if (digits.startsWith('964')) digits = digits.slice(3);
+  if (digits.startsWith('7')) digits = `0${digits}`;
+  return /^07[3-9]\d{8}$/.test(digits) ? digits : null;
+};
+
+export const getAge = (voter: Pick<Voter, 'birthYear'>, now = new Date()) =>
+  voter.birthYear ? now.getFullYear() - voter.birthYear : undefined;
+
+// Tags are typed comma-separated (Arabic or Latin comma)
+export const parseTags = (text: string) =>
+  Array.from(new Set(text.split(/[,،]/).map(t => t.trim()).filter(Boolean)));
+
+export const emptyVoterDraft = (): VoterDraft => ({ fullName: '', phoneNumber: '' });
+
+export const toVoterDraft = ({ id, createdAt, updatedAt, status, contactLog, ...draft }: Voter): VoterDraft => draft;
+
+/**
+ * Validates a draft from the voter form. Returns an empty object when the
+ * draft can be saved.
+ */
+export const validateVoterDraft = (draft: VoterDraft, fields: CustomFieldDefinition[], now = new Date()): VoterErrors => {
+  const errors: VoterErrors = {};
+
+  if (!draft.fullName.trim()) {
+    errors.fullName = 'اسم الناخب مطلوب';
+  }
+
+  if (draft.phoneNumber.trim() && !normalizeIraqiPhone(draft.phoneNumber)) {
+    errors.phoneNumber = 'رقم موبايل عراقي غير صالح (مثال: 07701234567)';
+  }
+
+  if (draft.nationalId && !/^[A-Za-z0-9]+$/.test(toWesternDigits(draft.nationalId).replace(/\s/g, ''))) {
+    errors.nationalId = 'رقم الهوية أو البطاقة يجب أن يحتوي على أرقام وحروف لاتينية فقط';
+  }
+
+  if (draft.birthYear !== undefined) {
+    const maxYear = now.getFullYear() - MIN_VOTING_AGE;
+    if (!Number.isInteger(draft.birthYear) || draft.birthYear < MIN_BIRTH_YEAR || draft.birthYear > maxYear) {
+      errors.birthYear = `سنة الميلاد يجب أن تكون بين ${MIN_BIRTH_YEAR} و ${maxYear}`;
+    }
+  }
+
+  fields.forEach(field => {
+    const value = draft.customFields?.[field.id]?.trim() || '';
+    const key = customFieldKey(field);
+    if (!value) {
+      if (field.required) errors[key] = `${field.label} مطلوب`;
+    } else if (field.type === 'number' && !Number.isFinite(Number(toWesternDigits(value)))) {
+      errors[key] = `${field.label} يجب أن يكون رقماً`;
+    } else if (field.type === 'select' && !(field.options || []).includes(value)) {
+      errors[key] = `اختر قيمة من القائمة لـ ${field.label}`;
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Trims the draft, normalizes the phone number and digits, and drops empty
+ * optional fields so stored records stay small. Call after validation passes.
+ */
+export const cleanVoterDraft = (draft: VoterDraft, fields: CustomFieldDefinition[]): VoterDraft => {
+  const text = (value?: string) => value?.trim() || undefined;
+  // Values of fields the admin has since removed are kept, not silently dropped
+  const customFields: Record<string, string> = { ...draft.customFields };
+  fields.forEach(field => {
+    const value = customFields[field.id]?.trim() || '';
+    if (value) customFields[field.id] = field.type === 'number' ? toWesternDigits(value) : value;
+    else delete customFields[field.id];
+  });
+  const phone = draft.phoneNumber.trim();
+
+  return {
+    fullName: draft.fullName.trim().replace(/\s+/g, ' '),
+    phoneNumber: phone ? normalizeIraqiPhone(phone) ?? phone : '',
+    nationalId: text(draft.nationalId && toWesternDigits(draft.nationalId).replace(/\s/g, '').toUpperCase()),
+    gender: draft.gender,
+    birthYear: draft.birthYear,
+    address: text(draft.address),
+    notes: text(draft.notes),
+    tags: draft.tags?.length ? draft.tags : undefined,
+    customFields: Object.keys(customFields).length ? customFields : undefined,
+  };
+};
+
+export const sanitizeVoterFields = (raw: unknown): CustomFieldDefinition[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(f => f && typeof f.id === 'string' && typeof f.label === 'string' && f.label.trim() && Object.keys(CUSTOM_FIELD_TYPE_LABELS).includes(f.type))
+    .map(f => ({
+      id: f.id,
+      label: f.label.trim(),
+      type: f.type as CustomFieldType,
+      options: Array.isArray(f.options) ? f.options.filter((o: unknown): o is string => typeof o === 'string') : undefined,
+      required: f.required === true || undefined,
+    }));
+};
+
+export const loadVoterFields = (): CustomFieldDefinition[] => {
+  try {
+    return sanitizeVoterFields(JSON.parse(localStorage.getItem(VOTER_FIELDS_KEY) || '[]'));
+  } catch (error) {
+    console.error('Error loading voter fields from localStorage:', error);
+    return [];
+  }
+};
+
+export const saveVoterFields = (fields: CustomFieldDefinition[]) => {
+  localStorage.setItem(VOTER_FIELDS_KEY, JSON.stringify(fields));
+};
@@ -0,0 +1,28 @@
+import { LocationPoint, StoredPoint, StoredVoter, Voter } from '../types';
+
+// Shared records for the unit tests; override only what a test is about
+
+export const makeVoter = (id: string, overrides: Partial<Voter> = {}): Voter => ({
+  id,
+  fullName: `ناخب ${id}`,
+  phoneNumber: '',
+  createdAt: 1,
+  ...overrides,
+});
+
+export const makePoint = (id = 'p1', overrides: Partial<LocationPoint> = {}): LocationPoint => ({
+  id,
+  name: `مدرسة ${id}`,
+  district: 'الكرادة',
+  count: 10,
+  lat: 33.3,
+  lng: 44.4,
+  createdAt: 1,
+  voters: [],
+  ...overrides,
+});
+
+// The shapes the storage layer and the sync server keep
+export const toStoredPoint = ({ voters, ...point }: LocationPoint): StoredPoint => point;
+
+export const toStoredVoter = (schoolId: string, voter: Voter): StoredVoter => ({ ...voter, schoolId });
@@ -1,17 +1,210 @@
+export type Gender = 'male' | 'female';
+
+// Campaign workflow: volunteers move each voter along as they call them
+export type VoterStatus = 'not_contacted' | 'contacted' | 'supporter' | 'undecided' | 'declined' | 'voted';
+
+export interface ContactLogEntry {
+  id: string;
+  at: number;
+  status: VoterStatus;
+  note?: string;
+}
+
 export interface Voter {
   id: string;
   fullName: string;
+  // Stored normalized as 07XXXXXXXXX when it is a valid Iraqi mobile number
   phoneNumber: string;
+  // National ID or voter card number
+  nationalId?: string;
+  gender?: Gender;
+  // Age is shown derived from this so it stays correct over time
+  birthYear?: number;
+  address?: string;
+  notes?: string;
+  tags?: string[];
+  // Values of the project's custom fields, keyed by `CustomFieldDefinition.id`
+  customFields?: Record<string, string>;
+  // Missing means not contacted yet
+  status?: VoterStatus;
+  // Oldest first
+  contactLog?: ContactLogEntry[];
   createdAt: number;
+  updatedAt?: number;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'select';
+
+// Extra voter field defined per project (e.g. "العشيرة", "جهة العمل")
+export interface CustomFieldDefinition {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  // Choices for `select` fields
+  options?: string[];
+  required?: boolean;
 }
 
+/**
+ * How a school's voter total is determined:
+ * - manual: the typed `count` only
+ * - derived: the number of names entered in `voters`
+ * - both: `count` is the registered/expected figure and the roll is tracked against it
+ */
+export type CountMode = 'manual' | 'derived' | 'both';
+
 export interface LocationPoint {
   id: string;
   lat: number;
   lng: number;
   name: string;
   district: string;
+  // Registered/expected voters, as typed or imported
   count: number;
+  countMode?: CountMode;
   createdAt: number;
+  updatedAt?: number;
   voters?: Voter[];
-}
\ No newline at end of file
+  // Volunteers (`Volunteer.id`) assigned to visit this school
+  volunteerIds?: string[];
+  // Election day: voter id -> when they were checked in at the station. Kept apart
+  // from the voters' contact status so the next election starts from a clean slate.
+  checkIns?: Record<string, number>;
+  // Election day totals reported by the polling station
+  turnoutReports?: TurnoutReport[];
+}
+
+// A school imported without coordinates, waiting in the geocoding queue until it is placed
+export type UnplacedPoint = Omit<LocationPoint, 'lat' | 'lng'>;
+
+export interface AnalysisReport {
+  id: string;
+  content: string;
+  createdAt: number;
+  pointCount: number;
+  totalVoters: number;
+  district?: string;
+}
+
+export interface ProjectSettings {
+  selectedDistrict: string;
+  hiddenPointIds: string[];
+  voterFields: CustomFieldDefinition[];
+  areas: SavedArea[];
+  volunteers: Volunteer[];
+  region: MapRegion;
+}
+
+export type VolunteerRole = 'coordinator' | 'canvasser' | 'caller' | 'observer' | 'driver';
+
+export interface Volunteer {
+  id: string;
+  name: string;
+  // Normalized like `Voter.phoneNumber`
+  phone: string;
+  role: VolunteerRole;
+  createdAt: number;
+}
+
+// --- Areas drawn on the map (saved with the project) ---
+
+// [lat, lng] as Leaflet takes it, unlike the GeoJSON order of `Ring`
+export type LatLngPair = [number, number];
+
+// [south, west, north, east]
+export type BBox = [number, number, number, number];
+
+// Where the project works: the map opens here and place search is biased to `bbox`
+export interface MapRegion {
+  // A governorate id from the built-in list, or 'custom' for a box drawn on the map
+  id: string;
+  name: string;
+  center: LatLngPair;
+  zoom: number;
+  bbox: BBox;
+  // ISO 3166-1 alpha-2, lower case
+  countryCode: string;
+  // Language for place names, e.g. "ar"
+  language: string;
+}
+
+export type AreaShape =
+  | { type: 'polygon'; latlngs: LatLngPair[] }
+  | { type: 'rectangle'; bounds: [LatLngPair, LatLngPair] }
+  // Radius in meters
+  | { type: 'circle'; center: LatLngPair; radius: number };
+
+export interface SavedArea {
+  id: string;
+  name: string;
+  color: string;
+  shape: AreaShape;
+  createdAt: number;
+}
+
+// --- District boundaries (uploaded GeoJSON, kept on this device only) ---
+
+// [lng, lat] as in GeoJSON
+export type Ring = [number, number][];
+
+export interface DistrictBoundary {
+  id: string;
+  name: string;
+  // Each polygon is an outer ring followed by its holes
+  polygons: Ring[][];
+}
+
+export interface DistrictBoundaries {
+  boundaries: DistrictBoundary[];
+  // Free-text `district` (normalized key) -> boundary id, for names that don't match a boundary exactly
+  aliases: Record<string, string>;
+}
+
+// --- Election day turnout (check-ins are the voters' "voted" status) ---
+
+// A cumulative count reported by a polling station, e.g. "412 by 11:00"
+export interface TurnoutReport {
+  id: string;
+  at: number;
+  count: number;
+}
+
+// One school's election day record
+export interface SchoolTurnout {
+  // Voter id -> time they were checked in
+  checkIns: Record<string, number>;
+  reports: TurnoutReport[];
+}
+
+// --- Sync (shared by the client and the server in /server) ---
+
+export type StoredPoint = Omit<LocationPoint, 'voters'>;
+export type StoredVoter = Voter & { schoolId: string };
+
+// A single pending change; `timestamp` is when the client made it and is used for last-write-wins
+export type SyncOperation =
+  | { kind: 'upsertPoint'; point: StoredPoint; timestamp: number }
+  | { kind: 'deletePoint'; id: string; timestamp: number }
+  | { kind: 'upsertVoter'; voter: StoredVoter; timestamp: number }
+  | { kind: 'deleteVoter'; id: string; timestamp: number };
+
+export interface SyncTombstone {
+  id: string;
+  type: 'point' | 'voter';
+  deletedAt: number;
+}
+
+export interface SyncChanges {
+  points: StoredPoint[];
+  voters: StoredVoter[];
+  tombstones: SyncTombstone[];
+  serverTime: number;
+}
+
+export interface SyncResult {
+  operation: SyncOperation;
+  status: 'applied' | 'conflict';
+  // On conflict: the newer record the server kept, or its tombstone if it was deleted
+  current?: StoredPoint | StoredVoter;
+  tombstone?: SyncTombstone;
+}
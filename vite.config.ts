@@ -1,7 +1,24 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the built files for the service worker (public/sw.js) to cache on install,
+// with a version derived from their hashed names
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const urls = Object.keys(bundle).filter(file => !file.endsWith('.html')).sort().map(file => `/${file}`);
+    const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.js',
+      source: `self.PRECACHE_VERSION = ${JSON.stringify(version)};\nself.PRECACHE_URLS = ${JSON.stringify(urls)};\n`,
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +26,16 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(env.GEMINI_BASE_URL),
+        'process.env.SYNC_SERVER_URL': JSON.stringify(env.SYNC_SERVER_URL),
+        'process.env.NOMINATIM_URL': JSON.stringify(env.NOMINATIM_URL),
+        'process.env.OVERPASS_URL': JSON.stringify(env.OVERPASS_URL),
+        'process.env.GEOCODER_URL': JSON.stringify(env.GEOCODER_URL),
+        'process.env.TILE_URL': JSON.stringify(env.TILE_URL)
       },
       resolve: {
         alias: {